@@ -1,66 +1,234 @@
-// Main App component with error boundary and context provider
-import React, { useState } from 'react';
-import { StudentProvider } from './context/StudentContext';
+// Main App component with error boundary, routing and context providers
+import { ReactNode } from 'react';
+import { LocaleProvider, useLocale } from './context/LocaleContext';
+import { RouterProvider, useRouter } from './context/RouterContext';
+import { RepositoryProvider } from './context/RepositoryContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import { ThemeProvider } from './context/ThemeContext';
+import { QueryProvider } from './context/QueryContext';
+import { SettingsProvider } from './context/SettingsContext';
+import { CourseProvider } from './context/CourseContext';
+import { AttendanceProvider } from './context/AttendanceContext';
+import { StudentProvider, useStudentContext } from './context/StudentContext';
 import { Dashboard } from './components/Dashboard';
+import { StudentDetail } from './components/StudentDetail';
+import { CourseManager } from './components/CourseManager';
+import { RollCall } from './components/RollCall';
+import { AbsenceReport } from './components/AbsenceReport';
+import { Analytics } from './components/Analytics';
+import { AuditLog } from './components/AuditLog';
+import { BrandingSettings } from './components/BrandingSettings';
 import { MentoringGuide } from './components/MentoringGuide';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { BookOpen, LayoutDashboard } from 'lucide-react';
+import { AuthGate } from './components/AuthGate';
+import { UndoToast } from './components/UndoToast';
+import { NotFound } from './components/NotFound';
+import { Link } from './components/Link';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { ThemeToggle } from './components/ThemeToggle';
+import { useBranding } from './hooks/useBranding';
+import { paths, writeRosterQuery } from './utils/routes';
+import { roleLabel } from './utils/permissions';
+import { BarChart3, BookOpen, LayoutDashboard, Library, LogOut, Palette, ScrollText } from 'lucide-react';
+
+const tabClass = (isActive: boolean) =>
+  `flex items-center px-3 py-4 text-sm font-medium border-b-2 transition-colors ${
+    isActive
+      ? 'text-primary-600 border-primary-600'
+      : 'text-gray-500 border-transparent hover:text-gray-700 hover:border-gray-300'
+  }`;
 
 /**
- * Main App component - demonstrates application structure and error handling
- * Shows how to organize a React application with proper separation of concerns
+ * Navigation tabs - links, so views can be opened in new tabs and bookmarked
  */
-function App() {
-  const [currentView, setCurrentView] = useState<'dashboard' | 'guide'>('dashboard');
+function Navigation() {
+  const { route } = useRouter();
+  const { state } = useStudentContext();
+  const { user, can, signOut } = useAuth();
+  const { t } = useLocale();
+
+  const tabs: { id: string; to: string; label: string; icon: ReactNode; isActive: boolean; isVisible?: boolean }[] = [
+    {
+      id: 'students',
+      // Coming back to the roster restores the search and filter in use
+      to: paths.students() + writeRosterQuery({ searchTerm: state.searchTerm, courseId: state.selectedCourseFilter }),
+      label: t('nav.dashboard'),
+      icon: <LayoutDashboard className="w-4 h-4 me-2" />,
+      isActive: route.name === 'students' || route.name === 'student' || route.name === 'editStudent',
+    },
+    {
+      id: 'courses',
+      to: paths.courses(),
+      label: t('nav.courses'),
+      icon: <Library className="w-4 h-4 me-2" />,
+      isActive: route.name === 'courses' || route.name === 'attendance' || route.name === 'absenceReport',
+    },
+    {
+      id: 'analytics',
+      to: paths.analytics(),
+      label: t('nav.analytics'),
+      icon: <BarChart3 className="w-4 h-4 me-2" />,
+      isActive: route.name === 'analytics',
+    },
+    {
+      id: 'audit',
+      to: paths.audit(),
+      label: t('nav.auditLog'),
+      icon: <ScrollText className="w-4 h-4 me-2" />,
+      isActive: route.name === 'audit',
+      isVisible: can('audit:view'),
+    },
+    {
+      id: 'branding',
+      to: paths.branding(),
+      label: t('nav.branding'),
+      icon: <Palette className="w-4 h-4 me-2" />,
+      isActive: route.name === 'branding',
+      isVisible: can('settings:manage'),
+    },
+    {
+      id: 'guide',
+      to: paths.guide(),
+      label: t('nav.guide'),
+      icon: <BookOpen className="w-4 h-4 me-2" />,
+      isActive: route.name === 'guide',
+    },
+  ];
 
   return (
-    <ErrorBoundary>
-      <StudentProvider>
-        <div className="min-h-screen bg-gray-50">
-          {/* Navigation Tabs */}
-          <nav className="bg-white shadow-sm">
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-              <div className="flex space-x-8">
-                <button
-                  onClick={() => setCurrentView('dashboard')}
-                  className={`flex items-center px-3 py-4 text-sm font-medium border-b-2 transition-colors ${
-                    currentView === 'dashboard'
-                      ? 'text-blue-600 border-blue-600'
-                      : 'text-gray-500 border-transparent hover:text-gray-700 hover:border-gray-300'
-                  }`}
-                >
-                  <LayoutDashboard className="w-4 h-4 mr-2" />
-                  Dashboard
-                </button>
+    <nav className="bg-surface shadow-sm print:hidden">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center gap-8">
+          {tabs.filter(tab => tab.isVisible !== false).map(tab => (
+            <Link
+              key={tab.id}
+              to={tab.to}
+              className={tabClass(tab.isActive)}
+              aria-current={tab.isActive ? 'page' : undefined}
+            >
+              {tab.icon}
+              {tab.label}
+            </Link>
+          ))}
+          <div className="ms-auto flex items-center text-sm text-gray-600">
+            <ThemeToggle className="me-3" />
+            <LanguageSwitcher className="me-3" />
+            {user && (
+              <>
+                <span className="hidden sm:inline">
+                  {user.name} <span className="text-gray-400">· {roleLabel(user.role)}</span>
+                </span>
                 <button
-                  onClick={() => setCurrentView('guide')}
-                  className={`flex items-center px-3 py-4 text-sm font-medium border-b-2 transition-colors ${
-                    currentView === 'guide'
-                      ? 'text-blue-600 border-blue-600'
-                      : 'text-gray-500 border-transparent hover:text-gray-700 hover:border-gray-300'
-                  }`}
+                  onClick={() => signOut().catch(() => undefined)}
+                  className="ms-3 inline-flex items-center px-3 py-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100"
                 >
-                  <BookOpen className="w-4 h-4 mr-2" />
-                  Learning Guide
+                  <LogOut className="w-4 h-4 me-1 rtl:rotate-180" />
+                  {t('nav.signOut')}
                 </button>
-              </div>
-            </div>
-          </nav>
-
-          {/* Main Content */}
-          <main>
-            {currentView === 'dashboard' ? (
-              <Dashboard />
-            ) : (
-              <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                <MentoringGuide />
-              </div>
+              </>
             )}
-          </main>
+          </div>
         </div>
-      </StudentProvider>
+      </div>
+    </nav>
+  );
+}
+
+/**
+ * Picks the view for the current route
+ */
+function Routes() {
+  const { route } = useRouter();
+  const { can } = useAuth();
+  const { t } = useLocale();
+
+  switch (route.name) {
+    case 'students':
+      return <Dashboard />;
+    case 'editStudent':
+      return <Dashboard editingStudentId={route.id} />;
+    case 'student':
+      return <StudentDetail studentId={route.id} />;
+    case 'courses':
+      return <CourseManager />;
+    case 'attendance':
+      return <RollCall courseId={route.courseId} />;
+    case 'absenceReport':
+      return <AbsenceReport />;
+    case 'analytics':
+      return <Analytics />;
+    case 'audit':
+      return can('audit:view')
+        ? <AuditLog />
+        : <NotFound title={t('access.denied')} message={t('access.auditLog')} />;
+    case 'branding':
+      return can('settings:manage')
+        ? <BrandingSettings />
+        : <NotFound title={t('access.denied')} message={t('access.branding')} />;
+    case 'guide':
+      return (
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <MentoringGuide />
+        </div>
+      );
+    case 'notFound':
+      return <NotFound />;
+  }
+}
+
+/**
+ * Page frame of the signed-in app, in the institution's branding
+ */
+function Shell() {
+  useBranding();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      {/* Main Content */}
+      <main>
+        <Routes />
+      </main>
+
+      {/* Undo affordance and shortcuts work across every view */}
+      <UndoToast />
+    </div>
+  );
+}
+
+/**
+ * Main App component - demonstrates application structure and error handling
+ * Shows how to organize a React application with proper separation of concerns
+ */
+function App() {
+  return (
+    <ErrorBoundary>
+      <LocaleProvider>
+        <RouterProvider>
+          <RepositoryProvider>
+            <AuthProvider>
+              <ThemeProvider>
+                <AuthGate>
+                  <QueryProvider>
+                    <SettingsProvider>
+                      <CourseProvider>
+                        <AttendanceProvider>
+                          <StudentProvider>
+                            <Shell />
+                          </StudentProvider>
+                        </AttendanceProvider>
+                      </CourseProvider>
+                    </SettingsProvider>
+                  </QueryProvider>
+                </AuthGate>
+              </ThemeProvider>
+            </AuthProvider>
+          </RepositoryProvider>
+        </RouterProvider>
+      </LocaleProvider>
     </ErrorBoundary>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
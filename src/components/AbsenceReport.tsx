@@ -0,0 +1,191 @@
+// Absence report - printable list of absences and late arrivals over a date range
+import React, { useMemo } from 'react';
+import { useCourses } from '../hooks/useCourses';
+import { useStudentContext } from '../context/StudentContext';
+import { useAttendance } from '../context/AttendanceContext';
+import { useAuth } from '../context/AuthContext';
+import { useRouter } from '../context/RouterContext';
+import { useLocale } from '../context/LocaleContext';
+import { buildAbsenceReport, formatRate, fromDateInputValue } from '../utils/attendance';
+import { scopeCourses } from '../utils/permissions';
+import { ReportQuery, paths, readReportQuery, writeReportQuery } from '../utils/routes';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Link } from './Link';
+import { AlertCircle, FileText, Printer, RefreshCw } from 'lucide-react';
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-sm';
+
+/**
+ * Absence Report component - demonstrates deriving a report from shared state and print styles
+ * Filters live in the query string; the controls and navigation are hidden when printing
+ */
+export const AbsenceReport: React.FC = () => {
+  const { location, navigate } = useRouter();
+  const { courses, loading: coursesLoading } = useCourses();
+  const { state, visibleStudents } = useStudentContext();
+  const { user } = useAuth();
+  const { sessions, loading, error, retrySessions } = useAttendance();
+  const { t, locale, formatDate } = useLocale();
+
+  // Instructors only report on the courses they teach
+  const visibleCourses = useMemo(() => scopeCourses(user, courses ?? []), [user, courses]);
+
+  const query = readReportQuery(location.search);
+  const { from, to, courseId } = query;
+
+  const updateQuery = (changes: Partial<ReportQuery>) => {
+    navigate(paths.absenceReport() + writeReportQuery({ ...query, ...changes }), { replace: true });
+  };
+
+  const rows = useMemo(
+    () => {
+      const visibleCourseIds = new Set(visibleCourses.map(course => course.id));
+      const visibleSessions = (sessions ?? []).filter(session => visibleCourseIds.has(session.courseId));
+      return buildAbsenceReport(visibleSessions, visibleStudents, visibleCourses, { from, to, courseId });
+    },
+    [sessions, visibleStudents, visibleCourses, from, to, courseId]
+  );
+
+  const courseName = courseId !== null ? visibleCourses.find(course => course.id === courseId)?.name : undefined;
+  const rangeLabel = from || to
+    ? `${from ? formatDate(fromDateInputValue(from)) : t('absence.firstSession')} – ${
+        to ? formatDate(fromDateInputValue(to)) : t('absence.today')
+      }`
+    : t('absence.allSessions');
+
+  if (coursesLoading || (loading && !sessions) || !state.isHydrated) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-24">
+        <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('attendance.loadFailed')}</h1>
+        <p className="text-gray-600 mb-4">{error}</p>
+        <button
+          onClick={retrySessions}
+          className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4 me-2" />
+          {t('common.retry')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:p-0 print:max-w-none">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <FileText className="w-7 h-7 text-primary-600 me-3 print:hidden" />
+            {t('absence.title')}
+          </h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {courseName ?? t('report.allCourses')} · {rangeLabel}
+          </p>
+        </div>
+        <button
+          onClick={() => window.print()}
+          className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors print:hidden"
+        >
+          <Printer className="w-4 h-4 me-2" />
+          {t('absence.print')}
+        </button>
+      </div>
+
+      <div className="bg-surface rounded-xl shadow-md p-4 mb-6 flex flex-wrap items-end gap-4 print:hidden">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('report.from')}</span>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => updateQuery({ from: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('report.to')}</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => updateQuery({ to: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('report.course')}</span>
+          <select
+            value={courseId ?? ''}
+            onChange={(e) => updateQuery({ courseId: e.target.value ? Number(e.target.value) : null })}
+            className={inputClass}
+          >
+            <option value="">{t('report.allCourses')}</option>
+            {visibleCourses.map(course => (
+              <option key={course.id} value={course.id}>{course.name}</option>
+            ))}
+          </select>
+        </label>
+        {(from || to || courseId !== null) && (
+          <button
+            onClick={() => updateQuery({ from: '', to: '', courseId: null })}
+            className="text-sm text-gray-600 hover:underline pb-2"
+          >
+            {t('report.clearFilters')}
+          </button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="bg-surface rounded-xl shadow-md p-6 text-sm text-gray-500">
+          {t('absence.empty')}
+        </div>
+      ) : (
+        <div className="bg-surface rounded-xl shadow-md overflow-x-auto print:shadow-none">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-start text-gray-600">
+              <tr>
+                <th className="px-4 py-3 font-medium">{t('report.student')}</th>
+                <th className="px-4 py-3 font-medium">{t('report.course')}</th>
+                <th className="px-4 py-3 font-medium text-end">{t('absence.sessions')}</th>
+                <th className="px-4 py-3 font-medium text-end">{t('attendanceStatus.absent')}</th>
+                <th className="px-4 py-3 font-medium text-end">{t('attendanceStatus.late')}</th>
+                <th className="px-4 py-3 font-medium text-end">{t('attendanceStatus.excused')}</th>
+                <th className="px-4 py-3 font-medium text-end">{t('absence.rate')}</th>
+                <th className="px-4 py-3 font-medium">{t('absence.absentOn')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ student, course, sessions: sessionCount, summary, absentOn }) => (
+                <tr key={`${student.id}-${course?.id}`} className="break-inside-avoid">
+                  <td className="px-4 py-3 text-gray-900">
+                    <Link to={paths.student(student.id)} className="hover:underline">{student.name}</Link>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{course?.name ?? t('card.unknownCourse')}</td>
+                  <td className="px-4 py-3 text-end">{sessionCount}</td>
+                  <td className="px-4 py-3 text-end">{summary.absent}</td>
+                  <td className="px-4 py-3 text-end">{summary.late}</td>
+                  <td className="px-4 py-3 text-end">{summary.excused}</td>
+                  <td className="px-4 py-3 text-end font-medium">
+                    {summary.rate === null ? '—' : formatRate(summary.rate, locale)}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {absentOn.map(date => formatDate(date)).join(', ') || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
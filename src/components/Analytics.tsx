@@ -0,0 +1,239 @@
+// Analytics view - enrollment trends, growth and course distribution
+import React, { useMemo, useState } from 'react';
+import { useCourses } from '../hooks/useCourses';
+import { useStudentContext } from '../context/StudentContext';
+import { useRouter } from '../context/RouterContext';
+import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
+import {
+  CHART_COLORS,
+  buildEnrollmentTrend,
+  courseDistribution,
+  formatGrowth,
+  formatWeek,
+  lastWeeksRange,
+  weekOverWeekGrowth,
+} from '../utils/analytics';
+import { scopeCourses } from '../utils/permissions';
+import { ReportQuery, paths, readReportQuery, writeReportQuery } from '../utils/routes';
+import { BarChart, LineChart, PieChart } from './Charts';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BarChart3, PieChart as PieChartIcon, TrendingDown, TrendingUp } from 'lucide-react';
+
+type DistributionView = 'pie' | 'bar';
+
+// Range shortcuts, in weeks
+const RANGE_SHORTCUTS = [4, 12];
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-sm';
+
+interface StatTileProps {
+  label: string;
+  value: string;
+  detail?: React.ReactNode;
+}
+
+const StatTile: React.FC<StatTileProps> = ({ label, value, detail }) => (
+  <div className="bg-surface rounded-xl shadow-md p-4">
+    <div className="text-sm text-gray-500">{label}</div>
+    <div className="text-2xl font-bold text-gray-900">{value}</div>
+    {detail && <div className="text-xs text-gray-500 mt-1">{detail}</div>}
+  </div>
+);
+
+/**
+ * Analytics component - demonstrates deriving chart data with useMemo from shared state
+ * Everything is computed from the roster already in memory; filters live in the query string
+ */
+export const Analytics: React.FC = () => {
+  const { location, navigate } = useRouter();
+  const { courses, loading: coursesLoading } = useCourses();
+  const { state, visibleStudents } = useStudentContext();
+  const { user } = useAuth();
+  const { locale, t, formatNumber } = useLocale();
+  const [distributionView, setDistributionView] = useState<DistributionView>('pie');
+
+  const query = readReportQuery(location.search);
+  const { from, to, courseId } = query;
+
+  const updateQuery = (changes: Partial<ReportQuery>) => {
+    navigate(paths.analytics() + writeReportQuery({ ...query, ...changes }), { replace: true });
+  };
+
+  // Instructors only see figures for the courses they teach
+  const visibleCourses = useMemo(() => scopeCourses(user, courses ?? []), [user, courses]);
+
+  const trend = useMemo(
+    () => buildEnrollmentTrend(visibleStudents, { from, to, courseId }),
+    [visibleStudents, from, to, courseId]
+  );
+
+  const distribution = useMemo(
+    () => courseDistribution(visibleStudents, visibleCourses, { from, to, courseId }),
+    [visibleStudents, visibleCourses, from, to, courseId]
+  );
+
+  const growth = weekOverWeekGrowth(trend);
+  const addedInRange = trend.reduce((sum, point) => sum + point.added, 0);
+  const activeEnrollments = distribution.reduce((sum, { counts }) => sum + counts.active, 0);
+
+  const distributionData = distribution.map(({ course, counts }, i) => ({
+    label: course.name,
+    value: counts.active,
+    color: CHART_COLORS[i % CHART_COLORS.length],
+  }));
+
+  if (coursesLoading || !state.isHydrated) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const GrowthIcon = (growth.change ?? 0) < 0 ? TrendingDown : TrendingUp;
+  const scopeLabel = courseId !== null
+    ? visibleCourses.find(course => course.id === courseId)?.name ?? t('card.unknownCourse')
+    : t('analytics.scopeAll');
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 flex items-center mb-6">
+        <BarChart3 className="w-7 h-7 text-primary-600 me-3" />
+        {t('nav.analytics')}
+      </h1>
+
+      {/* Filters */}
+      <div className="bg-surface rounded-xl shadow-md p-4 mb-6 flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('report.from')}</span>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => updateQuery({ from: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('report.to')}</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => updateQuery({ to: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('report.course')}</span>
+          <select
+            value={courseId ?? ''}
+            onChange={(e) => updateQuery({ courseId: e.target.value ? Number(e.target.value) : null })}
+            className={inputClass}
+          >
+            <option value="">{t('report.allCourses')}</option>
+            {visibleCourses.map(course => (
+              <option key={course.id} value={course.id}>{course.name}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-2 pb-0.5">
+          {RANGE_SHORTCUTS.map(weeks => (
+            <button
+              key={weeks}
+              onClick={() => updateQuery(lastWeeksRange(weeks))}
+              className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              {t('analytics.lastWeeks', { weeks })}
+            </button>
+          ))}
+          {(from || to) && (
+            <button
+              onClick={() => updateQuery({ from: '', to: '' })}
+              className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              {t('analytics.allTime')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Headline numbers */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <StatTile
+          label={t('analytics.students')}
+          value={formatNumber(trend[trend.length - 1]?.total ?? 0)}
+          detail={t('analytics.inScope', { scope: scopeLabel })}
+        />
+        <StatTile label={t('analytics.addedInRange')} value={formatNumber(addedInRange)} />
+        <StatTile
+          label={t('analytics.latestWeek')}
+          value={formatNumber(growth.thisWeek)}
+          detail={
+            <span className={`inline-flex items-center ${(growth.change ?? 0) < 0 ? 'text-red-600' : 'text-green-700'}`}>
+              <GrowthIcon className="w-3 h-3 me-1" aria-hidden="true" />
+              {t('analytics.growth', { growth: formatGrowth(growth.change, locale), lastWeek: growth.lastWeek })}
+            </span>
+          }
+        />
+        <StatTile
+          label={t('analytics.activeEnrollments')}
+          value={formatNumber(activeEnrollments)}
+          detail={t('analytics.enrolledInRange')}
+        />
+      </div>
+
+      {/* Trends */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <LineChart
+          id="analytics-total"
+          title={t('analytics.totalTitle')}
+          description={t('analytics.totalDescription', { scope: scopeLabel })}
+          data={trend.map(point => ({ label: formatWeek(point.weekStart, locale), value: point.total }))}
+        />
+        <BarChart
+          id="analytics-added"
+          title={t('analytics.addedTitle')}
+          description={t('analytics.addedDescription', { scope: scopeLabel })}
+          data={trend.map(point => ({ label: formatWeek(point.weekStart, locale), value: point.added }))}
+        />
+      </div>
+
+      {/* Course distribution */}
+      <div className="relative">
+        <div className="absolute end-6 top-5 flex rounded-lg border border-gray-300 overflow-hidden text-sm" role="group" aria-label={t('analytics.chartType')}>
+          {([['pie', t('analytics.pie'), PieChartIcon], ['bar', t('analytics.bar'), BarChart3]] as const).map(([view, label, Icon]) => (
+            <button
+              key={view}
+              onClick={() => setDistributionView(view)}
+              aria-pressed={distributionView === view}
+              className={`inline-flex items-center px-3 py-1 ${
+                distributionView === view ? 'bg-primary-600 text-on-primary' : 'bg-surface text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="w-4 h-4 me-1" />
+              {label}
+            </button>
+          ))}
+        </div>
+        {distributionView === 'pie' ? (
+          <PieChart
+            id="analytics-distribution"
+            title={t('analytics.distributionTitle')}
+            description={t('analytics.pieDescription')}
+            data={distributionData}
+          />
+        ) : (
+          <BarChart
+            id="analytics-distribution"
+            title={t('analytics.distributionTitle')}
+            description={t('analytics.barDescription')}
+            data={distributionData}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+// Assessment editor - defines the graded items of one course
+import React, { useState } from 'react';
+import { Assessment, AssessmentType, Course } from '../types';
+import { ASSESSMENT_TYPES, validateAssessments } from '../utils/grading';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ClipboardList, Plus, Trash2, X } from 'lucide-react';
+
+interface AssessmentEditorProps {
+  course: Course;
+  onSave: (assessments: Assessment[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Numbers are edited as text so a half-typed value doesn't snap back
+interface AssessmentRow {
+  id: string;
+  title: string;
+  type: AssessmentType;
+  weight: string;
+  maxScore: string;
+}
+
+const toRow = (assessment: Assessment): AssessmentRow => ({
+  ...assessment,
+  weight: String(assessment.weight),
+  maxScore: String(assessment.maxScore),
+});
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-sm';
+
+/**
+ * Assessment Editor component - demonstrates editing a list of records as one form
+ * Weights are relative, so they don't need to add up to 100
+ */
+export const AssessmentEditor: React.FC<AssessmentEditorProps> = ({ course, onSave, onCancel }) => {
+  const { t, formatNumber } = useLocale();
+  const [rows, setRows] = useState<AssessmentRow[]>((course.assessments ?? []).map(toRow));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const totalWeight = rows.reduce((sum, row) => sum + (parseFloat(row.weight) || 0), 0);
+
+  const updateRow = (id: string, changes: Partial<AssessmentRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), title: '', type: 'assignment', weight: '10', maxScore: '100' },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const assessments: Assessment[] = rows.map(row => ({
+      id: row.id,
+      title: row.title.trim(),
+      type: row.type,
+      weight: parseFloat(row.weight),
+      maxScore: parseFloat(row.maxScore),
+    }));
+    const problem = validateAssessments(assessments);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(assessments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('assessments.saveFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <ClipboardList className="w-5 h-5 me-2 text-primary-600" />
+            {t('assessments.title', { course: course.name })}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isSaving}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          {rows.length === 0 && (
+            <p className="text-sm text-gray-500">{t('assessments.empty')}</p>
+          )}
+          {rows.length > 0 && (
+            <div className="hidden md:grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+              <span className="col-span-5">{t('assessments.titleColumn')}</span>
+              <span className="col-span-3">{t('assessments.typeColumn')}</span>
+              <span className="col-span-2">{t('assessments.weight')}</span>
+              <span className="col-span-2">{t('assessments.maxScoreColumn')}</span>
+            </div>
+          )}
+          {rows.map(row => (
+            <div key={row.id} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="text"
+                value={row.title}
+                onChange={(e) => updateRow(row.id, { title: e.target.value })}
+                placeholder={t('assessments.titlePlaceholder')}
+                className={`${inputClass} col-span-12 md:col-span-5`}
+                aria-label={t('assessments.titleLabel')}
+              />
+              <select
+                value={row.type}
+                onChange={(e) => updateRow(row.id, { type: e.target.value as AssessmentType })}
+                className={`${inputClass} col-span-4 md:col-span-3`}
+                aria-label={t('assessments.typeLabel')}
+              >
+                {ASSESSMENT_TYPES.map(type => (
+                  <option key={type} value={type}>{t(`assessmentType.${type}`)}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={row.weight}
+                onChange={(e) => updateRow(row.id, { weight: e.target.value })}
+                className={`${inputClass} col-span-3 md:col-span-2`}
+                aria-label={t('assessments.weight')}
+                title={totalWeight > 0
+                  ? t('assessments.share', { share: formatNumber((parseFloat(row.weight) || 0) / totalWeight, { style: 'percent' }) })
+                  : undefined}
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={row.maxScore}
+                onChange={(e) => updateRow(row.id, { maxScore: e.target.value })}
+                className={`${inputClass} col-span-3 md:col-span-1`}
+                aria-label={t('assessments.maxScore')}
+              />
+              <button
+                onClick={() => setRows(prev => prev.filter(r => r.id !== row.id))}
+                className="col-span-2 md:col-span-1 p-2 text-gray-400 hover:text-red-600 justify-self-center"
+                aria-label={t('assessments.remove', { name: row.title || t('assessments.unnamed') })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addRow}
+            className="inline-flex items-center text-sm text-primary-600 hover:underline"
+          >
+            <Plus className="w-4 h-4 me-1" />
+            {t('assessments.add')}
+          </button>
+          <p className="text-xs text-gray-500">
+            {t('assessments.removeNote')}
+          </p>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            disabled={isSaving}
+          >
+            {isSaving && <LoadingSpinner size="sm" className="me-2" />}
+            {t('assessments.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+// Audit log view - filterable, exportable record of every roster change
+import React, { useState, useMemo } from 'react';
+import { AuditEntry, Course, CustomFieldDefinition, StudentChangeType } from '../types';
+import { useAuditLog } from '../hooks/useAuditLog';
+import { useCourses } from '../hooks/useCourses';
+import { useSettings } from '../context/SettingsContext';
+import { useLocale } from '../context/LocaleContext';
+import {
+  AUDIT_CHANGE_TYPES,
+  AuditExportFormat,
+  AuditFilter,
+  EMPTY_AUDIT_FILTER,
+  exportAuditLog,
+  filterAuditEntries,
+  listAuditActors,
+} from '../utils/audit';
+import { diffStudents } from '../utils/studentHistory';
+import { downloadBlob } from '../utils/rosterExport';
+import { paths } from '../utils/routes';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Pagination } from './Pagination';
+import { Link } from './Link';
+import { ScrollText, Search, Download, RefreshCw, AlertCircle } from 'lucide-react';
+
+const CHANGE_BADGES: Record<StudentChangeType, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-primary-100 text-primary-800',
+  deleted: 'bg-red-100 text-red-800',
+  restored: 'bg-purple-100 text-purple-800',
+};
+
+const EXPORT_FORMATS: { format: AuditExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-sm';
+
+/**
+ * One table row - the student links to their profile, except on deletion entries
+ */
+interface AuditRowProps {
+  entry: AuditEntry;
+  courses: Course[];
+  customFields: CustomFieldDefinition[];
+}
+
+const AuditRow: React.FC<AuditRowProps> = ({ entry, courses, customFields }) => {
+  const { t, formatDate } = useLocale();
+  const student = entry.after ?? entry.before;
+  const diffs = entry.type === 'updated' ? diffStudents(entry.before, entry.after, courses, customFields) : [];
+
+  return (
+    <tr className="align-top">
+      <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+        <time dateTime={entry.at.toISOString()}>
+          {formatDate(entry.at, { dateStyle: 'medium', timeStyle: 'medium' })}
+        </time>
+      </td>
+      <td className="px-4 py-3 whitespace-nowrap text-gray-900">{entry.actor.name}</td>
+      <td className="px-4 py-3">
+        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_BADGES[entry.type]}`}>
+          {t(`changeType.${entry.type}`)}
+        </span>
+        <div className="mt-1 text-xs text-gray-500">{entry.summary}</div>
+      </td>
+      <td className="px-4 py-3">
+        {entry.after ? (
+          <Link to={paths.student(entry.studentId)} className="text-primary-600 hover:underline">
+            {student?.name}
+          </Link>
+        ) : (
+          <span className="text-gray-900">{student?.name}</span>
+        )}
+        <div className="text-xs text-gray-500">{student?.email}</div>
+      </td>
+      <td className="px-4 py-3">
+        {diffs.length > 0 ? (
+          <ul className="space-y-1">
+            {diffs.map((diff, index) => (
+              <li key={index} className="text-gray-600">
+                <span className="text-gray-500">{diff.label}:</span>{' '}
+                {diff.before && <span className="line-through text-red-600">{diff.before}</span>}
+                {diff.before && diff.after && ' → '}
+                {diff.after && <span className="text-green-700">{diff.after}</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <span className="text-gray-400">—</span>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * Audit Log component - demonstrates filtering a fetched, read-only dataset entirely client-side
+ * Exports always contain exactly the entries matching the current filters
+ */
+export const AuditLog: React.FC = () => {
+  const { entries, loading, error, refresh } = useAuditLog();
+  const { courses } = useCourses();
+  const { settings: { customFields } } = useSettings();
+  const { t } = useLocale();
+
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(24);
+
+  const actors = useMemo(() => listAuditActors(entries ?? []), [entries]);
+  const filtered = useMemo(() => filterAuditEntries(entries ?? [], filter), [entries, filter]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const visible = filtered.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+
+  const updateFilter = (changes: Partial<AuditFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const handleExport = (format: AuditExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(exportAuditLog(format, filtered, courses ?? []), `audit-log-${date}.${format}`);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <ScrollText className="w-7 h-7 text-primary-600 me-3" />
+          {t('nav.auditLog')}
+        </h1>
+        <div className="flex gap-2">
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className="w-4 h-4 me-2" />
+            {t('audit.refresh')}
+          </button>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!entries}
+              className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 me-2" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-surface rounded-xl shadow-md p-4 mb-6 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="relative md:col-span-2">
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={filter.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder={t('audit.searchPlaceholder')}
+            className={`${inputClass} w-full ps-9`}
+            aria-label={t('audit.filterStudent')}
+          />
+        </div>
+        <select
+          value={filter.actorId ?? ''}
+          onChange={(e) => updateFilter({ actorId: e.target.value || null })}
+          className={inputClass}
+          aria-label={t('audit.filterActor')}
+        >
+          <option value="">{t('audit.allActors')}</option>
+          {actors.map(actor => (
+            <option key={actor.id} value={actor.id}>{actor.name}</option>
+          ))}
+        </select>
+        <select
+          value={filter.type ?? ''}
+          onChange={(e) => updateFilter({ type: (e.target.value || null) as StudentChangeType | null })}
+          className={inputClass}
+          aria-label={t('audit.filterType')}
+        >
+          <option value="">{t('audit.allChanges')}</option>
+          {AUDIT_CHANGE_TYPES.map(type => (
+            <option key={type} value={type}>{t(`changeType.${type}`)}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={(e) => updateFilter({ from: e.target.value })}
+            className={`${inputClass} min-w-0 flex-1`}
+            aria-label={t('audit.fromDate')}
+          />
+          <input
+            type="date"
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={(e) => updateFilter({ to: e.target.value })}
+            className={`${inputClass} min-w-0 flex-1`}
+            aria-label={t('audit.toDate')}
+          />
+        </div>
+      </div>
+
+      {/* Log */}
+      {loading && !entries ? (
+        <div className="flex items-center justify-center py-24">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-24">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t('audit.loadFailed')}</h2>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : filtered.length === 0 ? (
+        <p className="text-center text-gray-500 py-24">
+          {entries && entries.length > 0 ? t('audit.noMatches') : t('audit.empty')}
+        </p>
+      ) : (
+        <>
+          <div className="bg-surface rounded-xl shadow-md overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-start text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">{t('audit.when')}</th>
+                  <th className="px-4 py-3 font-medium">{t('audit.actor')}</th>
+                  <th className="px-4 py-3 font-medium">{t('audit.action')}</th>
+                  <th className="px-4 py-3 font-medium">{t('report.student')}</th>
+                  <th className="px-4 py-3 font-medium">{t('audit.changes')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map(entry => (
+                  <AuditRow key={entry.id} entry={entry} courses={courses ?? []} customFields={customFields} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <Pagination
+            page={currentPage}
+            pageSize={pageSize}
+            total={filtered.length}
+            onPageChange={setPage}
+            onPageSizeChange={(size) => {
+              setPageSize(size);
+              setPage(1);
+            }}
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+// Auth gate - renders the app only for a signed-in user
+import React, { ReactNode } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { SignIn } from './SignIn';
+import { LoadingSpinner } from './LoadingSpinner';
+
+/**
+ * Auth Gate component - demonstrates conditional rendering around a whole subtree
+ * Signing out unmounts everything below, so no roster, undo history or draft outlives the session
+ */
+export const AuthGate: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <SignIn />;
+  }
+
+  return <>{children}</>;
+};
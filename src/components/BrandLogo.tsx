@@ -0,0 +1,26 @@
+// Brand logo - the institution's uploaded logo, or the default icon
+import React from 'react';
+import { GraduationCap } from 'lucide-react';
+
+interface BrandLogoProps {
+  logo?: string;
+  size?: 'md' | 'lg';
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  md: { icon: 'w-8 h-8', image: 'h-8 max-w-[8rem]' },
+  lg: { icon: 'w-10 h-10', image: 'h-10 max-w-[10rem]' },
+};
+
+/**
+ * Brand Logo component - demonstrates a component with a graceful default
+ * Uploaded logos keep their aspect ratio at the icon's height; the title next to it names the
+ * dashboard, so the image itself is decorative
+ */
+export const BrandLogo: React.FC<BrandLogoProps> = ({ logo, size = 'md', className = '' }) =>
+  logo ? (
+    <img src={logo} alt="" className={`${SIZE_CLASSES[size].image} w-auto object-contain ${className}`} />
+  ) : (
+    <GraduationCap className={`${SIZE_CLASSES[size].icon} text-primary-600 ${className}`} aria-hidden="true" />
+  );
@@ -0,0 +1,286 @@
+// Branding settings - the institution's colour, logo and dashboard title
+import React, { useRef, useState } from 'react';
+import { Branding } from '../types';
+import { useSettings } from '../context/SettingsContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { DEFAULT_BRANDING, MAX_TITLE_LENGTH, MIN_LOGO_SIZE, renderLogo, validateBranding } from '../utils/branding';
+import { MIN_TEXT_CONTRAST, checkBrandContrast, isHexColor, normalizeHexColor, primaryColorVariables } from '../utils/theme';
+import { ACCEPTED_IMAGE_TYPES, loadImage, validateImageFile } from '../utils/photos';
+import { BrandLogo } from './BrandLogo';
+import { LoadingSpinner } from './LoadingSpinner';
+import { AlertTriangle, CheckCircle, ImagePlus, Palette, Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface';
+
+interface BrandingFormProps {
+  saved: Branding;
+  onSave: (branding: Branding) => Promise<void>;
+}
+
+/**
+ * The form and its live preview, mounted once the stored branding is known
+ * The preview recolours only itself (CSS variables cascade), so nothing changes for the rest of
+ * the page until the branding is saved
+ */
+const BrandingForm: React.FC<BrandingFormProps> = ({ saved, onSave }) => {
+  const { theme } = useTheme();
+  const { t, formatNumber } = useLocale();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<Branding>(saved);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoadingLogo, setIsLoadingLogo] = useState(false);
+  const [error, setError] = useState('');
+  const [logoError, setLogoError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const update = (changes: Partial<Branding>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setMessage('');
+  };
+
+  const validColor = isHexColor(draft.primaryColor);
+  const contrastChecks = validColor ? checkBrandContrast(draft.primaryColor) : [];
+  const previewStyle = validColor ? (primaryColorVariables(draft.primaryColor, theme) as React.CSSProperties) : undefined;
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const problem = validateImageFile(file);
+    if (problem) {
+      setLogoError(problem);
+      return;
+    }
+    setIsLoadingLogo(true);
+    setLogoError('');
+    try {
+      const image = await loadImage(file, MIN_LOGO_SIZE);
+      update({ logo: renderLogo(image) });
+      URL.revokeObjectURL(image.src);
+    } catch (err) {
+      setLogoError(err instanceof Error ? err.message : t('common.unknownError'));
+    } finally {
+      setIsLoadingLogo(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const next: Branding = {
+      primaryColor: validColor ? normalizeHexColor(draft.primaryColor) : draft.primaryColor,
+      title: draft.title.trim(),
+      ...(draft.logo ? { logo: draft.logo } : {}),
+    };
+    const problem = validateBranding(next);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(next);
+      setDraft(next);
+      setMessage(t('branding.saved'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('branding.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Settings */}
+      <div className="bg-surface rounded-xl shadow-md p-6 space-y-5">
+        <div>
+          <label htmlFor="branding-title" className="block text-sm font-medium text-gray-700 mb-2">
+            {t('branding.dashboardTitle')}
+          </label>
+          <input
+            id="branding-title"
+            type="text"
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+            maxLength={MAX_TITLE_LENGTH}
+            placeholder={t('app.title')}
+            className={inputClass}
+            disabled={isSaving}
+          />
+          <p className="mt-1 text-xs text-gray-500">{t('branding.titleHint', { fallback: t('app.title') })}</p>
+        </div>
+
+        <div>
+          <label htmlFor="branding-color" className="block text-sm font-medium text-gray-700 mb-2">
+            {t('branding.primaryColor')}
+          </label>
+          <div className="flex items-center gap-3">
+            <input
+              type="color"
+              value={validColor ? normalizeHexColor(draft.primaryColor) : DEFAULT_BRANDING.primaryColor}
+              onChange={(e) => update({ primaryColor: e.target.value })}
+              className="w-12 h-10 p-1 border border-gray-300 rounded-lg bg-surface cursor-pointer"
+              aria-label={t('branding.primaryColor')}
+              disabled={isSaving}
+            />
+            <input
+              id="branding-color"
+              type="text"
+              value={draft.primaryColor}
+              onChange={(e) => update({ primaryColor: e.target.value })}
+              className={`${inputClass} font-mono`}
+              spellCheck={false}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">{t('branding.logo')}</span>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-24 h-14 border border-dashed border-gray-300 rounded-lg">
+              <BrandLogo logo={draft.logo} />
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                handleLogo(e.target.files?.[0]);
+                // Picking the same file again should still trigger a change
+                e.target.value = '';
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              disabled={isSaving || isLoadingLogo}
+              className="inline-flex items-center px-3 py-2 text-sm text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors disabled:opacity-50"
+            >
+              {isLoadingLogo ? <LoadingSpinner size="sm" className="me-2" /> : <ImagePlus className="w-4 h-4 me-2" />}
+              {t('branding.uploadLogo')}
+            </button>
+            {draft.logo && (
+              <button
+                type="button"
+                onClick={() => update({ logo: undefined })}
+                disabled={isSaving}
+                className="inline-flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-4 h-4 me-2" />
+                {t('branding.removeLogo')}
+              </button>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">{t('branding.logoHint')}</p>
+          {logoError && <p className="mt-1 text-sm text-red-600">{logoError}</p>}
+        </div>
+      </div>
+
+      {/* Preview and contrast */}
+      <div className="space-y-6">
+        <div className="bg-surface rounded-xl shadow-md overflow-hidden" style={previewStyle}>
+          <p className="px-6 pt-4 text-xs font-medium uppercase tracking-wide text-gray-500">{t('branding.preview')}</p>
+          <div className="flex items-center px-6 py-4 border-b border-gray-200">
+            <BrandLogo logo={draft.logo} className="me-3" />
+            <span className="text-xl font-bold text-gray-900 truncate">{draft.title.trim() || t('app.title')}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 px-6 py-4">
+            <span className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg shadow-sm">
+              <Plus className="w-4 h-4 me-2" />
+              {t('dashboard.addStudent')}
+            </span>
+            <span className="text-primary-600 underline">{t('branding.sampleLink')}</span>
+          </div>
+        </div>
+
+        <div className="bg-surface rounded-xl shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">{t('branding.contrast')}</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            {t('branding.contrastNote', { min: formatNumber(MIN_TEXT_CONTRAST, { minimumFractionDigits: 1 }) })}
+          </p>
+          <ul className="space-y-2">
+            {contrastChecks.map(check => (
+              <li key={`${check.theme}-${check.usage}`} className="flex items-center text-sm">
+                {check.passes ? (
+                  <CheckCircle className="w-4 h-4 me-2 text-green-600" aria-hidden="true" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 me-2 text-red-600" aria-hidden="true" />
+                )}
+                <span className="text-gray-700">{t('branding.contrastCheck', { usage: check.usage, theme: check.theme })}</span>
+                <span className={`ms-auto font-mono ${check.passes ? 'text-gray-900' : 'text-red-600 font-semibold'}`}>
+                  {t('branding.contrastRatio', { ratio: formatNumber(check.ratio, { maximumFractionDigits: 1 }) })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 space-y-3">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg" role="alert">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving && <LoadingSpinner size="sm" className="me-2" />}
+            {t('branding.save')}
+          </button>
+          <button
+            type="button"
+            onClick={() => update({ ...DEFAULT_BRANDING, logo: undefined })}
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4 me-2" />
+            {t('branding.reset')}
+          </button>
+          {message && (
+            <span className="text-sm text-green-700" role="status">{message}</span>
+          )}
+        </div>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Branding Settings component - demonstrates a settings screen with a live, scoped preview
+ * Colours that would leave button labels or links unreadable in either theme can't be saved
+ */
+export const BrandingSettings: React.FC = () => {
+  const { settings, loading, updateSettings } = useSettings();
+  const { t } = useLocale();
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 flex items-center mb-2">
+        <Palette className="w-7 h-7 text-primary-600 me-3" />
+        {t('branding.heading')}
+      </h1>
+      <p className="text-gray-600 mb-6">{t('branding.intro')}</p>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <BrandingForm
+          saved={settings.branding}
+          onSave={async (branding) => {
+            await updateSettings({ ...settings, branding });
+          }}
+        />
+      )}
+    </div>
+  );
+};
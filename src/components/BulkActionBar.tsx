@@ -0,0 +1,192 @@
+// Bulk action bar - acts on every selected student at once
+import React, { useState } from 'react';
+import { Course, Student } from '../types';
+import { useStudentContext } from '../context/StudentContext';
+import { useAuth } from '../context/AuthContext';
+import { useSettings } from '../context/SettingsContext';
+import { useLocale } from '../context/LocaleContext';
+import { confirmStudentsDeletion } from '../utils/confirmations';
+import { normalizeTag } from '../utils/tags';
+import { ExportMenu } from './ExportMenu';
+import { LoadingSpinner } from './LoadingSpinner';
+import { CheckSquare, X, Trash2, ArrowRightLeft, Tag } from 'lucide-react';
+
+interface BulkActionBarProps {
+  selectedStudents: Student[];
+  matchingCount: number;
+  courses: Course[];
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Bulk Action Bar component - demonstrates batching several records into one context call
+ * Every action is a single repository request and a single reducer action
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedStudents,
+  matchingCount,
+  courses,
+  onSelectAll,
+  onClear
+}) => {
+  const { deleteStudents, moveStudentsToCourse, tagStudents } = useStudentContext();
+  const { can } = useAuth();
+  const { settings: { customFields } } = useSettings();
+  const { t } = useLocale();
+
+  const [targetCourseId, setTargetCourseId] = useState('');
+  const [tag, setTag] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const count = selectedStudents.length;
+  const ids = selectedStudents.map(student => student.id);
+
+  /**
+   * Runs one bulk action, keeping the selection only if it failed
+   * Resolves to whether the action succeeded
+   */
+  const run = async (action: () => Promise<unknown>, clearSelection: boolean = true): Promise<boolean> => {
+    setIsWorking(true);
+    setError('');
+    try {
+      await action();
+      if (clearSelection) {
+        onClear();
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('bulk.failed'));
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirmStudentsDeletion(count)) {
+      run(() => deleteStudents(ids));
+    }
+  };
+
+  const handleMove = () => {
+    if (!targetCourseId) {
+      return;
+    }
+    run(() => moveStudentsToCourse(ids, parseInt(targetCourseId))).then(ok => ok && setTargetCourseId(''));
+  };
+
+  const handleTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!normalizeTag(tag)) {
+      return;
+    }
+    // Tagging keeps the selection so several tags can be applied in a row
+    run(() => tagStudents(ids, tag), false).then(ok => ok && setTag(''));
+  };
+
+  const controlClass = 'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface';
+
+  return (
+    <div className="mb-6 bg-primary-50 border border-primary-200 rounded-xl p-4">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        {/* Selection summary */}
+        <div className="flex items-center gap-3 text-sm">
+          <span className="font-semibold text-primary-900">{t('bulk.selected', { count })}</span>
+          {count < matchingCount && (
+            <button
+              onClick={onSelectAll}
+              className="inline-flex items-center text-primary-700 hover:underline"
+              disabled={isWorking}
+            >
+              <CheckSquare className="w-4 h-4 me-1" />
+              {t('bulk.selectAll', { count: matchingCount })}
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="inline-flex items-center text-gray-600 hover:underline"
+            disabled={isWorking}
+          >
+            <X className="w-4 h-4 me-1" />
+            {t('bulk.clear')}
+          </button>
+          {isWorking && <LoadingSpinner size="sm" />}
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-2 lg:ms-auto">
+          {can('student:update') && (
+            <div className="flex items-center gap-1">
+              <select
+                value={targetCourseId}
+                onChange={(e) => setTargetCourseId(e.target.value)}
+                className={controlClass}
+                disabled={isWorking}
+                aria-label={t('bulk.moveLabel')}
+              >
+                <option value="">{t('bulk.moveTo')}</option>
+                {courses.filter(course => course.status === 'active' && can('student:update', course.id)).map(course => (
+                  <option key={course.id} value={course.id}>{course.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleMove}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-primary-600 bg-surface border border-primary-200 rounded-lg hover:bg-primary-100 transition-colors disabled:opacity-50"
+                disabled={isWorking || !targetCourseId}
+              >
+                <ArrowRightLeft className="w-4 h-4 me-1" />
+                {t('bulk.move')}
+              </button>
+            </div>
+          )}
+
+          {can('student:update') && (
+            <form onSubmit={handleTag} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                placeholder={t('bulk.tag')}
+                className={`${controlClass} w-28`}
+                disabled={isWorking}
+                aria-label={t('bulk.tagLabel')}
+              />
+              <button
+                type="submit"
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-primary-600 bg-surface border border-primary-200 rounded-lg hover:bg-primary-100 transition-colors disabled:opacity-50"
+                disabled={isWorking || !normalizeTag(tag)}
+              >
+                <Tag className="w-4 h-4 me-1" />
+                {t('bulk.assign')}
+              </button>
+            </form>
+          )}
+
+          <ExportMenu
+            sources={[{ id: 'selected', label: t('bulk.exportSource'), students: selectedStudents }]}
+            courses={courses}
+            customFields={customFields}
+            buttonLabel={t('bulk.export')}
+          />
+
+          {can('student:delete') && (
+            <button
+              onClick={handleDelete}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+              disabled={isWorking}
+            >
+              <Trash2 className="w-4 h-4 me-1" />
+              {t('common.delete')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-700">{error}</p>
+      )}
+    </div>
+  );
+};
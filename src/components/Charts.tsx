@@ -0,0 +1,249 @@
+// Charts - small dependency-free SVG line, bar and pie charts
+import React from 'react';
+import { CHART_COLORS } from '../utils/analytics';
+import { formatNumber, translate } from '../utils/i18n';
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+  // Overrides the palette colour for bars and slices
+  color?: string;
+}
+
+interface ChartProps {
+  title: string;
+  // One sentence read out by screen readers in place of the picture
+  description: string;
+  data: ChartDatum[];
+  // Formats values in tooltips and the data table
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+// Time runs left to right and the axis sits on the left in every locale; the charts set direction="ltr"
+// so text-anchor keeps its meaning on right-to-left pages
+const MARGIN = { top: 12, right: 12, bottom: 32, left: 40 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// In the active locale; the views that draw charts re-render when it changes
+const defaultFormat = (value: number) => formatNumber(value);
+
+/**
+ * Rounds a maximum up to 1, 2 or 5 times a power of ten, so axis ticks land on round numbers
+ */
+const niceMax = (max: number): number => {
+  if (max <= 0) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(max));
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= max) ?? 10;
+  return step * magnitude;
+};
+
+const TICK_COUNT = 4;
+
+// Shows roughly eight x-axis labels, however many points there are
+const labelEvery = (count: number) => Math.max(1, Math.ceil(count / 8));
+
+/**
+ * The figure shared by every chart: the SVG is described by its title and description,
+ * and the same numbers are available as a table to screen readers
+ */
+const ChartFigure: React.FC<ChartProps & { id: string; children: React.ReactNode }> = ({
+  id,
+  title,
+  description,
+  data,
+  formatValue = defaultFormat,
+  children
+}) => (
+  <figure className="bg-surface rounded-xl shadow-md p-6" aria-labelledby={`${id}-title`}>
+    <figcaption id={`${id}-title`} className="text-lg font-semibold text-gray-900 mb-4">{title}</figcaption>
+    {data.length === 0 ? (
+      <p className="text-sm text-gray-500 py-12 text-center">{translate('chart.noData')}</p>
+    ) : (
+      <>
+        {children}
+        <table className="sr-only">
+          <caption>{description}</caption>
+          <tbody>
+            {data.map(datum => (
+              <tr key={datum.label}>
+                <th scope="row">{datum.label}</th>
+                <td>{formatValue(datum.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    )}
+  </figure>
+);
+
+const YAxis: React.FC<{ max: number; formatValue: (value: number) => string }> = ({ max, formatValue }) => (
+  <g className="text-gray-400" fontSize="11">
+    {Array.from({ length: TICK_COUNT + 1 }, (_, i) => {
+      const value = (max / TICK_COUNT) * i;
+      const y = MARGIN.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+      return (
+        <g key={i}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y} y2={y} className="stroke-gray-200" />
+          <text x={MARGIN.left - 6} y={y} dy="0.32em" textAnchor="end" fill="currentColor">
+            {formatValue(Math.round(value * 100) / 100)}
+          </text>
+        </g>
+      );
+    })}
+  </g>
+);
+
+/**
+ * Line Chart component - demonstrates drawing data with plain SVG paths
+ */
+export const LineChart: React.FC<ChartProps & { id: string; color?: string }> = ({
+  color = CHART_COLORS[0],
+  ...props
+}) => {
+  const { id, description, data, formatValue = defaultFormat } = props;
+  const max = niceMax(Math.max(...data.map(datum => datum.value)));
+  const step = data.length > 1 ? PLOT_WIDTH / (data.length - 1) : 0;
+  const points = data.map((datum, i) => ({
+    ...datum,
+    x: MARGIN.left + (data.length > 1 ? i * step : PLOT_WIDTH / 2),
+    y: MARGIN.top + PLOT_HEIGHT - (datum.value / max) * PLOT_HEIGHT,
+  }));
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+  const baseline = MARGIN.top + PLOT_HEIGHT;
+  const area = points.length > 0
+    ? `${line} L${points[points.length - 1].x},${baseline} L${points[0].x},${baseline} Z`
+    : '';
+  const every = labelEvery(data.length);
+
+  return (
+    <ChartFigure {...props}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-labelledby={`${id}-desc`} direction="ltr">
+        <desc id={`${id}-desc`}>{description}</desc>
+        <YAxis max={max} formatValue={formatValue} />
+        <path d={area} fill={color} fillOpacity={0.12} />
+        <path d={line} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) => (
+          <g key={p.label}>
+            <circle cx={p.x} cy={p.y} r={3} fill={color}>
+              <title>{`${p.label}: ${formatValue(p.value)}`}</title>
+            </circle>
+            {i % every === 0 && (
+              <text x={p.x} y={HEIGHT - 10} textAnchor="middle" fontSize="11" className="fill-gray-500">{p.label}</text>
+            )}
+          </g>
+        ))}
+      </svg>
+    </ChartFigure>
+  );
+};
+
+/**
+ * Bar Chart component - vertical bars, one per datum
+ */
+export const BarChart: React.FC<ChartProps & { id: string }> = props => {
+  const { id, description, data, formatValue = defaultFormat } = props;
+  const max = niceMax(Math.max(...data.map(datum => datum.value)));
+  const slot = PLOT_WIDTH / Math.max(1, data.length);
+  const barWidth = Math.max(2, slot * 0.7);
+  const every = labelEvery(data.length);
+
+  return (
+    <ChartFigure {...props}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-labelledby={`${id}-desc`} direction="ltr">
+        <desc id={`${id}-desc`}>{description}</desc>
+        <YAxis max={max} formatValue={formatValue} />
+        {data.map((datum, i) => {
+          const height = (datum.value / max) * PLOT_HEIGHT;
+          const x = MARGIN.left + i * slot + (slot - barWidth) / 2;
+          return (
+            <g key={datum.label}>
+              <rect
+                x={x}
+                y={MARGIN.top + PLOT_HEIGHT - height}
+                width={barWidth}
+                height={height}
+                rx={2}
+                fill={datum.color ?? CHART_COLORS[0]}
+              >
+                <title>{`${datum.label}: ${formatValue(datum.value)}`}</title>
+              </rect>
+              {i % every === 0 && (
+                <text x={x + barWidth / 2} y={HEIGHT - 10} textAnchor="middle" fontSize="11" className="fill-gray-500">
+                  {datum.label.length > 14 ? `${datum.label.slice(0, 13)}…` : datum.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </ChartFigure>
+  );
+};
+
+/**
+ * Pie Chart component - a donut with a legend; zero-sized slices only appear in the legend
+ */
+export const PieChart: React.FC<ChartProps & { id: string }> = props => {
+  const { id, description, data, formatValue = defaultFormat } = props;
+  const total = data.reduce((sum, datum) => sum + datum.value, 0);
+  const radius = 80;
+  const inner = 48;
+  const center = 100;
+
+  const point = (angle: number, r: number) =>
+    `${center + r * Math.sin(angle)},${center - r * Math.cos(angle)}`;
+
+  let angle = 0;
+  const slices = data.map((datum, i) => {
+    const sweep = total > 0 ? (datum.value / total) * 2 * Math.PI : 0;
+    const start = angle;
+    angle += sweep;
+    // A full circle can't be drawn as a single arc, so it is drawn just short of one
+    const end = start + Math.min(sweep, 2 * Math.PI - 0.0001);
+    const large = end - start > Math.PI ? 1 : 0;
+    return {
+      ...datum,
+      color: datum.color ?? CHART_COLORS[i % CHART_COLORS.length],
+      share: total > 0 ? datum.value / total : 0,
+      path: sweep > 0
+        ? `M${point(start, radius)} A${radius},${radius} 0 ${large} 1 ${point(end, radius)} ` +
+          `L${point(end, inner)} A${inner},${inner} 0 ${large} 0 ${point(start, inner)} Z`
+        : null,
+    };
+  });
+
+  return (
+    <ChartFigure {...props}>
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        <svg viewBox="0 0 200 200" className="w-48 h-48 shrink-0" role="img" aria-labelledby={`${id}-desc`}>
+          <desc id={`${id}-desc`}>{description}</desc>
+          {slices.map(slice => slice.path && (
+            <path key={slice.label} d={slice.path} fill={slice.color} className="stroke-surface" strokeWidth={1}>
+              <title>{`${slice.label}: ${formatValue(slice.value)} (${Math.round(slice.share * 100)}%)`}</title>
+            </path>
+          ))}
+          <text x={center} y={center} textAnchor="middle" dy="0.32em" fontSize="20" fontWeight="bold" className="fill-gray-900">
+            {formatValue(total)}
+          </text>
+        </svg>
+        <ul className="space-y-1 text-sm" aria-hidden="true">
+          {slices.map(slice => (
+            <li key={slice.label} className="flex items-center">
+              <span className="w-3 h-3 rounded-sm me-2 shrink-0" style={{ backgroundColor: slice.color }} />
+              <span className="text-gray-700">{slice.label}</span>
+              <span className="ms-2 text-gray-500">
+                {formatValue(slice.value)} ({Math.round(slice.share * 100)}%)
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </ChartFigure>
+  );
+};
@@ -0,0 +1,240 @@
+// Course form component for creating and editing courses
+import React, { useState } from 'react';
+import { Course, CourseDraft, CourseFormData, CourseValidationErrors } from '../types';
+import { validateCourse, hasValidationErrors } from '../utils/validation';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { X, Save, BookPlus } from 'lucide-react';
+
+interface CourseFormProps {
+  course?: Course;
+  existingCourses: Course[];
+  onSubmit: (course: CourseDraft) => Promise<void>;
+  onUpdate: (course: Course) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Course Form component - mirrors StudentForm's controlled-input and validation flow
+ */
+export const CourseForm: React.FC<CourseFormProps> = ({
+  course,
+  existingCourses,
+  onSubmit,
+  onUpdate,
+  onCancel
+}) => {
+  const { t } = useLocale();
+  const [formData, setFormData] = useState<CourseFormData>({
+    name: course?.name || '',
+    code: course?.code || '',
+    description: course?.description || '',
+    instructor: course?.instructor || '',
+    status: course?.status || 'active',
+  });
+
+  const [validationErrors, setValidationErrors] = useState<CourseValidationErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [serverError, setServerError] = useState<string>('');
+
+  const isEditing = !!course;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    if (validationErrors[name as keyof CourseValidationErrors]) {
+      setValidationErrors(prev => ({
+        ...prev,
+        [name]: undefined
+      }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors = validateCourse(formData, existingCourses, course?.id);
+    if (hasValidationErrors(errors)) {
+      setValidationErrors(errors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setServerError('');
+
+    const courseData: CourseDraft = {
+      name: formData.name.trim(),
+      code: formData.code.trim().toUpperCase(),
+      description: formData.description.trim(),
+      instructor: formData.instructor.trim(),
+      status: formData.status,
+    };
+
+    try {
+      if (isEditing && course) {
+        await onUpdate({ ...course, ...courseData });
+      } else {
+        await onSubmit(courseData);
+      }
+    } catch (error) {
+      setServerError(error instanceof Error ? error.message : t('common.unexpectedError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors ${
+      hasError ? 'border-red-500 bg-red-50' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            {isEditing ? <Save className="w-6 h-6 me-2" /> : <BookPlus className="w-6 h-6 me-2" />}
+            {isEditing ? t('courseForm.editTitle') : t('courseForm.addTitle')}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isSubmitting}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div>
+            <label htmlFor="course-name" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('courseForm.name')}
+            </label>
+            <input
+              type="text"
+              id="course-name"
+              name="name"
+              value={formData.name}
+              onChange={handleInputChange}
+              className={inputClass(!!validationErrors.name)}
+              placeholder={t('courseForm.namePlaceholder')}
+              disabled={isSubmitting}
+            />
+            {validationErrors.name && (
+              <p className="mt-1 text-sm text-red-600">{validationErrors.name}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="course-code" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('courseForm.code')}
+            </label>
+            <input
+              type="text"
+              id="course-code"
+              name="code"
+              value={formData.code}
+              onChange={handleInputChange}
+              className={inputClass(!!validationErrors.code)}
+              placeholder={t('courseForm.codePlaceholder')}
+              disabled={isSubmitting}
+            />
+            {validationErrors.code && (
+              <p className="mt-1 text-sm text-red-600">{validationErrors.code}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="course-instructor" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('courseForm.instructor')}
+            </label>
+            <input
+              type="text"
+              id="course-instructor"
+              name="instructor"
+              value={formData.instructor}
+              onChange={handleInputChange}
+              className={inputClass(!!validationErrors.instructor)}
+              placeholder={t('courseForm.instructorPlaceholder')}
+              disabled={isSubmitting}
+            />
+            {validationErrors.instructor && (
+              <p className="mt-1 text-sm text-red-600">{validationErrors.instructor}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="course-description" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('courseForm.description')}
+            </label>
+            <textarea
+              id="course-description"
+              name="description"
+              value={formData.description}
+              onChange={handleInputChange}
+              rows={3}
+              className={inputClass(false)}
+              placeholder={t('courseForm.descriptionPlaceholder')}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="course-status" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('courseForm.status')}
+            </label>
+            <select
+              id="course-status"
+              name="status"
+              value={formData.status}
+              onChange={handleInputChange}
+              className={inputClass(false)}
+              disabled={isSubmitting}
+            >
+              <option value="active">{t('courseStatus.active')}</option>
+              <option value="archived">{t('courseStatus.archived')}</option>
+            </select>
+          </div>
+
+          {/* Server Error */}
+          {serverError && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{serverError}</p>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              disabled={isSubmitting}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <LoadingSpinner size="sm" className="me-2" />
+              ) : (
+                isEditing ? <Save className="w-4 h-4 me-2" /> : <BookPlus className="w-4 h-4 me-2" />
+              )}
+              {isSubmitting ? t('form.saving') : (isEditing ? t('courseForm.update') : t('courseForm.add'))}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,446 @@
+// Course management view - create, rename, archive and delete courses, and grade them
+import React, { useState, useMemo, useCallback } from 'react';
+import { Assessment, Course, CourseDraft, GradeBand } from '../types';
+import { useCourses } from '../hooks/useCourses';
+import { useStudentContext } from '../context/StudentContext';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
+import { getActiveCourseIds } from '../utils/enrollment';
+import { scopeCourses } from '../utils/permissions';
+import { CourseForm } from './CourseForm';
+import { AssessmentEditor } from './AssessmentEditor';
+import { Gradebook } from './Gradebook';
+import { GradingScaleEditor } from './GradingScaleEditor';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Link } from './Link';
+import { paths } from '../utils/routes';
+import { Library, Plus, Edit3, Trash2, Archive, ArchiveRestore, AlertCircle, RefreshCw, User, X, ClipboardList, Table2, Award, CalendarCheck, FileText } from 'lucide-react';
+
+interface DeleteCourseDialogProps {
+  course: Course;
+  enrolledCount: number;
+  otherCourses: Course[];
+  onConfirm: (reassignTo: number | null) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Delete confirmation that requires moving enrolled students elsewhere first
+ */
+const DeleteCourseDialog: React.FC<DeleteCourseDialogProps> = ({
+  course,
+  enrolledCount,
+  otherCourses,
+  onConfirm,
+  onCancel
+}) => {
+  const { t } = useLocale();
+  const [targetCourseId, setTargetCourseId] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const needsReassignment = enrolledCount > 0;
+
+  const handleConfirm = async () => {
+    setIsDeleting(true);
+    setError('');
+    try {
+      await onConfirm(needsReassignment ? parseInt(targetCourseId) : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('courses.deleteFailed'));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <Trash2 className="w-5 h-5 me-2 text-red-600" />
+            {t('courses.deleteTitle', { name: course.name })}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isDeleting}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {needsReassignment ? (
+            <>
+              <p className="text-gray-700">{t('courses.reassignIntro', { count: enrolledCount })}</p>
+              <select
+                value={targetCourseId}
+                onChange={(e) => setTargetCourseId(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface"
+                disabled={isDeleting}
+              >
+                <option value="">{t('form.selectCourse')}</option>
+                {otherCourses.map(other => (
+                  <option key={other.id} value={other.id}>
+                    {other.status === 'archived' ? t('form.archivedCourse', { name: other.name }) : other.name}
+                  </option>
+                ))}
+              </select>
+            </>
+          ) : (
+            <p className="text-gray-700">{t('courses.deleteEmpty')}</p>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onCancel}
+              className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              disabled={isDeleting}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              className="flex-1 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+              disabled={isDeleting || (needsReassignment && !targetCourseId)}
+            >
+              {isDeleting && <LoadingSpinner size="sm" className="me-2" />}
+              {needsReassignment ? t('courses.reassignAndDelete') : t('courses.deleteCourse')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Course Manager component - full CRUD over the shared course list
+ */
+export const CourseManager: React.FC = () => {
+  const { courses, loading, error, retryCourses, createCourse, updateCourse, deleteCourse } = useCourses();
+  const { state, reassignCourse, recordScores } = useStudentContext();
+  const { settings, updateSettings } = useSettings();
+  const { user, can } = useAuth();
+  const { t } = useLocale();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingCourse, setEditingCourse] = useState<Course | undefined>();
+  const [deletingCourse, setDeletingCourse] = useState<Course | undefined>();
+  const [assessmentCourse, setAssessmentCourse] = useState<Course | undefined>();
+  const [gradingCourse, setGradingCourse] = useState<Course | undefined>();
+  const [showScaleEditor, setShowScaleEditor] = useState(false);
+  const [actionError, setActionError] = useState('');
+
+  /**
+   * Per-course counts in a single pass over the roster:
+   * active enrollments for display, and any reference at all for the delete guard
+   */
+  const { activeCounts, referenceCounts } = useMemo(() => {
+    const active = new Map<number, number>();
+    const references = new Map<number, number>();
+    state.students.forEach(student => {
+      new Set(student.enrollments.map(enrollment => enrollment.courseId)).forEach(courseId => {
+        references.set(courseId, (references.get(courseId) ?? 0) + 1);
+      });
+      getActiveCourseIds(student).forEach(courseId => {
+        active.set(courseId, (active.get(courseId) ?? 0) + 1);
+      });
+    });
+    return { activeCounts: active, referenceCounts: references };
+  }, [state.students]);
+
+  const handleCreate = useCallback(async (draft: CourseDraft) => {
+    await createCourse(draft);
+    setShowForm(false);
+  }, [createCourse]);
+
+  const handleUpdate = useCallback(async (course: Course) => {
+    await updateCourse(course);
+    setEditingCourse(undefined);
+  }, [updateCourse]);
+
+  const handleSaveAssessments = async (assessments: Assessment[]) => {
+    if (assessmentCourse) {
+      await updateCourse({ ...assessmentCourse, assessments });
+      setAssessmentCourse(undefined);
+    }
+  };
+
+  const handleSaveScores = async (scores: Record<string, Record<string, number>>) => {
+    if (gradingCourse) {
+      await recordScores(gradingCourse.id, scores);
+      setGradingCourse(undefined);
+    }
+  };
+
+  const handleSaveScale = async (gradingScale: GradeBand[]) => {
+    await updateSettings({ ...settings, gradingScale });
+    setShowScaleEditor(false);
+  };
+
+  const handleToggleArchive = async (course: Course) => {
+    setActionError('');
+    try {
+      await updateCourse({ ...course, status: course.status === 'active' ? 'archived' : 'active' });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : t('courses.updateFailed'));
+    }
+  };
+
+  /**
+   * Deletes a course, moving its students to another course first when needed
+   */
+  const handleDelete = async (reassignTo: number | null) => {
+    if (!deletingCourse) {
+      return;
+    }
+    if (reassignTo !== null) {
+      await reassignCourse(deletingCourse.id, reassignTo);
+    }
+    await deleteCourse(deletingCourse.id);
+    setDeletingCourse(undefined);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !courses) {
+    return (
+      <div className="text-center py-24">
+        <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('dashboard.loadCoursesFailed')}</h1>
+        <p className="text-gray-600 mb-4">{error}</p>
+        <button
+          onClick={retryCourses}
+          className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4 me-2" />
+          {t('common.retry')}
+        </button>
+      </div>
+    );
+  }
+
+  // Instructors only see the courses they teach
+  const visibleCourses = scopeCourses(user, courses);
+  const canManage = can('course:manage');
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <Library className="w-7 h-7 text-primary-600 me-3" />
+          {t('nav.courses')}
+        </h1>
+        <div className="flex gap-2">
+          <Link
+            to={paths.absenceReport()}
+            className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <FileText className="w-4 h-4 me-2" />
+            {t('absence.title')}
+          </Link>
+          {can('settings:manage') && (
+            <button
+              onClick={() => setShowScaleEditor(true)}
+              className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Award className="w-4 h-4 me-2" />
+              {t('grading.scaleTitle')}
+            </button>
+          )}
+          {canManage && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors shadow-sm"
+            >
+              <Plus className="w-4 h-4 me-2" />
+              {t('courseForm.add')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {actionError && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{actionError}</p>
+        </div>
+      )}
+
+      {/* Course Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {visibleCourses.map(course => {
+          const enrolledCount = activeCounts.get(course.id) ?? 0;
+          const isArchived = course.status === 'archived';
+          const canGrade = can('grade:record', course.id);
+          return (
+            <div
+              key={course.id}
+              className={`bg-surface rounded-xl shadow-md p-6 border border-gray-100 ${isArchived ? 'opacity-75' : ''}`}
+            >
+              <div className="flex items-start justify-between mb-2">
+                <div className="min-w-0">
+                  <div className="text-xs font-mono text-gray-500">{course.code}</div>
+                  <h3 className="text-lg font-semibold text-gray-900 truncate">{course.name}</h3>
+                </div>
+                <span className={`ms-2 px-2 py-1 rounded-full text-xs font-medium ${
+                  isArchived ? 'bg-gray-100 text-gray-600' : 'bg-green-100 text-green-800'
+                }`}>
+                  {isArchived ? t('courseStatus.archived') : t('courseStatus.active')}
+                </span>
+              </div>
+
+              {course.description && (
+                <p className="text-sm text-gray-600 mb-3">{course.description}</p>
+              )}
+
+              <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
+                <span className="flex items-center">
+                  <User className="w-4 h-4 me-1" />
+                  {course.instructor || t('courses.noInstructor')}
+                </span>
+                <span>{t('courses.studentCount', { count: enrolledCount })}</span>
+              </div>
+
+              <div className="flex gap-4 mb-4 text-sm">
+                {canGrade && (
+                  <>
+                    <button
+                      onClick={() => setAssessmentCourse(course)}
+                      className="inline-flex items-center text-primary-600 hover:underline"
+                    >
+                      <ClipboardList className="w-4 h-4 me-1" />
+                      {t('courses.assessments', { count: course.assessments?.length ?? 0 })}
+                    </button>
+                    <button
+                      onClick={() => setGradingCourse(course)}
+                      className="inline-flex items-center text-primary-600 hover:underline"
+                    >
+                      <Table2 className="w-4 h-4 me-1" />
+                      {t('courses.gradebook')}
+                    </button>
+                  </>
+                )}
+                {can('attendance:record', course.id) && (
+                  <Link
+                    to={paths.attendance(course.id)}
+                    className="inline-flex items-center text-primary-600 hover:underline"
+                  >
+                    <CalendarCheck className="w-4 h-4 me-1" />
+                    {t('courses.attendance')}
+                  </Link>
+                )}
+              </div>
+
+              {canManage && (
+                <div className="flex justify-end gap-2 pt-4 border-t border-gray-100">
+                  <button
+                    onClick={() => setEditingCourse(course)}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors duration-200"
+                  >
+                    <Edit3 className="w-4 h-4 me-1" />
+                    {t('common.edit')}
+                  </button>
+                  <button
+                    onClick={() => handleToggleArchive(course)}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors duration-200"
+                  >
+                    {isArchived ? <ArchiveRestore className="w-4 h-4 me-1" /> : <Archive className="w-4 h-4 me-1" />}
+                    {isArchived ? t('courses.restore') : t('courses.archive')}
+                  </button>
+                  <button
+                    onClick={() => setDeletingCourse(course)}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors duration-200"
+                  >
+                    <Trash2 className="w-4 h-4 me-1" />
+                    {t('common.delete')}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {visibleCourses.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          {canManage
+            ? t('courses.empty')
+            : t('courses.noneAssigned')}
+        </div>
+      )}
+
+      {/* Modals */}
+      {showForm && (
+        <CourseForm
+          existingCourses={courses}
+          onSubmit={handleCreate}
+          onUpdate={handleUpdate}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      {editingCourse && (
+        <CourseForm
+          course={editingCourse}
+          existingCourses={courses}
+          onSubmit={handleCreate}
+          onUpdate={handleUpdate}
+          onCancel={() => setEditingCourse(undefined)}
+        />
+      )}
+
+      {assessmentCourse && (
+        <AssessmentEditor
+          course={assessmentCourse}
+          onSave={handleSaveAssessments}
+          onCancel={() => setAssessmentCourse(undefined)}
+        />
+      )}
+
+      {gradingCourse && (
+        <Gradebook
+          course={gradingCourse}
+          students={state.students.filter(student =>
+            student.enrollments.some(e => e.courseId === gradingCourse.id && e.status !== 'dropped')
+          )}
+          gradingScale={settings.gradingScale}
+          onSave={handleSaveScores}
+          onCancel={() => setGradingCourse(undefined)}
+        />
+      )}
+
+      {showScaleEditor && (
+        <GradingScaleEditor
+          scale={settings.gradingScale}
+          onSave={handleSaveScale}
+          onCancel={() => setShowScaleEditor(false)}
+        />
+      )}
+
+      {deletingCourse && (
+        <DeleteCourseDialog
+          course={deletingCourse}
+          enrolledCount={referenceCounts.get(deletingCourse.id) ?? 0}
+          otherCourses={courses.filter(c => c.id !== deletingCourse.id)}
+          onConfirm={handleDelete}
+          onCancel={() => setDeletingCourse(undefined)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,291 @@
+// Custom field editor - the extra fields every student record can carry
+import React, { useState } from 'react';
+import { CustomFieldDefinition, CustomFieldType } from '../types';
+import { CUSTOM_FIELD_TYPES, toFieldKey, validateFieldDefinitions } from '../utils/customFields';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ArrowDown, ArrowUp, ListPlus, Plus, Trash2, X } from 'lucide-react';
+
+interface CustomFieldEditorProps {
+  fields: CustomFieldDefinition[];
+  onSave: (fields: CustomFieldDefinition[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface FieldRow {
+  rowKey: number;
+  // Saved fields keep their key; new ones derive it from the label
+  savedKey?: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  pattern: string;
+  min: string;
+  max: string;
+  // Select choices, one per line
+  options: string;
+}
+
+const toRow = (field: CustomFieldDefinition, rowKey: number): FieldRow => ({
+  rowKey,
+  savedKey: field.key,
+  label: field.label,
+  type: field.type,
+  required: field.required,
+  pattern: field.pattern ?? '',
+  min: field.min === undefined ? '' : String(field.min),
+  max: field.max === undefined ? '' : String(field.max),
+  options: (field.options ?? []).join('\n'),
+});
+
+const toBound = (type: CustomFieldType, input: string): number | string | undefined => {
+  const value = input.trim();
+  if (!value) {
+    return undefined;
+  }
+  return type === 'date' ? value : Number(value);
+};
+
+const toDefinition = (row: FieldRow): CustomFieldDefinition => {
+  const hasBounds = row.type === 'text' || row.type === 'number' || row.type === 'date';
+  const min = hasBounds ? toBound(row.type, row.min) : undefined;
+  const max = hasBounds ? toBound(row.type, row.max) : undefined;
+  return {
+    key: row.savedKey ?? toFieldKey(row.label),
+    label: row.label.trim(),
+    type: row.type,
+    required: row.required,
+    ...(row.type === 'text' && row.pattern.trim() ? { pattern: row.pattern.trim() } : {}),
+    ...(min !== undefined ? { min } : {}),
+    ...(max !== undefined ? { max } : {}),
+    ...(row.type === 'select'
+      ? { options: row.options.split('\n').map(option => option.trim()).filter(Boolean) }
+      : {}),
+  };
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-sm';
+
+/**
+ * Custom Field Editor component - demonstrates editing a list of typed definitions
+ * A field's key is fixed once saved, so stored values, saved searches and exports keep working after a rename
+ */
+export const CustomFieldEditor: React.FC<CustomFieldEditorProps> = ({ fields, onSave, onCancel }) => {
+  const { t } = useLocale();
+  const [rows, setRows] = useState<FieldRow[]>(() => fields.map(toRow));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const updateRow = (rowKey: number, changes: Partial<FieldRow>) => {
+    setRows(prev => prev.map(row => (row.rowKey === rowKey ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => [
+      ...prev,
+      {
+        rowKey: Math.max(-1, ...prev.map(row => row.rowKey)) + 1,
+        label: '',
+        type: 'text',
+        required: false,
+        pattern: '',
+        min: '',
+        max: '',
+        options: '',
+      },
+    ]);
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    setRows(prev => {
+      const next = [...prev];
+      const [row] = next.splice(index, 1);
+      next.splice(index + offset, 0, row);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const definitions = rows.map(toDefinition);
+    const problem = validateFieldDefinitions(definitions);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(definitions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('customFields.saveFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <ListPlus className="w-5 h-5 me-2 text-primary-600" />
+            {t('dashboard.customFields')}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isSaving}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {rows.length === 0 && (
+            <p className="text-sm text-gray-500">{t('customFields.empty')}</p>
+          )}
+
+          {rows.map((row, index) => {
+            const key = row.savedKey ?? toFieldKey(row.label);
+            const name = row.label || t('customFields.unnamed');
+            return (
+              <div key={row.rowKey} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={row.label}
+                    onChange={(e) => updateRow(row.rowKey, { label: e.target.value })}
+                    className={`${inputClass} col-span-5`}
+                    placeholder={t('customFields.labelPlaceholder')}
+                    aria-label={t('customFields.label')}
+                  />
+                  <select
+                    value={row.type}
+                    onChange={(e) => updateRow(row.rowKey, { type: e.target.value as CustomFieldType })}
+                    className={`${inputClass} col-span-3`}
+                    aria-label={t('customFields.type', { name })}
+                  >
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                      <option key={type} value={type}>{t(`customFieldType.${type}`)}</option>
+                    ))}
+                  </select>
+                  <label className="col-span-2 inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={row.required}
+                      onChange={(e) => updateRow(row.rowKey, { required: e.target.checked })}
+                      className="me-1"
+                    />
+                    {t('customFields.required')}
+                  </label>
+                  <div className="col-span-2 flex justify-end">
+                    <button
+                      onClick={() => moveRow(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label={t('customFields.moveUp', { name })}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveRow(index, 1)}
+                      disabled={index === rows.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label={t('customFields.moveDown', { name })}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setRows(prev => prev.filter(r => r.rowKey !== row.rowKey))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={t('customFields.remove', { name })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {(row.type === 'text' || row.type === 'number' || row.type === 'date') && (
+                  <div className="grid grid-cols-12 gap-2">
+                    {row.type === 'text' && (
+                      <input
+                        type="text"
+                        value={row.pattern}
+                        onChange={(e) => updateRow(row.rowKey, { pattern: e.target.value })}
+                        className={`${inputClass} col-span-6 font-mono`}
+                        placeholder={t('customFields.patternPlaceholder', { example: '\\d{3}-\\d{4}' })}
+                        aria-label={t('customFields.pattern', { name })}
+                      />
+                    )}
+                    <input
+                      type={row.type === 'date' ? 'date' : 'number'}
+                      value={row.min}
+                      onChange={(e) => updateRow(row.rowKey, { min: e.target.value })}
+                      className={`${inputClass} col-span-3`}
+                      placeholder={row.type === 'text' ? t('customFields.minLength') : t('customFields.min')}
+                      aria-label={t('customFields.minimum', { name })}
+                    />
+                    <input
+                      type={row.type === 'date' ? 'date' : 'number'}
+                      value={row.max}
+                      onChange={(e) => updateRow(row.rowKey, { max: e.target.value })}
+                      className={`${inputClass} col-span-3`}
+                      placeholder={row.type === 'text' ? t('customFields.maxLength') : t('customFields.max')}
+                      aria-label={t('customFields.maximum', { name })}
+                    />
+                  </div>
+                )}
+
+                {row.type === 'select' && (
+                  <textarea
+                    value={row.options}
+                    onChange={(e) => updateRow(row.rowKey, { options: e.target.value })}
+                    className={inputClass}
+                    rows={3}
+                    placeholder={t('customFields.optionsPlaceholder')}
+                    aria-label={t('customFields.options', { name })}
+                  />
+                )}
+
+                {key && (
+                  <p className="text-xs text-gray-500">
+                    {t('customFields.searchHint')} <code className="font-mono">{key}:value</code>
+                  </p>
+                )}
+              </div>
+            );
+          })}
+
+          <button onClick={addRow} className="inline-flex items-center text-sm text-primary-600 hover:underline">
+            <Plus className="w-4 h-4 me-1" />
+            {t('customFields.add')}
+          </button>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            disabled={isSaving}
+          >
+            {isSaving && <LoadingSpinner size="sm" className="me-2" />}
+            {t('customFields.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,85 @@
 // Main dashboard component orchestrating all functionality
 import React, { useState, useCallback } from 'react';
-import { Student } from '../types';
+import { CustomFieldDefinition, Student, StudentDraft } from '../types';
 import { useStudentContext } from '../context/StudentContext';
+import { useRouter } from '../context/RouterContext';
+import { useAuth } from '../context/AuthContext';
+import { useSettings } from '../context/SettingsContext';
+import { useLocale } from '../context/LocaleContext';
 import { useCourses } from '../hooks/useCourses';
+import { useRosterQuerySync } from '../hooks/useRosterQuerySync';
+import { paths } from '../utils/routes';
+import { scopeCourses } from '../utils/permissions';
 import { StudentForm } from './StudentForm';
+import { ImportStudents } from './ImportStudents';
+import { ExportMenu } from './ExportMenu';
+import { CustomFieldEditor } from './CustomFieldEditor';
+import { BrandLogo } from './BrandLogo';
 import { StudentList } from './StudentList';
 import { SearchAndFilter } from './SearchAndFilter';
 import { LoadingSpinner } from './LoadingSpinner';
-import { GraduationCap, Plus, AlertCircle, RefreshCw } from 'lucide-react';
+import { NotFound } from './NotFound';
+import { SyncIndicator } from './SyncIndicator';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import { Plus, AlertCircle, RefreshCw, FileUp, ListPlus } from 'lucide-react';
+
+interface DashboardProps {
+  // Set on /students/:id/edit - the student whose edit form is open over the roster
+  editingStudentId?: string;
+}
 
 /**
  * Main Dashboard component - demonstrates component composition and state management
  * This component orchestrates all the dashboard functionality
  */
-export const Dashboard: React.FC = () => {
+export const Dashboard: React.FC<DashboardProps> = ({ editingStudentId }) => {
   const { 
     state, 
     addStudent, 
+    importStudents,
     updateStudent, 
     deleteStudent, 
+    reloadStudents,
     setSearchTerm, 
     setCourseFilter, 
-    getFilteredStudents 
+    setSort,
+    setViewMode,
+    setPage,
+    setPageSize,
+    visibleStudents,
+    getFilteredStudents,
+    searchQuery,
+    syncStatuses,
+    syncConflicts,
+    pendingSyncCount,
+    isOnline,
+    resolveConflict
   } = useStudentContext();
+  const { user, can } = useAuth();
+  const { settings, updateSettings } = useSettings();
+  const { t } = useLocale();
+  const { customFields, branding } = settings;
 
   const { courses, loading: coursesLoading, error: coursesError, retryCourses } = useCourses();
 
   const [showForm, setShowForm] = useState(false);
-  const [editingStudent, setEditingStudent] = useState<Student | undefined>();
+  const [showImport, setShowImport] = useState(false);
+  const [showFieldEditor, setShowFieldEditor] = useState(false);
+  // Student whose sync conflict is open for review
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const { location, navigate } = useRouter();
+  useRosterQuerySync();
+
+  // The edit form is part of the URL, so it can be linked to and closed with Back
+  const editingStudent = editingStudentId
+    ? visibleStudents.find(student => student.id === editingStudentId)
+    : undefined;
+
+  // Leaving the edit form keeps the current search and filter
+  const closeEditForm = useCallback(() => {
+    navigate(paths.students() + location.search);
+  }, [navigate, location.search]);
 
   /**
    * Memoized filtered students - demonstrates useCallback for optimization
@@ -38,41 +90,87 @@ export const Dashboard: React.FC = () => {
   /**
    * Handle form submission - demonstrates useCallback for stable function references
    */
-  const handleAddStudent = useCallback((studentData: Omit<Student, 'id' | 'createdAt' | 'updatedAt'>) => {
-    addStudent(studentData);
+  const handleAddStudent = useCallback(async (studentData: StudentDraft) => {
+    // Errors propagate to StudentForm, which keeps the modal open and shows them
+    await addStudent(studentData);
     setShowForm(false);
   }, [addStudent]);
 
+  /**
+   * Handle CSV import - the dialog only passes rows that passed validation
+   */
+  const handleImportStudents = useCallback(async (drafts: StudentDraft[]) => {
+    await importStudents(drafts);
+    setShowImport(false);
+  }, [importStudents]);
+
+  /**
+   * Handle custom field changes - the definitions are part of the shared settings
+   */
+  const handleSaveCustomFields = useCallback(async (fields: CustomFieldDefinition[]) => {
+    await updateSettings({ ...settings, customFields: fields });
+    setShowFieldEditor(false);
+  }, [settings, updateSettings]);
+
   /**
    * Handle student updates
    */
-  const handleUpdateStudent = useCallback((student: Student) => {
-    updateStudent(student);
-    setEditingStudent(undefined);
-  }, [updateStudent]);
+  const handleUpdateStudent = useCallback(async (student: Student) => {
+    await updateStudent(student);
+    closeEditForm();
+  }, [updateStudent, closeEditForm]);
+
+  /**
+   * Handle deletion - failures are surfaced through the delete operation status
+   */
+  const handleDeleteStudent = useCallback((id: string) => {
+    deleteStudent(id).catch(() => undefined);
+  }, [deleteStudent]);
 
   /**
    * Handle edit initiation
    */
   const handleEditStudent = useCallback((student: Student) => {
-    setEditingStudent(student);
-  }, []);
+    navigate(paths.editStudent(student.id) + location.search);
+  }, [navigate, location.search]);
 
   /**
    * Handle form cancellation
    */
   const handleCancelForm = useCallback(() => {
     setShowForm(false);
-    setEditingStudent(undefined);
-  }, []);
+    if (editingStudentId) {
+      closeEditForm();
+    }
+  }, [editingStudentId, closeEditForm]);
 
-  // Loading state for courses
-  if (coursesLoading) {
+  // Error state for the roster itself
+  if (state.operations.load.error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('dashboard.loadStudentsFailed')}</h1>
+          <p className="text-gray-600 mb-4">{state.operations.load.error}</p>
+          <button
+            onClick={() => reloadStudents().catch(() => undefined)}
+            className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4 me-2" />
+            {t('common.retry')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Loading state for courses and the roster
+  if (coursesLoading || !state.isHydrated) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <LoadingSpinner size="lg" className="mx-auto mb-4" />
-          <p className="text-gray-600">Loading dashboard...</p>
+          <p className="text-gray-600">{t('dashboard.loading')}</p>
         </div>
       </div>
     );
@@ -84,61 +182,153 @@ export const Dashboard: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <div className="text-center">
           <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">Failed to Load Courses</h1>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('dashboard.loadCoursesFailed')}</h1>
           <p className="text-gray-600 mb-4">{coursesError}</p>
           <button
             onClick={retryCourses}
-            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
           >
-            <RefreshCw className="w-4 h-4 mr-2" />
-            Retry
+            <RefreshCw className="w-4 h-4 me-2" />
+            {t('common.retry')}
           </button>
         </div>
       </div>
     );
   }
 
+  const resolvingConflict = syncConflicts.find(entry => entry.studentId === resolvingId);
+
+  // Instructors pick from, filter by and import into their own courses only
+  const scopedCourses = scopeCourses(user, courses);
+
+  if (editingStudentId && !can('student:update')) {
+    return <NotFound title={t('access.denied')} message={t('access.editStudents')} />;
+  }
+
+  // A link to a student that no longer exists (or never did), or that an instructor doesn't teach
+  if (editingStudentId && !editingStudent) {
+    return (
+      <NotFound
+        title={t('studentNotFound.title')}
+        message={t('studentNotFound.message')}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
-      <header className="bg-white shadow-sm border-b border-gray-200">
+      <header className="bg-surface shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center">
-              <GraduationCap className="w-8 h-8 text-blue-600 mr-3" />
+              <BrandLogo logo={branding.logo} className="me-3" />
               <h1 className="text-2xl font-bold text-gray-900">
-                Student Management Dashboard
+                {branding.title || t('app.title')}
               </h1>
             </div>
-            <button
-              onClick={() => setShowForm(true)}
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Add Student
-            </button>
+            <div className="flex items-center gap-3">
+              <SyncIndicator isOnline={isOnline} pendingCount={pendingSyncCount} />
+              {can('settings:manage') && (
+                <button
+                  onClick={() => setShowFieldEditor(true)}
+                  className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <ListPlus className="w-4 h-4 me-2" />
+                  {t('dashboard.customFields')}
+                </button>
+              )}
+              {can('student:create') && (
+                <>
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="inline-flex items-center px-4 py-2 text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors"
+                  >
+                    <FileUp className="w-4 h-4 me-2" />
+                    {t('dashboard.importCsv')}
+                  </button>
+                  <button
+                    onClick={() => setShowForm(true)}
+                    className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors shadow-sm"
+                  >
+                    <Plus className="w-4 h-4 me-2" />
+                    {t('dashboard.addStudent')}
+                  </button>
+                </>
+              )}
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Failed deletions have no form to report into, so show them here */}
+        {state.operations.delete.error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-500 me-2 flex-shrink-0" />
+            <p className="text-sm text-red-700">
+              {t('dashboard.deleteFailed', { error: state.operations.delete.error })}
+            </p>
+          </div>
+        )}
+
+        {/* Queued changes the server refused because someone else got there first */}
+        {syncConflicts.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="w-5 h-5 text-amber-500 me-2 flex-shrink-0" />
+              <p className="text-sm text-amber-800">
+                {t('dashboard.conflicts', { count: syncConflicts.length })}
+              </p>
+            </div>
+            <button
+              onClick={() => setResolvingId(syncConflicts[0].studentId)}
+              className="px-3 py-1 text-sm font-medium text-amber-800 bg-amber-100 rounded-lg hover:bg-amber-200 transition-colors"
+            >
+              {t('dashboard.review')}
+            </button>
+          </div>
+        )}
+
         {/* Search and Filter Section */}
         <SearchAndFilter
           searchTerm={state.searchTerm}
           onSearchChange={setSearchTerm}
           selectedCourse={state.selectedCourseFilter}
           onCourseFilterChange={setCourseFilter}
-          courses={courses}
+          courses={scopedCourses}
           resultsCount={filteredStudents.length}
+          queryError={searchQuery.error ? t(searchQuery.error.detail.key, searchQuery.error.detail.values) : undefined}
+          actions={
+            <ExportMenu
+              sources={[
+                { id: 'filtered', label: t('dashboard.exportFiltered'), students: filteredStudents },
+                { id: 'all', label: t('dashboard.exportAll'), students: visibleStudents },
+              ]}
+              courses={courses}
+              customFields={customFields}
+            />
+          }
         />
 
         {/* Student List */}
         <StudentList
           students={filteredStudents}
           courses={courses}
-          onEditStudent={handleEditStudent}
-          onDeleteStudent={deleteStudent}
+          onEditStudent={can('student:update') ? handleEditStudent : undefined}
+          onDeleteStudent={can('student:delete') ? handleDeleteStudent : undefined}
+          sort={state.sort}
+          onSortChange={setSort}
+          viewMode={state.viewMode}
+          onViewModeChange={setViewMode}
+          page={state.page}
+          pageSize={state.pageSize}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+          searchQuery={searchQuery.query}
+          syncStatuses={syncStatuses}
+          onResolveConflict={setResolvingId}
         />
       </main>
 
@@ -146,15 +336,50 @@ export const Dashboard: React.FC = () => {
       {showForm && (
         <StudentForm
           courses={courses}
+          customFields={customFields}
+          canEnrollIn={courseId => can('student:create', courseId)}
           onSubmit={handleAddStudent}
           onCancel={handleCancelForm}
         />
       )}
 
+      {showImport && (
+        <ImportStudents
+          courses={scopedCourses}
+          existingStudents={state.students}
+          customFields={customFields}
+          onImport={handleImportStudents}
+          onCancel={() => setShowImport(false)}
+        />
+      )}
+
+      {showFieldEditor && (
+        <CustomFieldEditor
+          fields={customFields}
+          onSave={handleSaveCustomFields}
+          onCancel={() => setShowFieldEditor(false)}
+        />
+      )}
+
+      {resolvingConflict && (
+        <SyncConflictDialog
+          entry={resolvingConflict}
+          courses={courses}
+          customFields={customFields}
+          onResolve={resolution => {
+            resolveConflict(resolvingConflict.id, resolution);
+            setResolvingId(null);
+          }}
+          onCancel={() => setResolvingId(null)}
+        />
+      )}
+
       {editingStudent && (
         <StudentForm
           student={editingStudent}
           courses={courses}
+          customFields={customFields}
+          canEnrollIn={courseId => can('student:update', courseId)}
           onSubmit={handleAddStudent}
           onUpdate={handleUpdateStudent}
           onCancel={handleCancelForm}
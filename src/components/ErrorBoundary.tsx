@@ -1,5 +1,6 @@
 // Error Boundary component for graceful error handling
 import React, { Component, ReactNode } from 'react';
+import { translate } from '../utils/i18n';
 import { AlertTriangle } from 'lucide-react';
 
 interface Props {
@@ -36,17 +37,18 @@ export class ErrorBoundary extends Component<Props, State> {
         <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
           <div className="text-center">
             <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            {/* Class components can't use hooks; translate reads the locale last chosen */}
             <h1 className="text-2xl font-bold text-gray-900 mb-2">
-              Something went wrong
+              {translate('error.title')}
             </h1>
             <p className="text-gray-600 mb-4">
-              We apologize for the inconvenience. Please refresh the page to try again.
+              {translate('error.message')}
             </p>
             <button
               onClick={() => window.location.reload()}
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              className="bg-primary-600 text-on-primary px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
             >
-              Refresh Page
+              {translate('error.refresh')}
             </button>
           </div>
         </div>
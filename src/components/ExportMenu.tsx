@@ -0,0 +1,152 @@
+// Export menu - downloads the roster as CSV, JSON or XLSX
+import React, { useState, useEffect, useRef } from 'react';
+import { Course, CustomFieldDefinition, Student } from '../types';
+import { EXPORT_COLUMNS, ExportColumn, ExportFormat, downloadBlob, exportStudents, getExportColumns } from '../utils/rosterExport';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../context/LocaleContext';
+import { Download, ChevronDown } from 'lucide-react';
+
+// A named set of students the user can choose to export
+export interface ExportSource {
+  id: string;
+  label: string;
+  students: Student[];
+}
+
+interface ExportMenuProps {
+  sources: ExportSource[];
+  courses: Course[];
+  // Offered as extra columns after the built-in ones
+  customFields?: CustomFieldDefinition[];
+  buttonLabel?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: 'csv', label: 'export.csv' },
+  { format: 'json', label: 'export.json' },
+  { format: 'xlsx', label: 'export.xlsx' },
+];
+
+/**
+ * Export Menu component - demonstrates dropdowns with outside-click handling
+ * Exports exactly the students of the chosen source (current results, whole roster, selection...)
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  sources,
+  courses,
+  customFields = [],
+  buttonLabel
+}) => {
+  const { t } = useLocale();
+  const availableColumns = getExportColumns(customFields);
+  // Custom columns are already labelled in the admin's words
+  const builtInLabels = new Map<ExportColumn, string>(
+    EXPORT_COLUMNS.map(({ column }) => [column, t(`exportColumn.${column}`)])
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [sourceId, setSourceId] = useState(sources[0]?.id);
+  const [columns, setColumns] = useState<ExportColumn[]>(() => availableColumns.map(c => c.column));
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Close the menu when clicking anywhere outside of it
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(prev =>
+      prev.includes(column)
+        ? prev.filter(c => c !== column)
+        // Keep the canonical column order regardless of click order
+        : availableColumns.map(c => c.column).filter(c => c === column || prev.includes(c))
+    );
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const students = (sources.find(source => source.id === sourceId) ?? sources[0])?.students ?? [];
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(exportStudents(format, students, courses, columns, customFields), `students-${date}.${format}`);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full md:w-auto inline-flex items-center justify-center px-4 py-3 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-5 h-5 me-2" />
+        {buttonLabel ?? t('export.button')}
+        <ChevronDown className="w-4 h-4 ms-2" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute end-0 mt-2 w-72 bg-surface rounded-lg shadow-lg border border-gray-200 p-4 z-40">
+          {/* Scope - only worth asking when there is more than one source */}
+          {sources.length > 1 && (
+            <fieldset className="mb-4">
+              <legend className="text-sm font-semibold text-gray-900 mb-2">{t('export.students')}</legend>
+              {sources.map(source => (
+                <label key={source.id} className="flex items-center text-sm text-gray-700 mb-1">
+                  <input
+                    type="radio"
+                    name="export-scope"
+                    checked={sourceId === source.id}
+                    onChange={() => setSourceId(source.id)}
+                    className="me-2"
+                  />
+                  {t('export.sourceCount', { label: source.label, count: source.students.length })}
+                </label>
+              ))}
+            </fieldset>
+          )}
+
+          {/* Columns */}
+          <fieldset className="mb-4">
+            <legend className="text-sm font-semibold text-gray-900 mb-2">{t('export.columns')}</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {availableColumns.map(({ column, label }) => (
+                <label key={column} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                    className="me-2"
+                  />
+                  {builtInLabels.get(column) ?? label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Formats */}
+          <div className="flex flex-col space-y-2">
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={columns.length === 0}
+                className="w-full px-3 py-2 text-sm font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors disabled:opacity-50"
+              >
+                {t('export.download', { format: t(label) })}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+// Gradebook - records every enrolled student's scores for one course
+import React, { useState, useMemo } from 'react';
+import { Course, Enrollment, GradeBand, Student } from '../types';
+import { calculateCourseGrade, formatGradePercent } from '../utils/grading';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Table2, X } from 'lucide-react';
+
+interface GradebookProps {
+  course: Course;
+  // Everyone with a current or completed enrollment in the course
+  students: Student[];
+  gradingScale: GradeBand[];
+  // Only students whose scores changed are passed on
+  onSave: (scores: Record<string, Record<string, number>>) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Scores are edited as text; an empty cell means "not graded yet"
+type ScoreDrafts = Record<string, Record<string, string>>;
+
+const enrollmentIn = (student: Student, courseId: number): Enrollment | undefined =>
+  student.enrollments.find(enrollment => enrollment.courseId === courseId && enrollment.status !== 'dropped');
+
+const sameScores = (a: Record<string, number>, b: Record<string, number>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+/**
+ * Gradebook component - demonstrates a spreadsheet-like grid of controlled inputs
+ * Course grades update live as scores are typed, before anything is saved
+ */
+export const Gradebook: React.FC<GradebookProps> = ({
+  course,
+  students,
+  gradingScale,
+  onSave,
+  onCancel
+}) => {
+  const { t, locale } = useLocale();
+  const assessments = useMemo(() => course.assessments ?? [], [course]);
+
+  const [drafts, setDrafts] = useState<ScoreDrafts>(() =>
+    Object.fromEntries(students.map(student => {
+      const scores = enrollmentIn(student, course.id)?.scores ?? {};
+      return [student.id, Object.fromEntries(assessments.map(a => [a.id, scores[a.id]?.toString() ?? '']))];
+    }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Parses one student's row; invalid cells are reported by assessment id
+   */
+  const parseRow = (studentId: string) => {
+    const scores: Record<string, number> = {};
+    const invalid = new Set<string>();
+    assessments.forEach(assessment => {
+      const raw = drafts[studentId]?.[assessment.id]?.trim() ?? '';
+      if (raw === '') {
+        return;
+      }
+      const score = Number(raw);
+      if (!Number.isFinite(score) || score < 0 || score > assessment.maxScore) {
+        invalid.add(assessment.id);
+      } else {
+        scores[assessment.id] = score;
+      }
+    });
+    return { scores, invalid };
+  };
+
+  const updateCell = (studentId: string, assessmentId: string, value: string) => {
+    setDrafts(prev => ({ ...prev, [studentId]: { ...prev[studentId], [assessmentId]: value } }));
+  };
+
+  const handleSave = async () => {
+    const changed: Record<string, Record<string, number>> = {};
+    for (const student of students) {
+      const { scores, invalid } = parseRow(student.id);
+      if (invalid.size > 0) {
+        setError(t('gradebook.invalidScores', { name: student.name }));
+        return;
+      }
+      // Scores for assessments that were removed from the course are dropped here too
+      const existing = enrollmentIn(student, course.id)?.scores ?? {};
+      if (!sameScores(existing, scores)) {
+        changed[student.id] = scores;
+      }
+    }
+    if (Object.keys(changed).length === 0) {
+      onCancel();
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(changed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('gradebook.saveFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <Table2 className="w-5 h-5 me-2 text-primary-600" />
+            {t('gradebook.title', { course: course.name })}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isSaving}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto">
+          {assessments.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('gradebook.noAssessments')}</p>
+          ) : students.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('courses.noStudents')}</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="text-start text-gray-600">
+                <tr>
+                  <th className="px-2 py-2 font-medium">{t('gradebook.student')}</th>
+                  {assessments.map(assessment => (
+                    <th key={assessment.id} className="px-2 py-2 font-medium whitespace-nowrap">
+                      {assessment.title}
+                      <div className="text-xs font-normal text-gray-400">
+                        {t('gradebook.assessmentInfo', { max: assessment.maxScore, weight: assessment.weight })}
+                      </div>
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 font-medium">{t('gradebook.grade')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {students.map(student => {
+                  const { scores, invalid } = parseRow(student.id);
+                  const enrollment = enrollmentIn(student, course.id);
+                  const grade = enrollment
+                    ? calculateCourseGrade({ ...enrollment, scores }, course, gradingScale)
+                    : null;
+                  return (
+                    <tr key={student.id}>
+                      <td className="px-2 py-2 text-gray-900 whitespace-nowrap">{student.name}</td>
+                      {assessments.map(assessment => (
+                        <td key={assessment.id} className="px-2 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            max={assessment.maxScore}
+                            step="any"
+                            value={drafts[student.id]?.[assessment.id] ?? ''}
+                            onChange={(e) => updateCell(student.id, assessment.id, e.target.value)}
+                            className={`w-20 px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-primary-500 ${
+                              invalid.has(assessment.id) ? 'border-red-400 bg-red-50' : 'border-gray-300'
+                            }`}
+                            aria-label={`${student.name} – ${assessment.title}`}
+                            aria-invalid={invalid.has(assessment.id)}
+                            disabled={isSaving}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-2 py-2 whitespace-nowrap">
+                        {grade ? (
+                          <span className="font-medium text-gray-900">
+                            {grade.band.letter}{' '}
+                            <span className="text-xs text-gray-500">{formatGradePercent(grade.percent, locale)}</span>
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {error && (
+            <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            disabled={isSaving || assessments.length === 0 || students.length === 0}
+          >
+            {isSaving && <LoadingSpinner size="sm" className="me-2" />}
+            {t('gradebook.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+// Grading scale editor - letter grades, their minimum percentages and GPA points
+import React, { useState } from 'react';
+import { GradeBand } from '../types';
+import { DEFAULT_GRADING_SCALE, validateGradingScale } from '../utils/grading';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Award, Plus, Trash2, X } from 'lucide-react';
+
+interface GradingScaleEditorProps {
+  scale: GradeBand[];
+  onSave: (scale: GradeBand[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface BandRow {
+  key: number;
+  letter: string;
+  minPercent: string;
+  points: string;
+}
+
+const toRows = (scale: GradeBand[]): BandRow[] =>
+  [...scale]
+    .sort((a, b) => b.minPercent - a.minPercent)
+    .map((band, index) => ({
+      key: index,
+      letter: band.letter,
+      minPercent: String(band.minPercent),
+      points: String(band.points),
+    }));
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-sm';
+
+/**
+ * Grading Scale Editor component - edits the scale every course grade and GPA is computed with
+ */
+export const GradingScaleEditor: React.FC<GradingScaleEditorProps> = ({ scale, onSave, onCancel }) => {
+  const { t } = useLocale();
+  const [rows, setRows] = useState<BandRow[]>(() => toRows(scale));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const updateRow = (key: number, changes: Partial<BandRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => [
+      ...prev,
+      { key: Math.max(-1, ...prev.map(row => row.key)) + 1, letter: '', minPercent: '', points: '' },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const bands: GradeBand[] = rows.map(row => ({
+      letter: row.letter.trim(),
+      minPercent: parseFloat(row.minPercent),
+      points: parseFloat(row.points),
+    }));
+    const problem = validateGradingScale(bands);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(bands.sort((a, b) => b.minPercent - a.minPercent));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('grading.saveFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <Award className="w-5 h-5 me-2 text-primary-600" />
+            {t('grading.scaleTitle')}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isSaving}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          <div className="grid grid-cols-7 gap-2 text-xs font-medium text-gray-500">
+            <span className="col-span-2">{t('grading.letter')}</span>
+            <span className="col-span-2">{t('grading.fromPercent')}</span>
+            <span className="col-span-2">{t('grading.points')}</span>
+          </div>
+          {rows.map(row => (
+            <div key={row.key} className="grid grid-cols-7 gap-2 items-center">
+              <input
+                type="text"
+                value={row.letter}
+                onChange={(e) => updateRow(row.key, { letter: e.target.value })}
+                className={`${inputClass} col-span-2`}
+                aria-label={t('grading.letter')}
+              />
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="any"
+                value={row.minPercent}
+                onChange={(e) => updateRow(row.key, { minPercent: e.target.value })}
+                className={`${inputClass} col-span-2`}
+                aria-label={t('grading.minFor', { grade: row.letter || t('grading.unnamed') })}
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={row.points}
+                onChange={(e) => updateRow(row.key, { points: e.target.value })}
+                className={`${inputClass} col-span-2`}
+                aria-label={t('grading.pointsFor', { grade: row.letter || t('grading.unnamed') })}
+              />
+              <button
+                onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}
+                className="p-2 text-gray-400 hover:text-red-600 justify-self-center"
+                aria-label={t('grading.remove', { grade: row.letter || t('grading.unnamed') })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex justify-between text-sm">
+            <button onClick={addRow} className="inline-flex items-center text-primary-600 hover:underline">
+              <Plus className="w-4 h-4 me-1" />
+              {t('grading.add')}
+            </button>
+            <button onClick={() => setRows(toRows(DEFAULT_GRADING_SCALE))} className="text-gray-600 hover:underline">
+              {t('grading.reset')}
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            disabled={isSaving}
+          >
+            {isSaving && <LoadingSpinner size="sm" className="me-2" />}
+            {t('grading.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
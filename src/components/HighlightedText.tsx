@@ -0,0 +1,34 @@
+// Highlighted text - wraps matched ranges in <mark>
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping [start, end) ranges into text
+  ranges: [number, number][];
+}
+
+/**
+ * Highlighted Text component - demonstrates rendering derived fragments with stable keys
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
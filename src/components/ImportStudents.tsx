@@ -0,0 +1,312 @@
+// CSV import dialog with column mapping and a validation preview
+import React, { useState, useMemo } from 'react';
+import { Course, CustomFieldDefinition, Student, StudentDraft, StudentFormData, ValidationErrors } from '../types';
+import { parseCsvRecords } from '../utils/csv';
+import { MessageKey } from '../utils/i18n';
+import { ColumnMapping, IMPORT_FIELDS, ImportColumn, buildImportRows, guessColumnMapping } from '../utils/rosterImport';
+import { customSortField } from '../utils/customFields';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { FileUp, X, CheckCircle, AlertCircle, Upload } from 'lucide-react';
+
+interface ImportStudentsProps {
+  courses: Course[];
+  existingStudents: Student[];
+  // Offered as extra columns to map after the built-in fields
+  customFields?: CustomFieldDefinition[];
+  onImport: (students: StudentDraft[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Custom field errors are nested by field key; the preview lists them alongside the rest
+const errorMessages = (errors: ValidationErrors): string[] =>
+  [errors.name, errors.email, errors.enrollments, ...Object.values(errors.customFields ?? {})]
+    .filter((message): message is string => !!message);
+
+const DELIMITER_OPTIONS: { value: string; label: MessageKey }[] = [
+  { value: '', label: 'import.delimiterAuto' },
+  { value: ',', label: 'import.delimiterComma' },
+  { value: ';', label: 'import.delimiterSemicolon' },
+  { value: '\t', label: 'import.delimiterTab' },
+  { value: '|', label: 'import.delimiterPipe' },
+];
+
+/**
+ * Import Students component - demonstrates file reading and derived validation state
+ * The file is parsed once; mapping changes only re-run the cheap validation step
+ */
+export const ImportStudents: React.FC<ImportStudentsProps> = ({
+  courses,
+  existingStudents,
+  customFields = [],
+  onImport,
+  onCancel
+}) => {
+  const { t } = useLocale();
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [delimiter, setDelimiter] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState('');
+
+  // Header row + data rows, recomputed only when the file or delimiter changes
+  const parsed = useMemo(() => {
+    if (!fileText) {
+      return null;
+    }
+    const [header, ...dataRows] = parseCsvRecords(fileText, { delimiter: delimiter || undefined });
+    return { headers: header?.fields ?? [], dataRows };
+  }, [fileText, delimiter]);
+
+  const columnMapping = useMemo(
+    () => mapping ?? (parsed ? guessColumnMapping(parsed.headers, customFields) : null),
+    [mapping, parsed, customFields]
+  );
+
+  const rows = useMemo(() => {
+    if (!parsed || !columnMapping) {
+      return [];
+    }
+    return buildImportRows(parsed.dataRows, columnMapping, courses, existingStudents, customFields);
+  }, [parsed, columnMapping, courses, existingStudents, customFields]);
+
+  const validDrafts = rows.flatMap(row => (row.draft ? [row.draft] : []));
+  const invalidCount = rows.length - validDrafts.length;
+
+  /**
+   * Reads the chosen file - demonstrates the promise-based Blob.text() API
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setImportError('');
+    setMapping(null);
+    setFileName(file.name);
+    try {
+      setFileText(await file.text());
+    } catch {
+      setFileText('');
+      setImportError(t('import.readFailed'));
+    }
+  };
+
+  const handleDelimiterChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDelimiter(e.target.value);
+    // Column indexes mean something else under a different delimiter
+    setMapping(null);
+  };
+
+  const handleMappingChange = (field: ImportColumn, value: string) => {
+    if (!columnMapping) {
+      return;
+    }
+    setMapping({
+      ...columnMapping,
+      [field]: value === '' ? null : parseInt(value),
+    });
+  };
+
+  /**
+   * Commits only the valid rows, as a single batch
+   */
+  const handleImport = async () => {
+    if (validDrafts.length === 0) {
+      return;
+    }
+    setIsImporting(true);
+    setImportError('');
+    try {
+      await onImport(validDrafts);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : t('import.failed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const mappableFields: { field: ImportColumn; label: string; required: boolean }[] = [
+    ...IMPORT_FIELDS.map(({ field, required }) => ({ field, label: t(`importField.${field}`), required })),
+    ...customFields.map(({ key, label, required }) => ({ field: customSortField(key), label, required })),
+  ];
+
+  const courseNames = (row: StudentFormData) =>
+    row.enrollments
+      .map(enrollment => courses.find(course => course.id.toString() === enrollment.courseId)?.name)
+      .filter(Boolean)
+      .join(', ');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <FileUp className="w-6 h-6 me-2" />
+            {t('import.title')}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={isImporting}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* File and delimiter selection */}
+          <div className="flex flex-col md:flex-row gap-4">
+            <label className="flex-1 flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-primary-400 transition-colors">
+              <Upload className="w-5 h-5 me-2 text-gray-400" />
+              <span className="text-sm text-gray-600">
+                {fileName || t('import.chooseFile')}
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                onChange={handleFileChange}
+                className="hidden"
+                disabled={isImporting}
+              />
+            </label>
+            <div className="md:w-48">
+              <label htmlFor="delimiter" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('import.delimiter')}
+              </label>
+              <select
+                id="delimiter"
+                value={delimiter}
+                onChange={handleDelimiterChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface"
+                disabled={isImporting}
+              >
+                {DELIMITER_OPTIONS.map(option => (
+                  <option key={option.label} value={option.value}>{t(option.label)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Column mapping */}
+          {parsed && columnMapping && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">{t('import.mapping')}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {mappableFields.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label htmlFor={`map-${field}`} className="block text-sm text-gray-700 mb-1">
+                      {label}{required && ' *'}
+                    </label>
+                    <select
+                      id={`map-${field}`}
+                      value={columnMapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface"
+                      disabled={isImporting}
+                    >
+                      <option value="">{t('import.notMapped')}</option>
+                      {parsed.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || t('import.column', { index: index + 1 })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {parsed && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-900">{t('import.preview')}</h3>
+                <p className="text-sm text-gray-600">
+                  <span className="text-green-700">{t('import.valid', { count: validDrafts.length })}</span>
+                  {invalidCount > 0 && (
+                    <span className="ms-2 text-red-600">{t('import.invalid', { count: invalidCount })}</span>
+                  )}
+                </p>
+              </div>
+              {rows.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('import.noRows')}</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-start text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">{t('import.row')}</th>
+                        <th className="px-3 py-2 font-medium">{t('import.name')}</th>
+                        <th className="px-3 py-2 font-medium">{t('import.email')}</th>
+                        <th className="px-3 py-2 font-medium">{t('import.courses')}</th>
+                        <th className="px-3 py-2 font-medium">{t('import.status')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rows.map(row => (
+                        <tr key={row.rowNumber} className={row.draft ? '' : 'bg-red-50'}>
+                          <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="px-3 py-2 text-gray-900">{row.formData.name}</td>
+                          <td className="px-3 py-2 text-gray-900">{row.formData.email}</td>
+                          <td className="px-3 py-2 text-gray-900">{courseNames(row.formData)}</td>
+                          <td className="px-3 py-2">
+                            {row.draft ? (
+                              <CheckCircle className="w-4 h-4 text-green-600" />
+                            ) : (
+                              <ul className="text-red-600 space-y-1">
+                                {errorMessages(row.errors).map(message => (
+                                  <li key={message} className="flex items-start">
+                                    <AlertCircle className="w-4 h-4 me-1 flex-shrink-0" />
+                                    {message}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Import Error */}
+          {importError && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{importError}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            disabled={isImporting}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            disabled={isImporting || validDrafts.length === 0}
+          >
+            {isImporting ? <LoadingSpinner size="sm" className="me-2" /> : <FileUp className="w-4 h-4 me-2" />}
+            {isImporting
+              ? t('import.importing')
+              : t('import.submit', { count: validDrafts.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
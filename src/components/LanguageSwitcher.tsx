@@ -0,0 +1,33 @@
+// Language switcher - picks the interface language
+import React from 'react';
+import { useLocale } from '../context/LocaleContext';
+import { LOCALES, isLocale } from '../utils/i18n';
+import { Languages } from 'lucide-react';
+
+/**
+ * Language Switcher component - demonstrates a controlled select bound to context
+ * Each language is listed in its own script, so it can be found without reading the current one
+ */
+export const LanguageSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className={`inline-flex items-center text-sm text-gray-600 ${className}`}>
+      <Languages className="w-4 h-4 me-1" aria-hidden="true" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) {
+            setLocale(e.target.value);
+          }
+        }}
+        className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface"
+      >
+        {LOCALES.map(({ code, label }) => (
+          <option key={code} value={code} lang={code}>{label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,31 @@
+// Link component - an anchor that navigates without reloading the page
+import React from 'react';
+import { useRouter } from '../context/RouterContext';
+
+interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+  replace?: boolean;
+}
+
+/**
+ * Link component - demonstrates progressive enhancement of plain anchors
+ * Modified clicks (new tab, new window) fall through to the browser
+ */
+export const Link: React.FC<LinkProps> = ({ to, replace, onClick, children, ...rest }) => {
+  const { navigate } = useRouter();
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to, { replace });
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...rest}>
+      {children}
+    </a>
+  );
+};
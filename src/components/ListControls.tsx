@@ -0,0 +1,119 @@
+// List controls - multi-key sorting and the paged/scrolling layout toggle
+import React from 'react';
+import { ListViewMode, SortField, SortKey } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { ArrowUpNarrowWide, ArrowDownWideNarrow, Plus, X, LayoutGrid, GalleryVertical } from 'lucide-react';
+
+interface ListControlsProps {
+  // Fields offered as sort keys - the built-in ones plus any custom fields
+  fields: { field: SortField; label: string }[];
+  sort: SortKey[];
+  onSortChange: (sort: SortKey[]) => void;
+  viewMode: ListViewMode;
+  onViewModeChange: (mode: ListViewMode) => void;
+}
+
+const VIEW_MODES: { mode: ListViewMode; icon: typeof LayoutGrid }[] = [
+  { mode: 'paged', icon: LayoutGrid },
+  { mode: 'virtual', icon: GalleryVertical },
+];
+
+/**
+ * List Controls component - demonstrates editing an ordered list of keys immutably
+ * The first key is the primary sort; each following key only breaks ties
+ */
+export const ListControls: React.FC<ListControlsProps> = ({
+  fields,
+  sort,
+  onSortChange,
+  viewMode,
+  onViewModeChange
+}) => {
+  const { t } = useLocale();
+  const usedFields = new Set(sort.map(key => key.field));
+  const unusedFields = fields.filter(({ field }) => !usedFields.has(field));
+
+  const replaceKey = (index: number, key: SortKey) => {
+    onSortChange(sort.map((existing, i) => (i === index ? key : existing)));
+  };
+
+  const addKey = () => {
+    if (unusedFields.length > 0) {
+      onSortChange([...sort, { field: unusedFields[0].field, direction: 'asc' }]);
+    }
+  };
+
+  const removeKey = (index: number) => {
+    onSortChange(sort.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4 text-sm">
+      {/* Sort keys */}
+      <div className="flex flex-wrap items-center gap-2">
+        {sort.map((key, index) => (
+          <div key={key.field} className="flex items-center gap-1">
+            <span className="text-gray-600">{index === 0 ? t('sort.by') : t('sort.then')}</span>
+            <select
+              value={key.field}
+              onChange={(e) => replaceKey(index, { ...key, field: e.target.value as SortField })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface"
+              aria-label={index === 0 ? t('sort.by') : t('sort.thenByLevel', { level: index + 1 })}
+            >
+              {fields
+                .filter(({ field }) => field === key.field || !usedFields.has(field))
+                .map(({ field, label }) => (
+                  <option key={field} value={field}>{label}</option>
+                ))}
+            </select>
+            <button
+              onClick={() => replaceKey(index, { ...key, direction: key.direction === 'asc' ? 'desc' : 'asc' })}
+              className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+              title={key.direction === 'asc' ? t('sort.ascending') : t('sort.descending')}
+              aria-label={t('sort.toggle', { direction: key.direction })}
+            >
+              {key.direction === 'asc'
+                ? <ArrowUpNarrowWide className="w-4 h-4" />
+                : <ArrowDownWideNarrow className="w-4 h-4" />}
+            </button>
+            {sort.length > 1 && (
+              <button
+                onClick={() => removeKey(index)}
+                className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                aria-label={t('sort.remove')}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {unusedFields.length > 0 && (
+          <button
+            onClick={addKey}
+            className="inline-flex items-center text-primary-600 hover:underline"
+          >
+            <Plus className="w-3 h-3 me-1" />
+            {sort.length === 0 ? t('sort.add') : t('sort.addThen')}
+          </button>
+        )}
+      </div>
+
+      {/* Layout toggle */}
+      <div className="md:ms-auto inline-flex rounded-lg border border-gray-300 overflow-hidden self-start">
+        {VIEW_MODES.map(({ mode, icon: Icon }) => (
+          <button
+            key={mode}
+            onClick={() => onViewModeChange(mode)}
+            className={`inline-flex items-center px-3 py-1 ${
+              viewMode === mode ? 'bg-primary-600 text-on-primary' : 'bg-surface text-gray-700 hover:bg-gray-50'
+            }`}
+            aria-pressed={viewMode === mode}
+          >
+            <Icon className="w-4 h-4 me-1" />
+            {t(`view.${mode}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -22,7 +22,7 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
 
   return (
     <div className={`${sizeClasses[size]} ${className}`}>
-      <div className="animate-spin rounded-full border-2 border-gray-300 border-t-blue-600"></div>
+      <div className="animate-spin rounded-full border-2 border-gray-300 border-t-primary-600"></div>
     </div>
   );
 };
\ No newline at end of file
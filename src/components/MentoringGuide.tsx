@@ -131,9 +131,9 @@ const modernVar = "Modern JavaScript";`}</code>
   ];
 
   return (
-    <div className="bg-white rounded-xl shadow-md p-6">
+    <div className="bg-surface rounded-xl shadow-md p-6">
       <div className="flex items-center mb-6">
-        <BookOpen className="w-6 h-6 text-blue-600 mr-3" />
+        <BookOpen className="w-6 h-6 text-primary-600 me-3" />
         <h2 className="text-2xl font-bold text-gray-900">Learning Guide</h2>
       </div>
       
@@ -142,16 +142,16 @@ const modernVar = "Modern JavaScript";`}</code>
           <div key={section.id} className="border border-gray-200 rounded-lg">
             <button
               onClick={() => toggleSection(section.id)}
-              className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50 transition-colors"
+              className="w-full flex items-center justify-between p-4 text-start hover:bg-gray-50 transition-colors"
             >
               <div className="flex items-center">
                 {section.icon}
-                <span className="ml-3 font-semibold text-gray-900">{section.title}</span>
+                <span className="ms-3 font-semibold text-gray-900">{section.title}</span>
               </div>
               {expandedSections.has(section.id) ? (
                 <ChevronDown className="w-5 h-5 text-gray-500" />
               ) : (
-                <ChevronRight className="w-5 h-5 text-gray-500" />
+                <ChevronRight className="w-5 h-5 text-gray-500 rtl:rotate-180" />
               )}
             </button>
             {expandedSections.has(section.id) && (
@@ -0,0 +1,33 @@
+// Not found screen for unknown routes and records
+import React from 'react';
+import { Link } from './Link';
+import { paths } from '../utils/routes';
+import { useLocale } from '../context/LocaleContext';
+import { SearchX, ArrowLeft } from 'lucide-react';
+
+interface NotFoundProps {
+  title?: string;
+  message?: string;
+}
+
+/**
+ * Not Found component - shown for unknown URLs and for links to deleted students
+ */
+export const NotFound: React.FC<NotFoundProps> = ({ title, message }) => {
+  const { t } = useLocale();
+
+  return (
+    <div className="text-center py-24 px-4">
+      <SearchX className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">{title ?? t('notFound.title')}</h1>
+      <p className="text-gray-600 mb-6">{message ?? t('notFound.message')}</p>
+      <Link
+        to={paths.students()}
+        className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4 me-2 rtl:rotate-180" />
+        {t('notFound.back')}
+      </Link>
+    </div>
+  );
+};
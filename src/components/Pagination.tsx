@@ -0,0 +1,105 @@
+// Pagination bar - page navigation and page-size selection
+import React from 'react';
+import { useLocale } from '../context/LocaleContext';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+const PAGE_SIZE_OPTIONS = [12, 24, 48, 96];
+
+/**
+ * Page numbers to show: always the first and last, plus a window around the current page
+ * null marks a gap ("…")
+ */
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+/**
+ * Pagination component - demonstrates derived values from a few numbers of state
+ */
+export const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  onPageSizeChange
+}) => {
+  const { t, formatNumber } = useLocale();
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(total, page * pageSize);
+
+  const pageButtonClass = (active: boolean) =>
+    `min-w-[2.25rem] px-2 py-1 rounded-lg text-sm ${
+      active ? 'bg-primary-600 text-on-primary' : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+  return (
+    <nav className="mt-6 flex flex-col md:flex-row md:items-center gap-3 text-sm" aria-label={t('pagination.label')}>
+      <div className="text-gray-600">
+        {t('pagination.range', { first, last, total })}
+      </div>
+
+      <div className="flex items-center gap-1 md:mx-auto">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="p-1 rounded-lg text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+          aria-label={t('pagination.previous')}
+        >
+          <ChevronLeft className="w-5 h-5 rtl:rotate-180" />
+        </button>
+        {visiblePages(page, pageCount).map((p, index) =>
+          p === null ? (
+            <span key={`gap-${index}`} className="px-1 text-gray-400">…</span>
+          ) : (
+            <button
+              key={p}
+              onClick={() => onPageChange(p)}
+              className={pageButtonClass(p === page)}
+              aria-current={p === page ? 'page' : undefined}
+            >
+              {formatNumber(p)}
+            </button>
+          )
+        )}
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          className="p-1 rounded-lg text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+          aria-label={t('pagination.next')}
+        >
+          <ChevronRight className="w-5 h-5 rtl:rotate-180" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-600">
+        {t('pagination.perPage')}
+        <select
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(parseInt(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface"
+        >
+          {PAGE_SIZE_OPTIONS.map(size => (
+            <option key={size} value={size}>{formatNumber(size)}</option>
+          ))}
+        </select>
+      </label>
+    </nav>
+  );
+};
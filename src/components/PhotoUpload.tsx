@@ -0,0 +1,252 @@
+// Photo upload - drag-and-drop or file picker, with a square crop before the photo is kept
+import React, { useRef, useState } from 'react';
+import { ACCEPTED_IMAGE_TYPES, CropArea, centeredCrop, clampCrop, loadImage, renderThumbnail, validateImageFile } from '../utils/photos';
+import { useLocale } from '../context/LocaleContext';
+import { StudentAvatar } from './StudentAvatar';
+import { Check, ImagePlus, Trash2, X } from 'lucide-react';
+
+interface PhotoUploadProps {
+  // Used for the preview and the generated fallback avatar
+  name: string;
+  value: string;
+  onChange: (profileImage: string) => void;
+  disabled?: boolean;
+}
+
+// Side of the crop viewport in CSS pixels
+const VIEWPORT = 240;
+const MAX_ZOOM = 4;
+// How far one arrow key press moves the photo, in viewport pixels
+const KEY_STEP = 10;
+
+interface PhotoCropperProps {
+  image: HTMLImageElement;
+  onConfirm: (crop: CropArea) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Square crop of one image - drag (or use the arrow keys) to pan, the slider to zoom
+ * The crop is kept in source pixels; the viewport just shows it scaled to VIEWPORT
+ */
+const PhotoCropper: React.FC<PhotoCropperProps> = ({ image, onConfirm, onCancel }) => {
+  const { t } = useLocale();
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const fullSize = Math.min(width, height);
+  const [crop, setCrop] = useState<CropArea>(() => centeredCrop(width, height));
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: CropArea } | null>(null);
+
+  const scale = VIEWPORT / crop.size;
+  const zoom = fullSize / crop.size;
+
+  // Moves the crop by a distance in viewport pixels; dragging the photo right reveals more of its left side
+  const pan = (from: CropArea, dx: number, dy: number) =>
+    clampCrop({ ...from, x: from.x - dx / scale, y: from.y - dy / scale }, width, height);
+
+  const handleZoom = (nextZoom: number) => {
+    // Zoom around the centre of the current crop
+    setCrop(prev => {
+      const size = fullSize / nextZoom;
+      const centerX = prev.x + prev.size / 2;
+      const centerY = prev.y + prev.size / 2;
+      return clampCrop({ x: centerX - size / 2, y: centerY - size / 2, size }, width, height);
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (start) {
+      setCrop(pan(start.crop, e.clientX - start.pointerX, e.clientY - start.pointerY));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [KEY_STEP, 0],
+      ArrowRight: [-KEY_STEP, 0],
+      ArrowUp: [0, KEY_STEP],
+      ArrowDown: [0, -KEY_STEP],
+    };
+    const move = moves[e.key];
+    if (move) {
+      e.preventDefault();
+      setCrop(prev => pan(prev, move[0], move[1]));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="relative mx-auto overflow-hidden rounded-lg bg-gray-900 cursor-move touch-none focus:outline-none focus:ring-2 focus:ring-primary-500"
+        style={{ width: VIEWPORT, height: VIEWPORT }}
+        tabIndex={0}
+        role="group"
+        aria-label={t('photo.cropArea')}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragStart.current = null; }}
+        onPointerCancel={() => { dragStart.current = null; }}
+        onKeyDown={handleKeyDown}
+      >
+        <img
+          src={image.src}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none select-none"
+          style={{
+            width: width * scale,
+            height: height * scale,
+            left: -crop.x * scale,
+            top: -crop.y * scale,
+          }}
+        />
+        {/* Darkens the corners a round avatar leaves out */}
+        <div className="absolute inset-0 rounded-full ring-[999px] ring-black/40 pointer-events-none" />
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-gray-600">
+        <span>{t('photo.zoom')}</span>
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.05}
+          value={zoom}
+          onChange={(e) => handleZoom(Number(e.target.value))}
+          className="flex-1"
+        />
+      </label>
+
+      <div className="flex justify-center gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4 me-1" />
+          {t('common.cancel')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(crop)}
+          className="inline-flex items-center px-3 py-2 text-sm bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <Check className="w-4 h-4 me-1" />
+          {t('photo.use')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Photo Upload component - demonstrates drag and drop, the File API and canvas resizing
+ * Photos never leave the browser as files: the crop is resized to a small JPEG and kept as a data URL
+ */
+export const PhotoUpload: React.FC<PhotoUploadProps> = ({ name, value, onChange, disabled = false }) => {
+  const { t } = useLocale();
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || disabled) {
+      return;
+    }
+    const problem = validateImageFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError('');
+    try {
+      setSource(await loadImage(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('photo.unreadable'));
+    }
+  };
+
+  const closeCropper = () => {
+    if (source) {
+      URL.revokeObjectURL(source.src);
+    }
+    setSource(null);
+  };
+
+  const handleConfirm = (crop: CropArea) => {
+    if (!source) {
+      return;
+    }
+    try {
+      onChange(renderThumbnail(source, crop));
+      closeCropper();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('photo.unprocessable'));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  if (source) {
+    return <PhotoCropper image={source} onConfirm={handleConfirm} onCancel={closeCropper} />;
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      {/* Keyed by photo so a new photo gets a fresh image after a broken one */}
+      <StudentAvatar key={value} student={{ name, profileImage: value || undefined }} size="lg" />
+
+      <label
+        className={`w-full flex items-center justify-center px-4 py-4 border-2 border-dashed rounded-lg transition-colors ${
+          disabled ? 'opacity-50' : 'cursor-pointer hover:border-primary-400'
+        } ${isDragging ? 'border-primary-500 bg-primary-50' : 'border-gray-300'}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <ImagePlus className="w-5 h-5 me-2 text-gray-400" />
+        <span className="text-sm text-gray-600">
+          {value ? t('photo.replace') : t('photo.choose')}
+        </span>
+        <input
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            // Picking the same file again should still open the cropper
+            e.target.value = '';
+          }}
+          className="hidden"
+          disabled={disabled}
+        />
+      </label>
+
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-red-600"
+          disabled={disabled}
+        >
+          <Trash2 className="w-4 h-4 me-1" />
+          {t('photo.remove')}
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,442 @@
+// Roll call - course sessions and keyboard-driven attendance marking
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { AttendanceSession, AttendanceStatus, Course, Student } from '../types';
+import { useCourses } from '../hooks/useCourses';
+import { useCourseLookup } from '../hooks/useCourseLookup';
+import { useStudentContext } from '../context/StudentContext';
+import { useAttendance } from '../context/AttendanceContext';
+import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
+import {
+  ATTENDANCE_STATUSES,
+  formatRate,
+  fromDateInputValue,
+  summarizeAttendance,
+  toDateInputValue,
+} from '../utils/attendance';
+import { paths, writeReportQuery } from '../utils/routes';
+import { LoadingSpinner } from './LoadingSpinner';
+import { NotFound } from './NotFound';
+import { Link } from './Link';
+import { ArrowLeft, CalendarCheck, FileText, Plus, Save, Trash2, AlertCircle, RefreshCw } from 'lucide-react';
+
+interface RollCallProps {
+  courseId: number;
+}
+
+const STATUS_BY_KEY = new Map(ATTENDANCE_STATUSES.map(option => [option.key, option.status]));
+
+interface RollCallSheetProps {
+  course: Course;
+  session: AttendanceSession;
+  students: Student[];
+  // Every session of the course, for the per-student attendance rate
+  courseSessions: AttendanceSession[];
+  onSave: (session: AttendanceSession) => Promise<void>;
+  onDelete: (session: AttendanceSession) => Promise<void>;
+}
+
+/**
+ * The marking sheet for one session
+ * ↑/↓ (or j/k) move between students; P, A, L and E mark the focused student and move on
+ */
+const RollCallSheet: React.FC<RollCallSheetProps> = ({
+  course,
+  session,
+  students,
+  courseSessions,
+  onSave,
+  onDelete
+}) => {
+  const { t, locale, formatDate } = useLocale();
+  const [marks, setMarks] = useState(session.marks);
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const rowRefs = useRef<(HTMLLIElement | null)[]>([]);
+  // Only move focus in response to the keyboard, never on first render
+  const shouldFocusRef = useRef(false);
+
+  useEffect(() => {
+    if (shouldFocusRef.current) {
+      rowRefs.current[focusedIndex]?.focus();
+      shouldFocusRef.current = false;
+    }
+  }, [focusedIndex]);
+
+  const isDirty = students.some(student => marks[student.id] !== session.marks[student.id]);
+  const unmarkedCount = students.filter(student => !marks[student.id]).length;
+
+  const moveFocus = (index: number) => {
+    shouldFocusRef.current = true;
+    setFocusedIndex(Math.max(0, Math.min(students.length - 1, index)));
+  };
+
+  const mark = (studentId: string, status: AttendanceStatus) => {
+    setMarks(prev => ({ ...prev, [studentId]: status }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) {
+      return;
+    }
+    const key = e.key.toLowerCase();
+    const status = STATUS_BY_KEY.get(key);
+    if (status) {
+      e.preventDefault();
+      mark(students[index].id, status);
+      moveFocus(index + 1);
+    } else if (key === 'arrowdown' || key === 'j') {
+      e.preventDefault();
+      moveFocus(index + 1);
+    } else if (key === 'arrowup' || key === 'k') {
+      e.preventDefault();
+      moveFocus(index - 1);
+    }
+  };
+
+  const markRemainingPresent = () => {
+    setMarks(prev => {
+      const next = { ...prev };
+      students.forEach(student => {
+        next[student.id] = next[student.id] ?? 'present';
+      });
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave({ ...session, marks });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('rollCall.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(t('rollCall.confirmDelete', { course: course.name, date: formatDate(session.date) }))) {
+      return;
+    }
+    try {
+      await onDelete(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('rollCall.deleteFailed'));
+    }
+  };
+
+  return (
+    <div className="bg-surface rounded-xl shadow-md p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            {formatDate(session.date, { dateStyle: 'full' })}
+          </h2>
+          {session.topic && <p className="text-sm text-gray-600">{session.topic}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={markRemainingPresent}
+            disabled={unmarkedCount === 0 || isSaving}
+            className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {t('rollCall.markPresent', { count: unmarkedCount })}
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4 me-1" />
+            {t('common.delete')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="inline-flex items-center px-4 py-2 text-sm bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            {isSaving ? <LoadingSpinner size="sm" className="me-2" /> : <Save className="w-4 h-4 me-2" />}
+            {isDirty ? t('rollCall.save') : t('rollCall.saved')}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        {t('rollCall.keyboard', {
+          shortcuts: ATTENDANCE_STATUSES
+            .map(({ status, key }) => `${key.toUpperCase()} ${t(`attendanceStatus.${status}`).toLocaleLowerCase(locale)}`)
+            .join(', '),
+        })}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {students.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('courses.noStudents')}</p>
+      ) : (
+        <ol className="divide-y divide-gray-100" aria-label={t('rollCall.label')}>
+          {students.map((student, index) => {
+            const { rate } = summarizeAttendance(student.id, courseSessions);
+            return (
+              <li
+                key={student.id}
+                ref={element => { rowRefs.current[index] = element; }}
+                tabIndex={index === focusedIndex ? 0 : -1}
+                onFocus={() => setFocusedIndex(index)}
+                onKeyDown={(e) => handleKeyDown(e, index)}
+                className="py-2 px-2 flex flex-col sm:flex-row sm:items-center gap-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium text-gray-900">{student.name}</span>
+                  <span className="ms-2 text-xs text-gray-500">
+                    {rate === null ? t('rollCall.noAttendance') : t('rollCall.rate', { rate: formatRate(rate, locale) })}
+                  </span>
+                </div>
+                <div className="flex gap-1" role="radiogroup" aria-label={t('rollCall.attendanceFor', { name: student.name })}>
+                  {ATTENDANCE_STATUSES.map(({ status, className }) => {
+                    const isChecked = marks[student.id] === status;
+                    return (
+                      <button
+                        key={status}
+                        type="button"
+                        role="radio"
+                        aria-checked={isChecked}
+                        tabIndex={-1}
+                        onClick={() => mark(student.id, status)}
+                        className={`px-2 py-1 text-xs font-medium rounded border ${
+                          isChecked ? className : 'bg-surface text-gray-500 border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        {t(`attendanceStatus.${status}`)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Roll Call component - demonstrates roving focus and keyboard shortcuts for fast data entry
+ * Marks are kept locally until saved, so a whole class can be called without a request per keystroke
+ */
+export const RollCall: React.FC<RollCallProps> = ({ courseId }) => {
+  const { courses, loading: coursesLoading } = useCourses();
+  const { state } = useStudentContext();
+  const { can } = useAuth();
+  const { t, formatDate, compareText } = useLocale();
+  const { sessions, loading, error, retrySessions, createSession, updateSession, deleteSession } = useAttendance();
+  const { getEnrolledCourses } = useCourseLookup(courses ?? []);
+
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [newDate, setNewDate] = useState(() => toDateInputValue(new Date()));
+  const [newTopic, setNewTopic] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState('');
+
+  const course = courses?.find(c => c.id === courseId);
+
+  // Newest first
+  const courseSessions = useMemo(
+    () => (sessions ?? [])
+      .filter(session => session.courseId === courseId)
+      .sort((a, b) => b.date.getTime() - a.date.getTime()),
+    [sessions, courseId]
+  );
+
+  const selectedSession = courseSessions.find(session => session.id === selectedSessionId) ?? courseSessions[0];
+
+  /**
+   * Everyone actively enrolled, plus anyone already marked at this session
+   * (so a student who dropped later still shows on older sessions)
+   */
+  const rollStudents = useMemo(
+    () => state.students
+      .filter(student =>
+        getEnrolledCourses(student).some(({ enrollment, course: enrolled }) =>
+          enrolled?.id === courseId && enrollment.status === 'active'
+        ) || (selectedSession && selectedSession.marks[student.id] !== undefined)
+      )
+      .sort((a, b) => compareText(a.name, b.name)),
+    [state.students, getEnrolledCourses, courseId, selectedSession, compareText]
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDate) {
+      return;
+    }
+    setIsCreating(true);
+    setCreateError('');
+    try {
+      const created = await createSession({
+        courseId,
+        date: fromDateInputValue(newDate),
+        topic: newTopic.trim(),
+        marks: {},
+      });
+      setSelectedSessionId(created.id);
+      setNewTopic('');
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : t('rollCall.createFailed'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSave = async (session: AttendanceSession) => {
+    await updateSession(session);
+  };
+
+  const handleDelete = async (session: AttendanceSession) => {
+    await deleteSession(session.id);
+    setSelectedSessionId(null);
+  };
+
+  if (coursesLoading || (loading && !sessions) || !state.isHydrated) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!course) {
+    return <NotFound title={t('rollCall.courseNotFound')} message={t('rollCall.courseNotFoundMessage')} />;
+  }
+
+  if (!can('attendance:record', courseId)) {
+    return <NotFound title={t('access.denied')} message={t('access.attendance')} />;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-24">
+        <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('attendance.loadFailed')}</h1>
+        <p className="text-gray-600 mb-4">{error}</p>
+        <button
+          onClick={retrySessions}
+          className="inline-flex items-center px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4 me-2" />
+          {t('common.retry')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link to={paths.courses()} className="inline-flex items-center text-sm text-primary-600 hover:underline mb-6">
+        <ArrowLeft className="w-4 h-4 me-1 rtl:rotate-180" />
+        {t('report.allCourses')}
+      </Link>
+
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <CalendarCheck className="w-7 h-7 text-primary-600 me-3" />
+          {t('rollCall.title', { course: course.name })}
+        </h1>
+        <Link
+          to={paths.absenceReport() + writeReportQuery({ from: '', to: '', courseId: course.id })}
+          className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <FileText className="w-4 h-4 me-2" />
+          {t('absence.title')}
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Sessions */}
+        <aside className="bg-surface rounded-xl shadow-md p-4 self-start">
+          <form onSubmit={handleCreate} className="space-y-2 mb-4">
+            <input
+              type="date"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
+              aria-label={t('rollCall.sessionDate')}
+              required
+            />
+            <input
+              type="text"
+              value={newTopic}
+              onChange={(e) => setNewTopic(e.target.value)}
+              placeholder={t('rollCall.topicPlaceholder')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
+              aria-label={t('rollCall.topicLabel')}
+            />
+            <button
+              type="submit"
+              disabled={isCreating || !newDate}
+              className="w-full inline-flex items-center justify-center px-3 py-2 text-sm bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isCreating ? <LoadingSpinner size="sm" className="me-2" /> : <Plus className="w-4 h-4 me-1" />}
+              {t('rollCall.newSession')}
+            </button>
+            {createError && <p className="text-sm text-red-600">{createError}</p>}
+          </form>
+
+          {courseSessions.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('rollCall.noSessions')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {courseSessions.map(session => {
+                const markedCount = Object.keys(session.marks).length;
+                return (
+                  <li key={session.id}>
+                    <button
+                      onClick={() => setSelectedSessionId(session.id)}
+                      className={`w-full text-start px-3 py-2 rounded-lg text-sm ${
+                        session.id === selectedSession?.id ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                      }`}
+                      aria-current={session.id === selectedSession?.id ? 'true' : undefined}
+                    >
+                      <div className="font-medium">{formatDate(session.date)}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {session.topic || t('rollCall.noTopic')} · {t('rollCall.marked', { count: markedCount })}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </aside>
+
+        {/* Roll call */}
+        <div className="lg:col-span-2">
+          {selectedSession ? (
+            <RollCallSheet
+              // A fresh sheet per session, so unsaved marks never leak between sessions
+              key={selectedSession.id}
+              course={course}
+              session={selectedSession}
+              students={rollStudents}
+              courseSessions={courseSessions}
+              onSave={handleSave}
+              onDelete={handleDelete}
+            />
+          ) : (
+            <div className="bg-surface rounded-xl shadow-md p-6 text-sm text-gray-500">
+              {t('rollCall.createPrompt')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
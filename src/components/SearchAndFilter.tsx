@@ -1,8 +1,9 @@
 // Search and filter component with debounced input
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, ReactNode } from 'react';
 import { Course } from '../types';
-import { Search, Filter, X } from 'lucide-react';
+import { Search, Filter, X, AlertCircle } from 'lucide-react';
 import { useDebounce } from '../hooks/useDebounce';
+import { useLocale } from '../context/LocaleContext';
 
 interface SearchAndFilterProps {
   searchTerm: string;
@@ -11,6 +12,10 @@ interface SearchAndFilterProps {
   onCourseFilterChange: (courseId: number | null) => void;
   courses: Course[];
   resultsCount: number;
+  // Why the search text is not a valid query, if it isn't
+  queryError?: string;
+  // Extra controls rendered beside the course filter (e.g. the export menu)
+  actions?: ReactNode;
 }
 
 /**
@@ -23,8 +28,12 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
   selectedCourse,
   onCourseFilterChange,
   courses,
-  resultsCount
+  resultsCount,
+  queryError,
+  actions
 }) => {
+  const { t } = useLocale();
+
   // Local state for immediate UI updates
   const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm);
   
@@ -35,37 +44,57 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
    * Effect to sync debounced search with parent component
    * Demonstrates useEffect with dependencies and performance optimization
    */
+  // Last value handed to the parent, to tell our own updates apart from outside ones
+  const lastSentRef = useRef(searchTerm);
+
   useEffect(() => {
+    lastSentRef.current = debouncedSearchTerm;
     onSearchChange(debouncedSearchTerm);
   }, [debouncedSearchTerm, onSearchChange]);
 
+  /**
+   * Adopt outside changes to the search term, e.g. the back button restoring an older URL
+   */
+  useEffect(() => {
+    if (searchTerm !== lastSentRef.current) {
+      lastSentRef.current = searchTerm;
+      setLocalSearchTerm(searchTerm);
+    }
+  }, [searchTerm]);
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setLocalSearchTerm(e.target.value);
   };
 
   const clearSearch = () => {
     setLocalSearchTerm('');
+    lastSentRef.current = '';
     onSearchChange('');
   };
 
   return (
-    <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+    <div className="bg-surface rounded-xl shadow-md p-6 mb-6">
       <div className="flex flex-col md:flex-row gap-4">
         {/* Search Input */}
         <div className="flex-1">
           <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
               type="text"
-              placeholder="Search students by name or email..."
+              placeholder={t('search.placeholder')}
               value={localSearchTerm}
               onChange={handleSearchChange}
-              className="w-full pl-10 pr-10 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+              className={`w-full ps-10 pe-10 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors ${
+                queryError ? 'border-red-400' : 'border-gray-300'
+              }`}
+              aria-invalid={!!queryError}
+              aria-describedby="search-help"
             />
             {localSearchTerm && (
               <button
                 onClick={clearSearch}
-                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                className="absolute end-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label={t('search.clear')}
               >
                 <X className="w-5 h-5" />
               </button>
@@ -76,13 +105,13 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
         {/* Course Filter */}
         <div className="md:w-64">
           <div className="relative">
-            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <Filter className="absolute start-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <select
               value={selectedCourse || ''}
               onChange={(e) => onCourseFilterChange(e.target.value ? parseInt(e.target.value) : null)}
-              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors appearance-none bg-white"
+              className="w-full ps-10 pe-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors appearance-none bg-surface"
             >
-              <option value="">All Courses</option>
+              <option value="">{t('search.allCourses')}</option>
               {courses.map(course => (
                 <option key={course.id} value={course.id}>
                   {course.name}
@@ -91,16 +120,25 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
             </select>
           </div>
         </div>
+
+        {actions && <div className="md:w-auto">{actions}</div>}
       </div>
 
+      {/* Query syntax - errors replace the hint while the query is malformed */}
+      <p id="search-help" className={`mt-2 text-xs flex items-center ${queryError ? 'text-red-600' : 'text-gray-400'}`}>
+        {queryError ? (
+          <>
+            <AlertCircle className="w-3 h-3 me-1 flex-shrink-0" />
+            {t('search.invalid', { error: queryError })}
+          </>
+        ) : (
+          t('search.help')
+        )}
+      </p>
+
       {/* Results Count */}
       <div className="mt-4 text-sm text-gray-600">
-        Showing {resultsCount} student{resultsCount !== 1 ? 's' : ''}
-        {(localSearchTerm || selectedCourse) && (
-          <span className="ml-1">
-            matching your criteria
-          </span>
-        )}
+        {t('search.results', { count: resultsCount, filtered: !!(localSearchTerm || selectedCourse) })}
       </div>
     </div>
   );
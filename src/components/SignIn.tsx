@@ -0,0 +1,122 @@
+// Sign-in screen shown until a user is signed in
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { roleLabel } from '../utils/permissions';
+import { useLocale } from '../context/LocaleContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { ThemeToggle } from './ThemeToggle';
+import { BrandLogo } from './BrandLogo';
+import { LogIn } from 'lucide-react';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors';
+
+/**
+ * Sign In component - demonstrates a controlled login form against a pluggable auth provider
+ * Demo accounts are listed only when the provider offers them (the mock server does)
+ */
+export const SignIn: React.FC = () => {
+  const { signIn, demoAccounts, error: sessionError } = useAuth();
+  const { t } = useLocale();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (credentials: { email: string; password: string }) => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await signIn(credentials);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('signIn.failed'));
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit({ email, password });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      {/* Chosen before signing in, so the form itself can be read */}
+      <div className="absolute top-4 end-4 flex items-center gap-3">
+        <ThemeToggle />
+        <LanguageSwitcher />
+      </div>
+      <div className="bg-surface rounded-2xl shadow-xl w-full max-w-sm p-8">
+        <div className="flex items-center justify-center mb-6">
+          <BrandLogo size="lg" className="me-2" />
+          <h1 className="text-xl font-bold text-gray-900">{t('app.title')}</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="signin-email" className="block text-sm font-medium text-gray-700 mb-2">{t('signIn.email')}</label>
+            <input
+              id="signin-email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="signin-password" className="block text-sm font-medium text-gray-700 mb-2">{t('signIn.password')}</label>
+            <input
+              id="signin-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          {(error || sessionError) && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+              <p className="text-sm text-red-700">{error || sessionError}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? <LoadingSpinner size="sm" className="me-2" /> : <LogIn className="w-4 h-4 me-2 rtl:rotate-180" />}
+            {t('signIn.submit')}
+          </button>
+        </form>
+
+        {demoAccounts && demoAccounts.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <p className="text-xs text-gray-500 mb-2">{t('signIn.demoAccounts')}</p>
+            <div className="space-y-1">
+              {demoAccounts.map(account => (
+                <button
+                  key={account.email}
+                  type="button"
+                  onClick={() => submit(account)}
+                  disabled={isSubmitting}
+                  className="w-full flex justify-between px-3 py-2 text-sm text-start rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <span className="text-gray-900">{account.name}</span>
+                  <span className="text-gray-500">{roleLabel(account.role)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+// Student avatar - profile photo with a generated initials fallback
+import React from 'react';
+import { Student } from '../types';
+import { getAvatarColor, getInitials } from '../utils/avatar';
+import { useLocale } from '../context/LocaleContext';
+
+interface StudentAvatarProps {
+  student: Pick<Student, 'name' | 'profileImage'>;
+  size?: 'md' | 'lg';
+}
+
+const SIZE_CLASSES = {
+  md: 'w-16 h-16',
+  lg: 'w-24 h-24',
+};
+
+interface InitialsAvatarProps {
+  name: string;
+  className: string;
+}
+
+/**
+ * Initials on a colour derived from the name, so a student looks the same everywhere
+ */
+const InitialsAvatar: React.FC<InitialsAvatarProps> = ({ name, className }) => {
+  const { t } = useLocale();
+
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      className={`${className} rounded-full`}
+      role="img"
+      aria-label={t('avatar.initials', { name: name || t('avatar.unnamed') })}
+    >
+      <circle cx="50" cy="50" r="50" fill={getAvatarColor(name)} />
+      <text
+        x="50"
+        y="50"
+        dy="0.35em"
+        textAnchor="middle"
+        fill="#ffffff"
+        fontSize="38"
+        fontWeight="600"
+        fontFamily="ui-sans-serif, system-ui, sans-serif"
+      >
+        {getInitials(name)}
+      </text>
+    </svg>
+  );
+};
+
+/**
+ * Student Avatar component - shared by the card, the detail page and the form preview
+ */
+export const StudentAvatar: React.FC<StudentAvatarProps> = ({ student, size = 'md' }) => {
+  const { t } = useLocale();
+  const box = SIZE_CLASSES[size];
+
+  return (
+    <div className="relative flex-shrink-0">
+      {student.profileImage ? (
+        <img
+          src={student.profileImage}
+          alt={t('avatar.photo', { name: student.name })}
+          className={`${box} rounded-full object-cover border-2 border-gray-200`}
+          onError={(e) => {
+            // Fallback for broken images
+            const target = e.target as HTMLImageElement;
+            target.style.display = 'none';
+            target.nextElementSibling?.classList.remove('hidden');
+          }}
+        />
+      ) : null}
+      <div className={student.profileImage ? 'hidden' : ''}>
+        <InitialsAvatar name={student.name} className={box} />
+      </div>
+    </div>
+  );
+};
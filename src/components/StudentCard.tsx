@@ -1,13 +1,34 @@
 // Individual student card component
 import React from 'react';
-import { Student, Course } from '../types';
-import { Mail, Edit3, Trash2, User } from 'lucide-react';
+import { Student, EnrolledCourse, GradeBand, SyncStatus } from '../types';
+import { QueryNode, getHighlightRanges } from '../utils/searchQuery';
+import { paths } from '../utils/routes';
+import { confirmStudentDeletion } from '../utils/confirmations';
+import { useLocale } from '../context/LocaleContext';
+import { calculateCourseGrade, calculateGpa, formatGpa } from '../utils/grading';
+import { ABSENCE_STREAK_THRESHOLD } from '../utils/attendance';
+import { HighlightedText } from './HighlightedText';
+import { StudentAvatar } from './StudentAvatar';
+import { Link } from './Link';
+import { Mail, Edit3, Trash2, CheckCircle, Tag, Award, CalendarX, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
 
 interface StudentCardProps {
   student: Student;
-  course: Course | undefined;
-  onEdit: (student: Student) => void;
-  onDelete: (id: string) => void;
+  enrolledCourses: EnrolledCourse[];
+  // Each action button is only shown when its handler is passed (i.e. the user may do it)
+  onEdit?: (student: Student) => void;
+  onDelete?: (id: string) => void;
+  selected?: boolean;
+  onToggleSelect?: (id: string, withRange: boolean) => void;
+  // Active search query; its matches are highlighted in the name and email
+  highlight?: QueryNode | null;
+  // Scale for the course letter grades and GPA; grades are hidden without one
+  gradingScale?: GradeBand[];
+  // Unexcused absences in a row; flagged from ABSENCE_STREAK_THRESHOLD up
+  absenceStreak?: number;
+  // Set while a change to the student is still in the outbox
+  syncStatus?: SyncStatus;
+  onResolveConflict?: (id: string) => void;
 }
 
 /**
@@ -16,81 +37,175 @@ interface StudentCardProps {
  */
 export const StudentCard: React.FC<StudentCardProps> = ({
   student,
-  course,
+  enrolledCourses,
   onEdit,
-  onDelete
+  onDelete,
+  selected = false,
+  onToggleSelect,
+  highlight = null,
+  gradingScale,
+  absenceStreak = 0,
+  syncStatus,
+  onResolveConflict
 }) => {
+  const { t, formatDate, formatNumber } = useLocale();
+
+  // Dropped enrollments are history; the card only shows current and completed courses
+  const visibleCourses = enrolledCourses.filter(({ enrollment }) => enrollment.status !== 'dropped');
+  const gpa = gradingScale
+    ? calculateGpa(student, enrolledCourses.flatMap(({ course }) => (course ? [course] : [])), gradingScale)
+    : null;
+
   /**
    * Handle delete with confirmation - demonstrates event handling and user interaction
    */
   const handleDelete = () => {
-    if (window.confirm(`Are you sure you want to delete ${student.name}?`)) {
+    if (onDelete && confirmStudentDeletion(student.name)) {
       onDelete(student.id);
     }
   };
 
   return (
-    <div className="bg-white rounded-xl shadow-md hover:shadow-lg transition-shadow duration-300 p-6 border border-gray-100">
+    <div className={`bg-surface rounded-xl shadow-md hover:shadow-lg transition-shadow duration-300 p-6 border ${
+      selected ? 'border-primary-400 ring-2 ring-primary-200' : 'border-gray-100'
+    }`}>
       {/* Profile Section */}
-      <div className="flex items-center space-x-4 mb-4">
-        <div className="relative">
-          {student.profileImage ? (
-            <img
-              src={student.profileImage}
-              alt={`${student.name}'s profile`}
-              className="w-16 h-16 rounded-full object-cover border-2 border-gray-200"
-              onError={(e) => {
-                // Fallback for broken images
-                const target = e.target as HTMLImageElement;
-                target.style.display = 'none';
-                target.nextElementSibling?.classList.remove('hidden');
-              }}
-            />
-          ) : null}
-          <div className={`w-16 h-16 rounded-full bg-gradient-to-br from-blue-400 to-blue-600 flex items-center justify-center ${student.profileImage ? 'hidden' : ''}`}>
-            <User className="w-8 h-8 text-white" />
-          </div>
-        </div>
+      <div className="flex items-center gap-4 mb-4">
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={selected}
+            // onClick rather than onChange: only the mouse event knows about Shift
+            onClick={(e) => onToggleSelect(student.id, e.shiftKey)}
+            onChange={() => undefined}
+            className="w-4 h-4 self-start text-primary-600 rounded border-gray-300 focus:ring-primary-500"
+            aria-label={t('card.select', { name: student.name })}
+          />
+        )}
+        <Link to={paths.student(student.id)} aria-label={t('card.view', { name: student.name })}>
+          <StudentAvatar student={student} />
+        </Link>
         
         <div className="flex-1 min-w-0">
           <h3 className="text-xl font-semibold text-gray-900 truncate">
-            {student.name}
+            {/* The name opens the student's detail page */}
+            <Link to={paths.student(student.id)} className="hover:text-primary-600 hover:underline">
+              <HighlightedText text={student.name} ranges={getHighlightRanges(student.name, highlight, 'name')} />
+            </Link>
           </h3>
           <p className="text-sm text-gray-500 flex items-center mt-1">
-            <Mail className="w-4 h-4 mr-1" />
-            {student.email}
+            <Mail className="w-4 h-4 me-1" />
+            <HighlightedText text={student.email} ranges={getHighlightRanges(student.email, highlight, 'email')} />
           </p>
         </div>
       </div>
 
       {/* Course Information */}
-      <div className="mb-4">
-        <div className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
-          {course?.name || 'Unknown Course'}
-        </div>
+      <div className="mb-4 flex flex-wrap gap-2">
+        {visibleCourses.map(({ enrollment, course }) => {
+          const grade = gradingScale ? calculateCourseGrade(enrollment, course, gradingScale) : null;
+          return (
+            <div
+              key={enrollment.id}
+              className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                enrollment.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-primary-100 text-primary-800'
+              }`}
+              title={`${t(`enrollmentStatus.${enrollment.status}`)}${
+                grade ? ` · ${formatNumber(grade.percent / 100, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 })}` : ''
+              }`}
+            >
+              {enrollment.status === 'completed' && <CheckCircle className="w-3 h-3 me-1" />}
+              {course?.name || t('card.unknownCourse')}
+              {grade && <span className="ms-2 ps-2 border-s border-current font-semibold">{grade.band.letter}</span>}
+            </div>
+          );
+        })}
+        {visibleCourses.length === 0 && (
+          <div className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-600">
+            {t('card.notEnrolled')}
+          </div>
+        )}
       </div>
 
-      {/* Action Buttons */}
-      <div className="flex justify-end space-x-2 pt-4 border-t border-gray-100">
-        <button
-          onClick={() => onEdit(student)}
-          className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors duration-200"
-        >
-          <Edit3 className="w-4 h-4 mr-1" />
-          Edit
-        </button>
+      {/* Grade summary */}
+      {gpa !== null && (
+        <div className="mb-4 flex items-center text-sm text-gray-700">
+          <Award className="w-4 h-4 me-1 text-amber-500" />
+          {t('card.gpa')} <span className="ms-1 font-semibold">{formatGpa(gpa)}</span>
+        </div>
+      )}
+
+      {/* Attendance flag */}
+      {absenceStreak >= ABSENCE_STREAK_THRESHOLD && (
+        <div className="mb-4 inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-red-50 text-red-700" role="status">
+          <CalendarX className="w-3 h-3 me-1" />
+          {t('card.absenceStreak', { count: absenceStreak })}
+        </div>
+      )}
+
+      {/* Sync state of a change made on this device */}
+      {syncStatus === 'pending' && (
+        <div className="mb-4 inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-amber-50 text-amber-700" role="status">
+          <CloudOff className="w-3 h-3 me-1" />
+          {t('card.pending')}
+        </div>
+      )}
+      {syncStatus === 'syncing' && (
+        <div className="mb-4 inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-primary-50 text-primary-700" role="status">
+          <RefreshCw className="w-3 h-3 me-1 animate-spin" />
+          {t('card.syncing')}
+        </div>
+      )}
+      {syncStatus === 'conflict' && (
         <button
-          onClick={handleDelete}
-          className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors duration-200"
+          onClick={() => onResolveConflict?.(student.id)}
+          disabled={!onResolveConflict}
+          className="mb-4 inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-red-50 text-red-700 hover:bg-red-100"
         >
-          <Trash2 className="w-4 h-4 mr-1" />
-          Delete
+          <AlertTriangle className="w-3 h-3 me-1" />
+          {t('card.conflict')}
         </button>
-      </div>
+      )}
+
+      {/* Tags */}
+      {student.tags && student.tags.length > 0 && (
+        <div className="mb-4 flex flex-wrap gap-1">
+          {student.tags.map(tag => (
+            <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700">
+              <Tag className="w-3 h-3 me-1" />
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      {(onEdit || onDelete) && (
+        <div className="flex justify-end gap-2 pt-4 border-t border-gray-100">
+          {onEdit && (
+            <button
+              onClick={() => onEdit(student)}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors duration-200"
+            >
+              <Edit3 className="w-4 h-4 me-1" />
+              {t('common.edit')}
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={handleDelete}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors duration-200"
+            >
+              <Trash2 className="w-4 h-4 me-1" />
+              {t('common.delete')}
+            </button>
+          )}
+        </div>
+      )}
 
       {/* Timestamps */}
       <div className="mt-3 text-xs text-gray-400">
-        Added: {student.createdAt.toLocaleDateString()}
+        {t('card.added', { date: formatDate(student.createdAt) })}
       </div>
     </div>
   );
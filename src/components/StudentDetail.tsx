@@ -0,0 +1,327 @@
+// Student detail view - full profile, enrollment history and change timeline
+import React, { useState, useCallback, useMemo } from 'react';
+import { Course, CustomFieldDefinition, Student, StudentChange, StudentChangeType } from '../types';
+import { useStudentContext } from '../context/StudentContext';
+import { useAuth } from '../context/AuthContext';
+import { useRouter } from '../context/RouterContext';
+import { useSettings } from '../context/SettingsContext';
+import { useLocale } from '../context/LocaleContext';
+import { useCourses } from '../hooks/useCourses';
+import { useStudentHistory } from '../hooks/useStudentHistory';
+import { paths } from '../utils/routes';
+import { diffStudents } from '../utils/studentHistory';
+import { formatCustomFieldValue } from '../utils/customFields';
+import { confirmStudentDeletion } from '../utils/confirmations';
+import { calculateCourseGrade, calculateGpa, formatGpa, formatGradePercent } from '../utils/grading';
+import { StudentAvatar } from './StudentAvatar';
+import { StudentForm } from './StudentForm';
+import { LoadingSpinner } from './LoadingSpinner';
+import { NotFound } from './NotFound';
+import { Link } from './Link';
+import { ArrowLeft, Mail, Edit3, Trash2, Tag, BookOpen, History, AlertCircle, RefreshCw } from 'lucide-react';
+
+interface StudentDetailProps {
+  studentId: string;
+}
+
+const STATUS_BADGES = {
+  active: 'bg-primary-100 text-primary-800',
+  completed: 'bg-green-100 text-green-800',
+  dropped: 'bg-gray-100 text-gray-600',
+};
+
+const CHANGE_DOTS: Record<StudentChangeType, string> = {
+  created: 'bg-green-500',
+  updated: 'bg-primary-500',
+  deleted: 'bg-red-500',
+  restored: 'bg-purple-500',
+};
+
+/**
+ * One timeline entry with its field-by-field diff
+ */
+interface TimelineEntryProps {
+  change: StudentChange;
+  courses: Course[];
+  customFields: CustomFieldDefinition[];
+}
+
+const TimelineEntry: React.FC<TimelineEntryProps> = ({ change, courses, customFields }) => {
+  const { t, formatDateTime } = useLocale();
+  // Creation and deletion would list every field; the label says enough
+  const diffs = change.type === 'updated' ? diffStudents(change.before, change.after, courses, customFields) : [];
+
+  return (
+    <li className="relative ps-6 pb-6 last:pb-0">
+      <span className={`absolute start-0 top-1.5 w-2.5 h-2.5 rounded-full ${CHANGE_DOTS[change.type]}`} />
+      <div className="flex items-baseline justify-between gap-4">
+        <span className="font-medium text-gray-900">{t(`changeType.${change.type}`)}</span>
+        <time className="text-xs text-gray-500" dateTime={change.at.toISOString()}>
+          {formatDateTime(change.at)}
+          {change.actor && ` · ${change.actor.name}`}
+        </time>
+      </div>
+      {diffs.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {diffs.map((diff, index) => (
+            <li key={index} className="text-gray-600">
+              <span className="text-gray-500">{diff.label}:</span>{' '}
+              {diff.before && <span className="line-through text-red-600">{diff.before}</span>}
+              {diff.before && diff.after && ' → '}
+              {diff.after && <span className="text-green-700">{diff.after}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Student Detail component - demonstrates resolving route params against context state
+ * and combining it with a separately fetched resource (the change log)
+ */
+export const StudentDetail: React.FC<StudentDetailProps> = ({ studentId }) => {
+  const { state, visibleStudents, updateStudent, deleteStudent } = useStudentContext();
+  const { can } = useAuth();
+  const { courses } = useCourses();
+  const { navigate } = useRouter();
+  const { settings: { gradingScale, customFields } } = useSettings();
+  const { t, locale, formatDate, formatDateTime } = useLocale();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [deleteError, setDeleteError] = useState('');
+
+  // Instructors only reach students in their own courses
+  const student = visibleStudents.find(s => s.id === studentId);
+  // Student writes invalidate the timeline, so it follows every change
+  const { changes, loading: historyLoading, error: historyError, retry } = useStudentHistory(studentId);
+
+  const courseMap = useMemo(
+    () => new Map((courses ?? []).map(course => [course.id, course])),
+    [courses]
+  );
+
+  // Full enrollment history, most recent first - dropped and completed included
+  const enrollments = useMemo(
+    () => [...(student?.enrollments ?? [])].sort((a, b) => b.enrolledAt.getTime() - a.enrolledAt.getTime()),
+    [student]
+  );
+
+  const gpa = student ? calculateGpa(student, courses ?? [], gradingScale) : null;
+
+  const handleUpdate = useCallback(async (updated: Student) => {
+    await updateStudent(updated);
+    setIsEditing(false);
+  }, [updateStudent]);
+
+  const handleDelete = async () => {
+    if (!student || !confirmStudentDeletion(student.name)) {
+      return;
+    }
+    setDeleteError('');
+    try {
+      await deleteStudent(student.id);
+      navigate(paths.students(), { replace: true });
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : t('studentDetail.deleteFailed'));
+    }
+  };
+
+  // Can't tell "missing" from "not loaded yet" until the roster has arrived
+  if (!state.isHydrated) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!student) {
+    return (
+      <NotFound
+        title={t('studentNotFound.title')}
+        message={t('studentNotFound.message')}
+      />
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link
+        to={paths.students()}
+        className="inline-flex items-center text-sm text-primary-600 hover:underline mb-6"
+      >
+        <ArrowLeft className="w-4 h-4 me-1 rtl:rotate-180" />
+        {t('studentDetail.allStudents')}
+      </Link>
+
+      {/* Profile */}
+      <section className="bg-surface rounded-xl shadow-md p-6 mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+          <StudentAvatar student={student} size="lg" />
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold text-gray-900">{student.name}</h1>
+            <p className="text-gray-600 flex items-center mt-1">
+              <Mail className="w-4 h-4 me-2" />
+              <a href={`mailto:${student.email}`} className="hover:underline">{student.email}</a>
+            </p>
+            {student.tags && student.tags.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-1">
+                {student.tags.map(tag => (
+                  <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700">
+                    <Tag className="w-3 h-3 me-1" />
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {can('student:update') && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors duration-200"
+              >
+                <Edit3 className="w-4 h-4 me-1" />
+                {t('common.edit')}
+              </button>
+            )}
+            {can('student:delete') && (
+              <button
+                onClick={handleDelete}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors duration-200"
+              >
+                <Trash2 className="w-4 h-4 me-1" />
+                {t('common.delete')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <dl className="mt-6 pt-6 border-t border-gray-100 grid grid-cols-1 sm:grid-cols-4 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">{t('card.gpa')}</dt>
+            <dd className="text-gray-900">{gpa !== null ? formatGpa(gpa, locale) : t('studentDetail.notGraded')}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('studentDetail.added')}</dt>
+            <dd className="text-gray-900">{formatDateTime(student.createdAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('studentDetail.lastUpdated')}</dt>
+            <dd className="text-gray-900">{formatDateTime(student.updatedAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('studentDetail.studentId')}</dt>
+            <dd className="text-gray-900 font-mono text-xs break-all">{student.id}</dd>
+          </div>
+          {customFields.map(field => (
+            <div key={field.key}>
+              <dt className="text-gray-500">{field.label}</dt>
+              <dd className="text-gray-900 break-words">
+                {formatCustomFieldValue(field, student.customFields?.[field.key]) || '—'}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        {deleteError && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{t('dashboard.deleteFailed', { error: deleteError })}</p>
+          </div>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Enrollment history */}
+        <section className="bg-surface rounded-xl shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <BookOpen className="w-5 h-5 me-2" />
+            {t('studentDetail.enrollments')}
+          </h2>
+          {enrollments.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('studentDetail.notEnrolled')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {enrollments.map(enrollment => {
+                const course = courseMap.get(enrollment.courseId);
+                const grade = calculateCourseGrade(enrollment, course, gradingScale);
+                return (
+                  <li key={enrollment.id} className="py-3 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">
+                        {course?.name ?? t('card.unknownCourse')}
+                        {course?.status === 'archived' && (
+                          <span className="ms-2 text-xs text-gray-500">{t('studentDetail.archived')}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {course?.code && <span className="font-mono me-2">{course.code}</span>}
+                        {t('studentDetail.enrolledOn', { date: formatDate(enrollment.enrolledAt) })}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {grade && (
+                        <span className="text-sm font-semibold text-gray-900" title={formatGradePercent(grade.percent, locale)}>
+                          {grade.band.letter}
+                        </span>
+                      )}
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[enrollment.status]}`}>
+                        {t(`enrollmentStatus.${enrollment.status}`)}
+                      </span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+
+        {/* Change timeline */}
+        <section className="bg-surface rounded-xl shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <History className="w-5 h-5 me-2" />
+            {t('studentDetail.activity')}
+          </h2>
+          {historyLoading && !changes ? (
+            <div className="flex justify-center py-6">
+              <LoadingSpinner />
+            </div>
+          ) : historyError ? (
+            <div className="text-sm text-red-700 flex items-center justify-between">
+              <span className="flex items-center">
+                <AlertCircle className="w-4 h-4 me-2" />
+                {historyError}
+              </span>
+              <button onClick={retry} className="inline-flex items-center text-primary-600 hover:underline">
+                <RefreshCw className="w-4 h-4 me-1" />
+                {t('common.retry')}
+              </button>
+            </div>
+          ) : changes && changes.length > 0 ? (
+            <ol className="border-s border-gray-200 ms-1">
+              {changes.map(change => (
+                <TimelineEntry key={change.id} change={change} courses={courses ?? []} customFields={customFields} />
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-gray-500">{t('studentDetail.noChanges')}</p>
+          )}
+        </section>
+      </div>
+
+      {isEditing && (
+        <StudentForm
+          student={student}
+          courses={courses ?? []}
+          customFields={customFields}
+          canEnrollIn={courseId => can('student:update', courseId)}
+          onSubmit={() => undefined}
+          onUpdate={handleUpdate}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+    </div>
+  );
+};
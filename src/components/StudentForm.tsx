@@ -1,19 +1,106 @@
 // Student form component with comprehensive validation
-import React, { useState, useEffect } from 'react';
-import { Student, Course, StudentFormData, ValidationErrors } from '../types';
+import React, { useState } from 'react';
+import { Student, StudentDraft, Course, CustomFieldDefinition, StudentFormData, EnrollmentFormData, ValidationErrors } from '../types';
 import { validateStudent, hasValidationErrors } from '../utils/validation';
-import { validateStudentOnServer, getRandomProfileImage } from '../utils/mockApi';
+import { ENROLLMENT_STATUSES, enrollmentDraftsFromForm, enrollmentsFromForm } from '../utils/enrollment';
+import { customFieldsFromForm, customFieldsToForm } from '../utils/customFields';
+import { ApiError, isNetworkError } from '../utils/repositories';
+import { useStudentValidation } from '../hooks/useStudentValidation';
+import { useLocale } from '../context/LocaleContext';
 import { LoadingSpinner } from './LoadingSpinner';
-import { User, X, Save, UserPlus } from 'lucide-react';
+import { PhotoUpload } from './PhotoUpload';
+import { X, Save, UserPlus, Plus, Trash2 } from 'lucide-react';
 
 interface StudentFormProps {
   student?: Student;
   courses: Course[];
-  onSubmit: (student: Omit<Student, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onSubmit: (student: StudentDraft) => void | Promise<void>;
   onCancel: () => void;
-  onUpdate?: (student: Student) => void;
+  onUpdate?: (student: Student) => void | Promise<void>;
+  // Courses the user may enroll into or change enrollments of; others are shown read-only
+  canEnrollIn?: (courseId: number) => boolean;
+  // Admin-defined fields rendered after the built-in ones
+  customFields?: CustomFieldDefinition[];
+}
+
+const fieldClass = (hasError: boolean) =>
+  `w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors ${
+    hasError ? 'border-red-500 bg-red-50' : 'border-gray-300'
+  }`;
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: string | boolean | undefined;
+  error?: string;
+  disabled: boolean;
+  onChange: (value: string | boolean) => void;
 }
 
+/**
+ * One custom field, rendered as the input that suits its type
+ */
+const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, error, disabled, onChange }) => {
+  const { t } = useLocale();
+  const id = `custom-${field.key}`;
+  const label = `${field.label}${field.required ? ' *' : ''}`;
+  const text = typeof value === 'string' ? value : '';
+
+  if (field.type === 'boolean') {
+    return (
+      <div>
+        <label htmlFor={id} className="inline-flex items-center text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            id={id}
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="me-2 rounded border-gray-300"
+            disabled={disabled}
+          />
+          {label}
+        </label>
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      {field.type === 'select' ? (
+        <select
+          id={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${fieldClass(!!error)} bg-surface`}
+          disabled={disabled}
+        >
+          <option value="">{field.required ? t('form.selectOption') : t('form.none')}</option>
+          {(field.options ?? []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={field.type}
+          id={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={fieldClass(!!error)}
+          // The browser's own hints; validateStudent enforces the same limits
+          min={field.type === 'text' ? undefined : field.min}
+          max={field.type === 'text' ? undefined : field.max}
+          step={field.type === 'number' ? 'any' : undefined}
+          disabled={disabled}
+        />
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
 /**
  * Student Form component - demonstrates controlled components and form validation
  * Shows async validation, loading states, and form handling best practices
@@ -23,14 +110,25 @@ export const StudentForm: React.FC<StudentFormProps> = ({
   courses,
   onSubmit,
   onCancel,
-  onUpdate
+  onUpdate,
+  canEnrollIn = () => true,
+  customFields = []
 }) => {
+  const { t } = useLocale();
+
   // Form state management - demonstrates useState with complex state
   const [formData, setFormData] = useState<StudentFormData>({
     name: student?.name || '',
     email: student?.email || '',
-    courseId: student?.courseId?.toString() || '',
+    enrollments: student
+      ? student.enrollments.map(enrollment => ({
+          id: enrollment.id,
+          courseId: enrollment.courseId.toString(),
+          status: enrollment.status,
+        }))
+      : [{ courseId: '', status: 'active' }],
     profileImage: student?.profileImage || '',
+    customFields: customFieldsToForm(customFields, student?.customFields),
   });
 
   const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
@@ -39,6 +137,48 @@ export const StudentForm: React.FC<StudentFormProps> = ({
 
   const isEditing = !!student;
 
+  // Live uniqueness check of the email; the edited student's own address doesn't count
+  const { emailError: emailTaken, checking: isCheckingEmail, validate: validateOnServer } =
+    useStudentValidation(formData.email, student?.id);
+  const emailError = validationErrors.email || emailTaken;
+
+  /**
+   * Courses offered for one enrollment row: active courses not used by another row
+   * Archived courses, and courses the user may not enroll into, take no new enrollments,
+   * but a row's current course stays selectable
+   */
+  const getSelectableCourses = (row: EnrollmentFormData): Course[] => {
+    const usedElsewhere = new Set(
+      formData.enrollments.filter(other => other !== row).map(other => other.courseId)
+    );
+    return courses.filter(course => {
+      const id = course.id.toString();
+      return id === row.courseId || (course.status === 'active' && canEnrollIn(course.id) && !usedElsewhere.has(id));
+    });
+  };
+
+  /**
+   * Enrollment row handlers - demonstrates immutable updates of arrays in state
+   */
+  const updateEnrollments = (update: (rows: EnrollmentFormData[]) => EnrollmentFormData[]) => {
+    setFormData(prev => ({ ...prev, enrollments: update(prev.enrollments) }));
+    if (validationErrors.enrollments) {
+      setValidationErrors(prev => ({ ...prev, enrollments: undefined }));
+    }
+  };
+
+  const handleEnrollmentChange = (index: number, changes: Partial<EnrollmentFormData>) => {
+    updateEnrollments(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleAddEnrollment = () => {
+    updateEnrollments(rows => [...rows, { courseId: '', status: 'active' }]);
+  };
+
+  const handleRemoveEnrollment = (index: number) => {
+    updateEnrollments(rows => rows.filter((_, i) => i !== index));
+  };
+
   /**
    * Handle input changes - demonstrates controlled components
    * This pattern ensures React controls the form state
@@ -60,15 +200,15 @@ export const StudentForm: React.FC<StudentFormProps> = ({
     }
   };
 
-  /**
-   * Generate random profile image - demonstrates async operations and state updates
-   */
-  const handleGenerateRandomImage = () => {
-    const randomImage = getRandomProfileImage();
-    setFormData(prev => ({
-      ...prev,
-      profileImage: randomImage
-    }));
+  const handleCustomFieldChange = (key: string, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, customFields: { ...prev.customFields, [key]: value } }));
+    if (validationErrors.customFields?.[key]) {
+      setValidationErrors(prev => {
+        const remaining = { ...prev.customFields };
+        delete remaining[key];
+        return { ...prev, customFields: Object.keys(remaining).length > 0 ? remaining : undefined };
+      });
+    }
   };
 
   /**
@@ -79,7 +219,7 @@ export const StudentForm: React.FC<StudentFormProps> = ({
     e.preventDefault();
     
     // Client-side validation first
-    const errors = validateStudent(formData);
+    const errors = validateStudent(formData, customFields);
     if (hasValidationErrors(errors)) {
       setValidationErrors(errors);
       return;
@@ -89,37 +229,53 @@ export const StudentForm: React.FC<StudentFormProps> = ({
     setServerError('');
 
     try {
-      // Server-side validation - demonstrates async/await
-      if (!isEditing) {
-        await validateStudentOnServer({
-          name: formData.name.trim(),
-          email: formData.email.trim(),
-          courseId: parseInt(formData.courseId),
-          profileImage: formData.profileImage,
-        });
-      }
-
       // Prepare student data
       const studentData = {
         name: formData.name.trim(),
         email: formData.email.trim(),
-        courseId: parseInt(formData.courseId),
-        profileImage: formData.profileImage || getRandomProfileImage(),
+        // Without a photo the card shows a generated initials avatar
+        profileImage: formData.profileImage || undefined,
+        customFields: customFieldsFromForm(customFields, formData.customFields, student?.customFields),
       };
 
+      // Server-side validation - demonstrates async/await; runs for edits too.
+      // Offline it is skipped: the change is queued and the server checks it on sync
+      const serverErrors = await validateOnServer({
+        ...studentData,
+        enrollments: enrollmentDraftsFromForm(formData.enrollments),
+      }).catch(error => {
+        if (isNetworkError(error)) {
+          return {};
+        }
+        throw error;
+      });
+      if (hasValidationErrors(serverErrors)) {
+        setValidationErrors(serverErrors);
+        return;
+      }
+
       if (isEditing && onUpdate && student) {
-        // Update existing student
-        onUpdate({
+        // Update existing student - awaited so repository errors land in serverError
+        await onUpdate({
           ...student,
           ...studentData,
+          enrollments: enrollmentsFromForm(student.id, formData.enrollments, student.enrollments, new Date()),
         });
       } else {
         // Create new student
-        onSubmit(studentData);
+        await onSubmit({
+          ...studentData,
+          enrollments: enrollmentDraftsFromForm(formData.enrollments),
+        });
       }
 
     } catch (error) {
-      setServerError(error instanceof Error ? error.message : 'An unexpected error occurred');
+      // A save the server rejected field by field (e.g. an email taken in the meantime) is shown inline
+      if (error instanceof ApiError && hasValidationErrors(error.fieldErrors)) {
+        setValidationErrors(error.fieldErrors);
+      } else {
+        setServerError(error instanceof Error ? error.message : t('common.unexpectedError'));
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -127,17 +283,18 @@ export const StudentForm: React.FC<StudentFormProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-2xl font-bold text-gray-900 flex items-center">
-            {isEditing ? <Save className="w-6 h-6 mr-2" /> : <UserPlus className="w-6 h-6 mr-2" />}
-            {isEditing ? 'Edit Student' : 'Add New Student'}
+            {isEditing ? <Save className="w-6 h-6 me-2" /> : <UserPlus className="w-6 h-6 me-2" />}
+            {isEditing ? t('form.editTitle') : t('form.addTitle')}
           </h2>
           <button
             onClick={onCancel}
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
             disabled={isSubmitting}
+            aria-label={t('common.close')}
           >
             <X className="w-6 h-6 text-gray-400" />
           </button>
@@ -145,38 +302,18 @@ export const StudentForm: React.FC<StudentFormProps> = ({
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {/* Profile Image Section */}
-          <div className="text-center">
-            <div className="relative inline-block">
-              {formData.profileImage ? (
-                <img
-                  src={formData.profileImage}
-                  alt="Profile preview"
-                  className="w-24 h-24 rounded-full object-cover border-4 border-gray-200"
-                  onError={(e) => {
-                    const target = e.target as HTMLImageElement;
-                    target.style.display = 'none';
-                    target.nextElementSibling?.classList.remove('hidden');
-                  }}
-                />
-              ) : null}
-              <div className={`w-24 h-24 rounded-full bg-gradient-to-br from-blue-400 to-blue-600 flex items-center justify-center border-4 border-gray-200 ${formData.profileImage ? 'hidden' : ''}`}>
-                <User className="w-12 h-12 text-white" />
-              </div>
-            </div>
-            <button
-              type="button"
-              onClick={handleGenerateRandomImage}
-              className="mt-2 text-sm text-blue-600 hover:text-blue-800 underline"
-            >
-              Generate Random Avatar
-            </button>
-          </div>
+          {/* Profile Photo */}
+          <PhotoUpload
+            name={formData.name}
+            value={formData.profileImage}
+            onChange={(profileImage) => setFormData(prev => ({ ...prev, profileImage }))}
+            disabled={isSubmitting}
+          />
 
           {/* Name Field */}
           <div>
             <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
-              Full Name *
+              {t('form.name')}
             </label>
             <input
               type="text"
@@ -184,10 +321,10 @@ export const StudentForm: React.FC<StudentFormProps> = ({
               name="name"
               value={formData.name}
               onChange={handleInputChange}
-              className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+              className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors ${
                 validationErrors.name ? 'border-red-500 bg-red-50' : 'border-gray-300'
               }`}
-              placeholder="Enter student's full name"
+              placeholder={t('form.namePlaceholder')}
               disabled={isSubmitting}
             />
             {validationErrors.name && (
@@ -198,7 +335,7 @@ export const StudentForm: React.FC<StudentFormProps> = ({
           {/* Email Field */}
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-              Email Address *
+              {t('form.email')}
             </label>
             <input
               type="email"
@@ -206,60 +343,106 @@ export const StudentForm: React.FC<StudentFormProps> = ({
               name="email"
               value={formData.email}
               onChange={handleInputChange}
-              className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                validationErrors.email ? 'border-red-500 bg-red-50' : 'border-gray-300'
+              className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors ${
+                emailError ? 'border-red-500 bg-red-50' : 'border-gray-300'
               }`}
               placeholder="student@example.com"
               disabled={isSubmitting}
+              aria-invalid={!!emailError}
+              aria-describedby="email-status"
             />
-            {validationErrors.email && (
-              <p className="mt-1 text-sm text-red-600">{validationErrors.email}</p>
-            )}
+            <div id="email-status" aria-live="polite">
+              {emailError ? (
+                <p className="mt-1 text-sm text-red-600">{emailError}</p>
+              ) : isCheckingEmail && (
+                <p className="mt-1 text-sm text-gray-500 flex items-center">
+                  <LoadingSpinner size="sm" className="me-2" />
+                  {t('form.checking')}
+                </p>
+              )}
+            </div>
           </div>
 
-          {/* Course Selection */}
-          <div>
-            <label htmlFor="courseId" className="block text-sm font-medium text-gray-700 mb-2">
-              Enrolled Course *
-            </label>
-            <select
-              id="courseId"
-              name="courseId"
-              value={formData.courseId}
-              onChange={handleInputChange}
-              className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                validationErrors.courseId ? 'border-red-500 bg-red-50' : 'border-gray-300'
-              }`}
+          {/* Course Enrollments */}
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">
+              {t('form.enrollments')}
+            </legend>
+            <div className="space-y-2">
+              {formData.enrollments.map((row, index) => {
+                const isLocked = !!row.courseId && !canEnrollIn(Number(row.courseId));
+                return (
+                  <div key={row.id ?? `new-${index}`} className="flex items-center gap-2">
+                    <select
+                      aria-label={t('form.courseFor', { index: index + 1 })}
+                      value={row.courseId}
+                      onChange={(e) => handleEnrollmentChange(index, { courseId: e.target.value })}
+                      className={`flex-1 min-w-0 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors ${
+                        validationErrors.enrollments && !row.courseId ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                      }`}
+                      // The course of an existing enrollment is fixed; drop it and add a new one instead
+                      disabled={isSubmitting || !!row.id}
+                    >
+                      <option value="">{t('form.selectCourse')}</option>
+                      {getSelectableCourses(row).map(course => (
+                        <option key={course.id} value={course.id}>
+                          {course.status === 'archived' ? t('form.archivedCourse', { name: course.name }) : course.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label={t('form.statusFor', { index: index + 1 })}
+                      value={row.status}
+                      onChange={(e) => handleEnrollmentChange(index, { status: e.target.value as EnrollmentFormData['status'] })}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors"
+                      disabled={isSubmitting || isLocked}
+                      title={isLocked ? t('form.lockedStatus') : undefined}
+                    >
+                      {ENROLLMENT_STATUSES.map(status => (
+                        <option key={status} value={status}>{t(`enrollmentStatus.${status}`)}</option>
+                      ))}
+                    </select>
+                    {/* Existing enrollments are kept as history; mark them dropped instead */}
+                    {!row.id && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveEnrollment(index)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        aria-label={t('form.removeEnrollment', { index: index + 1 })}
+                        disabled={isSubmitting}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={handleAddEnrollment}
+              className="mt-2 inline-flex items-center text-sm text-primary-600 hover:text-primary-800"
               disabled={isSubmitting}
             >
-              <option value="">Select a course</option>
-              {courses.map(course => (
-                <option key={course.id} value={course.id}>
-                  {course.name}
-                </option>
-              ))}
-            </select>
-            {validationErrors.courseId && (
-              <p className="mt-1 text-sm text-red-600">{validationErrors.courseId}</p>
+              <Plus className="w-4 h-4 me-1" />
+              {t('form.addCourse')}
+            </button>
+            {validationErrors.enrollments && (
+              <p className="mt-1 text-sm text-red-600">{validationErrors.enrollments}</p>
             )}
-          </div>
+          </fieldset>
 
-          {/* Profile Image URL */}
-          <div>
-            <label htmlFor="profileImage" className="block text-sm font-medium text-gray-700 mb-2">
-              Profile Image URL (optional)
-            </label>
-            <input
-              type="url"
-              id="profileImage"
-              name="profileImage"
-              value={formData.profileImage}
-              onChange={handleInputChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-              placeholder="https://example.com/image.jpg"
+          {/* Custom Fields */}
+          {customFields.map(field => (
+            <CustomFieldInput
+              key={field.key}
+              field={field}
+              value={formData.customFields[field.key]}
+              error={validationErrors.customFields?.[field.key]}
               disabled={isSubmitting}
+              onChange={(value) => handleCustomFieldChange(field.key, value)}
             />
-          </div>
+          ))}
 
           {/* Server Error */}
           {serverError && (
@@ -269,26 +452,26 @@ export const StudentForm: React.FC<StudentFormProps> = ({
           )}
 
           {/* Action Buttons */}
-          <div className="flex space-x-3 pt-4">
+          <div className="flex gap-3 pt-4">
             <button
               type="button"
               onClick={onCancel}
               className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
               disabled={isSubmitting}
             >
-              Cancel
+              {t('common.cancel')}
             </button>
             <button
               type="submit"
-              className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+              className="flex-1 px-4 py-3 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center"
               disabled={isSubmitting}
             >
               {isSubmitting ? (
-                <LoadingSpinner size="sm" className="mr-2" />
+                <LoadingSpinner size="sm" className="me-2" />
               ) : (
-                isEditing ? <Save className="w-4 h-4 mr-2" /> : <UserPlus className="w-4 h-4 mr-2" />
+                isEditing ? <Save className="w-4 h-4 me-2" /> : <UserPlus className="w-4 h-4 me-2" />
               )}
-              {isSubmitting ? 'Saving...' : (isEditing ? 'Update Student' : 'Add Student')}
+              {isSubmitting ? t('form.saving') : (isEditing ? t('form.update') : t('form.add'))}
             </button>
           </div>
         </form>
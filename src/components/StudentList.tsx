@@ -1,14 +1,41 @@
-// Student list component with grid layout
+// Student list component with sorted, paged or virtualized grid layout
 import React, { useMemo } from 'react';
-import { Student, Course } from '../types';
+import { Student, Course, GradeBand, SortKey, ListViewMode, SyncStatus } from '../types';
+import { useSelection } from '../hooks/useSelection';
+import { useCourseLookup } from '../hooks/useCourseLookup';
+import { useSettings } from '../context/SettingsContext';
+import { useAttendance } from '../context/AttendanceContext';
+import { useLocale } from '../context/LocaleContext';
+import { getSortFields, sortStudents } from '../utils/sorting';
+import { gradeDistribution } from '../utils/grading';
+import { absenceStreaks } from '../utils/attendance';
+import { countEnrollmentsByCourse } from '../utils/analytics';
+import { QueryNode } from '../utils/searchQuery';
 import { StudentCard } from './StudentCard';
+import { BulkActionBar } from './BulkActionBar';
+import { ListControls } from './ListControls';
+import { Pagination } from './Pagination';
+import { VirtualStudentGrid } from './VirtualStudentGrid';
 import { Users, BookOpen } from 'lucide-react';
 
 interface StudentListProps {
   students: Student[];
   courses: Course[];
-  onEditStudent: (student: Student) => void;
-  onDeleteStudent: (id: string) => void;
+  // Left out when the signed-in user may not edit or delete students
+  onEditStudent?: (student: Student) => void;
+  onDeleteStudent?: (id: string) => void;
+  sort: SortKey[];
+  onSortChange: (sort: SortKey[]) => void;
+  viewMode: ListViewMode;
+  onViewModeChange: (mode: ListViewMode) => void;
+  page: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+  searchQuery?: QueryNode | null;
+  // Outbox state of students with unsynced changes
+  syncStatuses?: Record<string, SyncStatus>;
+  onResolveConflict?: (id: string) => void;
 }
 
 /**
@@ -19,25 +46,83 @@ export const StudentList: React.FC<StudentListProps> = ({
   students,
   courses,
   onEditStudent,
-  onDeleteStudent
+  onDeleteStudent,
+  sort,
+  onSortChange,
+  viewMode,
+  onViewModeChange,
+  page,
+  pageSize,
+  onPageChange,
+  onPageSizeChange,
+  searchQuery = null,
+  syncStatuses = {},
+  onResolveConflict
 }) => {
-  /**
-   * Memoized course lookup map - demonstrates useMemo for performance
-   * This prevents recreation of the course map on every render
-   */
-  const courseMap = useMemo(() => {
-    return courses.reduce((map, course) => {
-      map[course.id] = course;
-      return map;
-    }, {} as Record<number, Course>);
-  }, [courses]);
+  const { settings: { gradingScale, customFields } } = useSettings();
+  const { sessions } = useAttendance();
+  const { locale, t, formatNumber } = useLocale();
+
+  // Memoized course lookup - the map is only rebuilt when the courses change
+  const { getEnrolledCourses } = useCourseLookup(courses);
+
+  // Enrollment counts per course and status; the Analytics view charts the same numbers over time
+  const enrollmentStats = useMemo(() => countEnrollmentsByCourse(students), [students]);
 
   /**
-   * Get course for student - demonstrates memoized computations
+   * Letter grade counts per course, for courses that have assessments
    */
-  const getCourseForStudent = (student: Student): Course | undefined => {
-    return courseMap[student.courseId];
-  };
+  const gradeStats = useMemo(() => {
+    const stats: Record<number, { band: GradeBand; count: number }[]> = {};
+    courses
+      .filter(course => (course.assessments?.length ?? 0) > 0)
+      .forEach(course => {
+        stats[course.id] = gradeDistribution(students, course, gradingScale);
+      });
+    return stats;
+  }, [students, courses, gradingScale]);
+
+  // Attendance flags follow saved roll calls; until sessions load nobody is flagged
+  const streaks = useMemo(() => absenceStreaks(sessions ?? []), [sessions]);
+
+  const sortedStudents = useMemo(
+    () => sortStudents(students, sort, courses, customFields, locale),
+    [students, sort, courses, customFields, locale]
+  );
+
+  // Selection follows the sorted order, so shift-click ranges match what's on screen
+  const orderedIds = useMemo(() => sortedStudents.map(student => student.id), [sortedStudents]);
+  const { selectedIds, isSelected, toggle, selectAll, clear } = useSelection(orderedIds);
+
+  const selectedStudents = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return sortedStudents.filter(student => ids.has(student.id));
+  }, [sortedStudents, selectedIds]);
+
+  // Deleting the last students of the last page would otherwise leave an empty page
+  const pageCount = Math.max(1, Math.ceil(sortedStudents.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const pageStudents = useMemo(
+    () => sortedStudents.slice((currentPage - 1) * pageSize, currentPage * pageSize),
+    [sortedStudents, currentPage, pageSize]
+  );
+
+  const renderCard = (student: Student) => (
+    <StudentCard
+      key={student.id}
+      student={student}
+      enrolledCourses={getEnrolledCourses(student)}
+      onEdit={onEditStudent}
+      onDelete={onDeleteStudent}
+      selected={isSelected(student.id)}
+      onToggleSelect={toggle}
+      highlight={searchQuery}
+      gradingScale={gradingScale}
+      absenceStreak={streaks.get(student.id)}
+      syncStatus={syncStatuses[student.id]}
+      onResolveConflict={onResolveConflict}
+    />
+  );
 
   if (students.length === 0) {
     return (
@@ -45,9 +130,9 @@ export const StudentList: React.FC<StudentListProps> = ({
         <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 rounded-full mb-4">
           <Users className="w-8 h-8 text-gray-400" />
         </div>
-        <h3 className="text-lg font-medium text-gray-900 mb-2">No students found</h3>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">{t('list.emptyTitle')}</h3>
         <p className="text-gray-500">
-          Start by adding your first student to the dashboard.
+          {t('list.emptyMessage')}
         </p>
       </div>
     );
@@ -55,35 +140,90 @@ export const StudentList: React.FC<StudentListProps> = ({
 
   return (
     <div>
-      {/* Grid Layout - demonstrates responsive grid system */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {students.map(student => (
-          <StudentCard
-            key={student.id}
-            student={student}
-            course={getCourseForStudent(student)}
-            onEdit={onEditStudent}
-            onDelete={onDeleteStudent}
+      {/* Bulk actions appear once anything is selected */}
+      {selectedStudents.length > 0 ? (
+        <BulkActionBar
+          selectedStudents={selectedStudents}
+          matchingCount={students.length}
+          courses={courses}
+          onSelectAll={selectAll}
+          onClear={clear}
+        />
+      ) : (
+        <div className="mb-4 flex justify-end">
+          <button
+            onClick={selectAll}
+            className="text-sm text-primary-600 hover:underline"
+          >
+            {t('list.selectAll', { count: students.length })}
+          </button>
+        </div>
+      )}
+
+      <ListControls
+        fields={getSortFields(customFields)}
+        sort={sort}
+        onSortChange={onSortChange}
+        viewMode={viewMode}
+        onViewModeChange={onViewModeChange}
+      />
+
+      {viewMode === 'virtual' ? (
+        <VirtualStudentGrid students={sortedStudents} renderCard={renderCard} />
+      ) : (
+        <>
+          {/* Grid Layout - demonstrates responsive grid system */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {pageStudents.map(renderCard)}
+          </div>
+          <Pagination
+            page={currentPage}
+            pageSize={pageSize}
+            total={sortedStudents.length}
+            onPageChange={onPageChange}
+            onPageSizeChange={onPageSizeChange}
           />
-        ))}
-      </div>
+        </>
+      )}
 
       {/* Statistics */}
-      <div className="mt-8 bg-white rounded-xl shadow-md p-6">
+      <div className="mt-8 bg-surface rounded-xl shadow-md p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-          <BookOpen className="w-5 h-5 mr-2" />
-          Course Enrollment Statistics
+          <BookOpen className="w-5 h-5 me-2" />
+          {t('list.statsTitle')}
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {courses.map(course => {
-            const enrolledCount = students.filter(s => s.courseId === course.id).length;
+            const { active, completed, dropped } = enrollmentStats[course.id] ?? { active: 0, completed: 0, dropped: 0 };
+            const distribution = gradeStats[course.id];
+            const graded = distribution?.reduce((sum, { count }) => sum + count, 0) ?? 0;
             return (
               <div key={course.id} className="bg-gray-50 rounded-lg p-4">
                 <div className="font-medium text-gray-900">{course.name}</div>
-                <div className="text-2xl font-bold text-blue-600">{enrolledCount}</div>
+                <div className="text-2xl font-bold text-primary-600">{formatNumber(active)}</div>
                 <div className="text-sm text-gray-500">
-                  student{enrolledCount !== 1 ? 's' : ''} enrolled
+                  {t('list.activeEnrollments', { count: active })}
+                </div>
+                <div className="mt-2 flex gap-4 text-xs text-gray-500">
+                  <span className="text-green-700">{t('list.completed', { count: completed })}</span>
+                  <span className="text-gray-500">{t('list.dropped', { count: dropped })}</span>
                 </div>
+                {graded > 0 && (
+                  <div className="mt-3 space-y-1" aria-label={t('list.gradeDistribution', { course: course.name })}>
+                    {distribution.map(({ band, count }) => (
+                      <div key={band.letter} className="flex items-center text-xs text-gray-600">
+                        <span className="w-6 font-medium">{band.letter}</span>
+                        <div className="flex-1 h-2 bg-gray-200 rounded">
+                          <div
+                            className="h-2 bg-primary-500 rounded"
+                            style={{ width: `${(count / graded) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-6 text-end">{formatNumber(count)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -0,0 +1,106 @@
+// Sync conflict dialog - a queued change set against what the server now holds
+import React from 'react';
+import { Course, CustomFieldDefinition, OutboxEntry, ConflictResolution } from '../types';
+import { diffStudents } from '../utils/studentHistory';
+import { useLocale } from '../context/LocaleContext';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface SyncConflictDialogProps {
+  entry: OutboxEntry;
+  courses: Course[];
+  customFields: CustomFieldDefinition[];
+  onResolve: (resolution: ConflictResolution) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Sync Conflict Dialog component - demonstrates presenting a three-way decision as a two-way choice
+ * Only the fields where the two copies disagree are listed; the user keeps one side as a whole
+ */
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+  entry,
+  courses,
+  customFields,
+  onResolve,
+  onCancel
+}) => {
+  const { t, formatDateTime } = useLocale();
+  const server = entry.server ?? null;
+  const mine = entry.operation === 'delete' ? null : (entry.student ?? null);
+  const name = mine?.name ?? server?.name ?? entry.previous?.name ?? t('conflict.thisStudent');
+  const diffs = diffStudents(server, mine, courses, customFields);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-surface rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <AlertTriangle className="w-5 h-5 me-2 text-red-500" />
+            {t('conflict.title', { name })}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label={t('common.close')}
+          >
+            <X className="w-6 h-6 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            {t('conflict.intro', { queuedAt: formatDateTime(entry.queuedAt) })}
+          </p>
+          {entry.operation === 'delete' && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              {t('conflict.youDeleted')}
+            </p>
+          )}
+          {!server && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              {t('conflict.serverDeleted')}
+            </p>
+          )}
+
+          {diffs.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-start text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">{t('conflict.field')}</th>
+                    <th className="px-3 py-2 font-medium">{t('conflict.serverCopy')}</th>
+                    <th className="px-3 py-2 font-medium">{t('conflict.yourChange')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {diffs.map((diff, index) => (
+                    <tr key={`${diff.label}-${index}`}>
+                      <td className="px-3 py-2 font-medium text-gray-700">{diff.label}</td>
+                      <td className="px-3 py-2 text-gray-600">{diff.before || '—'}</td>
+                      <td className="px-3 py-2 text-gray-900">{diff.after || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={() => onResolve('theirs')}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            {t('conflict.keepServer')}
+          </button>
+          <button
+            onClick={() => onResolve('mine')}
+            className="px-4 py-2 bg-primary-600 text-on-primary rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            {t('conflict.keepMine')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+// Sync indicator - connection state and the number of changes waiting for the server
+import React from 'react';
+import { useLocale } from '../context/LocaleContext';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncIndicatorProps {
+  isOnline: boolean;
+  pendingCount: number;
+}
+
+/**
+ * Sync Indicator component - demonstrates deriving a compact status from two inputs
+ */
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ isOnline, pendingCount }) => {
+  const { t } = useLocale();
+
+  if (!isOnline) {
+    return (
+      <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800" role="status">
+        <CloudOff className="w-4 h-4 me-1" />
+        {t('sync.offline', { count: pendingCount })}
+      </span>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary-100 text-primary-800" role="status">
+        <RefreshCw className="w-4 h-4 me-1" />
+        {t('sync.syncing', { count: pendingCount })}
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800" role="status">
+      <Cloud className="w-4 h-4 me-1" />
+      {t('sync.synced')}
+    </span>
+  );
+};
@@ -0,0 +1,42 @@
+// Theme toggle - light, dark or follow the system
+import React from 'react';
+import { ThemePreference } from '../types';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { THEME_PREFERENCES } from '../utils/theme';
+import { Monitor, Moon, Sun } from 'lucide-react';
+
+const ICONS: Record<ThemePreference, React.ReactNode> = {
+  light: <Sun className="w-4 h-4" />,
+  dark: <Moon className="w-4 h-4" />,
+  system: <Monitor className="w-4 h-4" />,
+};
+
+/**
+ * Theme Toggle component - demonstrates a segmented control built from toggle buttons
+ * The pressed button is the saved preference, so "system" stays pressed while it follows a switch
+ */
+export const ThemeToggle: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { preference, setPreference } = useTheme();
+  const { t } = useLocale();
+
+  return (
+    <div role="group" aria-label={t('theme.label')} className={`inline-flex rounded-lg border border-gray-300 p-0.5 ${className}`}>
+      {THEME_PREFERENCES.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => setPreference(option)}
+          aria-pressed={preference === option}
+          title={t(`theme.${option}`)}
+          className={`p-1.5 rounded-md transition-colors ${
+            preference === option ? 'bg-primary-600 text-on-primary' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+          }`}
+        >
+          {ICONS[option]}
+          <span className="sr-only">{t(`theme.${option}`)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
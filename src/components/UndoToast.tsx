@@ -0,0 +1,102 @@
+// Undo toast - offers to revert a destructive change right after it happens
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useStudentContext } from '../context/StudentContext';
+import { useLocale } from '../context/LocaleContext';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { Undo2, X, AlertCircle } from 'lucide-react';
+
+// How long the toast stays up before dismissing itself
+const TOAST_DURATION = 8000;
+
+/**
+ * Undo Toast component - demonstrates timers with cleanup and derived visibility
+ * Mounted once for the whole app, so it also owns the Ctrl+Z / Ctrl+Shift+Z bindings
+ */
+export const UndoToast: React.FC = () => {
+  const { undo, redo, lastChange } = useStudentContext();
+  const { t } = useLocale();
+
+  const [visibleId, setVisibleId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  // Highest entry id already announced, so undoing back to an older entry doesn't re-show it
+  const announcedRef = useRef(0);
+
+  useEffect(() => {
+    if (!lastChange || lastChange.id <= announcedRef.current) {
+      return;
+    }
+    announcedRef.current = lastChange.id;
+    if (lastChange.destructive) {
+      setError('');
+      setVisibleId(lastChange.id);
+    }
+  }, [lastChange]);
+
+  // Auto-dismiss; restarts whenever a newer change is shown
+  useEffect(() => {
+    if (visibleId === null) {
+      return;
+    }
+    const timer = setTimeout(() => setVisibleId(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [visibleId]);
+
+  /**
+   * Wraps undo/redo so failures from either the toast or the keyboard are reported here
+   */
+  const runStep = useCallback((step: () => Promise<void>) => {
+    setError('');
+    step().catch(err => {
+      setError(err instanceof Error ? err.message : t('undo.failed'));
+    });
+  }, [t]);
+
+  const handleUndo = useCallback(() => {
+    setVisibleId(null);
+    runStep(undo);
+  }, [runStep, undo]);
+
+  const handleRedo = useCallback(() => runStep(redo), [runStep, redo]);
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const isVisible = visibleId !== null && lastChange?.id === visibleId;
+
+  if (!isVisible && !error) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 print:hidden" role="status" aria-live="polite">
+      <div className="flex items-center gap-4 px-4 py-3 bg-gray-900 text-gray-50 rounded-lg shadow-lg">
+        {error ? (
+          <span className="flex items-center text-sm text-red-300 dark:text-red-700">
+            <AlertCircle className="w-4 h-4 me-2" />
+            {error}
+          </span>
+        ) : (
+          <>
+            <span className="text-sm">{lastChange && t(lastChange.label.key, lastChange.label.values)}</span>
+            <button
+              onClick={handleUndo}
+              className="inline-flex items-center text-sm font-semibold text-primary-300 hover:text-primary-200"
+            >
+              <Undo2 className="w-4 h-4 me-1" />
+              {t('undo.undo')}
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => {
+            setVisibleId(null);
+            setError('');
+          }}
+          className="p-1 hover:bg-gray-700 rounded-full"
+          aria-label={t('common.dismiss')}
+        >
+          <X className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+// Virtualized student grid - only the rows in view are mounted
+import React, { useState, useEffect, useRef, ReactNode } from 'react';
+import { Student } from '../types';
+
+interface VirtualStudentGridProps {
+  students: Student[];
+  renderCard: (student: Student) => ReactNode;
+}
+
+// Every row gets the same height so row positions can be computed instead of measured
+const ROW_HEIGHT = 340;
+const GAP = 24;
+// Rows mounted above and below the viewport so fast scrolling doesn't flash blank space
+const OVERSCAN_ROWS = 2;
+
+/**
+ * Column count for a container width - mirrors the 1/2/3 column breakpoints of the paged grid
+ */
+const columnsFor = (width: number): number => (width >= 960 ? 3 : width >= 640 ? 2 : 1);
+
+/**
+ * Virtual Student Grid component - demonstrates windowing with scroll and resize observers
+ * A tall spacer keeps the scrollbar honest while only visible rows are rendered on top of it
+ */
+export const VirtualStudentGrid: React.FC<VirtualStudentGridProps> = ({ students, renderCard }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = columnsFor(viewport.width);
+  const rowCount = Math.ceil(students.length / columns);
+  const totalHeight = rowCount * ROW_HEIGHT;
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scrollTop + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  const rows: Student[][] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    rows.push(students.slice(row * columns, (row + 1) * columns));
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="h-[75vh] overflow-y-auto -mx-2 px-2"
+    >
+      <div className="relative" style={{ height: totalHeight }}>
+        {rows.map((rowStudents, offset) => (
+          <div
+            key={firstRow + offset}
+            className="absolute left-0 right-0 grid"
+            style={{
+              top: (firstRow + offset) * ROW_HEIGHT,
+              height: ROW_HEIGHT - GAP,
+              gap: GAP,
+              gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            }}
+          >
+            {rowStudents.map(student => (
+              // Cards fill the fixed cell; anything taller scrolls inside it
+              <div key={student.id} className="min-h-0 [&>*]:h-full [&>*]:overflow-y-auto">
+                {renderCard(student)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
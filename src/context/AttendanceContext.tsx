@@ -0,0 +1,103 @@
+// Attendance Context - shares attendance sessions between the roll call, reports and student cards
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { ApiState, AttendanceSession, AttendanceSessionDraft } from '../types';
+import { useRepositories } from './RepositoryContext';
+import { translate } from '../utils/i18n';
+
+interface AttendanceContextType {
+  sessions: AttendanceSession[] | null;
+  loading: boolean;
+  error: string | null;
+  retrySessions: () => void;
+  createSession: (session: AttendanceSessionDraft) => Promise<AttendanceSession>;
+  updateSession: (session: AttendanceSession) => Promise<AttendanceSession>;
+  deleteSession: (id: string) => Promise<void>;
+}
+
+const AttendanceContext = createContext<AttendanceContextType | undefined>(undefined);
+
+/**
+ * Attendance Provider - loads every session once; saving a roll call updates
+ * absence flags on the roster without refetching
+ */
+export const AttendanceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { attendance: attendanceRepository } = useRepositories();
+  const [apiState, setApiState] = useState<ApiState<AttendanceSession[]>>({
+    data: null,
+    loading: true,
+    error: null,
+  });
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setApiState(prev => ({ ...prev, loading: true, error: null }));
+      const sessions = await attendanceRepository.list();
+      setApiState({ data: sessions, loading: false, error: null });
+    } catch (error) {
+      setApiState({
+        data: null,
+        loading: false,
+        error: error instanceof Error ? error.message : translate('server.attendanceLoadFailed'),
+      });
+    }
+  }, [attendanceRepository]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const retrySessions = useCallback(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Mutations update the shared list in place once the repository confirms them
+  const createSession = useCallback(async (draft: AttendanceSessionDraft) => {
+    const created = await attendanceRepository.create(draft);
+    setApiState(prev => ({ ...prev, data: [...(prev.data ?? []), created] }));
+    return created;
+  }, [attendanceRepository]);
+
+  const updateSession = useCallback(async (session: AttendanceSession) => {
+    const updated = await attendanceRepository.update(session);
+    setApiState(prev => ({
+      ...prev,
+      data: (prev.data ?? []).map(s => (s.id === updated.id ? updated : s)),
+    }));
+    return updated;
+  }, [attendanceRepository]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    await attendanceRepository.delete(id);
+    setApiState(prev => ({
+      ...prev,
+      data: (prev.data ?? []).filter(s => s.id !== id),
+    }));
+  }, [attendanceRepository]);
+
+  const contextValue: AttendanceContextType = {
+    sessions: apiState.data,
+    loading: apiState.loading,
+    error: apiState.error,
+    retrySessions,
+    createSession,
+    updateSession,
+    deleteSession,
+  };
+
+  return (
+    <AttendanceContext.Provider value={contextValue}>
+      {children}
+    </AttendanceContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use Attendance Context
+ */
+export const useAttendance = (): AttendanceContextType => {
+  const context = useContext(AttendanceContext);
+  if (context === undefined) {
+    throw new Error('useAttendance must be used within an AttendanceProvider');
+  }
+  return context;
+};
@@ -0,0 +1,98 @@
+// Auth Context - the signed-in user and what they are allowed to do
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Credentials, Permission, User } from '../types';
+import { AuthService } from '../utils/repositories';
+import { canInCourse, hasPermission } from '../utils/permissions';
+import { translate } from '../utils/i18n';
+import { useRepositories } from './RepositoryContext';
+
+interface AuthContextType {
+  user: User | null;
+  // True while the previous session is being restored
+  loading: boolean;
+  error: string | null;
+  signIn: (credentials: Credentials) => Promise<User>;
+  signOut: () => Promise<void>;
+  demoAccounts: AuthService['demoAccounts'];
+  // Permission check, optionally limited to one course for instructors
+  can: (permission: Permission, courseId?: number) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Auth Provider - restores the session once, then tracks sign-in and sign-out
+ * The provider behind it comes from the repositories, so tests can inject their own
+ */
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { auth } = useRepositories();
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    auth.currentUser()
+      .then(restored => {
+        if (isCurrent) {
+          setUser(restored);
+        }
+      })
+      .catch(err => {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : translate('server.sessionRestoreFailed'));
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [auth]);
+
+  const signIn = useCallback(async (credentials: Credentials) => {
+    const signedIn = await auth.signIn(credentials);
+    setError(null);
+    setUser(signedIn);
+    return signedIn;
+  }, [auth]);
+
+  const signOut = useCallback(async () => {
+    await auth.signOut();
+    setUser(null);
+  }, [auth]);
+
+  const can = useCallback((permission: Permission, courseId?: number) => {
+    return courseId === undefined ? hasPermission(user, permission) : canInCourse(user, permission, courseId);
+  }, [user]);
+
+  const contextValue: AuthContextType = {
+    user,
+    loading,
+    error,
+    signIn,
+    signOut,
+    demoAccounts: auth.demoAccounts,
+    can,
+  };
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use Auth Context
+ */
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,78 @@
+// Course Context - shares one course list so every view reacts to course changes
+import React, { createContext, useContext, ReactNode } from 'react';
+import { Course, CourseDraft } from '../types';
+import { useRepositories } from './RepositoryContext';
+import { useQueryCache } from './QueryContext';
+import { useQuery } from '../hooks/useQuery';
+import { useMutation } from '../hooks/useMutation';
+import { queryKeys } from '../utils/queryCache';
+
+interface CourseContextType {
+  courses: Course[] | null;
+  loading: boolean;
+  error: string | null;
+  retryCourses: () => void;
+  createCourse: (course: CourseDraft) => Promise<Course>;
+  updateCourse: (course: Course) => Promise<Course>;
+  deleteCourse: (id: number) => Promise<void>;
+}
+
+const CourseContext = createContext<CourseContextType | undefined>(undefined);
+
+/**
+ * Course Provider - demonstrates lifting server state into a shared provider
+ * Creating, renaming or archiving a course updates StudentList, StudentForm
+ * and the filters immediately, without refetching
+ */
+export const CourseProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { courses: courseRepository } = useRepositories();
+  const cache = useQueryCache();
+
+  // Cached and retried with backoff, so the mock server's occasional failures rarely reach the UI
+  const { data: courses, loading, error, refetch: retryCourses } = useQuery(
+    queryKeys.courses,
+    signal => courseRepository.list({ signal })
+  );
+
+  // Mutations update the shared list in place once the repository confirms them
+  const { mutate: createCourse } = useMutation((draft: CourseDraft) => courseRepository.create(draft), {
+    onSuccess: created => cache.setData<Course[]>(queryKeys.courses, prev => [...(prev ?? []), created]),
+  });
+
+  const { mutate: updateCourse } = useMutation((course: Course) => courseRepository.update(course), {
+    onSuccess: updated => cache.setData<Course[]>(queryKeys.courses, prev =>
+      (prev ?? []).map(c => (c.id === updated.id ? updated : c))
+    ),
+  });
+
+  const { mutate: deleteCourse } = useMutation((id: number) => courseRepository.delete(id), {
+    onSuccess: (_result, id) => cache.setData<Course[]>(queryKeys.courses, prev => (prev ?? []).filter(c => c.id !== id)),
+  });
+
+  const contextValue: CourseContextType = {
+    courses,
+    loading,
+    error,
+    retryCourses,
+    createCourse,
+    updateCourse,
+    deleteCourse,
+  };
+
+  return (
+    <CourseContext.Provider value={contextValue}>
+      {children}
+    </CourseContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use Course Context
+ */
+export const useCourseContext = (): CourseContextType => {
+  const context = useContext(CourseContext);
+  if (context === undefined) {
+    throw new Error('useCourseContext must be used within a CourseProvider');
+  }
+  return context;
+};
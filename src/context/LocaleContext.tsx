@@ -0,0 +1,85 @@
+// Locale Context - the interface language, its text direction and locale-aware formatting
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { Locale, TextDirection } from '../types';
+import {
+  MessageKey,
+  MessageValues,
+  compareText,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  readPreferredLocale,
+  setActiveLocale,
+  storePreferredLocale,
+  textDirection,
+  translate,
+} from '../utils/i18n';
+
+interface LocaleContextType {
+  locale: Locale;
+  dir: TextDirection;
+  setLocale: (locale: Locale) => void;
+  // The catalog message for a key, filled in with values
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (date: Date) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  compareText: (a: string, b: string) => number;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+/**
+ * Locale Provider - demonstrates a preference that reaches outside React
+ * Sets lang and dir on <html>, so the browser lays the whole page out right to left
+ * for RTL languages, and keeps the utils' active locale (validation, errors) in step
+ */
+export const LocaleProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const preferred = readPreferredLocale();
+    setActiveLocale(preferred);
+    return preferred;
+  });
+
+  const dir = textDirection(locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setLocale = useCallback((next: Locale) => {
+    // Before the re-render, so messages built outside components already use it
+    setActiveLocale(next);
+    storePreferredLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const contextValue = useMemo<LocaleContextType>(() => ({
+    locale,
+    dir,
+    setLocale,
+    t: (key, values) => translate(key, values, locale),
+    formatDate: (date, options) => formatDate(date, locale, options),
+    formatDateTime: date => formatDateTime(date, locale),
+    formatNumber: (value, options) => formatNumber(value, locale, options),
+    compareText: (a, b) => compareText(a, b, locale),
+  }), [locale, dir, setLocale]);
+
+  return (
+    <LocaleContext.Provider value={contextValue}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to access the locale and its formatters
+ */
+export const useLocale = (): LocaleContextType => {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+};
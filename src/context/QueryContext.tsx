@@ -0,0 +1,31 @@
+// Query Context - demonstrates sharing one cache of server state through React Context
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { QueryCache, createQueryCache } from '../utils/queryCache';
+
+const QueryContext = createContext<QueryCache | undefined>(undefined);
+
+/**
+ * Query Provider - every query and mutation below it shares one cache
+ * Mounted inside AuthGate, so signing in as someone else starts with an empty cache.
+ * Tests can pass their own cache
+ */
+export const QueryProvider: React.FC<{ children: ReactNode; cache?: QueryCache }> = ({ children, cache }) => {
+  const [ownCache] = useState(createQueryCache);
+
+  return (
+    <QueryContext.Provider value={cache ?? ownCache}>
+      {children}
+    </QueryContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to access the query cache
+ */
+export const useQueryCache = (): QueryCache => {
+  const context = useContext(QueryContext);
+  if (context === undefined) {
+    throw new Error('useQueryCache must be used within a QueryProvider');
+  }
+  return context;
+};
@@ -0,0 +1,49 @@
+// Repository Context - demonstrates dependency injection through React Context
+import React, { createContext, useContext, ReactNode } from 'react';
+import { Repositories } from '../utils/repositories';
+import { createHttpRepositories } from '../utils/httpRepository';
+import { createMockServer } from '../utils/mockServer';
+import { createDefaultStorageAdapter } from '../utils/storage';
+
+/**
+ * Chooses the backend from the environment
+ * Setting VITE_API_BASE_URL points the whole dashboard at a real REST API
+ */
+const createDefaultRepositories = (): Repositories => {
+  const baseUrl = import.meta.env.VITE_API_BASE_URL;
+  if (baseUrl) {
+    return createHttpRepositories({ baseUrl });
+  }
+  return createMockServer(createDefaultStorageAdapter());
+};
+
+// Shared default instance so every provider talks to the same backend
+const defaultRepositories = createDefaultRepositories();
+
+const RepositoryContext = createContext<Repositories | undefined>(undefined);
+
+/**
+ * Repository Provider - makes the data layer available to hooks and context providers
+ * Tests or stories can pass their own repositories instead of the default ones
+ */
+export const RepositoryProvider: React.FC<{ children: ReactNode; repositories?: Repositories }> = ({
+  children,
+  repositories = defaultRepositories
+}) => {
+  return (
+    <RepositoryContext.Provider value={repositories}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to access the repositories
+ */
+export const useRepositories = (): Repositories => {
+  const context = useContext(RepositoryContext);
+  if (context === undefined) {
+    throw new Error('useRepositories must be used within a RepositoryProvider');
+  }
+  return context;
+};
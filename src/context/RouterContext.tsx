@@ -0,0 +1,76 @@
+// Router Context - demonstrates client-side routing on top of the History API
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { Route, resolveRoute } from '../utils/routes';
+
+interface RouterLocation {
+  pathname: string;
+  search: string;
+}
+
+interface NavigateOptions {
+  // Replace the current history entry instead of pushing a new one
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  location: RouterLocation;
+  route: Route;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const readLocation = (): RouterLocation => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+});
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+/**
+ * Router Provider - keeps the current URL in React state
+ * navigate() pushes history entries; the back/forward buttons arrive as popstate events
+ */
+export const RouterProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [location, setLocation] = useState<RouterLocation>(readLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((to: string, { replace = false }: NavigateOptions = {}) => {
+    const current = window.location.pathname + window.location.search;
+    if (to === current) {
+      return;
+    }
+    if (replace) {
+      window.history.replaceState(null, '', to);
+    } else {
+      window.history.pushState(null, '', to);
+    }
+    setLocation(readLocation());
+  }, []);
+
+  // "/" is an alias for the roster
+  useEffect(() => {
+    if (location.pathname === '/') {
+      navigate(`/students${location.search}`, { replace: true });
+    }
+  }, [location, navigate]);
+
+  const route = useMemo(() => resolveRoute(location.pathname), [location.pathname]);
+
+  return (
+    <RouterContext.Provider value={{ location, route, navigate }}>
+      {children}
+    </RouterContext.Provider>
+  );
+};
+
+export const useRouter = (): RouterContextType => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+};
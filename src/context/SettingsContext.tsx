@@ -0,0 +1,80 @@
+// Settings Context - shares dashboard-wide settings such as the grading scale
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Settings } from '../types';
+import { useRepositories } from './RepositoryContext';
+import { DEFAULT_SETTINGS } from '../utils/settings';
+import { translate } from '../utils/i18n';
+
+interface SettingsContextType {
+  // The defaults until the stored settings arrive, so consumers never wait on them
+  settings: Settings;
+  loading: boolean;
+  error: string | null;
+  updateSettings: (settings: Settings) => Promise<Settings>;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+/**
+ * Settings Provider - loads settings once and shares them with every view
+ */
+export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { settings: settingsRepository } = useRepositories();
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    settingsRepository.get()
+      .then(stored => {
+        if (isCurrent) {
+          setSettings(stored);
+        }
+      })
+      .catch(err => {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : translate('server.settingsLoadFailed'));
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [settingsRepository]);
+
+  const updateSettings = useCallback(async (next: Settings) => {
+    const saved = await settingsRepository.update(next);
+    setSettings(saved);
+    setError(null);
+    return saved;
+  }, [settingsRepository]);
+
+  const contextValue: SettingsContextType = {
+    settings,
+    loading,
+    error,
+    updateSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={contextValue}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use Settings Context
+ */
+export const useSettings = (): SettingsContextType => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
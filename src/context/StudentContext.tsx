@@ -1,33 +1,117 @@
 // Student Context - demonstrates React Context API and global state management
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { Student } from '../types';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { AuditAction, ConflictResolution, OutboxEntry, Permission, Student, StudentDraft, OperationName, OperationStatus, SortKey, ListViewMode, SyncStatus } from '../types';
+import { useRepositories } from './RepositoryContext';
+import { useCourseContext } from './CourseContext';
+import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { useQueryCache } from './QueryContext';
+import { changedCourseIds, isActivelyEnrolled, moveToCourse, setEnrollmentScores } from '../utils/enrollment';
+import { addTag } from '../utils/tags';
+import { History, HistoryDescription, HistoryEntry, createHistory, undoable } from '../utils/history';
+import { ApiError, StudentRepository } from '../utils/repositories';
+import { createAuditEntries, toAuditActor } from '../utils/audit';
+import { queryKeys } from '../utils/queryCache';
+import { STORAGE_KEYS, StorageAdapter, createDefaultStorageAdapter } from '../utils/storage';
+import { applyOutbox, createLocalStudent, createOutboxStore } from '../utils/outbox';
+import { OutboxHandlers, useOutbox } from '../hooks/useOutbox';
+import { useTabChannel } from '../hooks/useTabChannel';
+import { PermissionError, scopeStudents } from '../utils/permissions';
+import { QueryNode, QuerySyntaxError, createQueryMatcher, parseSearchQuery } from '../utils/searchQuery';
+import { DEFAULT_LOCALE, Message, foldForSearch, translate } from '../utils/i18n';
 
 // State interface for the student context
 interface StudentState {
   students: Student[];
   searchTerm: string;
   selectedCourseFilter: number | null;
+  // Listing preferences - sort keys in priority order, plus the current page
+  sort: SortKey[];
+  viewMode: ListViewMode;
+  page: number;
+  pageSize: number;
+  isHydrated: boolean;
+  operations: Record<OperationName, OperationStatus>;
+  // Undo/redo stacks of roster snapshots
+  history: History<Student[]>;
 }
 
 // Action types for the reducer - demonstrates discriminated unions
 type StudentAction =
   | { type: 'ADD_STUDENT'; payload: Student }
+  | { type: 'ADD_STUDENTS'; payload: Student[] }
   | { type: 'UPDATE_STUDENT'; payload: Student }
+  | { type: 'UPDATE_STUDENTS'; payload: Student[]; meta?: HistoryDescription }
   | { type: 'DELETE_STUDENT'; payload: string }
+  | { type: 'DELETE_STUDENTS'; payload: string[] }
   | { type: 'SET_SEARCH_TERM'; payload: string }
   | { type: 'SET_COURSE_FILTER'; payload: number | null }
-  | { type: 'LOAD_STUDENTS'; payload: Student[] };
+  | { type: 'SET_SORT'; payload: SortKey[] }
+  | { type: 'SET_VIEW_MODE'; payload: ListViewMode }
+  | { type: 'SET_PAGE'; payload: number }
+  | { type: 'SET_PAGE_SIZE'; payload: number }
+  | { type: 'LOAD_STUDENTS'; payload: Student[] }
+  // The server's answer to a queued write: replaces (or removes) one student, outside undo history
+  | { type: 'SYNC_STUDENT'; payload: { id: string; student: Student | null } }
+  // The roster after another tab's change - outside undo history, which no longer matches it
+  | { type: 'REPLACE_ROSTER'; payload: Student[] }
+  | { type: 'SET_OPERATION_STATUS'; payload: { operation: OperationName; status: OperationStatus } };
+
+// Roster changes, which go through commit() so they are audited
+type AuditedAction =
+  | Extract<StudentAction, { type: AuditAction }>
+  | { type: 'UNDO'; payload: Student[] }
+  | { type: 'REDO'; payload: Student[] };
+
+// Roster changes that apply() dispatches without auditing
+type RosterAction = Extract<StudentAction, { type: AuditAction | 'SYNC_STUDENT' }>;
+
+// Every roster change, as the other open tabs replay it
+type SharedAction = AuditedAction | RosterAction;
+
+export interface ParsedSearch {
+  query: QueryNode | null;
+  error: QuerySyntaxError | null;
+}
 
 // Context interface
 interface StudentContextType {
   state: StudentState;
   dispatch: React.Dispatch<StudentAction>;
-  addStudent: (student: Omit<Student, 'id' | 'createdAt' | 'updatedAt'>) => void;
-  updateStudent: (student: Student) => void;
-  deleteStudent: (id: string) => void;
+  addStudent: (student: StudentDraft) => Promise<Student>;
+  importStudents: (students: StudentDraft[]) => Promise<Student[]>;
+  updateStudent: (student: Student) => Promise<Student>;
+  deleteStudent: (id: string) => Promise<void>;
+  reassignCourse: (fromCourseId: number, toCourseId: number) => Promise<Student[]>;
+  deleteStudents: (ids: string[]) => Promise<void>;
+  moveStudentsToCourse: (ids: string[], courseId: number) => Promise<Student[]>;
+  tagStudents: (ids: string[], tag: string) => Promise<Student[]>;
+  // Scores keyed by student id, then assessment id; replaces each listed student's scores in the course
+  recordScores: (courseId: number, scores: Record<string, Record<string, number>>) => Promise<Student[]>;
+  reloadStudents: () => Promise<void>;
   setSearchTerm: (term: string) => void;
   setCourseFilter: (courseId: number | null) => void;
+  setSort: (sort: SortKey[]) => void;
+  setViewMode: (mode: ListViewMode) => void;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  // The roster as far as the signed-in user may see it (instructors: their courses' students)
+  visibleStudents: Student[];
   getFilteredStudents: () => Student[];
+  // The parsed search box query, or the reason it could not be parsed
+  searchQuery: ParsedSearch;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  // The step the next undo would revert, for "Undo <label>" affordances
+  lastChange: HistoryEntry<Student[]> | undefined;
+  // Students with a write still in the outbox, by id; synced students are absent
+  syncStatuses: Record<string, SyncStatus>;
+  syncConflicts: OutboxEntry[];
+  pendingSyncCount: number;
+  isOnline: boolean;
+  resolveConflict: (entryId: string, resolution: ConflictResolution) => void;
 }
 
 /**
@@ -42,6 +126,12 @@ const studentReducer = (state: StudentState, action: StudentAction): StudentStat
         students: [...state.students, action.payload]
       };
     
+    case 'ADD_STUDENTS':
+      return {
+        ...state,
+        students: [...state.students, ...action.payload]
+      };
+    
     case 'UPDATE_STUDENT':
       return {
         ...state,
@@ -50,94 +140,625 @@ const studentReducer = (state: StudentState, action: StudentAction): StudentStat
         )
       };
     
+    case 'UPDATE_STUDENTS': {
+      // Lookup map keeps batch updates O(n) instead of O(n * m)
+      const updates = new Map(action.payload.map(student => [student.id, student]));
+      return {
+        ...state,
+        students: state.students.map(student => updates.get(student.id) ?? student)
+      };
+    }
+    
     case 'DELETE_STUDENT':
       return {
         ...state,
         students: state.students.filter(student => student.id !== action.payload)
       };
     
+    case 'DELETE_STUDENTS': {
+      const removed = new Set(action.payload);
+      return {
+        ...state,
+        students: state.students.filter(student => !removed.has(student.id))
+      };
+    }
+    
+    // Anything that changes which students match, or their order, starts again at page 1
     case 'SET_SEARCH_TERM':
       return {
         ...state,
-        searchTerm: action.payload
+        searchTerm: action.payload,
+        page: action.payload === state.searchTerm ? state.page : 1
       };
     
     case 'SET_COURSE_FILTER':
       return {
         ...state,
-        selectedCourseFilter: action.payload
+        selectedCourseFilter: action.payload,
+        page: action.payload === state.selectedCourseFilter ? state.page : 1
+      };
+    
+    case 'SET_SORT':
+      return {
+        ...state,
+        sort: action.payload,
+        page: 1
+      };
+    
+    case 'SET_VIEW_MODE':
+      return {
+        ...state,
+        viewMode: action.payload
+      };
+    
+    case 'SET_PAGE':
+      return {
+        ...state,
+        page: Math.max(1, action.payload)
+      };
+    
+    case 'SET_PAGE_SIZE':
+      return {
+        ...state,
+        pageSize: action.payload,
+        page: 1
       };
     
     case 'LOAD_STUDENTS':
+      return {
+        ...state,
+        students: action.payload,
+        isHydrated: true
+      };
+    
+    case 'REPLACE_ROSTER':
       return {
         ...state,
         students: action.payload
       };
     
+    case 'SYNC_STUDENT': {
+      const { id, student } = action.payload;
+      const exists = state.students.some(s => s.id === id);
+      if (!student) {
+        return { ...state, students: state.students.filter(s => s.id !== id) };
+      }
+      return {
+        ...state,
+        students: exists
+          ? state.students.map(s => (s.id === id ? student : s))
+          : [...state.students, student]
+      };
+    }
+    
+    case 'SET_OPERATION_STATUS':
+      return {
+        ...state,
+        operations: {
+          ...state.operations,
+          [action.payload.operation]: action.payload.status
+        }
+      };
+    
     default:
       return state;
   }
 };
 
+const nameOf = (state: StudentState, id: string) =>
+  state.students.find(student => student.id === id)?.name ?? translate('undo.unnamedStudent');
+
+/**
+ * A change label as the audit log stores it
+ * Entries are shared by everyone who reads the log, so they are kept in the catalogs' source language
+ */
+const auditSummary = ({ key, values }: Message) => translate(key, values, DEFAULT_LOCALE);
+
+/**
+ * Which actions are undoable, and how to describe them
+ * Batch actions are one step each, so a bulk change is undone as a whole.
+ * Search, filter, sort and paging changes are view state, not roster changes, and are never recorded.
+ */
+const describeAction = (action: StudentAction, state: StudentState): HistoryDescription | null => {
+  switch (action.type) {
+    case 'ADD_STUDENT':
+      return { label: { key: 'undo.addStudent', values: { name: action.payload.name } } };
+    case 'ADD_STUDENTS':
+      return { label: { key: 'undo.importStudents', values: { count: action.payload.length } } };
+    case 'UPDATE_STUDENT':
+      return { label: { key: 'undo.editStudent', values: { name: action.payload.name } } };
+    case 'UPDATE_STUDENTS':
+      return action.meta ?? { label: { key: 'undo.updateStudents', values: { count: action.payload.length } } };
+    case 'DELETE_STUDENT':
+      return { label: { key: 'undo.deleteStudent', values: { name: nameOf(state, action.payload) } }, destructive: true };
+    case 'DELETE_STUDENTS':
+      return { label: { key: 'undo.deleteStudents', values: { count: action.payload.length } }, destructive: true };
+    default:
+      return null;
+  }
+};
+
+const HISTORY_LIMIT = 50;
+
+const undoableStudentReducer = undoable(studentReducer, {
+  limit: HISTORY_LIMIT,
+  select: (state: StudentState) => state.students,
+  restore: (state, students) => ({ ...state, students }),
+  describe: describeAction,
+  // A fresh load replaces the roster, so older snapshots no longer apply
+  resets: action => action.type === 'LOAD_STUDENTS' || action.type === 'REPLACE_ROSTER',
+});
+
+// Tabs of the dashboard post their roster changes to each other on this channel
+const ROSTER_CHANNEL = 'student-roster';
+
+/**
+ * Replays another tab's roster change; undo/redo carry the roster they restored
+ */
+const applySharedAction = (students: Student[], action: SharedAction): Student[] =>
+  action.type === 'UNDO' || action.type === 'REDO'
+    ? action.payload
+    : studentReducer({ ...initialState, students }, action).students;
+
+/**
+ * Makes the backend match a roster snapshot and returns the snapshot as persisted
+ * Records are immutable, so anything not reference-equal to the current roster changed.
+ */
+const syncRoster = async (
+  repository: StudentRepository,
+  current: Student[],
+  target: Student[]
+): Promise<Student[]> => {
+  const currentById = new Map(current.map(student => [student.id, student]));
+  const targetIds = new Set(target.map(student => student.id));
+
+  const removed = current.filter(student => !targetIds.has(student.id)).map(student => student.id);
+  const restored = target.filter(student => !currentById.has(student.id));
+  const changed = target.filter(student => currentById.has(student.id) && currentById.get(student.id) !== student);
+
+  const [restoredRecords, changedRecords] = await Promise.all([
+    restored.length > 0 ? repository.restoreMany(restored) : [],
+    changed.length > 0 ? repository.updateMany(changed) : [],
+    removed.length > 0 ? repository.deleteMany(removed) : undefined,
+  ]);
+
+  const persisted = new Map([...restoredRecords, ...changedRecords].map(student => [student.id, student]));
+  return target.map(student => persisted.get(student.id) ?? student);
+};
+
 // Initial state
+const idleStatus: OperationStatus = { loading: false, error: null };
+
 const initialState: StudentState = {
   students: [],
   searchTerm: '',
   selectedCourseFilter: null,
+  sort: [{ field: 'name', direction: 'asc' }],
+  viewMode: 'paged',
+  page: 1,
+  pageSize: 24,
+  isHydrated: false,
+  operations: {
+    load: idleStatus,
+    create: idleStatus,
+    update: idleStatus,
+    delete: idleStatus,
+  },
+  history: createHistory<Student[]>(),
 };
 
 // Create context
 const StudentContext = createContext<StudentContextType | undefined>(undefined);
 
+// Where queued writes are kept between sessions, unless the provider is given another store
+const defaultOutboxStorage = createDefaultStorageAdapter();
+
+// Audit action and summary of a queued write, matching what describeAction gives the roster change
+const describeWrite = (entry: OutboxEntry, server: Student | null): { action: AuditAction; summary: string } => {
+  const name = server?.name ?? entry.student?.name ?? entry.previous?.name ?? translate('undo.unnamedStudent', undefined, DEFAULT_LOCALE);
+  switch (entry.operation) {
+    case 'create':
+      return { action: 'ADD_STUDENT', summary: auditSummary({ key: 'undo.addStudent', values: { name } }) };
+    case 'update':
+      return { action: 'UPDATE_STUDENT', summary: auditSummary({ key: 'undo.editStudent', values: { name } }) };
+    case 'delete':
+      return { action: 'DELETE_STUDENT', summary: auditSummary({ key: 'undo.deleteStudent', values: { name } }) };
+  }
+};
+
 /**
  * Student Provider component - demonstrates context provider pattern
  * This provides global state to all child components
  */
-export const StudentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(studentReducer, initialState);
-  
-  // Helper functions that encapsulate business logic
-  const addStudent = (studentData: Omit<Student, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const newStudent: Student = {
-      ...studentData,
-      id: crypto.randomUUID(), // Modern way to generate unique IDs
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    dispatch({ type: 'ADD_STUDENT', payload: newStudent });
-  };
+export const StudentProvider: React.FC<{ children: ReactNode; outboxStorage?: StorageAdapter }> = ({
+  children,
+  outboxStorage = defaultOutboxStorage
+}) => {
+  const [state, dispatch] = useReducer(undoableStudentReducer, initialState);
+  const { students: studentRepository, audit: auditRepository } = useRepositories();
+  const { courses } = useCourseContext();
+  const { user, can } = useAuth();
+  const { settings: { customFields } } = useSettings();
+  const queryCache = useQueryCache();
   
-  const updateStudent = (student: Student) => {
-    const updatedStudent = {
-      ...student,
-      updatedAt: new Date(),
-    };
-    dispatch({ type: 'UPDATE_STUDENT', payload: updatedStudent });
-  };
+  /**
+   * Runs a repository call while tracking its loading/error state
+   * Errors are recorded in state and re-thrown so callers can react too
+   */
+  const runOperation = useCallback(async <T,>(operation: OperationName, task: () => Promise<T>): Promise<T> => {
+    dispatch({ type: 'SET_OPERATION_STATUS', payload: { operation, status: { loading: true, error: null } } });
+    try {
+      const result = await task();
+      dispatch({ type: 'SET_OPERATION_STATUS', payload: { operation, status: idleStatus } });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : translate('common.unexpectedError');
+      dispatch({ type: 'SET_OPERATION_STATUS', payload: { operation, status: { loading: false, error: message } } });
+      throw error;
+    }
+  }, []);
+  
+  /**
+   * Checked inside each operation, so a refusal is reported like any other failed write
+   * Instructors also need the permission in every course the write touches
+   */
+  const authorize = useCallback((permission: Permission, courseIds: number[] = []) => {
+    if (!can(permission) || courseIds.some(courseId => !can(permission, courseId))) {
+      throw new PermissionError(permission);
+    }
+  }, [can]);
+  
+  /**
+   * Roster as of the latest commit - ahead of `state` between a dispatch and the
+   * re-render, so two commits in a row still diff against each other
+   */
+  const rosterRef = useRef(state.students);
+  useEffect(() => {
+    rosterRef.current = state.students;
+  }, [state.students]);
+  
+  /**
+   * Keeps the other open tabs in step: each roster change is posted as the action that
+   * made it, and theirs are replayed here. Undo history is cleared by a replayed change,
+   * since its snapshots don't include it
+   */
+  const postToTabs = useTabChannel<SharedAction>(ROSTER_CHANNEL, action => {
+    rosterRef.current = applySharedAction(rosterRef.current, action);
+    dispatch({ type: 'REPLACE_ROSTER', payload: rosterRef.current });
+    // Their histories and audit entries changed too
+    queryCache.invalidate(queryKeys.students);
+    queryCache.invalidate(queryKeys.audit);
+  });
+  
+  /**
+   * Records a change that reached the server: student queries (e.g. histories) are out
+   * of date now, and the audit log is once its entries are written
+   */
+  const recordChange = useCallback((entries: ReturnType<typeof createAuditEntries>) => {
+    queryCache.invalidate(queryKeys.students);
+    if (entries.length > 0) {
+      auditRepository.append(entries)
+        .then(() => queryCache.invalidate(queryKeys.audit))
+        .catch(error => {
+          console.error('Failed to write audit log entries', error);
+        });
+    }
+  }, [auditRepository, queryCache]);
+  
+  /**
+   * Dispatches a roster change without auditing it - optimistic writes are audited
+   * once the server has taken them, and their sync results aren't changes of their own
+   */
+  const apply = useCallback((action: RosterAction) => {
+    rosterRef.current = studentReducer({ ...initialState, students: rosterRef.current }, action).students;
+    dispatch(action);
+    postToTabs(action);
+  }, [postToTabs]);
+  
+  /**
+   * Dispatches a roster change and appends one audit entry per affected student
+   * Undo/redo pass the label of the step they replay, for the entry's summary.
+   * The change is already persisted by the time it gets here, so a failed audit
+   * write is reported but doesn't undo it
+   */
+  const commit = useCallback((action: AuditedAction, undoneLabel?: Message) => {
+    const before = rosterRef.current;
+    let after: Student[];
+    let summary: string;
+    if (action.type === 'UNDO' || action.type === 'REDO') {
+      after = action.payload;
+      summary = auditSummary({
+        key: action.type === 'UNDO' ? 'undo.undone' : 'undo.redone',
+        values: { label: undoneLabel ? auditSummary(undoneLabel) : '' },
+      });
+    } else {
+      // The same pure reducer the provider runs, applied to the roster alone
+      const previous = { ...initialState, students: before };
+      after = studentReducer(previous, action).students;
+      summary = auditSummary(describeAction(action, previous)!.label);
+    }
+    rosterRef.current = after;
+    dispatch(action);
+    postToTabs(action);
+    
+    recordChange(createAuditEntries(
+      { action: action.type, summary, actor: toAuditActor(user), at: new Date() },
+      before,
+      after
+    ));
+  }, [recordChange, postToTabs, user]);
   
-  const deleteStudent = (id: string) => {
-    dispatch({ type: 'DELETE_STUDENT', payload: id });
+  /**
+   * What the outbox reports back - the roster follows the server's answer to each write.
+   * A write is audited when the server accepts it, dated to when it was made
+   */
+  const outboxHandlers: OutboxHandlers = {
+    onSynced: (entry, server, current) => {
+      apply({ type: 'SYNC_STUDENT', payload: { id: entry.studentId, student: current } });
+      recordChange(createAuditEntries(
+        { ...describeWrite(entry, server), actor: toAuditActor(user), at: entry.queuedAt },
+        entry.previous ? [entry.previous] : [],
+        server ? [server] : []
+      ));
+    },
+    onRejected: entry => {
+      apply({ type: 'SYNC_STUDENT', payload: { id: entry.studentId, student: entry.previous } });
+    },
+    onDiscarded: entry => {
+      apply({ type: 'SYNC_STUDENT', payload: { id: entry.studentId, student: entry.server ?? null } });
+    },
   };
   
-  const setSearchTerm = (term: string) => {
+  // Tabs signed in as the same user share one outbox, replayed by whichever tab leads
+  const userId = user?.id ?? 'anonymous';
+  const outboxStore = useMemo(() => createOutboxStore(outboxStorage, userId), [outboxStorage, userId]);
+  const outbox = useOutbox(studentRepository, outboxStore, outboxHandlers, `${STORAGE_KEYS.outbox}:${userId}`);
+  const { submit, queuedWrites } = outbox;
+  
+  /**
+   * Loads the roster from the repository into the reducer via LOAD_STUDENTS
+   * Writes still in the outbox are laid on top, so local changes survive a reload.
+   * The request goes through the query cache, which retries it and shares it between
+   * reloads that overlap; the roster itself stays in the reducer, for undo and the outbox
+   */
+  const reloadStudents = useCallback(async () => {
+    const [students, queued] = await runOperation('load', () =>
+      Promise.all([
+        queryCache.fetch(queryKeys.students, signal => studentRepository.list({ signal })),
+        queuedWrites(),
+      ])
+    );
+    dispatch({ type: 'LOAD_STUDENTS', payload: applyOutbox(students, queued) });
+  }, [runOperation, queryCache, studentRepository, queuedWrites]);
+  
+  // Hydrate on mount; failures are already surfaced through operations.load
+  useEffect(() => {
+    reloadStudents().catch(() => undefined);
+  }, [reloadStudents]);
+  
+  /**
+   * The record a write starts from, as the roster currently shows it
+   */
+  const findCurrent = useCallback((id: string): Student => {
+    const student = rosterRef.current.find(s => s.id === id);
+    if (!student) {
+      throw new ApiError(translate('server.studentNotFound', { id }), 404);
+    }
+    return student;
+  }, []);
+  
+  /**
+   * Single-student writes are optimistic: the roster changes at once and the write goes
+   * through the outbox. Online, each call still waits for the server, so a form can show
+   * why it refused; offline it returns the local copy and the write is replayed later
+   */
+  const addStudent = useCallback(async (studentData: StudentDraft) => {
+    return runOperation('create', async () => {
+      authorize('student:create', changedCourseIds([], studentData.enrollments));
+      const local = createLocalStudent(studentData, new Date());
+      apply({ type: 'ADD_STUDENT', payload: local });
+      const result = await submit({ operation: 'create', studentId: local.id, student: local, previous: null });
+      return result.synced && result.student ? result.student : local;
+    });
+  }, [runOperation, authorize, apply, submit]);
+  
+  /**
+   * Creates many students in one repository call and one reducer action
+   */
+  const importStudents = useCallback(async (drafts: StudentDraft[]) => {
+    const created = await runOperation('create', async () => {
+      authorize('student:create', drafts.flatMap(draft => changedCourseIds([], draft.enrollments)));
+      return studentRepository.createMany(drafts);
+    });
+    commit({ type: 'ADD_STUDENTS', payload: created });
+    return created;
+  }, [runOperation, studentRepository, commit, authorize]);
+  
+  const updateStudent = useCallback(async (student: Student) => {
+    return runOperation('update', async () => {
+      const previous = findCurrent(student.id);
+      authorize('student:update', changedCourseIds(previous.enrollments, student.enrollments));
+      apply({ type: 'UPDATE_STUDENT', payload: student });
+      const result = await submit({ operation: 'update', studentId: student.id, student, previous });
+      return result.synced && result.student ? result.student : student;
+    });
+  }, [runOperation, authorize, findCurrent, apply, submit]);
+  
+  const deleteStudent = useCallback(async (id: string) => {
+    await runOperation('delete', async () => {
+      const previous = findCurrent(id);
+      authorize('student:delete', changedCourseIds(previous.enrollments, []));
+      apply({ type: 'DELETE_STUDENT', payload: id });
+      await submit({ operation: 'delete', studentId: id, previous });
+    });
+  }, [runOperation, authorize, findCurrent, apply, submit]);
+  
+  /**
+   * Moves every student of one course into another (used before deleting a course)
+   */
+  const reassignCourse = useCallback(async (fromCourseId: number, toCourseId: number) => {
+    const moved = await runOperation('update', async () => {
+      authorize('course:manage');
+      return studentRepository.reassignCourse(fromCourseId, toCourseId);
+    });
+    commit({
+      type: 'UPDATE_STUDENTS',
+      payload: moved,
+      meta: { label: { key: 'undo.reassignStudents', values: { count: moved.length } }, destructive: true },
+    });
+    return moved;
+  }, [runOperation, studentRepository, commit, authorize]);
+  
+  /**
+   * Bulk operations - each is one repository call and one reducer action,
+   * so a bulk change is a single persistence write and a single state transition
+   */
+  const deleteStudents = useCallback(async (ids: string[]) => {
+    await runOperation('delete', async () => {
+      const removed = ids.map(findCurrent);
+      authorize('student:delete', removed.flatMap(student => changedCourseIds(student.enrollments, [])));
+      await studentRepository.deleteMany(ids);
+    });
+    commit({ type: 'DELETE_STUDENTS', payload: ids });
+  }, [runOperation, studentRepository, findCurrent, commit, authorize]);
+  
+  const updateSelected = useCallback(async (
+    ids: string[],
+    change: (student: Student) => Student,
+    meta: HistoryDescription,
+    permission: Permission = 'student:update'
+  ) => {
+    const selected = new Set(ids);
+    const current = rosterRef.current.filter(student => selected.has(student.id));
+    const changed = current.map(change);
+    const updated = await runOperation('update', async () => {
+      // Every course whose enrollment changes, for every selected student
+      authorize(permission, current.flatMap((student, index) => changedCourseIds(student.enrollments, changed[index].enrollments)));
+      return studentRepository.updateMany(changed);
+    });
+    commit({ type: 'UPDATE_STUDENTS', payload: updated, meta });
+    return updated;
+  }, [runOperation, studentRepository, commit, authorize]);
+  
+  const moveStudentsToCourse = useCallback((ids: string[], courseId: number) => {
+    const now = new Date();
+    return updateSelected(
+      ids,
+      // Enrollments in other instructors' courses stay as they are
+      student => ({ ...student, enrollments: moveToCourse(student, courseId, now, id => can('student:update', id)) }),
+      { label: { key: 'undo.moveStudents', values: { count: ids.length } }, destructive: true }
+    );
+  }, [updateSelected, can]);
+  
+  const tagStudents = useCallback((ids: string[], tag: string) => {
+    return updateSelected(
+      ids,
+      student => ({ ...student, tags: addTag(student.tags, tag) }),
+      { label: { key: 'undo.tagStudents', values: { count: ids.length } } }
+    );
+  }, [updateSelected]);
+  
+  const recordScores = useCallback((courseId: number, scores: Record<string, Record<string, number>>) => {
+    const ids = Object.keys(scores);
+    return updateSelected(
+      ids,
+      student => ({ ...student, enrollments: setEnrollmentScores(student, courseId, scores[student.id]) }),
+      { label: { key: 'undo.gradeStudents', values: { count: ids.length } } },
+      'grade:record'
+    );
+  }, [updateSelected]);
+  
+  /**
+   * Undo/redo - the backend is brought in line with the snapshot first, so a
+   * failed write leaves both the roster and the history untouched.
+   * History only holds this session's own changes, which were authorized when made.
+   * Both wait while writes are queued, since the snapshots don't know about them
+   */
+  const isTravellingRef = useRef(false);
+  
+  const travel = useCallback(async (direction: 'UNDO' | 'REDO') => {
+    const stack = direction === 'UNDO' ? state.history.past : state.history.future;
+    const entry = stack[stack.length - 1];
+    // Ignore repeats (e.g. a held-down Ctrl+Z) while a step is still being written
+    if (!entry || isTravellingRef.current || outbox.entries.length > 0) {
+      return;
+    }
+    isTravellingRef.current = true;
+    try {
+      const persisted = await runOperation('update', () =>
+        syncRoster(studentRepository, rosterRef.current, entry.snapshot)
+      );
+      commit({ type: direction, payload: persisted }, entry.label);
+    } finally {
+      isTravellingRef.current = false;
+    }
+  }, [runOperation, studentRepository, state.history, commit, outbox.entries.length]);
+  
+  const undo = useCallback(() => travel('UNDO'), [travel]);
+  const redo = useCallback(() => travel('REDO'), [travel]);
+  
+  const setSearchTerm = useCallback((term: string) => {
     dispatch({ type: 'SET_SEARCH_TERM', payload: term });
-  };
+  }, []);
   
-  const setCourseFilter = (courseId: number | null) => {
+  const setCourseFilter = useCallback((courseId: number | null) => {
     dispatch({ type: 'SET_COURSE_FILTER', payload: courseId });
-  };
+  }, []);
+  
+  const setSort = useCallback((sort: SortKey[]) => {
+    dispatch({ type: 'SET_SORT', payload: sort });
+  }, []);
+  
+  const setViewMode = useCallback((mode: ListViewMode) => {
+    dispatch({ type: 'SET_VIEW_MODE', payload: mode });
+  }, []);
+  
+  const setPage = useCallback((page: number) => {
+    dispatch({ type: 'SET_PAGE', payload: page });
+  }, []);
+  
+  const setPageSize = useCallback((pageSize: number) => {
+    dispatch({ type: 'SET_PAGE_SIZE', payload: pageSize });
+  }, []);
+  
+  /**
+   * Parses the search box once per change rather than once per student
+   */
+  const searchQuery = useMemo<ParsedSearch>(() => {
+    try {
+      return { query: parseSearchQuery(state.searchTerm, customFields.map(field => field.key)), error: null };
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) {
+        return { query: null, error };
+      }
+      throw error;
+    }
+  }, [state.searchTerm, customFields]);
+  
+  const matchesQuery = useMemo(() => {
+    if (searchQuery.query) {
+      return createQueryMatcher(searchQuery.query, courses ?? [], customFields);
+    }
+    // While the query is malformed, fall back to a plain substring match on the raw text
+    const term = foldForSearch(state.searchTerm);
+    return (student: Student) =>
+      foldForSearch(student.name).includes(term) || foldForSearch(student.email).includes(term);
+  }, [searchQuery, courses, customFields, state.searchTerm]);
+  
+  // Instructors only ever see the students of their own courses
+  const visibleStudents = useMemo(() => scopeStudents(user, state.students), [user, state.students]);
   
   /**
    * Filtered students computation - demonstrates array methods and filtering logic
    * This function shows how to combine multiple filter criteria efficiently
    */
   const getFilteredStudents = (): Student[] => {
-    return state.students.filter(student => {
-      const matchesSearch = student.name.toLowerCase().includes(state.searchTerm.toLowerCase()) ||
-                           student.email.toLowerCase().includes(state.searchTerm.toLowerCase());
+    return visibleStudents.filter(student => {
+      const matchesSearch = matchesQuery(student);
       
+      // A student matches a course through any of their active enrollments
       const matchesCourse = state.selectedCourseFilter === null || 
-                           student.courseId === state.selectedCourseFilter;
+                           isActivelyEnrolled(student, state.selectedCourseFilter);
       
       return matchesSearch && matchesCourse;
     });
@@ -147,11 +768,34 @@ export const StudentProvider: React.FC<{ children: ReactNode }> = ({ children })
     state,
     dispatch,
     addStudent,
+    importStudents,
     updateStudent,
     deleteStudent,
+    reassignCourse,
+    deleteStudents,
+    moveStudentsToCourse,
+    tagStudents,
+    recordScores,
+    reloadStudents,
     setSearchTerm,
     setCourseFilter,
+    setSort,
+    setViewMode,
+    setPage,
+    setPageSize,
+    visibleStudents,
     getFilteredStudents,
+    searchQuery,
+    undo,
+    redo,
+    canUndo: state.history.past.length > 0 && outbox.entries.length === 0,
+    canRedo: state.history.future.length > 0 && outbox.entries.length === 0,
+    lastChange: state.history.past[state.history.past.length - 1],
+    syncStatuses: outbox.statuses,
+    syncConflicts: outbox.conflicts,
+    pendingSyncCount: outbox.entries.length,
+    isOnline: outbox.isOnline,
+    resolveConflict: outbox.resolveConflict,
   };
   
   return (
@@ -0,0 +1,62 @@
+// Theme Context - the signed-in user's light/dark/system choice and the theme it resolves to
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { Theme, ThemePreference } from '../types';
+import { readThemePreference, resolveTheme, storeThemePreference } from '../utils/theme';
+import { usePrefersDarkScheme } from '../hooks/usePrefersDarkScheme';
+import { useAuth } from './AuthContext';
+
+interface ThemeContextType {
+  preference: ThemePreference;
+  // What is on screen; 'system' resolved against the operating system setting
+  theme: Theme;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+/**
+ * Theme Provider - demonstrates a per-user preference layered over a system setting
+ * Sets data-theme on <html>, which swaps the design tokens in index.css; the choice is
+ * stored per user, so switching accounts on a shared computer switches themes too
+ */
+export const ThemeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const prefersDark = usePrefersDarkScheme();
+  // Choices made in this session, by user; everyone else's comes from storage
+  const [choices, setChoices] = useState<Record<string, ThemePreference>>({});
+
+  const preference = choices[userId ?? ''] ?? readThemePreference(userId);
+  const theme = resolveTheme(preference, prefersDark);
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = theme;
+  }, [theme]);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    storeThemePreference(userId, next);
+    setChoices(prev => ({ ...prev, [userId ?? '']: next }));
+  }, [userId]);
+
+  const contextValue = useMemo<ThemeContextType>(
+    () => ({ preference, theme, setPreference }),
+    [preference, theme, setPreference]
+  );
+
+  return (
+    <ThemeContext.Provider value={contextValue}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to access the theme and change the user's preference
+ */
+export const useTheme = (): ThemeContextType => {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+};
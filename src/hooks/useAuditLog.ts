@@ -0,0 +1,23 @@
+// Audit log hook - loads the append-only audit log through the query cache
+import { useRepositories } from '../context/RepositoryContext';
+import { useQuery } from './useQuery';
+import { queryKeys } from '../utils/queryCache';
+
+/**
+ * Fetches the whole audit log, newest entry first
+ * New entries invalidate the query, so an open log follows along
+ */
+export const useAuditLog = () => {
+  const { audit: auditRepository } = useRepositories();
+  const { data, loading, error, refetch } = useQuery(
+    queryKeys.audit,
+    async signal => [...await auditRepository.list({ signal })].reverse()
+  );
+
+  return {
+    entries: data,
+    loading,
+    error,
+    refresh: refetch,
+  };
+};
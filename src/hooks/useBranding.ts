@@ -0,0 +1,39 @@
+// Branding hook - applies the institution's colour and title to the page
+import { useEffect } from 'react';
+import { useSettings } from '../context/SettingsContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../context/LocaleContext';
+import { DEFAULT_BRANDING } from '../utils/branding';
+import { primaryColorVariables } from '../utils/theme';
+
+/**
+ * Recolours the primary tokens on <html> and names the browser tab after the dashboard
+ * The default colour keeps the hand-tuned palette in index.css; everything is put back
+ * on unmount, so the sign-in page after signing out is unbranded. Used once, by the app shell
+ */
+export const useBranding = (): void => {
+  const { settings: { branding } } = useSettings();
+  const { theme } = useTheme();
+  const { t } = useLocale();
+  const title = branding.title.trim() || t('app.title');
+
+  useEffect(() => {
+    if (branding.primaryColor === DEFAULT_BRANDING.primaryColor) {
+      return;
+    }
+    const variables = primaryColorVariables(branding.primaryColor, theme);
+    const { style } = document.documentElement;
+    Object.entries(variables).forEach(([name, value]) => style.setProperty(name, value));
+    return () => {
+      Object.keys(variables).forEach(name => style.removeProperty(name));
+    };
+  }, [branding.primaryColor, theme]);
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = title;
+    return () => {
+      document.title = previous;
+    };
+  }, [title]);
+};
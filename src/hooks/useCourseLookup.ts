@@ -0,0 +1,28 @@
+// Course lookup hook - resolves enrollments to their courses
+import { useMemo, useCallback } from 'react';
+import { Course, EnrolledCourse, Student } from '../types';
+
+/**
+ * Memoized course lookup shared by the roster and the roll call
+ * The map is rebuilt only when the course list changes
+ */
+export const useCourseLookup = (courses: Course[]) => {
+  const courseMap = useMemo(() => {
+    return courses.reduce((map, course) => {
+      map[course.id] = course;
+      return map;
+    }, {} as Record<number, Course>);
+  }, [courses]);
+
+  /**
+   * Resolve a student's enrollments to courses
+   */
+  const getEnrolledCourses = useCallback((student: Student): EnrolledCourse[] => {
+    return student.enrollments.map(enrollment => ({
+      enrollment,
+      course: courseMap[enrollment.courseId],
+    }));
+  }, [courseMap]);
+
+  return { courseMap, getEnrolledCourses };
+};
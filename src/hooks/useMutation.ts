@@ -0,0 +1,63 @@
+// Mutation hook - writes that keep the query cache up to date
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiState } from '../types';
+import { useQueryCache } from '../context/QueryContext';
+import { NO_RETRY, RetryOptions, withRetry } from '../utils/queryCache';
+import { translate } from '../utils/i18n';
+
+export interface MutationOptions<A extends unknown[], R> {
+  // Runs once the write succeeded, e.g. to put the result into the cache
+  onSuccess?: (result: R, ...args: A) => void;
+  // Key prefixes whose queries are out of date once the write succeeded
+  invalidates?: string[];
+  // Writes aren't retried unless asked to - only idempotent ones are safe to repeat
+  retry?: RetryOptions;
+}
+
+/**
+ * Wraps a repository write with ApiState tracking and cache updates
+ * A write that has been sent isn't cancelled on unmount - it still lands and updates
+ * the cache; only this component's state stops following it
+ */
+export const useMutation = <A extends unknown[], R>(
+  mutation: (...args: A) => Promise<R>,
+  options: MutationOptions<A, R> = {}
+) => {
+  const cache = useQueryCache();
+  const [state, setState] = useState<ApiState<R>>({ data: null, loading: false, error: null });
+  const mutationRef = useRef(mutation);
+  mutationRef.current = mutation;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const mutate = useCallback(async (...args: A): Promise<R> => {
+    const { onSuccess, invalidates = [], retry = NO_RETRY } = optionsRef.current;
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+    try {
+      const result = await withRetry(() => mutationRef.current(...args), undefined, retry);
+      onSuccess?.(result, ...args);
+      invalidates.forEach(prefix => cache.invalidate(prefix));
+      if (isMountedRef.current) {
+        setState({ data: result, loading: false, error: null });
+      }
+      return result;
+    } catch (error) {
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, loading: false, error: error instanceof Error ? error.message : translate('server.requestFailed') }));
+      }
+      throw error;
+    }
+  }, [cache]);
+
+  return { ...state, mutate };
+};
@@ -0,0 +1,19 @@
+// Online status hook - follows the browser's online/offline events
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+/**
+ * Whether the browser believes it has a connection
+ * "Online" only means a network is attached - requests can still fail, so callers
+ * treat it as a hint for when to try, never as a promise that it will work
+ */
+export const useOnlineStatus = (): boolean =>
+  useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
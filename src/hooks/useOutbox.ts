@@ -0,0 +1,377 @@
+// Outbox hook - queued student writes, replayed in order whenever the server can be reached
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ConflictResolution, OutboxEntry, Student, SyncStatus, ValidationErrors } from '../types';
+import { ApiError, StudentRepository, isConflictError, isNetworkError } from '../utils/repositories';
+import { OutboxStore, OutboxWrite, completeEntry, dropEntry, enqueueWrite, isSameStudent, toStudentDraft } from '../utils/outbox';
+import { translate } from '../utils/i18n';
+import { useOnlineStatus } from './useOnlineStatus';
+import { useTabLeader } from './useTabLeader';
+import { useTabChannel } from './useTabChannel';
+
+// How long to wait before trying again when requests fail although the browser reports a connection
+const RETRY_DELAY = 15000;
+
+export interface OutboxHandlers {
+  // The server accepted a write; `current` is what the roster should now show for the student
+  onSynced: (entry: OutboxEntry, server: Student | null, current: Student | null) => void;
+  // The server refused a write for good; the roster goes back to entry.previous
+  onRejected: (entry: OutboxEntry) => void;
+  // A conflict was settled in favour of the server's copy
+  onDiscarded: (entry: OutboxEntry) => void;
+}
+
+// A submitted write either reached the server, or stays queued (offline, or in conflict)
+export type SubmitResult = { synced: true; student: Student | null } | { synced: false };
+
+interface Waiter {
+  resolve: (result: SubmitResult) => void;
+  reject: (error: unknown) => void;
+}
+
+// A refusal as it crosses to another tab - errors themselves can't be posted
+interface PostedError {
+  message: string;
+  status?: number;
+  fieldErrors?: ValidationErrors;
+}
+
+/**
+ * What the tabs sharing an outbox tell each other
+ * The leader owns the outbox: it alone changes, persists and replays it, and posts every
+ * new version. Other tabs send their writes and conflict decisions to the leader and
+ * wait for its answer
+ */
+type OutboxMessage =
+  | { type: 'entries'; entries: OutboxEntry[] }
+  | { type: 'hello' }
+  | { type: 'leader' }
+  | { type: 'submit'; requestId: string; write: OutboxWrite }
+  | { type: 'resolve'; entryId: string; resolution: ConflictResolution }
+  | { type: 'settled'; requestId: string; result: SubmitResult }
+  | { type: 'failed'; requestId: string; error: PostedError };
+
+interface ForwardedWrite extends Waiter {
+  write: OutboxWrite;
+}
+
+const isNotFound = (error: unknown) => error instanceof ApiError && error.status === 404;
+
+const postError = (error: unknown): PostedError =>
+  error instanceof ApiError
+    ? { message: error.message, status: error.status, fieldErrors: error.fieldErrors }
+    : { message: error instanceof Error ? error.message : translate('server.changeNotSaved') };
+
+const toError = ({ message, status, fieldErrors }: PostedError): Error =>
+  status === undefined ? new Error(message) : new ApiError(message, status, fieldErrors);
+
+/**
+ * Keeps the outbox of one user: persists it, replays it oldest first and tracks each entry's status
+ * Only a lost connection stops the replay - the entry goes back in line and everything
+ * waits for the next `online` event (or a timed retry, for connections that are up but
+ * not working). Conflicts wait for the user; refused writes are handed back for rollback.
+ * Tabs sharing the outbox (same `name`) elect a leader that does all of this; the others
+ * mirror its entries and pass their writes on to it, so the handlers only run in the leader
+ */
+export const useOutbox = (repository: StudentRepository, store: OutboxStore, handlers: OutboxHandlers, name: string) => {
+  const isOnline = useOnlineStatus();
+  const isLeader = useTabLeader(name);
+  const [entries, setEntriesState] = useState<OutboxEntry[]>([]);
+  const [retryTick, setRetryTick] = useState(0);
+
+  // Ahead of `entries` between an update and the re-render, like StudentContext's rosterRef
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const waitersRef = useRef(new Map<string, Waiter[]>());
+  // Writes passed on to the leader that it hasn't answered yet, by request id
+  const forwardedRef = useRef(new Map<string, ForwardedWrite>());
+  const isFlushingRef = useRef(false);
+  const retryTimerRef = useRef<number>();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const isLeaderRef = useRef(isLeader);
+  isLeaderRef.current = isLeader;
+  // Set below, once the functions that answer messages exist
+  const onMessageRef = useRef<(message: OutboxMessage) => void>(() => undefined);
+
+  const post = useTabChannel<OutboxMessage>(name, message => onMessageRef.current(message));
+
+  const mirror = useCallback((next: OutboxEntry[]) => {
+    entriesRef.current = next;
+    setEntriesState(next);
+  }, []);
+
+  // Only the leader changes the outbox; every version it saves goes to the other tabs too
+  const setEntries = useCallback((next: OutboxEntry[]) => {
+    mirror(next);
+    post({ type: 'entries', entries: next });
+    store.save(next).catch(error => {
+      console.error('Failed to save the outbox', error);
+    });
+  }, [mirror, post, store]);
+
+  // Writes queued in an earlier session; anything submitted meanwhile waits for them.
+  // A tab that takes over as leader reads them again, as the last leader left them: a write
+  // it was still sending may or may not have landed, so it goes out again - one that did
+  // land comes back as a conflict with an identical copy, which resolves itself
+  const ready = useMemo(() => store.load()
+    .catch(error => {
+      console.error('Failed to read the outbox', error);
+      return [];
+    })
+    .then(loaded => mirror(isLeader
+      ? loaded.map(entry => (entry.status === 'syncing' ? { ...entry, status: 'pending' as const } : entry))
+      : loaded
+    )), [store, isLeader, mirror]);
+
+  const settle = useCallback((entryId: string, outcome: (waiter: Waiter) => void) => {
+    const waiters = waitersRef.current.get(entryId) ?? [];
+    waitersRef.current.delete(entryId);
+    waiters.forEach(outcome);
+  }, []);
+
+  const replay = useCallback(async (entry: OutboxEntry): Promise<Student | null> => {
+    const options = { expectedUpdatedAt: entry.expectedUpdatedAt };
+    switch (entry.operation) {
+      case 'create':
+        return repository.create(toStudentDraft(entry.student!));
+      case 'update':
+        return repository.update(entry.student!, options);
+      case 'delete':
+        await repository.delete(entry.studentId, options);
+        return null;
+    }
+  }, [repository]);
+
+  const written = useCallback((entry: OutboxEntry, server: Student | null) => {
+    const next = completeEntry(entriesRef.current, entry, server);
+    setEntries(next);
+    // A change queued behind this one is what the user last saw, so it stays on screen
+    const followUp = server && next.find(e => e.studentId === server.id);
+    const current = followUp ? (followUp.student ?? null) : server;
+    handlersRef.current.onSynced(entry, server, current);
+    settle(entry.id, waiter => waiter.resolve({ synced: true, student: current }));
+  }, [setEntries, settle]);
+
+  const rejected = useCallback((entry: OutboxEntry, error: unknown) => {
+    const dropped = entriesRef.current.filter(e => e.studentId === entry.studentId);
+    setEntries(dropEntry(entriesRef.current, entry));
+    handlersRef.current.onRejected(entry);
+    dropped.forEach(e => settle(e.id, waiter => waiter.reject(error)));
+  }, [setEntries, settle]);
+
+  const conflicted = useCallback((entry: OutboxEntry, server: Student | null) => {
+    setEntries(entriesRef.current.map(e => (e.id === entry.id ? { ...e, status: 'conflict', server } : e)));
+    settle(entry.id, waiter => waiter.resolve({ synced: false }));
+  }, [setEntries, settle]);
+
+  /**
+   * Sends one entry and files the outcome; only a network failure is thrown
+   */
+  const sync = useCallback(async (entry: OutboxEntry) => {
+    try {
+      written(entry, await replay(entry));
+    } catch (error) {
+      if (isNotFound(error) && entry.operation === 'delete') {
+        // Already gone - which is all the delete wanted
+        written(entry, null);
+      } else if (isConflictError(error) || (isNotFound(error) && entry.operation === 'update')) {
+        const server = await repository.get(entry.studentId).catch(getError => {
+          if (isNotFound(getError)) {
+            return null;
+          }
+          throw getError;
+        });
+        if (isSameStudent(server, entry.student ?? null)) {
+          written(entry, server);
+        } else {
+          conflicted(entry, server);
+        }
+      } else if (isNetworkError(error)) {
+        throw error;
+      } else {
+        rejected(entry, error);
+      }
+    }
+  }, [repository, replay, written, rejected, conflicted]);
+
+  const flush = useCallback(async () => {
+    if (isFlushingRef.current || !isLeaderRef.current || !navigator.onLine) {
+      return;
+    }
+    isFlushingRef.current = true;
+    window.clearTimeout(retryTimerRef.current);
+    try {
+      let entry: OutboxEntry | undefined;
+      // A tab that stops leading (the lease fallback can lose its lease) stops replaying
+      while (isLeaderRef.current && (entry = entriesRef.current.find(e => e.status === 'pending'))) {
+        const sending: OutboxEntry = { ...entry, status: 'syncing' };
+        setEntries(entriesRef.current.map(e => (e.id === sending.id ? sending : e)));
+        try {
+          await sync(sending);
+        } catch (error) {
+          setEntries(entriesRef.current.map(e => (e.id === sending.id ? { ...e, status: 'pending' } : e)));
+          if (!isNetworkError(error)) {
+            // Not the connection, e.g. the conflict check failed - report it and try again later
+            console.error('Failed to sync a queued change', error);
+          }
+          // Nothing gets through until the connection is back; callers go on with their local copy
+          entriesRef.current.forEach(e => settle(e.id, waiter => waiter.resolve({ synced: false })));
+          retryTimerRef.current = window.setTimeout(() => setRetryTick(tick => tick + 1), RETRY_DELAY);
+          return;
+        }
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [setEntries, settle, sync]);
+
+  // The leader replays on start, whenever the connection comes back and on timed retries
+  useEffect(() => {
+    if (isOnline && isLeader) {
+      ready.then(flush);
+    }
+  }, [isOnline, isLeader, retryTick, ready, flush]);
+
+  useEffect(() => () => window.clearTimeout(retryTimerRef.current), []);
+
+  /**
+   * Queues a write and starts sending it
+   * Online, resolves once the server has answered, so forms can show a refusal;
+   * offline, resolves straight away and the write waits in the outbox
+   */
+  const submit = useCallback(async (write: OutboxWrite): Promise<SubmitResult> => {
+    if (!isLeaderRef.current) {
+      return new Promise<SubmitResult>((resolve, reject) => {
+        const requestId = crypto.randomUUID();
+        forwardedRef.current.set(requestId, { write, resolve, reject });
+        post({ type: 'submit', requestId, write });
+      });
+    }
+    await ready;
+    const { outbox, entry, cancelled } = enqueueWrite(entriesRef.current, write, new Date());
+    setEntries(outbox);
+    if (cancelled) {
+      settle(cancelled.id, waiter => waiter.resolve({ synced: false }));
+    }
+    if (!entry) {
+      // A create and a delete cancelled out; there is nothing left to send
+      return { synced: true, student: null };
+    }
+    if (entry.status === 'conflict' || !navigator.onLine) {
+      return { synced: false };
+    }
+    const result = new Promise<SubmitResult>((resolve, reject) => {
+      waitersRef.current.set(entry.id, [...(waitersRef.current.get(entry.id) ?? []), { resolve, reject }]);
+    });
+    void flush();
+    return result;
+  }, [ready, setEntries, settle, flush, post]);
+
+  /**
+   * Settles a conflict: 'theirs' drops the queued change, 'mine' sends it again on top of
+   * the server's copy - or as a new student, when the server's copy was deleted
+   */
+  const resolveConflict = useCallback((entryId: string, resolution: ConflictResolution) => {
+    if (!isLeaderRef.current) {
+      post({ type: 'resolve', entryId, resolution });
+      return;
+    }
+    const entry = entriesRef.current.find(e => e.id === entryId && e.status === 'conflict');
+    if (!entry) {
+      return;
+    }
+    if (resolution === 'theirs') {
+      setEntries(dropEntry(entriesRef.current, entry));
+      handlersRef.current.onDiscarded(entry);
+      return;
+    }
+    const server = entry.server ?? null;
+    const retried: OutboxEntry = server
+      ? { ...entry, status: 'pending', server: undefined, previous: server, expectedUpdatedAt: server.updatedAt }
+      : { ...entry, operation: 'create', status: 'pending', server: undefined, previous: null, expectedUpdatedAt: undefined };
+    setEntries(entriesRef.current.map(e => (e.id === entryId ? retried : e)));
+    void flush();
+  }, [setEntries, flush, post]);
+
+  onMessageRef.current = message => {
+    const forwarded = 'requestId' in message ? forwardedRef.current.get(message.requestId) : undefined;
+    switch (message.type) {
+      case 'entries':
+        if (!isLeaderRef.current) {
+          mirror(message.entries);
+        }
+        break;
+      case 'hello':
+        if (isLeaderRef.current) {
+          post({ type: 'entries', entries: entriesRef.current });
+        }
+        break;
+      case 'leader':
+        // The write may have gone to a tab that closed before answering; at worst the new
+        // leader gets it twice, and a repeated write folds into the entry already queued
+        forwardedRef.current.forEach((waiting, requestId) => {
+          post({ type: 'submit', requestId, write: waiting.write });
+        });
+        break;
+      case 'submit':
+        if (isLeaderRef.current) {
+          submit(message.write).then(
+            result => post({ type: 'settled', requestId: message.requestId, result }),
+            error => post({ type: 'failed', requestId: message.requestId, error: postError(error) })
+          );
+        }
+        break;
+      case 'resolve':
+        if (isLeaderRef.current) {
+          resolveConflict(message.entryId, message.resolution);
+        }
+        break;
+      case 'settled':
+        if (forwarded) {
+          forwardedRef.current.delete(message.requestId);
+          forwarded.resolve(message.result);
+        }
+        break;
+      case 'failed':
+        if (forwarded) {
+          forwardedRef.current.delete(message.requestId);
+          forwarded.reject(toError(message.error));
+        }
+        break;
+    }
+  };
+
+  // A new tab asks the leader where things stand
+  useEffect(() => {
+    post({ type: 'hello' });
+  }, [post]);
+
+  // Taking over: announce it, so the other tabs send again what the last leader left
+  // unanswered, and handle this tab's own unanswered writes
+  useEffect(() => {
+    if (!isLeader) {
+      return;
+    }
+    post({ type: 'leader' });
+    const forwarded = [...forwardedRef.current.values()];
+    forwardedRef.current.clear();
+    forwarded.forEach(({ write, resolve, reject }) => submit(write).then(resolve, reject));
+  }, [isLeader, post, submit]);
+
+  /**
+   * The queued writes once the outbox has loaded - laid over a freshly loaded roster
+   */
+  const readyRef = useRef(ready);
+  readyRef.current = ready;
+  // Stable, so a change of leader doesn't make the roster reload
+  const queuedWrites = useCallback(() => readyRef.current.then(() => entriesRef.current), []);
+
+  // Per student; a write queued behind one in flight reports the later status
+  const statuses = useMemo(
+    () => Object.fromEntries(entries.map(entry => [entry.studentId, entry.status])) as Record<string, SyncStatus>,
+    [entries]
+  );
+
+  const conflicts = useMemo(() => entries.filter(entry => entry.status === 'conflict'), [entries]);
+
+  return { entries, statuses, conflicts, isOnline, submit, resolveConflict, queuedWrites };
+};
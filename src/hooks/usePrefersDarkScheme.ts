@@ -0,0 +1,16 @@
+// Colour scheme hook - follows the operating system's light/dark setting
+import { useSyncExternalStore } from 'react';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+const subscribe = (onChange: () => void) => {
+  const query = window.matchMedia(DARK_SCHEME_QUERY);
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+};
+
+/**
+ * Whether the system asks for dark colours; changes live when the user (or a sunset schedule) switches
+ */
+export const usePrefersDarkScheme = (): boolean =>
+  useSyncExternalStore(subscribe, () => window.matchMedia(DARK_SCHEME_QUERY).matches, () => false);
@@ -0,0 +1,53 @@
+// Query hook - cached, de-duplicated and cancellable reads
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQueryCache } from '../context/QueryContext';
+import { DEFAULT_RETRY, DEFAULT_STALE_TIME, Fetcher, RetryOptions } from '../utils/queryCache';
+
+export interface QueryOptions {
+  // How long fetched data counts as fresh (ms); older data is shown while it is refetched
+  staleTime?: number;
+  retry?: RetryOptions;
+}
+
+/**
+ * Reads one query from the shared cache - demonstrates stale-while-revalidate
+ * Mounting fetches unless the cache holds fresh data; components showing the same key
+ * share one request, and unmounting cancels it unless someone else still waits for it.
+ * The fetcher may change between renders; the key decides what is fetched
+ */
+export const useQuery = <T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  { staleTime = DEFAULT_STALE_TIME, retry = DEFAULT_RETRY }: QueryOptions = {}
+) => {
+  const cache = useQueryCache();
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const retryRef = useRef(retry);
+  retryRef.current = retry;
+
+  const subscribe = useCallback((listener: () => void) => cache.subscribe(key, listener), [cache, key]);
+  const state = useSyncExternalStore(subscribe, () => cache.getState<T>(key));
+
+  const load = useCallback((signal?: AbortSignal) =>
+    cache.fetch(key, requestSignal => fetcherRef.current(requestSignal), { retry: retryRef.current, signal }),
+  [cache, key]);
+
+  useEffect(() => {
+    const { updatedAt } = cache.getState(key);
+    if (updatedAt !== null && Date.now() - updatedAt < staleTime) {
+      return;
+    }
+    const controller = new AbortController();
+    // Failures end up in the cached state
+    load(controller.signal).catch(() => undefined);
+    return () => controller.abort();
+  }, [cache, key, staleTime, load]);
+
+  // Fetches again now, whatever the age of the data - e.g. for a Retry button
+  const refetch = useCallback(() => {
+    load().catch(() => undefined);
+  }, [load]);
+
+  return { ...state, refetch };
+};
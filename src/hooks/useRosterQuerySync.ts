@@ -0,0 +1,52 @@
+// Query string sync - keeps the roster search and course filter bookmarkable
+import { useEffect, useMemo, useRef } from 'react';
+import { useRouter } from '../context/RouterContext';
+import { useStudentContext } from '../context/StudentContext';
+import { RosterQuery, readRosterQuery, writeRosterQuery } from '../utils/routes';
+
+const sameQuery = (a: RosterQuery, b: RosterQuery) =>
+  a.searchTerm === b.searchTerm && a.courseId === b.courseId;
+
+/**
+ * Two-way sync between ?q=&course= and the student context
+ * The URL wins when it changes (first load, back/forward, a shared link);
+ * the context wins when the user edits the filters, replacing the history
+ * entry so typing doesn't flood the back button.
+ */
+export const useRosterQuerySync = () => {
+  const { location, navigate } = useRouter();
+  const { state, setSearchTerm, setCourseFilter } = useStudentContext();
+
+  const urlQuery = useMemo(() => readRosterQuery(location.search), [location.search]);
+  const contextQuery = useMemo(
+    () => ({ searchTerm: state.searchTerm, courseId: state.selectedCourseFilter }),
+    [state.searchTerm, state.selectedCourseFilter]
+  );
+
+  // Latest context values, readable from the URL effect without re-running it on every keystroke
+  const contextQueryRef = useRef(contextQuery);
+  contextQueryRef.current = contextQuery;
+  // Set while the context is catching up with a URL change, so it isn't written straight back
+  const awaitingUrlRef = useRef(false);
+
+  // URL → context
+  useEffect(() => {
+    if (!sameQuery(contextQueryRef.current, urlQuery)) {
+      awaitingUrlRef.current = true;
+      setSearchTerm(urlQuery.searchTerm);
+      setCourseFilter(urlQuery.courseId);
+    }
+  }, [urlQuery, setSearchTerm, setCourseFilter]);
+
+  // Context → URL
+  useEffect(() => {
+    const inSync = sameQuery(contextQuery, urlQuery);
+    if (awaitingUrlRef.current) {
+      awaitingUrlRef.current = !inSync;
+      return;
+    }
+    if (!inSync) {
+      navigate(location.pathname + writeRosterQuery(contextQuery), { replace: true });
+    }
+  }, [contextQuery, urlQuery, location.pathname, navigate]);
+};
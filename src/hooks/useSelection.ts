@@ -0,0 +1,73 @@
+// Selection hook - demonstrates Set-based state and shift-click range selection
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+
+/**
+ * Custom hook for multi-select over an ordered list of ids
+ * Shift-toggling selects the whole range from the last toggled item (the anchor).
+ * Ids that disappear from the list (filtered out or deleted) are dropped from the
+ * selection so bulk actions never touch rows the user cannot see.
+ */
+export const useSelection = (orderedIds: string[]) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  // A stable key so the pruning effect only runs when the visible ids really change
+  const idsKey = orderedIds.join('|');
+
+  useEffect(() => {
+    const visible = new Set(idsKey ? idsKey.split('|') : []);
+    setSelected(prev => {
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+    if (anchorRef.current && !visible.has(anchorRef.current)) {
+      anchorRef.current = null;
+    }
+  }, [idsKey]);
+
+  const toggle = useCallback((id: string, withRange: boolean = false) => {
+    // Read the anchor now: the updater below may run after the ref is reassigned
+    const anchor = anchorRef.current;
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (withRange && anchor && anchor !== id) {
+        const from = orderedIds.indexOf(anchor);
+        const to = orderedIds.indexOf(id);
+        if (from !== -1 && to !== -1) {
+          orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(rangeId => next.add(rangeId));
+          return next;
+        }
+      }
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    anchorRef.current = id;
+  }, [orderedIds]);
+
+  const selectAll = useCallback(() => {
+    setSelected(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clear = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  // Selected ids in list order
+  const selectedIds = useMemo(
+    () => orderedIds.filter(id => selected.has(id)),
+    [orderedIds, selected]
+  );
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selected.has(id),
+    toggle,
+    selectAll,
+    clear,
+  };
+};
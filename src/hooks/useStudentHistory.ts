@@ -0,0 +1,24 @@
+// Student history hook - loads one student's change log through the query cache
+import { useRepositories } from '../context/RepositoryContext';
+import { useQuery } from './useQuery';
+import { queryKeys } from '../utils/queryCache';
+
+/**
+ * Fetches the change log for a student
+ * StudentProvider invalidates every student query after a write, so the timeline
+ * refetches after edits without polling
+ */
+export const useStudentHistory = (studentId: string) => {
+  const { students: studentRepository } = useRepositories();
+  const { data, loading, error, refetch } = useQuery(
+    queryKeys.studentHistory(studentId),
+    signal => studentRepository.history(studentId, { signal })
+  );
+
+  return {
+    changes: data,
+    loading,
+    error,
+    retry: refetch,
+  };
+};
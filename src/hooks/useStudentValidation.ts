@@ -0,0 +1,70 @@
+// Student validation hook - debounced server-side checks with cancellation of stale requests
+import { useState, useEffect, useCallback } from 'react';
+import { StudentDraft, ValidationErrors } from '../types';
+import { useRepositories } from '../context/RepositoryContext';
+import { useDebounce } from './useDebounce';
+import { isValidEmail } from '../utils/validation';
+
+// Long enough that a check doesn't go out on every keystroke
+const EMAIL_CHECK_DELAY = 400;
+
+interface EmailCheck {
+  email: string;
+  error?: string;
+}
+
+/**
+ * Checks the email against the roster as the user types, and the whole draft on submit
+ * excludeId is the student being edited, so its own address isn't reported as taken.
+ * Each new check aborts the one before it, so a slow response can't overwrite a newer one
+ */
+export const useStudentValidation = (email: string, excludeId?: string) => {
+  const { students: studentRepository } = useRepositories();
+  const debouncedEmail = useDebounce(email.trim(), EMAIL_CHECK_DELAY);
+  const [check, setCheck] = useState<EmailCheck | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    // Malformed addresses are reported by client-side validation; don't ask the server
+    if (!isValidEmail(debouncedEmail)) {
+      setCheck(null);
+      setChecking(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setChecking(true);
+
+    studentRepository.validate({ email: debouncedEmail }, { excludeId, signal: controller.signal })
+      .then(errors => {
+        setCheck({ email: debouncedEmail, error: errors.email });
+      })
+      .catch(() => {
+        // A failed live check isn't fatal - submitting checks again
+        if (!controller.signal.aborted) {
+          setCheck(null);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setChecking(false);
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [studentRepository, debouncedEmail, excludeId]);
+
+  /**
+   * Full server-side validation of a draft, run right before saving
+   */
+  const validate = useCallback((draft: StudentDraft): Promise<ValidationErrors> => {
+    return studentRepository.validate(draft, { excludeId });
+  }, [studentRepository, excludeId]);
+
+  // Only report a result for the address currently in the field
+  const emailError = check?.email === email.trim() ? check.error : undefined;
+
+  return { emailError, checking, validate };
+};
@@ -0,0 +1,29 @@
+// Tab channel hook - messages to and from the dashboard's other open tabs
+import { useCallback, useEffect, useRef } from 'react';
+import { TabChannel, createTabChannel } from '../utils/tabSync';
+
+/**
+ * Listens on a named channel for as long as the component is mounted
+ * Returns a stable function that posts to the other tabs; posts made before the
+ * channel is open (i.e. during the first render) go nowhere
+ */
+export const useTabChannel = <M>(name: string, onMessage: (message: M) => void) => {
+  const channelRef = useRef<TabChannel<M> | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    const channel = createTabChannel<M>(name);
+    channelRef.current = channel;
+    const unsubscribe = channel.subscribe(message => onMessageRef.current(message));
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [name]);
+
+  return useCallback((message: M) => {
+    channelRef.current?.post(message);
+  }, []);
+};
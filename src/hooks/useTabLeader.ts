@@ -0,0 +1,18 @@
+// Tab leader hook - whether this tab is the one doing shared background work
+import { useEffect, useState } from 'react';
+import { joinLeaderElection } from '../utils/tabSync';
+
+/**
+ * Takes part in the leader election of `name` while mounted
+ * Starts out as a follower; exactly one tab per name is told it leads
+ */
+export const useTabLeader = (name: string): boolean => {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    setIsLeader(false);
+    return joinLeaderElection(name, setIsLeader);
+  }, [name]);
+
+  return isLeader;
+};
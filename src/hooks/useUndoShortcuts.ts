@@ -0,0 +1,37 @@
+// Undo/redo keyboard bindings - demonstrates global event listeners in a hook
+import { useEffect } from 'react';
+
+/**
+ * Text fields keep their native undo; the roster history only answers elsewhere
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Binds Ctrl+Z to undo and Ctrl+Shift+Z (or Ctrl+Y) to redo
+ * Cmd is accepted in place of Ctrl on macOS.
+ */
+export const useUndoShortcuts = (undo: () => void, redo: () => void) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+};
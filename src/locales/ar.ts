@@ -0,0 +1,578 @@
+// Arabic messages - written right to left; plurals use all six Arabic categories
+import { Messages } from './en';
+
+export const ar: Messages = {
+  // Shell
+  'app.title': 'لوحة إدارة الطلاب',
+  'nav.dashboard': 'اللوحة',
+  'nav.courses': 'المقررات',
+  'nav.analytics': 'الإحصاءات',
+  'nav.auditLog': 'سجل التدقيق',
+  'nav.guide': 'دليل التعلّم',
+  'nav.signOut': 'تسجيل الخروج',
+  'nav.branding': 'الهوية البصرية',
+  'theme.label': 'سمة الألوان',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.system': 'حسب النظام',
+  'language.label': 'اللغة',
+  'role.admin': 'مدير',
+  'role.instructor': 'مدرّس',
+  'role.viewer': 'مُطّلع',
+
+  // Shared
+  'common.retry': 'إعادة المحاولة',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.dismiss': 'تجاهل',
+  'common.edit': 'تعديل',
+  'common.delete': 'حذف',
+  'common.unknownError': 'خطأ غير معروف',
+  'common.unexpectedError': 'حدث خطأ غير متوقع',
+  'common.yes': 'نعم',
+  'common.no': 'لا',
+
+  // Error and not-found screens
+  'error.title': 'حدث خطأ ما',
+  'error.message': 'نعتذر عن الإزعاج. يُرجى تحديث الصفحة والمحاولة مرة أخرى.',
+  'error.refresh': 'تحديث الصفحة',
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.message': 'الصفحة التي تبحث عنها غير موجودة.',
+  'notFound.back': 'العودة إلى الطلاب',
+  'access.denied': 'تم رفض الوصول',
+  'access.auditLog': 'لا يشمل دورك سجل التدقيق.',
+  'access.editStudents': 'لا يسمح دورك بتعديل الطلاب.',
+  'access.branding': 'لا يشمل دورك إعدادات الهوية البصرية.',
+  'access.noPermission': 'ليست لديك صلاحية للقيام بذلك ({permission})',
+  'studentNotFound.title': 'الطالب غير موجود',
+  'studentNotFound.message': 'ربما حُذف هذا الطالب، أو أن الرابط غير صحيح.',
+
+  // Sign in
+  'signIn.email': 'البريد الإلكتروني',
+  'signIn.password': 'كلمة المرور',
+  'signIn.submit': 'تسجيل الدخول',
+  'signIn.failed': 'تعذّر تسجيل الدخول',
+  'signIn.demoAccounts': 'حسابات التطوير',
+
+  // Dashboard
+  'dashboard.loading': 'جارٍ تحميل اللوحة...',
+  'dashboard.loadStudentsFailed': 'تعذّر تحميل الطلاب',
+  'dashboard.loadCoursesFailed': 'تعذّر تحميل المقررات',
+  'dashboard.customFields': 'الحقول المخصصة',
+  'dashboard.importCsv': 'استيراد CSV',
+  'dashboard.addStudent': 'إضافة طالب',
+  'dashboard.deleteFailed': 'تعذّر حذف الطالب: {error}',
+  'dashboard.conflicts': '{count, plural, one {يتعارض تغيير واحد مع تعديل أُجري في مكان آخر.} two {يتعارض تغييران مع تعديلات أُجريت في مكان آخر.} few {تتعارض # تغييرات مع تعديلات أُجريت في مكان آخر.} other {يتعارض # تغييرًا مع تعديلات أُجريت في مكان آخر.}}',
+  'dashboard.review': 'مراجعة',
+  'dashboard.exportFiltered': 'النتائج الحالية',
+  'dashboard.exportAll': 'القائمة كاملة',
+
+  // Sync state
+  'sync.offline': '{count, plural, =0 {غير متصل} one {غير متصل · تغيير واحد بانتظار المزامنة} two {غير متصل · تغييران بانتظار المزامنة} few {غير متصل · # تغييرات بانتظار المزامنة} other {غير متصل · # تغيير بانتظار المزامنة}}',
+  'sync.syncing': '{count, plural, one {جارٍ مزامنة تغيير واحد} two {جارٍ مزامنة تغييرين} few {جارٍ مزامنة # تغييرات} other {جارٍ مزامنة # تغيير}}',
+  'sync.synced': 'تمت المزامنة',
+  'conflict.title': 'تغييرات متعارضة على {name}',
+  'conflict.thisStudent': 'هذا الطالب',
+  'conflict.intro': 'عدّل شخص آخر هذا الطالب بعد أن بدأت تغييرك في {queuedAt}. اختر النسخة التي تريد الاحتفاظ بها.',
+  'conflict.youDeleted': 'لقد حذفت هذا الطالب. الاحتفاظ بتغييرك يحذف نسخة الخادم المعروضة أدناه.',
+  'conflict.serverDeleted': 'حُذف هذا الطالب على الخادم. الاحتفاظ بتغييرك يعيد إضافته.',
+  'conflict.field': 'الحقل',
+  'conflict.serverCopy': 'نسخة الخادم',
+  'conflict.yourChange': 'تغييرك',
+  'conflict.keepServer': 'الاحتفاظ بنسخة الخادم',
+  'conflict.keepMine': 'الاحتفاظ بنسختي',
+
+  // Search and filter
+  'search.placeholder': 'ابحث بالاسم أو البريد الإلكتروني، أو مثلًا course:"React In Depth" -name:test',
+  'search.clear': 'مسح البحث',
+  'search.allCourses': 'كل المقررات',
+  'search.invalid': '{error} - تُعرض مطابقات النص العادي بدلًا من ذلك',
+  'search.help': 'الحقول: name: email: course: tag: created:>2026-01-01 updated:<=… · "عبارة مطابقة" · -استبعاد · a OR b · * حرف بدل',
+  'search.results': '{count, plural, zero {لا يوجد طلاب} one {عرض طالب واحد} two {عرض طالبَين} few {عرض # طلاب} many {عرض # طالبًا} other {عرض # طالب}}{filtered, select, true { حسب معايير البحث} other {}}',
+
+  // Student list
+  'list.emptyTitle': 'لم يُعثر على طلاب',
+  'list.emptyMessage': 'ابدأ بإضافة أول طالب إلى اللوحة.',
+  'list.selectAll': '{count, plural, one {تحديد الطالب المطابق} two {تحديد الطالبَين المطابقَين} few {تحديد # طلاب مطابقين} many {تحديد # طالبًا مطابقًا} other {تحديد # طالب مطابق}}',
+  'list.statsTitle': 'إحصاءات التسجيل في المقررات',
+  'list.activeEnrollments': '{count, plural, one {تسجيل نشط} two {تسجيلان نشطان} few {تسجيلات نشطة} other {تسجيل نشط}}',
+  'list.completed': '{count} مكتمل',
+  'list.dropped': '{count} منسحب',
+  'list.gradeDistribution': 'توزيع الدرجات في {course}',
+
+  // Bulk actions
+  'bulk.selected': '{count, plural, one {تم تحديد طالب واحد} two {تم تحديد طالبين} few {تم تحديد # طلاب} many {تم تحديد # طالبًا} other {تم تحديد # طالب}}',
+  'bulk.selectAll': 'تحديد كل النتائج المطابقة ({count})',
+  'bulk.clear': 'إلغاء التحديد',
+  'bulk.failed': 'تعذّر تنفيذ الإجراء الجماعي',
+  'bulk.moveLabel': 'نقل الطلاب المحددين إلى مقرر',
+  'bulk.moveTo': 'نقل إلى مقرر…',
+  'bulk.move': 'نقل',
+  'bulk.tag': 'وسم',
+  'bulk.tagLabel': 'الوسم المراد إسناده',
+  'bulk.assign': 'إسناد',
+  'bulk.exportSource': 'المحددون',
+  'bulk.export': 'تصدير المحددين',
+
+  // CSV import
+  'import.title': 'استيراد الطلاب من ملف CSV',
+  'import.chooseFile': 'اختر ملف CSV',
+  'import.readFailed': 'تعذّرت قراءة الملف المحدد',
+  'import.failed': 'فشل الاستيراد',
+  'import.delimiter': 'الفاصل',
+  'import.delimiterAuto': 'اكتشاف تلقائي',
+  'import.delimiterComma': 'فاصلة (,)',
+  'import.delimiterSemicolon': 'فاصلة منقوطة (;)',
+  'import.delimiterTab': 'مسافة جدولة',
+  'import.delimiterPipe': 'خط عمودي (|)',
+  'import.mapping': 'ربط الأعمدة',
+  'import.notMapped': '— غير مربوط —',
+  'import.column': 'العمود {index}',
+  'import.preview': 'معاينة',
+  'import.valid': 'صالحة: {count}',
+  'import.invalid': 'بها أخطاء: {count} (سيتم تخطيها)',
+  'import.noRows': 'لا يحتوي الملف على صفوف بيانات.',
+  'import.row': 'الصف',
+  'import.name': 'الاسم',
+  'import.email': 'البريد الإلكتروني',
+  'import.courses': 'المقررات',
+  'import.status': 'الحالة',
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.submit': '{count, plural, =0 {استيراد} one {استيراد طالب واحد} two {استيراد طالبين} few {استيراد # طلاب} many {استيراد # طالبًا} other {استيراد # طالب}}',
+  'import.unknownCourses': '{count, plural, one {مقرر غير معروف: {names}} other {مقررات غير معروفة: {names}}}',
+  'import.duplicateInFile': 'بريد إلكتروني مكرر داخل هذا الملف',
+  'importField.name': 'الاسم الكامل',
+  'importField.email': 'البريد الإلكتروني',
+  'importField.courses': 'المقرر أو المقررات',
+  'importField.profileImage': 'رابط صورة الملف الشخصي',
+
+  // Sorting and layout
+  'sort.by': 'ترتيب حسب',
+  'sort.then': 'ثم',
+  'sort.thenByLevel': 'ثم الترتيب حسب (المستوى {level})',
+  'sort.ascending': 'تصاعدي',
+  'sort.descending': 'تنازلي',
+  'sort.toggle': '{direction, select, asc {الترتيب تنازليًا بدلًا من ذلك} other {الترتيب تصاعديًا بدلًا من ذلك}}',
+  'sort.remove': 'إزالة مستوى الترتيب',
+  'sort.add': 'ترتيب',
+  'sort.addThen': 'ثم حسب',
+  'sortField.name': 'الاسم',
+  'sortField.email': 'البريد الإلكتروني',
+  'sortField.course': 'المقرر',
+  'sortField.createdAt': 'تاريخ الإضافة',
+  'sortField.updatedAt': 'آخر تحديث',
+  'view.paged': 'صفحات',
+  'view.virtual': 'تمرير',
+
+  // Pagination
+  'pagination.label': 'التنقل بين الصفحات',
+  'pagination.range': '{first}–{last} من {total}',
+  'pagination.previous': 'الصفحة السابقة',
+  'pagination.next': 'الصفحة التالية',
+  'pagination.perPage': 'لكل صفحة',
+
+  // Student card
+  'card.select': 'تحديد {name}',
+  'card.view': 'عرض {name}',
+  'card.unknownCourse': 'مقرر غير معروف',
+  'card.notEnrolled': 'غير مسجّل',
+  'card.gpa': 'المعدل',
+  'card.absenceStreak': '{count, plural, one {غاب حصة واحدة متتالية} two {غاب حصتين متتاليتين} few {غاب # حصص متتالية} other {غاب # حصة متتالية}}',
+  'card.pending': 'بانتظار المزامنة',
+  'card.syncing': 'جارٍ المزامنة…',
+  'card.conflict': 'تعارض – حلّه',
+  'card.added': 'أُضيف: {date}',
+  'confirm.deleteStudent': 'هل تريد بالتأكيد حذف {name}؟',
+  'confirm.deleteStudents': '{count, plural, one {هل تريد بالتأكيد حذف طالب واحد؟} two {هل تريد بالتأكيد حذف طالبين؟} few {هل تريد بالتأكيد حذف # طلاب؟} many {هل تريد بالتأكيد حذف # طالبًا؟} other {هل تريد بالتأكيد حذف # طالب؟}}',
+  'enrollmentStatus.active': 'نشط',
+  'enrollmentStatus.completed': 'مكتمل',
+  'enrollmentStatus.dropped': 'منسحب',
+
+  // Student form
+  'form.addTitle': 'إضافة طالب جديد',
+  'form.editTitle': 'تعديل الطالب',
+  'form.name': 'الاسم الكامل *',
+  'form.namePlaceholder': 'أدخل الاسم الكامل للطالب',
+  'form.email': 'البريد الإلكتروني *',
+  'form.checking': 'جارٍ التحقق…',
+  'form.enrollments': 'التسجيل في المقررات *',
+  'form.courseFor': 'مقرر التسجيل {index}',
+  'form.statusFor': 'حالة التسجيل {index}',
+  'form.removeEnrollment': 'إزالة التسجيل {index}',
+  'form.selectCourse': 'اختر مقررًا',
+  'form.archivedCourse': '{name} (مؤرشف)',
+  'form.lockedStatus': 'لا يغيّره إلا مدرّس هذا المقرر أو مدير',
+  'form.addCourse': 'إضافة مقرر',
+  'form.selectOption': 'اختر خيارًا',
+  'form.none': 'لا شيء',
+  'form.saving': 'جارٍ الحفظ...',
+  'form.update': 'تحديث الطالب',
+  'form.add': 'إضافة الطالب',
+
+  // Undo
+  'undo.undo': 'تراجع',
+  'undo.failed': 'تعذّر التراجع عن التغيير',
+  'undo.addStudent': 'إضافة {name}',
+  'undo.editStudent': 'تعديل {name}',
+  'undo.deleteStudent': 'حذف {name}',
+  'undo.unnamedStudent': 'طالب',
+  'undo.importStudents': '{count, plural, one {استيراد طالب واحد} two {استيراد طالبين} few {استيراد # طلاب} many {استيراد # طالبًا} other {استيراد # طالب}}',
+  'undo.updateStudents': '{count, plural, one {تحديث طالب واحد} two {تحديث طالبين} few {تحديث # طلاب} many {تحديث # طالبًا} other {تحديث # طالب}}',
+  'undo.deleteStudents': '{count, plural, one {حذف طالب واحد} two {حذف طالبين} few {حذف # طلاب} many {حذف # طالبًا} other {حذف # طالب}}',
+  'undo.reassignStudents': '{count, plural, one {إعادة توزيع طالب واحد} two {إعادة توزيع طالبين} few {إعادة توزيع # طلاب} many {إعادة توزيع # طالبًا} other {إعادة توزيع # طالب}}',
+  'undo.moveStudents': '{count, plural, one {نقل طالب واحد} two {نقل طالبين} few {نقل # طلاب} many {نقل # طالبًا} other {نقل # طالب}}',
+  'undo.tagStudents': '{count, plural, one {وسم طالب واحد} two {وسم طالبين} few {وسم # طلاب} many {وسم # طالبًا} other {وسم # طالب}}',
+  'undo.gradeStudents': '{count, plural, one {رصد درجات طالب واحد} two {رصد درجات طالبين} few {رصد درجات # طلاب} many {رصد درجات # طالبًا} other {رصد درجات # طالب}}',
+  'undo.undone': 'تراجع عن {label}',
+  'undo.redone': 'إعادة {label}',
+
+  // Validation
+  'validation.nameRequired': 'الاسم مطلوب',
+  'validation.nameTooShort': 'يجب ألا يقل الاسم عن {min} أحرف',
+  'validation.nameTooLong': 'يجب أن يقل الاسم عن {max} حرفًا',
+  'validation.emailRequired': 'البريد الإلكتروني مطلوب',
+  'validation.emailInvalid': 'يُرجى إدخال بريد إلكتروني صالح',
+  'validation.emailTaken': 'يوجد طالب بهذا البريد الإلكتروني بالفعل',
+  'validation.enrollmentsRequired': 'يُرجى تسجيل الطالب في مقرر واحد على الأقل',
+  'validation.enrollmentCourseRequired': 'يُرجى اختيار مقرر لكل تسجيل',
+  'validation.enrollmentDuplicate': 'لا يمكن إدراج المقرر أكثر من مرة',
+  'validation.courseNameRequired': 'اسم المقرر مطلوب',
+  'validation.courseNameTooShort': 'يجب ألا يقل اسم المقرر عن {min} أحرف',
+  'validation.courseNameTooLong': 'يجب أن يقل اسم المقرر عن {max} حرفًا',
+  'validation.courseCodeRequired': 'رمز المقرر مطلوب',
+  'validation.courseCodeFormat': 'استخدم من 2 إلى 12 حرفًا أو رقمًا أو شرطة',
+  'validation.courseCodeTaken': 'رمز المقرر هذا مستخدم بالفعل',
+  'validation.instructorTooLong': 'يجب أن يقل اسم المدرّس عن {max} حرفًا',
+  'validation.fieldUnchecked': 'يجب تحديد {label}',
+  'validation.fieldRequired': '{label} مطلوب',
+  'validation.fieldNotNumber': 'يجب أن يكون {label} رقمًا',
+  'validation.fieldNumberMin': 'يجب ألا يقل {label} عن {min}',
+  'validation.fieldNumberMax': 'يجب ألا يزيد {label} على {max}',
+  'validation.fieldNotDate': 'يجب أن يكون {label} تاريخًا',
+  'validation.fieldDateMin': 'يجب أن يكون {label} في {min} أو بعده',
+  'validation.fieldDateMax': 'يجب أن يكون {label} في {max} أو قبله',
+  'validation.fieldOption': 'اختر أحد خيارات {label}',
+  'validation.fieldTextMin': 'يجب ألا يقل {label} عن {min, plural, one {حرف واحد} two {حرفين} few {# أحرف} other {# حرفًا}}',
+  'validation.fieldTextMax': 'يجب ألا يزيد {label} على {max, plural, one {حرف واحد} two {حرفين} few {# أحرف} other {# حرفًا}}',
+  'validation.fieldPattern': '{label} ليس بالتنسيق المتوقع',
+
+  // Branding
+  'branding.heading': 'الهوية البصرية',
+  'branding.intro': 'لون مؤسستك وشعارها وعنوان اللوحة، ويراها كل من يسجّل الدخول.',
+  'branding.dashboardTitle': 'عنوان اللوحة',
+  'branding.titleHint': 'اتركه فارغًا لاستخدام «{fallback}».',
+  'branding.primaryColor': 'اللون الأساسي',
+  'branding.logo': 'الشعار',
+  'branding.uploadLogo': 'رفع شعار',
+  'branding.removeLogo': 'إزالة الشعار',
+  'branding.logoHint': 'يحلّ محل أيقونة قبعة التخرج. تناسب صورة PNG بخلفية شفافة السمتين معًا.',
+  'branding.preview': 'معاينة',
+  'branding.sampleLink': 'رابط باللون الأساسي',
+  'branding.contrast': 'تباين النص',
+  'branding.contrastCheck': '{usage, select, button {نص الزر} other {نص الرابط}} · {theme, select, dark {السمة الداكنة} other {السمة الفاتحة}}',
+  'branding.contrastRatio': '{ratio}:1',
+  'branding.contrastNote': 'يحتاج النص إلى تباين لا يقل عن {min}:1 مع خلفيته (WCAG AA).',
+  'branding.reset': 'استعادة الإعدادات الافتراضية',
+  'branding.save': 'حفظ الهوية البصرية',
+  'branding.saved': 'تم حفظ الهوية البصرية',
+  'branding.saveFailed': 'تعذّر حفظ الهوية البصرية',
+  'branding.colorInvalid': 'أدخل اللون برمز سداسي عشري مثل #2563eb',
+  'branding.titleTooLong': 'يجب ألا يتجاوز العنوان {max} حرفًا',
+  'branding.lowContrast': 'سيصعب قراءة بعض النصوص بهذا اللون، جرّب درجة أغمق',
+
+  // Courses
+  'courses.fetchFailed': 'تعذّر جلب المقررات: {reason}',
+  'courses.networkError': 'خطأ في الشبكة: تعذّر جلب المقررات',
+
+  // Course management and grading
+  'courses.deleteTitle': 'حذف {name}؟',
+  'courses.deleteFailed': 'تعذّر حذف المقرر',
+  'courses.reassignIntro': '{count, plural, one {لدى طالب واحد تسجيلات في هذا المقرر. اختر مقررًا لنقله إليه قبل الحذف.} two {لدى طالبين تسجيلات في هذا المقرر. اختر مقررًا لنقلهما إليه قبل الحذف.} few {لدى # طلاب تسجيلات في هذا المقرر. اختر مقررًا لنقلهم إليه قبل الحذف.} many {لدى # طالبًا تسجيلات في هذا المقرر. اختر مقررًا لنقلهم إليه قبل الحذف.} other {لدى # طالب تسجيلات في هذا المقرر. اختر مقررًا لنقلهم إليه قبل الحذف.}}',
+  'courses.deleteEmpty': 'لا يوجد طلاب مسجلون في هذا المقرر وسيُحذف نهائيًا.',
+  'courses.reassignAndDelete': 'نقل ثم حذف',
+  'courses.deleteCourse': 'حذف المقرر',
+  'courses.updateFailed': 'تعذّر تحديث المقرر',
+  'courses.noInstructor': 'بلا مدرّس',
+  'courses.studentCount': '{count, plural, zero {لا طلاب} one {طالب واحد} two {طالبان} few {# طلاب} many {# طالبًا} other {# طالب}}',
+  'courses.assessments': 'التقييمات ({count})',
+  'courses.gradebook': 'سجل الدرجات',
+  'courses.attendance': 'الحضور',
+  'courses.restore': 'استعادة',
+  'courses.archive': 'أرشفة',
+  'courses.empty': 'لا توجد مقررات بعد. أضف أول مقرر لبدء تسجيل الطلاب.',
+  'courses.noneAssigned': 'لم يُسند إليك أي مقرر بعد.',
+  'courses.noStudents': 'لا يوجد طلاب مسجلون في هذا المقرر.',
+  'courseStatus.active': 'نشط',
+  'courseStatus.archived': 'مؤرشف',
+  'courseForm.addTitle': 'إضافة مقرر جديد',
+  'courseForm.editTitle': 'تعديل المقرر',
+  'courseForm.name': 'اسم المقرر *',
+  'courseForm.namePlaceholder': 'مثال: React بالتفصيل',
+  'courseForm.code': 'رمز المقرر *',
+  'courseForm.codePlaceholder': 'مثال: JS-301',
+  'courseForm.instructor': 'المدرّس',
+  'courseForm.instructorPlaceholder': 'الاسم الكامل للمدرّس',
+  'courseForm.description': 'الوصف',
+  'courseForm.descriptionPlaceholder': 'ما يغطيه المقرر',
+  'courseForm.status': 'الحالة',
+  'courseForm.update': 'تحديث المقرر',
+  'courseForm.add': 'إضافة مقرر',
+  'assessments.title': 'التقييمات – {course}',
+  'assessments.saveFailed': 'تعذّر حفظ التقييمات',
+  'assessments.empty': 'لا توجد تقييمات بعد. أضف تقييمًا لبدء رصد درجات هذا المقرر.',
+  'assessments.titleColumn': 'العنوان',
+  'assessments.typeColumn': 'النوع',
+  'assessments.weight': 'الوزن',
+  'assessments.maxScoreColumn': 'الدرجة القصوى',
+  'assessments.titlePlaceholder': 'مثال: اختبار منتصف الفصل',
+  'assessments.titleLabel': 'عنوان التقييم',
+  'assessments.typeLabel': 'نوع التقييم',
+  'assessments.maxScore': 'الدرجة القصوى',
+  'assessments.share': '{share} من درجة المقرر',
+  'assessments.remove': 'إزالة {name}',
+  'assessments.unnamed': 'التقييم',
+  'assessments.add': 'إضافة تقييم',
+  'assessments.removeNote': 'تؤدي إزالة التقييم إلى إزالته من درجة كل طالب في هذا المقرر.',
+  'assessments.save': 'حفظ التقييمات',
+  'assessments.titleRequired': 'يحتاج كل تقييم إلى عنوان',
+  'assessments.weightPositive': 'يجب أن يكون وزن {title} أكبر من صفر',
+  'assessments.maxScorePositive': 'يجب أن تكون الدرجة القصوى لـ {title} أكبر من صفر',
+  'assessmentType.assignment': 'واجب',
+  'assessmentType.quiz': 'اختبار قصير',
+  'assessmentType.exam': 'امتحان',
+  'gradebook.title': 'سجل الدرجات – {course}',
+  'gradebook.invalidScores': 'بعض درجات {name} ليست بين 0 والحد الأقصى',
+  'gradebook.saveFailed': 'تعذّر حفظ الدرجات',
+  'gradebook.noAssessments': 'حدّد تقييمات هذا المقرر قبل رصد الدرجات.',
+  'gradebook.student': 'الطالب',
+  'gradebook.assessmentInfo': '/ {max} · الوزن {weight}',
+  'gradebook.grade': 'الدرجة',
+  'gradebook.save': 'حفظ الدرجات',
+  'grading.scaleTitle': 'سلّم الدرجات',
+  'grading.saveFailed': 'تعذّر حفظ سلّم الدرجات',
+  'grading.letter': 'الحرف',
+  'grading.fromPercent': 'من %',
+  'grading.points': 'نقاط المعدل',
+  'grading.minFor': 'الحد الأدنى للنسبة المئوية لـ {grade}',
+  'grading.pointsFor': 'نقاط المعدل لـ {grade}',
+  'grading.remove': 'إزالة {grade}',
+  'grading.unnamed': 'الدرجة',
+  'grading.add': 'إضافة درجة',
+  'grading.reset': 'استعادة الافتراضي',
+  'grading.save': 'حفظ السلّم',
+  'grading.scaleEmpty': 'يحتاج السلّم إلى درجة واحدة على الأقل',
+  'grading.letterRequired': 'تحتاج كل درجة إلى حرف',
+  'grading.letterDuplicate': 'الدرجة {letter} مكررة',
+  'grading.minRange': 'يجب أن يكون الحد الأدنى لـ {letter} بين 0 و100',
+  'grading.minDuplicate': 'تبدأ درجتان عند {min}',
+  'grading.pointsRange': 'يجب ألا تقل نقاط {letter} عن صفر',
+  'grading.zeroRequired': 'يجب أن تبدأ إحدى الدرجات من 0٪ كي يكون لكل نتيجة حرف',
+  'absence.title': 'تقرير الغياب',
+
+  // Attendance, reports and the audit log
+  'attendanceStatus.present': 'حاضر',
+  'attendanceStatus.absent': 'غائب',
+  'attendanceStatus.late': 'متأخر',
+  'attendanceStatus.excused': 'معذور',
+  'changeType.created': 'إنشاء',
+  'changeType.updated': 'تحديث',
+  'changeType.deleted': 'حذف',
+  'changeType.restored': 'استعادة',
+  'report.from': 'من',
+  'report.to': 'إلى',
+  'report.course': 'المقرر',
+  'report.student': 'الطالب',
+  'report.allCourses': 'كل المقررات',
+  'report.clearFilters': 'مسح عوامل التصفية',
+  'attendance.loadFailed': 'تعذّر تحميل الحضور',
+  'absence.firstSession': 'أول جلسة',
+  'absence.today': 'اليوم',
+  'absence.allSessions': 'كل الجلسات',
+  'absence.print': 'طباعة',
+  'absence.empty': 'لا غياب ولا تأخير في هذه الفترة.',
+  'absence.sessions': 'الجلسات',
+  'absence.rate': 'النسبة',
+  'absence.absentOn': 'أيام الغياب',
+  'rollCall.title': 'الحضور – {course}',
+  'rollCall.label': 'كشف الحضور',
+  'rollCall.saveFailed': 'تعذّر حفظ الحضور',
+  'rollCall.confirmDelete': 'حذف جلسة {course} بتاريخ {date}؟',
+  'rollCall.deleteFailed': 'تعذّر حذف الجلسة',
+  'rollCall.markPresent': 'تسجيل غير المحددين ({count}) حاضرين',
+  'rollCall.save': 'حفظ كشف الحضور',
+  'rollCall.saved': 'تم الحفظ',
+  'rollCall.keyboard': 'لوحة المفاتيح: ↑/↓ للتنقل، {shortcuts}',
+  'rollCall.noAttendance': 'لا حضور مسجل بعد',
+  'rollCall.rate': 'نسبة الحضور {rate}',
+  'rollCall.attendanceFor': 'حضور {name}',
+  'rollCall.createFailed': 'تعذّر إنشاء الجلسة',
+  'rollCall.courseNotFound': 'المقرر غير موجود',
+  'rollCall.courseNotFoundMessage': 'ربما حُذف هذا المقرر أو أن الرابط غير صحيح.',
+  'rollCall.sessionDate': 'تاريخ الجلسة',
+  'rollCall.topicPlaceholder': 'الموضوع (اختياري)',
+  'rollCall.topicLabel': 'موضوع الجلسة',
+  'rollCall.newSession': 'جلسة جديدة',
+  'rollCall.noSessions': 'لا توجد جلسات بعد.',
+  'rollCall.noTopic': 'بلا موضوع',
+  'rollCall.marked': 'المحددون: {count}',
+  'rollCall.createPrompt': 'أنشئ جلسة لتسجيل الحضور.',
+  'access.attendance': 'يمكنك تسجيل الحضور للمقررات التي تدرّسها فقط.',
+  'analytics.lastWeeks': '{weeks, plural, one {الأسبوع الماضي} two {آخر أسبوعين} few {آخر # أسابيع} many {آخر # أسبوعًا} other {آخر # أسبوع}}',
+  'analytics.allTime': 'كل الفترات',
+  'analytics.students': 'الطلاب',
+  'analytics.inScope': 'في {scope}',
+  'analytics.scopeAll': 'جميع المقررات',
+  'analytics.addedInRange': 'المضافون في الفترة',
+  'analytics.latestWeek': 'المضافون في آخر أسبوع',
+  'analytics.growth': '{growth} مقارنة بالأسبوع السابق ({lastWeek} في الأسبوع السابق)',
+  'analytics.activeEnrollments': 'التسجيلات النشطة',
+  'analytics.enrolledInRange': 'مسجلة في الفترة',
+  'analytics.totalTitle': 'إجمالي الطلاب',
+  'analytics.totalDescription': 'إجمالي الطلاب في {scope} بنهاية كل أسبوع، حسب تاريخ إضافتهم.',
+  'analytics.addedTitle': 'الطلاب الجدد أسبوعيًا',
+  'analytics.addedDescription': 'الطلاب المضافون إلى {scope} كل أسبوع.',
+  'analytics.chartType': 'نوع المخطط',
+  'analytics.pie': 'دائري',
+  'analytics.bar': 'أعمدة',
+  'analytics.distributionTitle': 'التسجيلات النشطة حسب المقرر',
+  'analytics.pieDescription': 'حصة كل مقرر من التسجيلات النشطة التي تمت في الفترة المحددة.',
+  'analytics.barDescription': 'التسجيلات النشطة التي تمت في الفترة المحددة لكل مقرر.',
+  'chart.noData': 'لا توجد بيانات لعوامل التصفية هذه.',
+  'audit.refresh': 'تحديث',
+  'audit.searchPlaceholder': 'اسم الطالب أو بريده الإلكتروني',
+  'audit.filterStudent': 'التصفية حسب الطالب',
+  'audit.filterActor': 'التصفية حسب المنفّذ',
+  'audit.allActors': 'كل المنفّذين',
+  'audit.filterType': 'التصفية حسب نوع التغيير',
+  'audit.allChanges': 'كل التغييرات',
+  'audit.fromDate': 'من تاريخ',
+  'audit.toDate': 'إلى تاريخ',
+  'audit.loadFailed': 'تعذّر تحميل سجل التدقيق',
+  'audit.noMatches': 'لا توجد إدخالات تطابق عوامل التصفية هذه.',
+  'audit.empty': 'لم تُسجَّل أي تغييرات بعد.',
+  'audit.when': 'الوقت',
+  'audit.actor': 'المنفّذ',
+  'audit.action': 'الإجراء',
+  'audit.changes': 'التغييرات',
+
+  // Student profile, photos, custom fields and export
+  'studentDetail.allStudents': 'جميع الطلاب',
+  'studentDetail.deleteFailed': 'تعذّر حذف الطالب',
+  'studentDetail.notGraded': 'غير مُقيَّم',
+  'studentDetail.added': 'تاريخ الإضافة',
+  'studentDetail.lastUpdated': 'آخر تحديث',
+  'studentDetail.studentId': 'رقم الطالب',
+  'studentDetail.enrollments': 'التسجيلات',
+  'studentDetail.notEnrolled': 'غير مسجّل في أي مقرر.',
+  'studentDetail.archived': '(مؤرشف)',
+  'studentDetail.enrolledOn': 'سُجّل في {date}',
+  'studentDetail.activity': 'النشاط',
+  'studentDetail.noChanges': 'لا توجد تغييرات مسجّلة بعد.',
+  'history.name': 'الاسم',
+  'history.email': 'البريد الإلكتروني',
+  'history.profileImage': 'صورة الملف الشخصي',
+  'history.tags': 'الوسوم',
+  'history.enrollment': 'التسجيل',
+  'history.assessment': 'تقييم',
+  'history.unknownCourse': 'المقرر رقم {id}',
+  'history.enrollmentStatus': '{course} ({status})',
+  'avatar.initials': 'الصورة الرمزية لـ {name}',
+  'avatar.photo': 'صورة الملف الشخصي لـ {name}',
+  'avatar.unnamed': 'طالب',
+  'photo.uploaded': 'صورة مرفوعة',
+  'photo.invalidType': 'يرجى اختيار صورة بصيغة JPEG أو PNG أو WebP أو GIF',
+  'photo.tooLarge': 'يجب أن يكون حجم الصورة أقل من {max} ميغابايت',
+  'photo.tooSmall': 'يجب ألا تقل أبعاد الصورة عن {size}×{size} بكسل',
+  'photo.unreadable': 'تعذّرت قراءة هذه الصورة',
+  'photo.unprocessable': 'تعذّرت معالجة هذه الصورة',
+  'photo.unsupported': 'هذا المتصفح لا يدعم معالجة الصور',
+  'photo.cropArea': 'منطقة القص - اسحب أو استخدم مفاتيح الأسهم لضبط موضع الصورة',
+  'photo.zoom': 'التكبير',
+  'photo.use': 'استخدام الصورة',
+  'photo.replace': 'استبدال الصورة',
+  'photo.choose': 'أفلت صورة هنا أو اختر ملفًا',
+  'photo.remove': 'إزالة الصورة',
+  'customFieldType.text': 'نص',
+  'customFieldType.number': 'رقم',
+  'customFieldType.date': 'تاريخ',
+  'customFieldType.select': 'قائمة اختيار',
+  'customFieldType.boolean': 'نعم / لا',
+  'customFields.empty': 'لا توجد حقول مخصّصة بعد. أضف حقولًا مثل رقم الهاتف أو الرقم الجامعي إلى سجل كل طالب.',
+  'customFields.unnamed': 'حقل',
+  'customFields.label': 'عنوان الحقل',
+  'customFields.labelPlaceholder': 'العنوان، مثل: الهاتف',
+  'customFields.type': 'نوع {name}',
+  'customFields.required': 'مطلوب',
+  'customFields.moveUp': 'نقل {name} للأعلى',
+  'customFields.moveDown': 'نقل {name} للأسفل',
+  'customFields.remove': 'إزالة {name}',
+  'customFields.pattern': 'نمط {name}',
+  'customFields.patternPlaceholder': 'النمط (تعبير نمطي)، مثل: {example}',
+  'customFields.minimum': 'الحد الأدنى لـ {name}',
+  'customFields.maximum': 'الحد الأقصى لـ {name}',
+  'customFields.minLength': 'أقل طول',
+  'customFields.maxLength': 'أقصى طول',
+  'customFields.min': 'الأدنى',
+  'customFields.max': 'الأقصى',
+  'customFields.options': 'خيارات {name}',
+  'customFields.optionsPlaceholder': 'خيار واحد في كل سطر',
+  'customFields.searchHint': 'ابحث باستخدام',
+  'customFields.add': 'إضافة حقل',
+  'customFields.save': 'حفظ الحقول',
+  'customFields.saveFailed': 'تعذّر حفظ الحقول المخصّصة',
+  'customFields.labelRequired': 'يحتاج كل حقل إلى عنوان',
+  'customFields.someField': 'أحد الحقول',
+  'customFields.labelLetter': 'يحتاج {name} إلى عنوان يبدأ بحرف',
+  'customFields.reservedKey': 'لا يمكن أن يستخدم {name} المفتاح "{key}" - فهو حقل مدمج',
+  'customFields.duplicateKey': 'يشترك حقلان في المفتاح "{key}"',
+  'customFields.optionsRequired': 'يحتاج {name} إلى خيار واحد على الأقل',
+  'customFields.invalidPattern': 'نمط {name} غير صالح',
+  'customFields.dateLimits': 'يجب أن تكون حدود {name} تواريخ',
+  'customFields.minAboveMax': 'الحد الأدنى لـ {name} أكبر من حده الأقصى',
+  'export.button': 'تصدير',
+  'export.students': 'الطلاب',
+  'export.columns': 'الأعمدة',
+  'export.sourceCount': '{label} ({count})',
+  'export.download': 'تنزيل {format}',
+  'export.csv': 'CSV',
+  'export.json': 'JSON',
+  'export.xlsx': 'Excel (XLSX)',
+  'exportColumn.id': 'المعرّف',
+  'exportColumn.name': 'الاسم',
+  'exportColumn.email': 'البريد الإلكتروني',
+  'exportColumn.courses': 'المقررات',
+  'exportColumn.profileImage': 'صورة الملف الشخصي',
+  'exportColumn.createdAt': 'تاريخ الإنشاء',
+  'exportColumn.updatedAt': 'تاريخ التحديث',
+
+  // Server, network and search errors
+  'server.studentNotFound': 'لم يُعثر على الطالب {id}',
+  'server.studentExists': 'الطالب {id} موجود بالفعل',
+  'server.changedElsewhere': 'عدّل شخص آخر بيانات {name}',
+  'server.courseNotFound': 'لم يُعثر على المقرر {id}',
+  'server.courseGone': 'المقرر {id} لم يعد موجودًا',
+  'server.courseCodeTaken': 'رمز المقرر {code} مستخدم بالفعل',
+  'server.courseHasStudents': '{count, plural, one {لا يمكن حذف مقرر مسجّل فيه طالب واحد} two {لا يمكن حذف مقرر مسجّل فيه طالبان} few {لا يمكن حذف مقرر مسجّل فيه # طلاب} many {لا يمكن حذف مقرر مسجّل فيه # طالبًا} other {لا يمكن حذف مقرر مسجّل فيه # طالب}}',
+  'server.sessionNotFound': 'لم يُعثر على الجلسة {id}',
+  'server.invalidCredentials': 'البريد الإلكتروني أو كلمة المرور غير صحيحة',
+  'server.offline': 'خطأ في الشبكة: أنت غير متصل',
+  'server.networkError': 'خطأ في الشبكة: {reason}',
+  'server.unreachable': 'تعذّر الوصول إلى الخادم',
+  'server.requestFailed': 'فشل الطلب',
+  'server.requestFailedStatus': 'فشل الطلب برمز الحالة {status}',
+  'server.settingsLoadFailed': 'تعذّر تحميل الإعدادات',
+  'server.attendanceLoadFailed': 'تعذّر تحميل الحضور',
+  'server.sessionRestoreFailed': 'تعذّرت استعادة جلستك',
+  'server.changeNotSaved': 'تعذّر حفظ التغيير',
+  'search.unclosedQuote': 'علامة اقتباس غير مغلقة تبدأ عند الموضع {position}',
+  'search.expectedDate': 'كان المتوقع تاريخًا مثل {field}:>2026-01-01 لكن وُجد "{field}:{value}"',
+  'search.termAfterOr': 'يجب وضع كلمة بحث بعد OR',
+  'search.orNeedsTerms': 'يحتاج OR إلى كلمة بحث على الجانبين',
+  'search.expectedTerm': 'يجب إدخال كلمة بحث',
+  'search.termAfterNot': 'يجب وضع كلمة بحث بعد "-"',
+  'search.emptyParentheses': 'أقواس فارغة',
+  'search.missingParenthesis': 'ينقص ")" للقوس "(" عند الموضع {position}',
+  'search.missingValue': 'ينقص قيمة بعد "{field}:"',
+  'search.unknownField': 'حقل غير معروف "{field}" - استخدم أحد الحقول: {fields}',
+  'search.unexpectedParenthesis': '")" غير متوقع',
+};
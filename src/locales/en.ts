@@ -0,0 +1,583 @@
+// English messages - the source catalog every other locale translates
+// Patterns use ICU message syntax: {name} arguments, plural and select, # for the plural count
+
+export const en = {
+  // Shell
+  'app.title': 'Student Management Dashboard',
+  'nav.dashboard': 'Dashboard',
+  'nav.courses': 'Courses',
+  'nav.analytics': 'Analytics',
+  'nav.auditLog': 'Audit Log',
+  'nav.guide': 'Learning Guide',
+  'nav.signOut': 'Sign out',
+  'nav.branding': 'Branding',
+  'theme.label': 'Colour theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'Match system',
+  'language.label': 'Language',
+  'role.admin': 'Admin',
+  'role.instructor': 'Instructor',
+  'role.viewer': 'Viewer',
+
+  // Shared
+  'common.retry': 'Retry',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.dismiss': 'Dismiss',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.unknownError': 'Unknown error',
+  'common.unexpectedError': 'An unexpected error occurred',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+
+  // Error and not-found screens
+  'error.title': 'Something went wrong',
+  'error.message': 'We apologize for the inconvenience. Please refresh the page to try again.',
+  'error.refresh': 'Refresh Page',
+  'notFound.title': 'Page Not Found',
+  'notFound.message': "The page you're looking for doesn't exist.",
+  'notFound.back': 'Back to students',
+  'access.denied': 'Access Denied',
+  'access.auditLog': "Your role doesn't include the audit log.",
+  'access.editStudents': "Your role can't edit students.",
+  'access.branding': "Your role doesn't include branding settings.",
+  'access.noPermission': "You don't have permission to do this ({permission})",
+  'studentNotFound.title': 'Student Not Found',
+  'studentNotFound.message': 'This student may have been deleted, or the link is incorrect.',
+
+  // Sign in
+  'signIn.email': 'Email',
+  'signIn.password': 'Password',
+  'signIn.submit': 'Sign In',
+  'signIn.failed': 'Sign-in failed',
+  'signIn.demoAccounts': 'Development accounts',
+
+  // Dashboard
+  'dashboard.loading': 'Loading dashboard...',
+  'dashboard.loadStudentsFailed': 'Failed to Load Students',
+  'dashboard.loadCoursesFailed': 'Failed to Load Courses',
+  'dashboard.customFields': 'Custom Fields',
+  'dashboard.importCsv': 'Import CSV',
+  'dashboard.addStudent': 'Add Student',
+  'dashboard.deleteFailed': 'Could not delete student: {error}',
+  'dashboard.conflicts': '{count, plural, one {# change conflicts with an edit made elsewhere.} other {# changes conflict with edits made elsewhere.}}',
+  'dashboard.review': 'Review',
+  'dashboard.exportFiltered': 'Current results',
+  'dashboard.exportAll': 'Entire roster',
+
+  // Sync state
+  'sync.offline': '{count, plural, =0 {Offline} one {Offline · # change to sync} other {Offline · # changes to sync}}',
+  'sync.syncing': '{count, plural, one {Syncing # change} other {Syncing # changes}}',
+  'sync.synced': 'Synced',
+  'conflict.title': 'Conflicting changes to {name}',
+  'conflict.thisStudent': 'this student',
+  'conflict.intro': 'Someone else changed this student after you started your change on {queuedAt}. Choose which version to keep.',
+  'conflict.youDeleted': 'You deleted this student. Keeping your change deletes the server copy shown below.',
+  'conflict.serverDeleted': 'This student was deleted on the server. Keeping your change adds them back.',
+  'conflict.field': 'Field',
+  'conflict.serverCopy': 'Server copy',
+  'conflict.yourChange': 'Your change',
+  'conflict.keepServer': 'Keep server copy',
+  'conflict.keepMine': 'Keep mine',
+
+  // Search and filter
+  'search.placeholder': 'Search by name or email, or e.g. course:"React In Depth" -name:test',
+  'search.clear': 'Clear search',
+  'search.allCourses': 'All Courses',
+  'search.invalid': '{error} - showing plain text matches instead',
+  'search.help': 'Fields: name: email: course: tag: created:>2026-01-01 updated:<=… · "exact phrase" · -exclude · a OR b · * wildcard',
+  'search.results': '{count, plural, one {Showing # student{filtered, select, true { matching your criteria} other {}}} other {Showing # students{filtered, select, true { matching your criteria} other {}}}}',
+
+  // Student list
+  'list.emptyTitle': 'No students found',
+  'list.emptyMessage': 'Start by adding your first student to the dashboard.',
+  'list.selectAll': '{count, plural, one {Select the # matching student} other {Select all # matching}}',
+  'list.statsTitle': 'Course Enrollment Statistics',
+  'list.activeEnrollments': '{count, plural, one {active enrollment} other {active enrollments}}',
+  'list.completed': '{count} completed',
+  'list.dropped': '{count} dropped',
+  'list.gradeDistribution': 'Grade distribution for {course}',
+
+  // Bulk actions
+  'bulk.selected': '{count, plural, one {# student selected} other {# students selected}}',
+  'bulk.selectAll': 'Select all {count} matching',
+  'bulk.clear': 'Clear',
+  'bulk.failed': 'Bulk action failed',
+  'bulk.moveLabel': 'Move selected students to course',
+  'bulk.moveTo': 'Move to course…',
+  'bulk.move': 'Move',
+  'bulk.tag': 'Tag',
+  'bulk.tagLabel': 'Tag to assign',
+  'bulk.assign': 'Assign',
+  'bulk.exportSource': 'Selected',
+  'bulk.export': 'Export selected',
+
+  // CSV import
+  'import.title': 'Import Students from CSV',
+  'import.chooseFile': 'Choose a CSV file',
+  'import.readFailed': 'Could not read the selected file',
+  'import.failed': 'Import failed',
+  'import.delimiter': 'Delimiter',
+  'import.delimiterAuto': 'Auto-detect',
+  'import.delimiterComma': 'Comma (,)',
+  'import.delimiterSemicolon': 'Semicolon (;)',
+  'import.delimiterTab': 'Tab',
+  'import.delimiterPipe': 'Pipe (|)',
+  'import.mapping': 'Column Mapping',
+  'import.notMapped': '— Not mapped —',
+  'import.column': 'Column {index}',
+  'import.preview': 'Preview',
+  'import.valid': '{count} valid',
+  'import.invalid': '{count} with errors (will be skipped)',
+  'import.noRows': 'The file has no data rows.',
+  'import.row': 'Row',
+  'import.name': 'Name',
+  'import.email': 'Email',
+  'import.courses': 'Courses',
+  'import.status': 'Status',
+  'import.importing': 'Importing...',
+  'import.submit': '{count, plural, one {Import # student} other {Import # students}}',
+  'import.unknownCourses': '{count, plural, one {Unknown course {names}} other {Unknown courses {names}}}',
+  'import.duplicateInFile': 'Duplicate email within this file',
+  'importField.name': 'Full Name',
+  'importField.email': 'Email Address',
+  'importField.courses': 'Course(s)',
+  'importField.profileImage': 'Profile Image URL',
+
+  // Sorting and layout
+  'sort.by': 'Sort by',
+  'sort.then': 'then',
+  'sort.thenByLevel': 'Then sort by (level {level})',
+  'sort.ascending': 'Ascending',
+  'sort.descending': 'Descending',
+  'sort.toggle': '{direction, select, asc {Sort descending instead} other {Sort ascending instead}}',
+  'sort.remove': 'Remove sort level',
+  'sort.add': 'Sort',
+  'sort.addThen': 'Then by',
+  'sortField.name': 'Name',
+  'sortField.email': 'Email',
+  'sortField.course': 'Course',
+  'sortField.createdAt': 'Date added',
+  'sortField.updatedAt': 'Last updated',
+  'view.paged': 'Pages',
+  'view.virtual': 'Scroll',
+
+  // Pagination
+  'pagination.label': 'Pagination',
+  'pagination.range': '{first}–{last} of {total}',
+  'pagination.previous': 'Previous page',
+  'pagination.next': 'Next page',
+  'pagination.perPage': 'Per page',
+
+  // Student card
+  'card.select': 'Select {name}',
+  'card.view': 'View {name}',
+  'card.unknownCourse': 'Unknown Course',
+  'card.notEnrolled': 'Not enrolled',
+  'card.gpa': 'GPA',
+  'card.absenceStreak': '{count, plural, one {Absent # session in a row} other {Absent # sessions in a row}}',
+  'card.pending': 'Waiting to sync',
+  'card.syncing': 'Syncing…',
+  'card.conflict': 'Conflict – resolve',
+  'card.added': 'Added: {date}',
+  'confirm.deleteStudent': 'Are you sure you want to delete {name}?',
+  'confirm.deleteStudents': '{count, plural, one {Are you sure you want to delete # student?} other {Are you sure you want to delete # students?}}',
+  'enrollmentStatus.active': 'Active',
+  'enrollmentStatus.completed': 'Completed',
+  'enrollmentStatus.dropped': 'Dropped',
+
+  // Student form
+  'form.addTitle': 'Add New Student',
+  'form.editTitle': 'Edit Student',
+  'form.name': 'Full Name *',
+  'form.namePlaceholder': "Enter student's full name",
+  'form.email': 'Email Address *',
+  'form.checking': 'Checking…',
+  'form.enrollments': 'Course Enrollments *',
+  'form.courseFor': 'Course for enrollment {index}',
+  'form.statusFor': 'Status for enrollment {index}',
+  'form.removeEnrollment': 'Remove enrollment {index}',
+  'form.selectCourse': 'Select a course',
+  'form.archivedCourse': '{name} (archived)',
+  'form.lockedStatus': "Only this course's instructor or an admin can change it",
+  'form.addCourse': 'Add course',
+  'form.selectOption': 'Select an option',
+  'form.none': 'None',
+  'form.saving': 'Saving...',
+  'form.update': 'Update Student',
+  'form.add': 'Add Student',
+
+  // Undo
+  'undo.undo': 'Undo',
+  'undo.failed': 'Could not undo the change',
+  'undo.addStudent': 'Add {name}',
+  'undo.editStudent': 'Edit {name}',
+  'undo.deleteStudent': 'Delete {name}',
+  'undo.unnamedStudent': 'student',
+  'undo.importStudents': '{count, plural, one {Import # student} other {Import # students}}',
+  'undo.updateStudents': '{count, plural, one {Update # student} other {Update # students}}',
+  'undo.deleteStudents': '{count, plural, one {Delete # student} other {Delete # students}}',
+  'undo.reassignStudents': '{count, plural, one {Reassign # student} other {Reassign # students}}',
+  'undo.moveStudents': '{count, plural, one {Move # student} other {Move # students}}',
+  'undo.tagStudents': '{count, plural, one {Tag # student} other {Tag # students}}',
+  'undo.gradeStudents': '{count, plural, one {Grade # student} other {Grade # students}}',
+  'undo.undone': 'Undo {label}',
+  'undo.redone': 'Redo {label}',
+
+  // Validation
+  'validation.nameRequired': 'Name is required',
+  'validation.nameTooShort': 'Name must be at least {min} characters',
+  'validation.nameTooLong': 'Name must be less than {max} characters',
+  'validation.emailRequired': 'Email is required',
+  'validation.emailInvalid': 'Please enter a valid email address',
+  'validation.emailTaken': 'A student with this email already exists',
+  'validation.enrollmentsRequired': 'Please enroll the student in at least one course',
+  'validation.enrollmentCourseRequired': 'Please select a course for every enrollment',
+  'validation.enrollmentDuplicate': 'A course can only be listed once',
+  'validation.courseNameRequired': 'Course name is required',
+  'validation.courseNameTooShort': 'Course name must be at least {min} characters',
+  'validation.courseNameTooLong': 'Course name must be less than {max} characters',
+  'validation.courseCodeRequired': 'Course code is required',
+  'validation.courseCodeFormat': 'Use 2-12 letters, digits or dashes',
+  'validation.courseCodeTaken': 'This course code is already in use',
+  'validation.instructorTooLong': 'Instructor name must be less than {max} characters',
+  'validation.fieldUnchecked': '{label} must be checked',
+  'validation.fieldRequired': '{label} is required',
+  'validation.fieldNotNumber': '{label} must be a number',
+  'validation.fieldNumberMin': '{label} must be at least {min}',
+  'validation.fieldNumberMax': '{label} must be at most {max}',
+  'validation.fieldNotDate': '{label} must be a date',
+  'validation.fieldDateMin': '{label} must be on or after {min}',
+  'validation.fieldDateMax': '{label} must be on or before {max}',
+  'validation.fieldOption': 'Choose one of the {label} options',
+  'validation.fieldTextMin': '{label} must be at least {min, plural, one {# character} other {# characters}}',
+  'validation.fieldTextMax': '{label} must be at most {max, plural, one {# character} other {# characters}}',
+  'validation.fieldPattern': '{label} is not in the expected format',
+
+  // Branding
+  'branding.heading': 'Branding',
+  'branding.intro': "Your institution's colour, logo and dashboard title, shown to everyone who signs in.",
+  'branding.dashboardTitle': 'Dashboard title',
+  'branding.titleHint': 'Leave empty to use “{fallback}”.',
+  'branding.primaryColor': 'Primary colour',
+  'branding.logo': 'Logo',
+  'branding.uploadLogo': 'Upload logo',
+  'branding.removeLogo': 'Remove logo',
+  'branding.logoHint': 'Replaces the graduation cap icon. A PNG with a transparent background suits both themes.',
+  'branding.preview': 'Preview',
+  'branding.sampleLink': 'A link in the primary colour',
+  'branding.contrast': 'Text contrast',
+  'branding.contrastCheck': '{usage, select, button {Button label} other {Link text}} · {theme, select, dark {dark theme} other {light theme}}',
+  'branding.contrastRatio': '{ratio}:1',
+  'branding.contrastNote': 'Text needs a contrast of at least {min}:1 with its background (WCAG AA).',
+  'branding.reset': 'Reset to defaults',
+  'branding.save': 'Save branding',
+  'branding.saved': 'Branding saved',
+  'branding.saveFailed': 'Could not save branding',
+  'branding.colorInvalid': 'Enter the colour as a hex code such as #2563eb',
+  'branding.titleTooLong': 'The title must be at most {max} characters',
+  'branding.lowContrast': 'Some text in this colour would be hard to read - try a darker shade',
+
+  // Courses
+  'courses.fetchFailed': 'Failed to fetch courses: {reason}',
+  'courses.networkError': 'Network error: Unable to fetch courses',
+
+  // Course management and grading
+  'courses.deleteTitle': 'Delete {name}?',
+  'courses.deleteFailed': 'Failed to delete course',
+  'courses.reassignIntro': '{count, plural, one {# student has enrollments in this course. Choose a course to move this student to before it is deleted.} other {# students have enrollments in this course. Choose a course to move them to before it is deleted.}}',
+  'courses.deleteEmpty': 'This course has no enrolled students and will be removed permanently.',
+  'courses.reassignAndDelete': 'Reassign & Delete',
+  'courses.deleteCourse': 'Delete Course',
+  'courses.updateFailed': 'Failed to update course',
+  'courses.noInstructor': 'No instructor',
+  'courses.studentCount': '{count, plural, one {# student} other {# students}}',
+  'courses.assessments': 'Assessments ({count})',
+  'courses.gradebook': 'Gradebook',
+  'courses.attendance': 'Attendance',
+  'courses.restore': 'Restore',
+  'courses.archive': 'Archive',
+  'courses.empty': 'No courses yet. Add your first course to start enrolling students.',
+  'courses.noneAssigned': 'You are not assigned to any courses yet.',
+  'courses.noStudents': 'No students are enrolled in this course.',
+  'courseStatus.active': 'Active',
+  'courseStatus.archived': 'Archived',
+  'courseForm.addTitle': 'Add New Course',
+  'courseForm.editTitle': 'Edit Course',
+  'courseForm.name': 'Course Name *',
+  'courseForm.namePlaceholder': 'e.g. React In Depth',
+  'courseForm.code': 'Course Code *',
+  'courseForm.codePlaceholder': 'e.g. JS-301',
+  'courseForm.instructor': 'Instructor',
+  'courseForm.instructorPlaceholder': "Instructor's full name",
+  'courseForm.description': 'Description',
+  'courseForm.descriptionPlaceholder': 'What the course covers',
+  'courseForm.status': 'Status',
+  'courseForm.update': 'Update Course',
+  'courseForm.add': 'Add Course',
+  'assessments.title': 'Assessments – {course}',
+  'assessments.saveFailed': 'Failed to save assessments',
+  'assessments.empty': 'No assessments yet. Add one to start grading this course.',
+  'assessments.titleColumn': 'Title',
+  'assessments.typeColumn': 'Type',
+  'assessments.weight': 'Weight',
+  'assessments.maxScoreColumn': 'Max score',
+  'assessments.titlePlaceholder': 'e.g. Midterm',
+  'assessments.titleLabel': 'Assessment title',
+  'assessments.typeLabel': 'Assessment type',
+  'assessments.maxScore': 'Maximum score',
+  'assessments.share': '{share} of the course grade',
+  'assessments.remove': 'Remove {name}',
+  'assessments.unnamed': 'assessment',
+  'assessments.add': 'Add assessment',
+  'assessments.removeNote': "Removing an assessment also removes it from every student's grade in this course.",
+  'assessments.save': 'Save Assessments',
+  'assessments.titleRequired': 'Every assessment needs a title',
+  'assessments.weightPositive': 'The weight of {title} must be greater than zero',
+  'assessments.maxScorePositive': 'The maximum score of {title} must be greater than zero',
+  'assessmentType.assignment': 'Assignment',
+  'assessmentType.quiz': 'Quiz',
+  'assessmentType.exam': 'Exam',
+  'gradebook.title': 'Gradebook – {course}',
+  'gradebook.invalidScores': 'Some scores for {name} are not between 0 and the maximum',
+  'gradebook.saveFailed': 'Failed to save scores',
+  'gradebook.noAssessments': 'Define assessments for this course before recording scores.',
+  'gradebook.student': 'Student',
+  'gradebook.assessmentInfo': '/ {max} · weight {weight}',
+  'gradebook.grade': 'Grade',
+  'gradebook.save': 'Save Scores',
+  'grading.scaleTitle': 'Grading Scale',
+  'grading.saveFailed': 'Failed to save grading scale',
+  'grading.letter': 'Letter',
+  'grading.fromPercent': 'From %',
+  'grading.points': 'GPA points',
+  'grading.minFor': 'Minimum percentage for {grade}',
+  'grading.pointsFor': 'GPA points for {grade}',
+  'grading.remove': 'Remove {grade}',
+  'grading.unnamed': 'grade',
+  'grading.add': 'Add grade',
+  'grading.reset': 'Reset to default',
+  'grading.save': 'Save Scale',
+  'grading.scaleEmpty': 'The scale needs at least one grade',
+  'grading.letterRequired': 'Every grade needs a letter',
+  'grading.letterDuplicate': 'Grade {letter} appears twice',
+  'grading.minRange': 'The minimum for {letter} must be between 0 and 100',
+  'grading.minDuplicate': 'Two grades start at {min}',
+  'grading.pointsRange': 'The points for {letter} must be zero or more',
+  'grading.zeroRequired': 'One grade must start at 0% so every score has a letter',
+  'absence.title': 'Absence Report',
+
+  // Attendance, reports and the audit log
+  'attendanceStatus.present': 'Present',
+  'attendanceStatus.absent': 'Absent',
+  'attendanceStatus.late': 'Late',
+  'attendanceStatus.excused': 'Excused',
+  'changeType.created': 'Created',
+  'changeType.updated': 'Updated',
+  'changeType.deleted': 'Deleted',
+  'changeType.restored': 'Restored',
+  'report.from': 'From',
+  'report.to': 'To',
+  'report.course': 'Course',
+  'report.student': 'Student',
+  'report.allCourses': 'All courses',
+  'report.clearFilters': 'Clear filters',
+  'attendance.loadFailed': 'Failed to Load Attendance',
+  'absence.firstSession': 'the first session',
+  'absence.today': 'today',
+  'absence.allSessions': 'All sessions',
+  'absence.print': 'Print',
+  'absence.empty': 'No absences or late arrivals in this range.',
+  'absence.sessions': 'Sessions',
+  'absence.rate': 'Rate',
+  'absence.absentOn': 'Absent on',
+  'rollCall.title': 'Attendance – {course}',
+  'rollCall.label': 'Roll call',
+  'rollCall.saveFailed': 'Failed to save attendance',
+  'rollCall.confirmDelete': 'Delete the {course} session on {date}?',
+  'rollCall.deleteFailed': 'Failed to delete session',
+  'rollCall.markPresent': 'Mark {count} unmarked present',
+  'rollCall.save': 'Save Roll Call',
+  'rollCall.saved': 'Saved',
+  'rollCall.keyboard': 'Keyboard: ↑/↓ to move, {shortcuts}',
+  'rollCall.noAttendance': 'No attendance yet',
+  'rollCall.rate': '{rate} attendance',
+  'rollCall.attendanceFor': 'Attendance for {name}',
+  'rollCall.createFailed': 'Failed to create session',
+  'rollCall.courseNotFound': 'Course Not Found',
+  'rollCall.courseNotFoundMessage': 'This course may have been deleted, or the link is incorrect.',
+  'rollCall.sessionDate': 'Session date',
+  'rollCall.topicPlaceholder': 'Topic (optional)',
+  'rollCall.topicLabel': 'Session topic',
+  'rollCall.newSession': 'New Session',
+  'rollCall.noSessions': 'No sessions yet.',
+  'rollCall.noTopic': 'No topic',
+  'rollCall.marked': '{count} marked',
+  'rollCall.createPrompt': 'Create a session to take the roll call.',
+  'access.attendance': 'You can only take attendance for courses you teach.',
+  'analytics.lastWeeks': '{weeks, plural, one {Last week} other {Last # weeks}}',
+  'analytics.allTime': 'All time',
+  'analytics.students': 'Students',
+  'analytics.inScope': 'in {scope}',
+  'analytics.scopeAll': 'all courses',
+  'analytics.addedInRange': 'Added in range',
+  'analytics.latestWeek': 'Added in the latest week',
+  'analytics.growth': '{growth} week over week ({lastWeek} the week before)',
+  'analytics.activeEnrollments': 'Active enrollments',
+  'analytics.enrolledInRange': 'enrolled in range',
+  'analytics.totalTitle': 'Total students',
+  'analytics.totalDescription': 'Total students in {scope} at the end of each week, by the date they were added.',
+  'analytics.addedTitle': 'New students per week',
+  'analytics.addedDescription': 'Students added to {scope} each week.',
+  'analytics.chartType': 'Chart type',
+  'analytics.pie': 'Pie',
+  'analytics.bar': 'Bar',
+  'analytics.distributionTitle': 'Active enrollments by course',
+  'analytics.pieDescription': 'Share of active enrollments made in the selected range, per course.',
+  'analytics.barDescription': 'Active enrollments made in the selected range, per course.',
+  'chart.noData': 'No data for these filters.',
+  'audit.refresh': 'Refresh',
+  'audit.searchPlaceholder': 'Student name or email',
+  'audit.filterStudent': 'Filter by student',
+  'audit.filterActor': 'Filter by actor',
+  'audit.allActors': 'All actors',
+  'audit.filterType': 'Filter by change type',
+  'audit.allChanges': 'All changes',
+  'audit.fromDate': 'From date',
+  'audit.toDate': 'To date',
+  'audit.loadFailed': 'Failed to Load Audit Log',
+  'audit.noMatches': 'No entries match these filters.',
+  'audit.empty': 'No changes have been recorded yet.',
+  'audit.when': 'When',
+  'audit.actor': 'Actor',
+  'audit.action': 'Action',
+  'audit.changes': 'Changes',
+
+  // Student profile, photos, custom fields and export
+  'studentDetail.allStudents': 'All students',
+  'studentDetail.deleteFailed': 'Failed to delete student',
+  'studentDetail.notGraded': 'Not graded',
+  'studentDetail.added': 'Added',
+  'studentDetail.lastUpdated': 'Last updated',
+  'studentDetail.studentId': 'Student ID',
+  'studentDetail.enrollments': 'Enrollments',
+  'studentDetail.notEnrolled': 'Not enrolled in any course.',
+  'studentDetail.archived': '(archived)',
+  'studentDetail.enrolledOn': 'Enrolled {date}',
+  'studentDetail.activity': 'Activity',
+  'studentDetail.noChanges': 'No recorded changes yet.',
+  'history.name': 'Name',
+  'history.email': 'Email',
+  'history.profileImage': 'Profile image',
+  'history.tags': 'Tags',
+  'history.enrollment': 'Enrollment',
+  'history.assessment': 'Assessment',
+  'history.unknownCourse': 'Course #{id}',
+  'history.enrollmentStatus': '{course} ({status})',
+  'avatar.initials': "{name}'s avatar",
+  'avatar.photo': "{name}'s profile photo",
+  'avatar.unnamed': 'Student',
+  'photo.uploaded': 'Uploaded photo',
+  'photo.invalidType': 'Please choose a JPEG, PNG, WebP or GIF image',
+  'photo.tooLarge': 'Images must be smaller than {max} MB',
+  'photo.tooSmall': 'Images must be at least {size}×{size} pixels',
+  'photo.unreadable': 'This image could not be read',
+  'photo.unprocessable': 'This image could not be processed',
+  'photo.unsupported': 'Image processing is not supported in this browser',
+  'photo.cropArea': 'Crop area - drag or use the arrow keys to position the photo',
+  'photo.zoom': 'Zoom',
+  'photo.use': 'Use Photo',
+  'photo.replace': 'Replace photo',
+  'photo.choose': 'Drop a photo here or choose a file',
+  'photo.remove': 'Remove photo',
+  'customFieldType.text': 'Text',
+  'customFieldType.number': 'Number',
+  'customFieldType.date': 'Date',
+  'customFieldType.select': 'Select',
+  'customFieldType.boolean': 'Yes / No',
+  'customFields.empty': 'No custom fields yet. Add fields such as a phone number or student number to every student record.',
+  'customFields.unnamed': 'field',
+  'customFields.label': 'Field label',
+  'customFields.labelPlaceholder': 'Label, e.g. Phone',
+  'customFields.type': 'Type of {name}',
+  'customFields.required': 'Required',
+  'customFields.moveUp': 'Move {name} up',
+  'customFields.moveDown': 'Move {name} down',
+  'customFields.remove': 'Remove {name}',
+  'customFields.pattern': 'Pattern for {name}',
+  'customFields.patternPlaceholder': 'Pattern (regex), e.g. {example}',
+  'customFields.minimum': 'Minimum for {name}',
+  'customFields.maximum': 'Maximum for {name}',
+  'customFields.minLength': 'Min length',
+  'customFields.maxLength': 'Max length',
+  'customFields.min': 'Min',
+  'customFields.max': 'Max',
+  'customFields.options': 'Options for {name}',
+  'customFields.optionsPlaceholder': 'One option per line',
+  'customFields.searchHint': 'Search with',
+  'customFields.add': 'Add field',
+  'customFields.save': 'Save Fields',
+  'customFields.saveFailed': 'Failed to save custom fields',
+  'customFields.labelRequired': 'Every field needs a label',
+  'customFields.someField': 'A field',
+  'customFields.labelLetter': '{name} needs a label that starts with a letter',
+  'customFields.reservedKey': '{name} can\'t use the key "{key}" - it is a built-in field',
+  'customFields.duplicateKey': 'Two fields share the key "{key}"',
+  'customFields.optionsRequired': '{name} needs at least one option',
+  'customFields.invalidPattern': '{name} has an invalid pattern',
+  'customFields.dateLimits': '{name} date limits must be dates',
+  'customFields.minAboveMax': '{name} has a minimum above its maximum',
+  'export.button': 'Export',
+  'export.students': 'Students',
+  'export.columns': 'Columns',
+  'export.sourceCount': '{label} ({count})',
+  'export.download': 'Download {format}',
+  'export.csv': 'CSV',
+  'export.json': 'JSON',
+  'export.xlsx': 'Excel (XLSX)',
+  'exportColumn.id': 'ID',
+  'exportColumn.name': 'Name',
+  'exportColumn.email': 'Email',
+  'exportColumn.courses': 'Courses',
+  'exportColumn.profileImage': 'Profile Image',
+  'exportColumn.createdAt': 'Created At',
+  'exportColumn.updatedAt': 'Updated At',
+
+  // Server, network and search errors
+  'server.studentNotFound': 'Student {id} not found',
+  'server.studentExists': 'Student {id} already exists',
+  'server.changedElsewhere': '{name} was changed by someone else',
+  'server.courseNotFound': 'Course {id} not found',
+  'server.courseGone': 'Course {id} no longer exists',
+  'server.courseCodeTaken': 'Course code {code} is already in use',
+  'server.courseHasStudents': '{count, plural, one {Cannot delete a course with # enrolled student} other {Cannot delete a course with # enrolled students}}',
+  'server.sessionNotFound': 'Session {id} not found',
+  'server.invalidCredentials': 'Invalid email or password',
+  'server.offline': 'Network error: you are offline',
+  'server.networkError': 'Network error: {reason}',
+  'server.unreachable': 'Unable to reach server',
+  'server.requestFailed': 'Request failed',
+  'server.requestFailedStatus': 'Request failed with status {status}',
+  'server.settingsLoadFailed': 'Failed to load settings',
+  'server.attendanceLoadFailed': 'Failed to load attendance',
+  'server.sessionRestoreFailed': 'Failed to restore your session',
+  'server.changeNotSaved': 'Could not save the change',
+  'search.unclosedQuote': 'Unclosed quote starting at position {position}',
+  'search.expectedDate': 'Expected a date like {field}:>2026-01-01 but got "{field}:{value}"',
+  'search.termAfterOr': 'Expected a search term after OR',
+  'search.orNeedsTerms': 'OR needs a search term on both sides',
+  'search.expectedTerm': 'Expected a search term',
+  'search.termAfterNot': 'Expected a search term after "-"',
+  'search.emptyParentheses': 'Empty parentheses',
+  'search.missingParenthesis': 'Missing ")" for the "(" at position {position}',
+  'search.missingValue': 'Missing value after "{field}:"',
+  'search.unknownField': 'Unknown field "{field}" - use one of {fields}',
+  'search.unexpectedParenthesis': 'Unexpected ")"',
+};
+
+export type MessageKey = keyof typeof en;
+
+// Every other locale translates every message; the compiler flags any that are missing
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,578 @@
+// Spanish messages
+import { Messages } from './en';
+
+export const es: Messages = {
+  // Shell
+  'app.title': 'Panel de gestión de estudiantes',
+  'nav.dashboard': 'Panel',
+  'nav.courses': 'Cursos',
+  'nav.analytics': 'Estadísticas',
+  'nav.auditLog': 'Registro de auditoría',
+  'nav.guide': 'Guía de aprendizaje',
+  'nav.signOut': 'Cerrar sesión',
+  'nav.branding': 'Identidad visual',
+  'theme.label': 'Tema de color',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.system': 'Según el sistema',
+  'language.label': 'Idioma',
+  'role.admin': 'Administrador',
+  'role.instructor': 'Instructor',
+  'role.viewer': 'Lector',
+
+  // Shared
+  'common.retry': 'Reintentar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.dismiss': 'Descartar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.unknownError': 'Error desconocido',
+  'common.unexpectedError': 'Se produjo un error inesperado',
+  'common.yes': 'Sí',
+  'common.no': 'No',
+
+  // Error and not-found screens
+  'error.title': 'Algo salió mal',
+  'error.message': 'Disculpa las molestias. Actualiza la página para volver a intentarlo.',
+  'error.refresh': 'Actualizar página',
+  'notFound.title': 'Página no encontrada',
+  'notFound.message': 'La página que buscas no existe.',
+  'notFound.back': 'Volver a los estudiantes',
+  'access.denied': 'Acceso denegado',
+  'access.auditLog': 'Tu rol no incluye el registro de auditoría.',
+  'access.editStudents': 'Tu rol no permite editar estudiantes.',
+  'access.branding': 'Tu rol no incluye la configuración de identidad visual.',
+  'access.noPermission': 'No tienes permiso para hacer esto ({permission})',
+  'studentNotFound.title': 'Estudiante no encontrado',
+  'studentNotFound.message': 'Puede que este estudiante se haya eliminado o que el enlace sea incorrecto.',
+
+  // Sign in
+  'signIn.email': 'Correo electrónico',
+  'signIn.password': 'Contraseña',
+  'signIn.submit': 'Iniciar sesión',
+  'signIn.failed': 'No se pudo iniciar sesión',
+  'signIn.demoAccounts': 'Cuentas de desarrollo',
+
+  // Dashboard
+  'dashboard.loading': 'Cargando el panel...',
+  'dashboard.loadStudentsFailed': 'No se pudieron cargar los estudiantes',
+  'dashboard.loadCoursesFailed': 'No se pudieron cargar los cursos',
+  'dashboard.customFields': 'Campos personalizados',
+  'dashboard.importCsv': 'Importar CSV',
+  'dashboard.addStudent': 'Añadir estudiante',
+  'dashboard.deleteFailed': 'No se pudo eliminar el estudiante: {error}',
+  'dashboard.conflicts': '{count, plural, one {# cambio entra en conflicto con una edición hecha en otro lugar.} other {# cambios entran en conflicto con ediciones hechas en otro lugar.}}',
+  'dashboard.review': 'Revisar',
+  'dashboard.exportFiltered': 'Resultados actuales',
+  'dashboard.exportAll': 'Lista completa',
+
+  // Sync state
+  'sync.offline': '{count, plural, =0 {Sin conexión} one {Sin conexión · # cambio por sincronizar} other {Sin conexión · # cambios por sincronizar}}',
+  'sync.syncing': '{count, plural, one {Sincronizando # cambio} other {Sincronizando # cambios}}',
+  'sync.synced': 'Sincronizado',
+  'conflict.title': 'Cambios en conflicto en {name}',
+  'conflict.thisStudent': 'este estudiante',
+  'conflict.intro': 'Otra persona modificó este estudiante después de que empezaras tu cambio el {queuedAt}. Elige qué versión conservar.',
+  'conflict.youDeleted': 'Eliminaste este estudiante. Si conservas tu cambio, se eliminará la copia del servidor que aparece abajo.',
+  'conflict.serverDeleted': 'Este estudiante se eliminó en el servidor. Si conservas tu cambio, se volverá a añadir.',
+  'conflict.field': 'Campo',
+  'conflict.serverCopy': 'Copia del servidor',
+  'conflict.yourChange': 'Tu cambio',
+  'conflict.keepServer': 'Conservar la copia del servidor',
+  'conflict.keepMine': 'Conservar la mía',
+
+  // Search and filter
+  'search.placeholder': 'Busca por nombre o correo, o p. ej. course:"React In Depth" -name:test',
+  'search.clear': 'Borrar búsqueda',
+  'search.allCourses': 'Todos los cursos',
+  'search.invalid': '{error}: se muestran coincidencias de texto simple',
+  'search.help': 'Campos: name: email: course: tag: created:>2026-01-01 updated:<=… · "frase exacta" · -excluir · a OR b · * comodín',
+  'search.results': '{count, plural, one {Mostrando # estudiante{filtered, select, true { que coincide con tus criterios} other {}}} other {Mostrando # estudiantes{filtered, select, true { que coinciden con tus criterios} other {}}}}',
+
+  // Student list
+  'list.emptyTitle': 'No se encontraron estudiantes',
+  'list.emptyMessage': 'Empieza añadiendo tu primer estudiante al panel.',
+  'list.selectAll': '{count, plural, one {Seleccionar el # estudiante coincidente} other {Seleccionar los # coincidentes}}',
+  'list.statsTitle': 'Estadísticas de matrícula por curso',
+  'list.activeEnrollments': '{count, plural, one {matrícula activa} other {matrículas activas}}',
+  'list.completed': '{count} completadas',
+  'list.dropped': '{count} abandonadas',
+  'list.gradeDistribution': 'Distribución de notas de {course}',
+
+  // Bulk actions
+  'bulk.selected': '{count, plural, one {# estudiante seleccionado} other {# estudiantes seleccionados}}',
+  'bulk.selectAll': 'Seleccionar los {count} coincidentes',
+  'bulk.clear': 'Quitar selección',
+  'bulk.failed': 'La acción en bloque falló',
+  'bulk.moveLabel': 'Mover a los estudiantes seleccionados a un curso',
+  'bulk.moveTo': 'Mover al curso…',
+  'bulk.move': 'Mover',
+  'bulk.tag': 'Etiqueta',
+  'bulk.tagLabel': 'Etiqueta que se asignará',
+  'bulk.assign': 'Asignar',
+  'bulk.exportSource': 'Seleccionados',
+  'bulk.export': 'Exportar seleccionados',
+
+  // CSV import
+  'import.title': 'Importar estudiantes desde CSV',
+  'import.chooseFile': 'Elige un archivo CSV',
+  'import.readFailed': 'No se pudo leer el archivo seleccionado',
+  'import.failed': 'La importación falló',
+  'import.delimiter': 'Delimitador',
+  'import.delimiterAuto': 'Detectar automáticamente',
+  'import.delimiterComma': 'Coma (,)',
+  'import.delimiterSemicolon': 'Punto y coma (;)',
+  'import.delimiterTab': 'Tabulador',
+  'import.delimiterPipe': 'Barra vertical (|)',
+  'import.mapping': 'Asignación de columnas',
+  'import.notMapped': '— Sin asignar —',
+  'import.column': 'Columna {index}',
+  'import.preview': 'Vista previa',
+  'import.valid': '{count, plural, one {# válida} other {# válidas}}',
+  'import.invalid': '{count} con errores (se omitirán)',
+  'import.noRows': 'El archivo no tiene filas de datos.',
+  'import.row': 'Fila',
+  'import.name': 'Nombre',
+  'import.email': 'Correo',
+  'import.courses': 'Cursos',
+  'import.status': 'Estado',
+  'import.importing': 'Importando...',
+  'import.submit': '{count, plural, one {Importar # estudiante} other {Importar # estudiantes}}',
+  'import.unknownCourses': '{count, plural, one {Curso desconocido: {names}} other {Cursos desconocidos: {names}}}',
+  'import.duplicateInFile': 'Correo duplicado dentro de este archivo',
+  'importField.name': 'Nombre completo',
+  'importField.email': 'Correo electrónico',
+  'importField.courses': 'Curso(s)',
+  'importField.profileImage': 'URL de la foto de perfil',
+
+  // Sorting and layout
+  'sort.by': 'Ordenar por',
+  'sort.then': 'luego',
+  'sort.thenByLevel': 'Luego ordenar por (nivel {level})',
+  'sort.ascending': 'Ascendente',
+  'sort.descending': 'Descendente',
+  'sort.toggle': '{direction, select, asc {Ordenar de forma descendente} other {Ordenar de forma ascendente}}',
+  'sort.remove': 'Quitar nivel de orden',
+  'sort.add': 'Ordenar',
+  'sort.addThen': 'Luego por',
+  'sortField.name': 'Nombre',
+  'sortField.email': 'Correo',
+  'sortField.course': 'Curso',
+  'sortField.createdAt': 'Fecha de alta',
+  'sortField.updatedAt': 'Última modificación',
+  'view.paged': 'Páginas',
+  'view.virtual': 'Desplazamiento',
+
+  // Pagination
+  'pagination.label': 'Paginación',
+  'pagination.range': '{first}–{last} de {total}',
+  'pagination.previous': 'Página anterior',
+  'pagination.next': 'Página siguiente',
+  'pagination.perPage': 'Por página',
+
+  // Student card
+  'card.select': 'Seleccionar a {name}',
+  'card.view': 'Ver a {name}',
+  'card.unknownCourse': 'Curso desconocido',
+  'card.notEnrolled': 'Sin matrícula',
+  'card.gpa': 'Promedio',
+  'card.absenceStreak': '{count, plural, one {# ausencia seguida} other {# ausencias seguidas}}',
+  'card.pending': 'Pendiente de sincronizar',
+  'card.syncing': 'Sincronizando…',
+  'card.conflict': 'Conflicto: resolver',
+  'card.added': 'Alta: {date}',
+  'confirm.deleteStudent': '¿Seguro que quieres eliminar a {name}?',
+  'confirm.deleteStudents': '{count, plural, one {¿Seguro que quieres eliminar # estudiante?} other {¿Seguro que quieres eliminar # estudiantes?}}',
+  'enrollmentStatus.active': 'Activa',
+  'enrollmentStatus.completed': 'Completada',
+  'enrollmentStatus.dropped': 'Abandonada',
+
+  // Student form
+  'form.addTitle': 'Nuevo estudiante',
+  'form.editTitle': 'Editar estudiante',
+  'form.name': 'Nombre completo *',
+  'form.namePlaceholder': 'Escribe el nombre completo del estudiante',
+  'form.email': 'Correo electrónico *',
+  'form.checking': 'Comprobando…',
+  'form.enrollments': 'Matrículas *',
+  'form.courseFor': 'Curso de la matrícula {index}',
+  'form.statusFor': 'Estado de la matrícula {index}',
+  'form.removeEnrollment': 'Quitar la matrícula {index}',
+  'form.selectCourse': 'Selecciona un curso',
+  'form.archivedCourse': '{name} (archivado)',
+  'form.lockedStatus': 'Solo el instructor del curso o un administrador puede cambiarlo',
+  'form.addCourse': 'Añadir curso',
+  'form.selectOption': 'Selecciona una opción',
+  'form.none': 'Ninguno',
+  'form.saving': 'Guardando...',
+  'form.update': 'Actualizar estudiante',
+  'form.add': 'Añadir estudiante',
+
+  // Undo
+  'undo.undo': 'Deshacer',
+  'undo.failed': 'No se pudo deshacer el cambio',
+  'undo.addStudent': 'Añadir a {name}',
+  'undo.editStudent': 'Editar a {name}',
+  'undo.deleteStudent': 'Eliminar a {name}',
+  'undo.unnamedStudent': 'estudiante',
+  'undo.importStudents': '{count, plural, one {Importar # estudiante} other {Importar # estudiantes}}',
+  'undo.updateStudents': '{count, plural, one {Actualizar # estudiante} other {Actualizar # estudiantes}}',
+  'undo.deleteStudents': '{count, plural, one {Eliminar # estudiante} other {Eliminar # estudiantes}}',
+  'undo.reassignStudents': '{count, plural, one {Reasignar # estudiante} other {Reasignar # estudiantes}}',
+  'undo.moveStudents': '{count, plural, one {Mover # estudiante} other {Mover # estudiantes}}',
+  'undo.tagStudents': '{count, plural, one {Etiquetar # estudiante} other {Etiquetar # estudiantes}}',
+  'undo.gradeStudents': '{count, plural, one {Calificar # estudiante} other {Calificar # estudiantes}}',
+  'undo.undone': 'Deshacer: {label}',
+  'undo.redone': 'Rehacer: {label}',
+
+  // Validation
+  'validation.nameRequired': 'El nombre es obligatorio',
+  'validation.nameTooShort': 'El nombre debe tener al menos {min} caracteres',
+  'validation.nameTooLong': 'El nombre debe tener menos de {max} caracteres',
+  'validation.emailRequired': 'El correo electrónico es obligatorio',
+  'validation.emailInvalid': 'Introduce un correo electrónico válido',
+  'validation.emailTaken': 'Ya existe un estudiante con este correo',
+  'validation.enrollmentsRequired': 'Matricula al estudiante en al menos un curso',
+  'validation.enrollmentCourseRequired': 'Selecciona un curso para cada matrícula',
+  'validation.enrollmentDuplicate': 'Cada curso solo puede aparecer una vez',
+  'validation.courseNameRequired': 'El nombre del curso es obligatorio',
+  'validation.courseNameTooShort': 'El nombre del curso debe tener al menos {min} caracteres',
+  'validation.courseNameTooLong': 'El nombre del curso debe tener menos de {max} caracteres',
+  'validation.courseCodeRequired': 'El código del curso es obligatorio',
+  'validation.courseCodeFormat': 'Usa de 2 a 12 letras, dígitos o guiones',
+  'validation.courseCodeTaken': 'Este código de curso ya está en uso',
+  'validation.instructorTooLong': 'El nombre del instructor debe tener menos de {max} caracteres',
+  'validation.fieldUnchecked': 'Debes marcar {label}',
+  'validation.fieldRequired': '{label} es obligatorio',
+  'validation.fieldNotNumber': '{label} debe ser un número',
+  'validation.fieldNumberMin': '{label} debe ser como mínimo {min}',
+  'validation.fieldNumberMax': '{label} debe ser como máximo {max}',
+  'validation.fieldNotDate': '{label} debe ser una fecha',
+  'validation.fieldDateMin': '{label} debe ser el {min} o posterior',
+  'validation.fieldDateMax': '{label} debe ser el {max} o anterior',
+  'validation.fieldOption': 'Elige una de las opciones de {label}',
+  'validation.fieldTextMin': '{label} debe tener al menos {min, plural, one {# carácter} other {# caracteres}}',
+  'validation.fieldTextMax': '{label} debe tener como máximo {max, plural, one {# carácter} other {# caracteres}}',
+  'validation.fieldPattern': '{label} no tiene el formato esperado',
+
+  // Branding
+  'branding.heading': 'Identidad visual',
+  'branding.intro': 'El color, el logotipo y el título del panel de tu institución, visibles para todos los que inician sesión.',
+  'branding.dashboardTitle': 'Título del panel',
+  'branding.titleHint': 'Déjalo vacío para usar «{fallback}».',
+  'branding.primaryColor': 'Color principal',
+  'branding.logo': 'Logotipo',
+  'branding.uploadLogo': 'Subir logotipo',
+  'branding.removeLogo': 'Quitar logotipo',
+  'branding.logoHint': 'Sustituye el icono del birrete. Un PNG con fondo transparente se ve bien en ambos temas.',
+  'branding.preview': 'Vista previa',
+  'branding.sampleLink': 'Un enlace en el color principal',
+  'branding.contrast': 'Contraste del texto',
+  'branding.contrastCheck': '{usage, select, button {Texto de botón} other {Texto de enlace}} · {theme, select, dark {tema oscuro} other {tema claro}}',
+  'branding.contrastRatio': '{ratio}:1',
+  'branding.contrastNote': 'El texto necesita un contraste de al menos {min}:1 con su fondo (WCAG AA).',
+  'branding.reset': 'Restablecer valores predeterminados',
+  'branding.save': 'Guardar identidad visual',
+  'branding.saved': 'Identidad visual guardada',
+  'branding.saveFailed': 'No se pudo guardar la identidad visual',
+  'branding.colorInvalid': 'Introduce el color como código hexadecimal, por ejemplo #2563eb',
+  'branding.titleTooLong': 'El título debe tener como máximo {max} caracteres',
+  'branding.lowContrast': 'Parte del texto en este color sería difícil de leer; prueba un tono más oscuro',
+
+  // Courses
+  'courses.fetchFailed': 'No se pudieron obtener los cursos: {reason}',
+  'courses.networkError': 'Error de red: no se pueden obtener los cursos',
+
+  // Course management and grading
+  'courses.deleteTitle': '¿Eliminar {name}?',
+  'courses.deleteFailed': 'No se pudo eliminar el curso',
+  'courses.reassignIntro': '{count, plural, one {# estudiante tiene inscripciones en este curso. Elige un curso al que trasladarlo antes de eliminarlo.} other {# estudiantes tienen inscripciones en este curso. Elige un curso al que trasladarlos antes de eliminarlo.}}',
+  'courses.deleteEmpty': 'Este curso no tiene estudiantes inscritos y se eliminará definitivamente.',
+  'courses.reassignAndDelete': 'Trasladar y eliminar',
+  'courses.deleteCourse': 'Eliminar curso',
+  'courses.updateFailed': 'No se pudo actualizar el curso',
+  'courses.noInstructor': 'Sin instructor',
+  'courses.studentCount': '{count, plural, one {# estudiante} other {# estudiantes}}',
+  'courses.assessments': 'Evaluaciones ({count})',
+  'courses.gradebook': 'Calificaciones',
+  'courses.attendance': 'Asistencia',
+  'courses.restore': 'Restaurar',
+  'courses.archive': 'Archivar',
+  'courses.empty': 'Aún no hay cursos. Añade el primero para empezar a inscribir estudiantes.',
+  'courses.noneAssigned': 'Todavía no tienes cursos asignados.',
+  'courses.noStudents': 'No hay estudiantes inscritos en este curso.',
+  'courseStatus.active': 'Activo',
+  'courseStatus.archived': 'Archivado',
+  'courseForm.addTitle': 'Añadir curso',
+  'courseForm.editTitle': 'Editar curso',
+  'courseForm.name': 'Nombre del curso *',
+  'courseForm.namePlaceholder': 'p. ej. React a fondo',
+  'courseForm.code': 'Código del curso *',
+  'courseForm.codePlaceholder': 'p. ej. JS-301',
+  'courseForm.instructor': 'Instructor',
+  'courseForm.instructorPlaceholder': 'Nombre completo del instructor',
+  'courseForm.description': 'Descripción',
+  'courseForm.descriptionPlaceholder': 'Qué temas cubre el curso',
+  'courseForm.status': 'Estado',
+  'courseForm.update': 'Actualizar curso',
+  'courseForm.add': 'Añadir curso',
+  'assessments.title': 'Evaluaciones – {course}',
+  'assessments.saveFailed': 'No se pudieron guardar las evaluaciones',
+  'assessments.empty': 'Aún no hay evaluaciones. Añade una para empezar a calificar este curso.',
+  'assessments.titleColumn': 'Título',
+  'assessments.typeColumn': 'Tipo',
+  'assessments.weight': 'Peso',
+  'assessments.maxScoreColumn': 'Puntuación máx.',
+  'assessments.titlePlaceholder': 'p. ej. Parcial',
+  'assessments.titleLabel': 'Título de la evaluación',
+  'assessments.typeLabel': 'Tipo de evaluación',
+  'assessments.maxScore': 'Puntuación máxima',
+  'assessments.share': '{share} de la nota del curso',
+  'assessments.remove': 'Quitar {name}',
+  'assessments.unnamed': 'evaluación',
+  'assessments.add': 'Añadir evaluación',
+  'assessments.removeNote': 'Al quitar una evaluación también se quita de la nota de todos los estudiantes de este curso.',
+  'assessments.save': 'Guardar evaluaciones',
+  'assessments.titleRequired': 'Cada evaluación necesita un título',
+  'assessments.weightPositive': 'El peso de {title} debe ser mayor que cero',
+  'assessments.maxScorePositive': 'La puntuación máxima de {title} debe ser mayor que cero',
+  'assessmentType.assignment': 'Tarea',
+  'assessmentType.quiz': 'Cuestionario',
+  'assessmentType.exam': 'Examen',
+  'gradebook.title': 'Calificaciones – {course}',
+  'gradebook.invalidScores': 'Algunas puntuaciones de {name} no están entre 0 y el máximo',
+  'gradebook.saveFailed': 'No se pudieron guardar las puntuaciones',
+  'gradebook.noAssessments': 'Define las evaluaciones de este curso antes de registrar puntuaciones.',
+  'gradebook.student': 'Estudiante',
+  'gradebook.assessmentInfo': '/ {max} · peso {weight}',
+  'gradebook.grade': 'Nota',
+  'gradebook.save': 'Guardar puntuaciones',
+  'grading.scaleTitle': 'Escala de calificación',
+  'grading.saveFailed': 'No se pudo guardar la escala de calificación',
+  'grading.letter': 'Letra',
+  'grading.fromPercent': 'Desde %',
+  'grading.points': 'Puntos GPA',
+  'grading.minFor': 'Porcentaje mínimo para {grade}',
+  'grading.pointsFor': 'Puntos GPA para {grade}',
+  'grading.remove': 'Quitar {grade}',
+  'grading.unnamed': 'nota',
+  'grading.add': 'Añadir nota',
+  'grading.reset': 'Restablecer valores predeterminados',
+  'grading.save': 'Guardar escala',
+  'grading.scaleEmpty': 'La escala necesita al menos una nota',
+  'grading.letterRequired': 'Cada nota necesita una letra',
+  'grading.letterDuplicate': 'La nota {letter} aparece dos veces',
+  'grading.minRange': 'El mínimo de {letter} debe estar entre 0 y 100',
+  'grading.minDuplicate': 'Dos notas empiezan en {min}',
+  'grading.pointsRange': 'Los puntos de {letter} deben ser cero o más',
+  'grading.zeroRequired': 'Una nota debe empezar en 0 % para que toda puntuación tenga letra',
+  'absence.title': 'Informe de ausencias',
+
+  // Attendance, reports and the audit log
+  'attendanceStatus.present': 'Presente',
+  'attendanceStatus.absent': 'Ausente',
+  'attendanceStatus.late': 'Tarde',
+  'attendanceStatus.excused': 'Justificado',
+  'changeType.created': 'Creado',
+  'changeType.updated': 'Actualizado',
+  'changeType.deleted': 'Eliminado',
+  'changeType.restored': 'Restaurado',
+  'report.from': 'Desde',
+  'report.to': 'Hasta',
+  'report.course': 'Curso',
+  'report.student': 'Estudiante',
+  'report.allCourses': 'Todos los cursos',
+  'report.clearFilters': 'Quitar filtros',
+  'attendance.loadFailed': 'No se pudo cargar la asistencia',
+  'absence.firstSession': 'la primera sesión',
+  'absence.today': 'hoy',
+  'absence.allSessions': 'Todas las sesiones',
+  'absence.print': 'Imprimir',
+  'absence.empty': 'No hay ausencias ni retrasos en este periodo.',
+  'absence.sessions': 'Sesiones',
+  'absence.rate': 'Tasa',
+  'absence.absentOn': 'Ausente el',
+  'rollCall.title': 'Asistencia – {course}',
+  'rollCall.label': 'Lista',
+  'rollCall.saveFailed': 'No se pudo guardar la asistencia',
+  'rollCall.confirmDelete': '¿Eliminar la sesión de {course} del {date}?',
+  'rollCall.deleteFailed': 'No se pudo eliminar la sesión',
+  'rollCall.markPresent': 'Marcar {count} sin marcar como presentes',
+  'rollCall.save': 'Guardar lista',
+  'rollCall.saved': 'Guardado',
+  'rollCall.keyboard': 'Teclado: ↑/↓ para moverse, {shortcuts}',
+  'rollCall.noAttendance': 'Sin asistencia aún',
+  'rollCall.rate': '{rate} de asistencia',
+  'rollCall.attendanceFor': 'Asistencia de {name}',
+  'rollCall.createFailed': 'No se pudo crear la sesión',
+  'rollCall.courseNotFound': 'Curso no encontrado',
+  'rollCall.courseNotFoundMessage': 'Puede que este curso se haya eliminado o que el enlace sea incorrecto.',
+  'rollCall.sessionDate': 'Fecha de la sesión',
+  'rollCall.topicPlaceholder': 'Tema (opcional)',
+  'rollCall.topicLabel': 'Tema de la sesión',
+  'rollCall.newSession': 'Nueva sesión',
+  'rollCall.noSessions': 'Aún no hay sesiones.',
+  'rollCall.noTopic': 'Sin tema',
+  'rollCall.marked': '{count, plural, one {# marcado} other {# marcados}}',
+  'rollCall.createPrompt': 'Crea una sesión para pasar lista.',
+  'access.attendance': 'Solo puedes pasar lista en los cursos que impartes.',
+  'analytics.lastWeeks': '{weeks, plural, one {Última semana} other {Últimas # semanas}}',
+  'analytics.allTime': 'Todo el periodo',
+  'analytics.students': 'Estudiantes',
+  'analytics.inScope': 'en {scope}',
+  'analytics.scopeAll': 'todos los cursos',
+  'analytics.addedInRange': 'Añadidos en el periodo',
+  'analytics.latestWeek': 'Añadidos en la última semana',
+  'analytics.growth': '{growth} respecto a la semana anterior ({lastWeek} la semana anterior)',
+  'analytics.activeEnrollments': 'Inscripciones activas',
+  'analytics.enrolledInRange': 'inscritas en el periodo',
+  'analytics.totalTitle': 'Total de estudiantes',
+  'analytics.totalDescription': 'Total de estudiantes en {scope} al final de cada semana, según la fecha en que se añadieron.',
+  'analytics.addedTitle': 'Estudiantes nuevos por semana',
+  'analytics.addedDescription': 'Estudiantes añadidos a {scope} cada semana.',
+  'analytics.chartType': 'Tipo de gráfico',
+  'analytics.pie': 'Circular',
+  'analytics.bar': 'Barras',
+  'analytics.distributionTitle': 'Inscripciones activas por curso',
+  'analytics.pieDescription': 'Proporción de inscripciones activas realizadas en el periodo seleccionado, por curso.',
+  'analytics.barDescription': 'Inscripciones activas realizadas en el periodo seleccionado, por curso.',
+  'chart.noData': 'No hay datos para estos filtros.',
+  'audit.refresh': 'Actualizar',
+  'audit.searchPlaceholder': 'Nombre o correo del estudiante',
+  'audit.filterStudent': 'Filtrar por estudiante',
+  'audit.filterActor': 'Filtrar por autor',
+  'audit.allActors': 'Todos los autores',
+  'audit.filterType': 'Filtrar por tipo de cambio',
+  'audit.allChanges': 'Todos los cambios',
+  'audit.fromDate': 'Fecha desde',
+  'audit.toDate': 'Fecha hasta',
+  'audit.loadFailed': 'No se pudo cargar el registro de auditoría',
+  'audit.noMatches': 'Ninguna entrada coincide con estos filtros.',
+  'audit.empty': 'Aún no se ha registrado ningún cambio.',
+  'audit.when': 'Cuándo',
+  'audit.actor': 'Autor',
+  'audit.action': 'Acción',
+  'audit.changes': 'Cambios',
+
+  // Student profile, photos, custom fields and export
+  'studentDetail.allStudents': 'Todos los estudiantes',
+  'studentDetail.deleteFailed': 'No se pudo eliminar al estudiante',
+  'studentDetail.notGraded': 'Sin calificar',
+  'studentDetail.added': 'Añadido',
+  'studentDetail.lastUpdated': 'Última actualización',
+  'studentDetail.studentId': 'ID del estudiante',
+  'studentDetail.enrollments': 'Inscripciones',
+  'studentDetail.notEnrolled': 'No está inscrito en ningún curso.',
+  'studentDetail.archived': '(archivado)',
+  'studentDetail.enrolledOn': 'Inscrito el {date}',
+  'studentDetail.activity': 'Actividad',
+  'studentDetail.noChanges': 'Aún no hay cambios registrados.',
+  'history.name': 'Nombre',
+  'history.email': 'Correo electrónico',
+  'history.profileImage': 'Foto de perfil',
+  'history.tags': 'Etiquetas',
+  'history.enrollment': 'Inscripción',
+  'history.assessment': 'Evaluación',
+  'history.unknownCourse': 'Curso n.º {id}',
+  'history.enrollmentStatus': '{course} ({status})',
+  'avatar.initials': 'Avatar de {name}',
+  'avatar.photo': 'Foto de perfil de {name}',
+  'avatar.unnamed': 'Estudiante',
+  'photo.uploaded': 'Foto subida',
+  'photo.invalidType': 'Elige una imagen JPEG, PNG, WebP o GIF',
+  'photo.tooLarge': 'Las imágenes deben ocupar menos de {max} MB',
+  'photo.tooSmall': 'Las imágenes deben medir al menos {size}×{size} píxeles',
+  'photo.unreadable': 'No se pudo leer esta imagen',
+  'photo.unprocessable': 'No se pudo procesar esta imagen',
+  'photo.unsupported': 'Este navegador no admite el procesamiento de imágenes',
+  'photo.cropArea': 'Área de recorte: arrastra o usa las flechas para colocar la foto',
+  'photo.zoom': 'Zoom',
+  'photo.use': 'Usar foto',
+  'photo.replace': 'Cambiar foto',
+  'photo.choose': 'Suelta una foto aquí o elige un archivo',
+  'photo.remove': 'Quitar foto',
+  'customFieldType.text': 'Texto',
+  'customFieldType.number': 'Número',
+  'customFieldType.date': 'Fecha',
+  'customFieldType.select': 'Lista',
+  'customFieldType.boolean': 'Sí / No',
+  'customFields.empty': 'Aún no hay campos personalizados. Añade campos como un teléfono o un número de estudiante a cada ficha.',
+  'customFields.unnamed': 'campo',
+  'customFields.label': 'Etiqueta del campo',
+  'customFields.labelPlaceholder': 'Etiqueta, p. ej. Teléfono',
+  'customFields.type': 'Tipo de {name}',
+  'customFields.required': 'Obligatorio',
+  'customFields.moveUp': 'Subir {name}',
+  'customFields.moveDown': 'Bajar {name}',
+  'customFields.remove': 'Quitar {name}',
+  'customFields.pattern': 'Patrón de {name}',
+  'customFields.patternPlaceholder': 'Patrón (regex), p. ej. {example}',
+  'customFields.minimum': 'Mínimo de {name}',
+  'customFields.maximum': 'Máximo de {name}',
+  'customFields.minLength': 'Longitud mín.',
+  'customFields.maxLength': 'Longitud máx.',
+  'customFields.min': 'Mín.',
+  'customFields.max': 'Máx.',
+  'customFields.options': 'Opciones de {name}',
+  'customFields.optionsPlaceholder': 'Una opción por línea',
+  'customFields.searchHint': 'Busca con',
+  'customFields.add': 'Añadir campo',
+  'customFields.save': 'Guardar campos',
+  'customFields.saveFailed': 'No se pudieron guardar los campos personalizados',
+  'customFields.labelRequired': 'Cada campo necesita una etiqueta',
+  'customFields.someField': 'Un campo',
+  'customFields.labelLetter': '{name} necesita una etiqueta que empiece por una letra',
+  'customFields.reservedKey': '{name} no puede usar la clave "{key}": es un campo integrado',
+  'customFields.duplicateKey': 'Dos campos comparten la clave "{key}"',
+  'customFields.optionsRequired': '{name} necesita al menos una opción',
+  'customFields.invalidPattern': '{name} tiene un patrón no válido',
+  'customFields.dateLimits': 'Los límites de {name} deben ser fechas',
+  'customFields.minAboveMax': '{name} tiene un mínimo mayor que su máximo',
+  'export.button': 'Exportar',
+  'export.students': 'Estudiantes',
+  'export.columns': 'Columnas',
+  'export.sourceCount': '{label} ({count})',
+  'export.download': 'Descargar {format}',
+  'export.csv': 'CSV',
+  'export.json': 'JSON',
+  'export.xlsx': 'Excel (XLSX)',
+  'exportColumn.id': 'ID',
+  'exportColumn.name': 'Nombre',
+  'exportColumn.email': 'Correo electrónico',
+  'exportColumn.courses': 'Cursos',
+  'exportColumn.profileImage': 'Foto de perfil',
+  'exportColumn.createdAt': 'Fecha de creación',
+  'exportColumn.updatedAt': 'Fecha de actualización',
+
+  // Server, network and search errors
+  'server.studentNotFound': 'No se encontró el estudiante {id}',
+  'server.studentExists': 'El estudiante {id} ya existe',
+  'server.changedElsewhere': 'Otra persona ha modificado a {name}',
+  'server.courseNotFound': 'No se encontró el curso {id}',
+  'server.courseGone': 'El curso {id} ya no existe',
+  'server.courseCodeTaken': 'El código de curso {code} ya está en uso',
+  'server.courseHasStudents': '{count, plural, one {No se puede eliminar un curso con # estudiante inscrito} other {No se puede eliminar un curso con # estudiantes inscritos}}',
+  'server.sessionNotFound': 'No se encontró la sesión {id}',
+  'server.invalidCredentials': 'Correo electrónico o contraseña no válidos',
+  'server.offline': 'Error de red: no tienes conexión',
+  'server.networkError': 'Error de red: {reason}',
+  'server.unreachable': 'No se puede contactar con el servidor',
+  'server.requestFailed': 'La solicitud falló',
+  'server.requestFailedStatus': 'La solicitud falló con el estado {status}',
+  'server.settingsLoadFailed': 'No se pudo cargar la configuración',
+  'server.attendanceLoadFailed': 'No se pudo cargar la asistencia',
+  'server.sessionRestoreFailed': 'No se pudo restaurar tu sesión',
+  'server.changeNotSaved': 'No se pudo guardar el cambio',
+  'search.unclosedQuote': 'Comillas sin cerrar a partir de la posición {position}',
+  'search.expectedDate': 'Se esperaba una fecha como {field}:>2026-01-01, pero se recibió "{field}:{value}"',
+  'search.termAfterOr': 'Falta un término de búsqueda después de OR',
+  'search.orNeedsTerms': 'OR necesita un término de búsqueda a cada lado',
+  'search.expectedTerm': 'Falta un término de búsqueda',
+  'search.termAfterNot': 'Falta un término de búsqueda después de "-"',
+  'search.emptyParentheses': 'Paréntesis vacíos',
+  'search.missingParenthesis': 'Falta ")" para el "(" de la posición {position}',
+  'search.missingValue': 'Falta un valor después de "{field}:"',
+  'search.unknownField': 'Campo desconocido "{field}": usa uno de {fields}',
+  'search.unexpectedParenthesis': '")" inesperado',
+};
@@ -1,35 +1,329 @@
 // Core type definitions for the Student Management Dashboard
 
+export type EnrollmentStatus = 'active' | 'completed' | 'dropped';
+
+// A student's membership in one course
+export interface Enrollment {
+  id: string;
+  studentId: string;
+  courseId: number;
+  enrolledAt: Date;
+  status: EnrollmentStatus;
+  // Points earned, keyed by assessment id; ungraded assessments are absent
+  scores?: Record<string, number>;
+}
+
+// An enrollment paired with its resolved course, for display
+export interface EnrolledCourse {
+  enrollment: Enrollment;
+  course: Course | undefined;
+}
+
 export interface Student {
   id: string;
   name: string;
   email: string;
-  courseId: number;
+  enrollments: Enrollment[];
+  tags?: string[];
   profileImage?: string;
+  // Values of the admin-defined custom fields, keyed by field key; unset fields are absent
+  customFields?: Record<string, CustomFieldValue>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CourseStatus = 'active' | 'archived';
+
+export type AssessmentType = 'assignment' | 'quiz' | 'exam';
+
+// A graded item in a course; weights are relative to the course's other assessments
+export interface Assessment {
+  id: string;
+  title: string;
+  type: AssessmentType;
+  weight: number;
+  maxScore: number;
+}
+
 export interface Course {
   id: number;
   name: string;
+  code: string;
+  description: string;
+  instructor: string;
+  status: CourseStatus;
+  assessments?: Assessment[];
+}
+
+// Course payload before the server assigns an id
+export type CourseDraft = Omit<Course, 'id'>;
+
+export interface CourseFormData {
+  name: string;
+  code: string;
+  description: string;
+  instructor: string;
+  status: CourseStatus;
+}
+
+export interface CourseValidationErrors {
+  name?: string;
+  code?: string;
+  instructor?: string;
+}
+
+// One enrollment row in the student form; id is set for enrollments that already exist
+export interface EnrollmentFormData {
+  id?: string;
+  courseId: string;
+  status: EnrollmentStatus;
 }
 
 export interface StudentFormData {
   name: string;
   email: string;
-  courseId: string;
+  enrollments: EnrollmentFormData[];
   profileImage: string;
+  // Raw input per custom field key - checkboxes hold booleans, everything else the typed text
+  customFields: Record<string, string | boolean>;
 }
 
 export interface ValidationErrors {
   name?: string;
   email?: string;
-  courseId?: string;
+  enrollments?: string;
+  // Keyed by custom field key; only present when at least one custom field is invalid
+  customFields?: Record<string, string>;
 }
 
 export interface ApiState<T> {
   data: T | null;
   loading: boolean;
   error: string | null;
-}
\ No newline at end of file
+}
+
+// A cached query: `loading` only while there is nothing to show yet, `isFetching` for every request
+export interface QueryState<T> extends ApiState<T> {
+  isFetching: boolean;
+  // When the data was fetched (ms since epoch); null until then, and again once invalidated
+  updatedAt: number | null;
+}
+
+// Enrollment payload before the server links it to a student
+export type EnrollmentDraft = Pick<Enrollment, 'courseId' | 'status'> & Partial<Pick<Enrollment, 'enrolledAt'>>;
+
+// Student payload before the server assigns an id and timestamps
+export type StudentDraft = Omit<Student, 'id' | 'createdAt' | 'updatedAt' | 'enrollments'> & {
+  enrollments: EnrollmentDraft[];
+};
+
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+  search?: string;
+  courseId?: number | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Async operations tracked by the student context
+export type OperationName = 'load' | 'create' | 'update' | 'delete';
+
+export interface OperationStatus {
+  loading: boolean;
+  error: string | null;
+}
+
+// Roster listing - ordering and how the results are laid out
+// Custom fields sort as `custom:<key>`
+export type BuiltInSortField = 'name' | 'email' | 'course' | 'createdAt' | 'updatedAt';
+
+export type SortField = BuiltInSortField | `custom:${string}`;
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+// 'paged' shows one page at a time; 'virtual' scrolls through everything, mounting only visible cards
+export type ListViewMode = 'paged' | 'virtual';
+
+// One recorded change to a student record, with the record before and after it
+export type StudentChangeType = 'created' | 'updated' | 'deleted' | 'restored';
+
+// Who performed an audited change
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export interface StudentChange {
+  id: string;
+  studentId: string;
+  type: StudentChangeType;
+  at: Date;
+  // null before creation and after deletion
+  before: Student | null;
+  after: Student | null;
+  // The signed-in user who made the change; missing on changes recorded before sign-in existed
+  actor?: AuditActor;
+}
+
+// Roster actions that are written to the audit log
+export type AuditAction =
+  | 'ADD_STUDENT'
+  | 'ADD_STUDENTS'
+  | 'UPDATE_STUDENT'
+  | 'UPDATE_STUDENTS'
+  | 'DELETE_STUDENT'
+  | 'DELETE_STUDENTS'
+  | 'UNDO'
+  | 'REDO';
+
+// One audit log line - an action's effect on a single student
+export interface AuditEntry extends StudentChange {
+  actor: AuditActor;
+  action: AuditAction;
+  // Readable description of the whole action, e.g. "Move 3 students"
+  summary: string;
+}
+
+// A student write made locally and waiting to reach the server
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+// Where a locally changed student stands with the server; synced students have no status
+export type SyncStatus = 'pending' | 'syncing' | 'conflict';
+
+// How a conflict is settled: resend the local change, or keep the server's copy
+export type ConflictResolution = 'mine' | 'theirs';
+
+/**
+ * One queued write - at most one per student outside of a write in flight, later changes
+ * are folded into it. Creates carry a temporary client id until the server assigns one
+ */
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  studentId: string;
+  // The record to send; absent for deletes
+  student?: Student;
+  // The copy the change was made to, restored if the server rejects it; null for creates
+  previous: Student | null;
+  // updatedAt the server copy must still have for the write to go through
+  expectedUpdatedAt?: Date;
+  // When the change was made, which is also when it is audited
+  queuedAt: Date;
+  status: SyncStatus;
+  // The server's copy when it conflicts; null when the student was deleted there
+  server?: Student | null;
+}
+
+// One letter grade: percentages at or above minPercent earn it, worth `points` towards the GPA
+export interface GradeBand {
+  letter: string;
+  minPercent: number;
+  points: number;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+// Dates are stored as YYYY-MM-DD so they don't shift between time zones
+export type CustomFieldValue = string | number | boolean;
+
+/**
+ * An admin-defined extra field on student records
+ * min/max bound a number's value or a text's length; for dates they are YYYY-MM-DD strings
+ */
+export interface CustomFieldDefinition {
+  // Stable identifier used for stored values, search (`key:value`) and export; never changes
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  // Regular expression a text value must match in full
+  pattern?: string;
+  min?: number | string;
+  max?: number | string;
+  // Choices of a select field
+  options?: string[];
+}
+
+// The institution's look, set by an admin and shown to every user
+export interface Branding {
+  // #rrggbb; buttons, links and highlights are shades of it
+  primaryColor: string;
+  // Replaces the default dashboard title; empty keeps the translated default
+  title: string;
+  // PNG data URL replacing the default header icon
+  logo?: string;
+}
+
+// Dashboard-wide configuration shared by every user
+export interface Settings {
+  gradingScale: GradeBand[];
+  customFields: CustomFieldDefinition[];
+  branding: Branding;
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+// One class meeting of a course and the roll call taken at it
+export interface AttendanceSession {
+  id: string;
+  courseId: number;
+  date: Date;
+  topic: string;
+  // Keyed by student id; students not yet called are absent from the map
+  marks: Record<string, AttendanceStatus>;
+}
+
+// Session payload before the server assigns an id
+export type AttendanceSessionDraft = Omit<AttendanceSession, 'id'>;
+
+export type Role = 'admin' | 'instructor' | 'viewer';
+
+export type Permission =
+  | 'student:create'
+  | 'student:update'
+  | 'student:delete'
+  | 'course:manage'
+  | 'grade:record'
+  | 'attendance:record'
+  | 'settings:manage'
+  | 'audit:view';
+
+// A signed-in user; instructors only see and work with the courses in courseIds
+export interface User extends AuditActor {
+  email: string;
+  role: Role;
+  courseIds: number[];
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+// Languages the interface is translated into
+export type Locale = 'en' | 'es' | 'ar';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleDefinition {
+  code: Locale;
+  // The language's name in that language, as the switcher lists it
+  label: string;
+  dir: TextDirection;
+}
+
+// A user's colour scheme choice; 'system' follows the operating system
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+export type Theme = 'light' | 'dark';
@@ -0,0 +1,148 @@
+// Analytics - enrollment trends, week-over-week growth and course distribution
+import { Course, EnrollmentStatus, Locale, Student } from '../types';
+import { fromDateInputValue, toDateInputValue } from './attendance';
+import { compareText, formatDate, formatNumber, getActiveLocale } from './i18n';
+
+// Series colours, in order (Tailwind's 500 shades)
+export const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#f43f5e', '#06b6d4', '#84cc16', '#f97316'];
+
+export type EnrollmentCounts = Record<EnrollmentStatus, number>;
+
+const emptyCounts = (): EnrollmentCounts => ({ active: 0, completed: 0, dropped: 0 });
+
+/**
+ * Enrollment counts per course and status, built in one pass over the students
+ */
+export const countEnrollmentsByCourse = (students: Student[]): Record<number, EnrollmentCounts> => {
+  const counts: Record<number, EnrollmentCounts> = {};
+  students.forEach(student => {
+    student.enrollments.forEach(({ courseId, status }) => {
+      counts[courseId] = counts[courseId] ?? emptyCounts();
+      counts[courseId][status] += 1;
+    });
+  });
+  return counts;
+};
+
+export interface AnalyticsFilter {
+  // yyyy-mm-dd calendar days, inclusive; empty means unbounded
+  from: string;
+  to: string;
+  courseId: number | null;
+}
+
+// Weeks start on Monday, at local midnight
+export const startOfWeek = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Students in scope for a course filter: anyone ever enrolled in the course
+ */
+export const studentsInCourse = (students: Student[], courseId: number | null): Student[] =>
+  courseId === null
+    ? students
+    : students.filter(student => student.enrollments.some(enrollment => enrollment.courseId === courseId));
+
+export interface TrendPoint {
+  weekStart: Date;
+  // Students added that week
+  added: number;
+  // Students that existed by the end of the week, including those added before the range
+  total: number;
+}
+
+/**
+ * Weekly enrollment trend from each student's createdAt
+ * Without a date range the trend spans the first student's week to the current week
+ */
+export const buildEnrollmentTrend = (students: Student[], filter: AnalyticsFilter, now = new Date()): TrendPoint[] => {
+  const scoped = studentsInCourse(students, filter.courseId);
+  if (scoped.length === 0 && !filter.from) {
+    return [];
+  }
+  const earliest = scoped.reduce(
+    (min, student) => (student.createdAt < min ? student.createdAt : min),
+    scoped[0]?.createdAt ?? now
+  );
+  const first = startOfWeek(filter.from ? fromDateInputValue(filter.from) : earliest);
+  const last = startOfWeek(filter.to ? fromDateInputValue(filter.to) : now);
+  if (first > last) {
+    return [];
+  }
+  const rangeEnd = filter.to ? addDays(fromDateInputValue(filter.to), 1) : null;
+
+  const points: TrendPoint[] = [];
+  for (let weekStart = first; weekStart <= last; weekStart = addDays(weekStart, 7)) {
+    // The first and last weeks are clipped to the range
+    const start = filter.from && weekStart < fromDateInputValue(filter.from) ? fromDateInputValue(filter.from) : weekStart;
+    const weekEnd = addDays(weekStart, 7);
+    const end = rangeEnd && rangeEnd < weekEnd ? rangeEnd : weekEnd;
+    points.push({
+      weekStart,
+      added: scoped.filter(student => student.createdAt >= start && student.createdAt < end).length,
+      total: scoped.filter(student => student.createdAt < end).length,
+    });
+  }
+  return points;
+};
+
+export interface WeeklyGrowth {
+  thisWeek: number;
+  lastWeek: number;
+  // Relative change; null when last week had no new students to compare against
+  change: number | null;
+}
+
+/**
+ * Week-over-week growth of the latest week in a trend
+ */
+export const weekOverWeekGrowth = (trend: TrendPoint[]): WeeklyGrowth => {
+  const thisWeek = trend[trend.length - 1]?.added ?? 0;
+  const lastWeek = trend[trend.length - 2]?.added ?? 0;
+  return { thisWeek, lastWeek, change: lastWeek > 0 ? (thisWeek - lastWeek) / lastWeek : null };
+};
+
+export const formatGrowth = (change: number | null, locale: Locale = getActiveLocale()): string =>
+  change === null ? '—' : formatNumber(change, locale, { style: 'percent', signDisplay: 'always', maximumFractionDigits: 0 });
+
+export interface CourseShare {
+  course: Course;
+  counts: EnrollmentCounts;
+}
+
+/**
+ * Enrollments per course for enrollments made within the date range, largest first
+ * Courses without a single enrollment in range are left out
+ */
+export const courseDistribution = (students: Student[], courses: Course[], filter: AnalyticsFilter): CourseShare[] => {
+  const start = filter.from ? fromDateInputValue(filter.from) : null;
+  const end = filter.to ? addDays(fromDateInputValue(filter.to), 1) : null;
+  const inRange = students.map(student => ({
+    ...student,
+    enrollments: student.enrollments.filter(({ enrolledAt }) =>
+      (!start || enrolledAt >= start) && (!end || enrolledAt < end)
+    ),
+  }));
+  const counts = countEnrollmentsByCourse(inRange);
+  return courses
+    .filter(course => filter.courseId === null || course.id === filter.courseId)
+    .map(course => ({ course, counts: counts[course.id] ?? emptyCounts() }))
+    .filter(({ counts: { active, completed, dropped } }) => active + completed + dropped > 0)
+    .sort((a, b) => b.counts.active - a.counts.active || compareText(a.course.name, b.course.name));
+};
+
+// Short axis label for a week, e.g. "Mar 4"
+export const formatWeek = (weekStart: Date, locale: Locale = getActiveLocale()): string =>
+  formatDate(weekStart, locale, { month: 'short', day: 'numeric' });
+
+// The last N weeks up to and including the current one, for the range shortcuts
+export const lastWeeksRange = (weeks: number, now = new Date()): { from: string; to: string } => ({
+  from: toDateInputValue(addDays(startOfWeek(now), -7 * (weeks - 1))),
+  to: '',
+});
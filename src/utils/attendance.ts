@@ -0,0 +1,140 @@
+// Attendance - roll-call statuses, attendance rates, absence streaks and reports
+import { AttendanceSession, AttendanceStatus, Course, Locale, Student } from '../types';
+import { compareText, formatNumber, getActiveLocale } from './i18n';
+
+// `key` is the roll-call keyboard shortcut; labels live in the catalogs under attendanceStatus.<status>
+export const ATTENDANCE_STATUSES: { status: AttendanceStatus; key: string; className: string }[] = [
+  { status: 'present', key: 'p', className: 'bg-green-100 text-green-800 border-green-300' },
+  { status: 'absent', key: 'a', className: 'bg-red-100 text-red-800 border-red-300' },
+  { status: 'late', key: 'l', className: 'bg-amber-100 text-amber-800 border-amber-300' },
+  { status: 'excused', key: 'e', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+];
+
+// Consecutive unexcused absences at which a student is flagged
+export const ABSENCE_STREAK_THRESHOLD = 3;
+
+export interface AttendanceSummary {
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+  // Attended (present or late) out of every session that counts; excused sessions don't.
+  // null until at least one counting session has been marked
+  rate: number | null;
+}
+
+const byDate = (a: AttendanceSession, b: AttendanceSession) => a.date.getTime() - b.date.getTime();
+
+export const summarizeAttendance = (studentId: string, sessions: AttendanceSession[]): AttendanceSummary => {
+  const summary = { present: 0, absent: 0, late: 0, excused: 0 };
+  sessions.forEach(session => {
+    const mark = session.marks[studentId];
+    if (mark) {
+      summary[mark] += 1;
+    }
+  });
+  const counted = summary.present + summary.late + summary.absent;
+  return { ...summary, rate: counted > 0 ? (summary.present + summary.late) / counted : null };
+};
+
+/**
+ * Unexcused absences in a row, counting back from the student's latest marked session
+ * Excused sessions are skipped; attending (present or late) ends the streak
+ */
+export const currentAbsenceStreak = (studentId: string, sessions: AttendanceSession[]): number => {
+  const marked = sessions.filter(session => session.marks[studentId] !== undefined).sort(byDate);
+  let streak = 0;
+  for (let i = marked.length - 1; i >= 0; i--) {
+    const mark = marked[i].marks[studentId];
+    if (mark === 'absent') {
+      streak += 1;
+    } else if (mark !== 'excused') {
+      break;
+    }
+  }
+  return streak;
+};
+
+/**
+ * Current absence streak of every student who has been absent at least once
+ */
+export const absenceStreaks = (sessions: AttendanceSession[]): Map<string, number> => {
+  const studentIds = new Set<string>();
+  sessions.forEach(session => {
+    Object.entries(session.marks).forEach(([studentId, mark]) => {
+      if (mark === 'absent') {
+        studentIds.add(studentId);
+      }
+    });
+  });
+  return new Map([...studentIds].map(studentId => [studentId, currentAbsenceStreak(studentId, sessions)]));
+};
+
+export const formatRate = (rate: number, locale: Locale = getActiveLocale()): string =>
+  formatNumber(rate, locale, { style: 'percent', maximumFractionDigits: 0 });
+
+// Local calendar day as yyyy-mm-dd, the format of <input type="date">
+export const toDateInputValue = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const fromDateInputValue = (value: string): Date => new Date(`${value}T00:00:00`);
+
+export interface AbsenceReportRow {
+  student: Student;
+  course: Course | undefined;
+  sessions: number;
+  summary: AttendanceSummary;
+  absentOn: Date[];
+}
+
+/**
+ * Absence report for sessions between two calendar days (inclusive), optionally for one course
+ * One row per student and course with at least one absence or late arrival, worst rate first
+ */
+export const buildAbsenceReport = (
+  sessions: AttendanceSession[],
+  students: Student[],
+  courses: Course[],
+  { from, to, courseId }: { from: string; to: string; courseId: number | null }
+): AbsenceReportRow[] => {
+  const start = from ? fromDateInputValue(from).getTime() : -Infinity;
+  const end = to ? fromDateInputValue(to).getTime() : Infinity;
+  const inRange = sessions
+    .filter(session => courseId === null || session.courseId === courseId)
+    .filter(session => {
+      const day = fromDateInputValue(toDateInputValue(session.date)).getTime();
+      return day >= start && day <= end;
+    })
+    .sort(byDate);
+
+  const courseMap = new Map(courses.map(course => [course.id, course]));
+  const sessionsByCourse = new Map<number, AttendanceSession[]>();
+  inRange.forEach(session => {
+    sessionsByCourse.set(session.courseId, [...(sessionsByCourse.get(session.courseId) ?? []), session]);
+  });
+
+  const rows: AbsenceReportRow[] = [];
+  sessionsByCourse.forEach((courseSessions, sessionCourseId) => {
+    students.forEach(student => {
+      const marked = courseSessions.filter(session => session.marks[student.id] !== undefined);
+      if (marked.length === 0) {
+        return;
+      }
+      const summary = summarizeAttendance(student.id, marked);
+      if (summary.absent + summary.late === 0) {
+        return;
+      }
+      rows.push({
+        student,
+        course: courseMap.get(sessionCourseId),
+        sessions: marked.length,
+        summary,
+        absentOn: marked.filter(session => session.marks[student.id] === 'absent').map(session => session.date),
+      });
+    });
+  });
+
+  return rows.sort((a, b) => (a.summary.rate ?? 1) - (b.summary.rate ?? 1) || compareText(a.student.name, b.student.name));
+};
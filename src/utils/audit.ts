@@ -0,0 +1,147 @@
+// Audit log - builds entries from roster changes, filters them and exports them
+import { AuditAction, AuditActor, AuditEntry, Course, Student, StudentChangeType, User } from '../types';
+import { diffStudents } from './studentHistory';
+import { toCsv } from './csv';
+import { compareText, foldForSearch } from './i18n';
+
+/**
+ * The actor recorded for a user's changes - just the id and name, so role or
+ * course changes later don't rewrite who did what
+ */
+export const toAuditActor = (user: User | null): AuditActor =>
+  user ? { id: user.id, name: user.name } : { id: 'anonymous', name: 'Signed-out user' };
+
+// Labels live in the catalogs under changeType.<type>
+export const AUDIT_CHANGE_TYPES: StudentChangeType[] = ['created', 'updated', 'deleted', 'restored'];
+
+interface AuditContext {
+  action: AuditAction;
+  summary: string;
+  actor: AuditActor;
+  at: Date;
+}
+
+/**
+ * One entry per student that differs between two roster snapshots
+ * Records are immutable, so reference inequality means the student changed.
+ * Students reappearing through undo/redo are "restored" rather than "created".
+ */
+export const createAuditEntries = (
+  { action, summary, actor, at }: AuditContext,
+  before: Student[],
+  after: Student[]
+): AuditEntry[] => {
+  const beforeById = new Map(before.map(student => [student.id, student]));
+  const afterById = new Map(after.map(student => [student.id, student]));
+  const isTimeTravel = action === 'UNDO' || action === 'REDO';
+
+  const entry = (type: StudentChangeType, previous: Student | null, next: Student | null): AuditEntry => ({
+    id: crypto.randomUUID(),
+    studentId: (next ?? previous)!.id,
+    type,
+    at,
+    before: previous,
+    after: next,
+    actor,
+    action,
+    summary,
+  });
+
+  const entries: AuditEntry[] = [];
+  after.forEach(student => {
+    const previous = beforeById.get(student.id);
+    if (!previous) {
+      entries.push(entry(isTimeTravel ? 'restored' : 'created', null, student));
+    } else if (previous !== student) {
+      entries.push(entry('updated', previous, student));
+    }
+  });
+  before.forEach(student => {
+    if (!afterById.has(student.id)) {
+      entries.push(entry('deleted', student, null));
+    }
+  });
+  return entries;
+};
+
+export interface AuditFilter {
+  // Matches the student's name or email on either side of the change
+  search: string;
+  actorId: string | null;
+  type: StudentChangeType | null;
+  // Inclusive calendar-day bounds, as yyyy-mm-dd strings from date inputs
+  from: string;
+  to: string;
+}
+
+export const EMPTY_AUDIT_FILTER: AuditFilter = { search: '', actorId: null, type: null, from: '', to: '' };
+
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`);
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`);
+
+export const filterAuditEntries = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+  const search = foldForSearch(filter.search.trim());
+  const from = filter.from ? startOfDay(filter.from) : null;
+  const to = filter.to ? endOfDay(filter.to) : null;
+
+  return entries.filter(entry => {
+    const matchesSearch = !search || [entry.before, entry.after].some(student =>
+      student !== null &&
+      (foldForSearch(student.name).includes(search) || foldForSearch(student.email).includes(search))
+    );
+    return matchesSearch &&
+      (filter.actorId === null || entry.actor.id === filter.actorId) &&
+      (filter.type === null || entry.type === filter.type) &&
+      (!from || entry.at >= from) &&
+      (!to || entry.at <= to);
+  });
+};
+
+/**
+ * Every distinct actor in the log, for the actor filter
+ */
+export const listAuditActors = (entries: AuditEntry[]): AuditActor[] => {
+  const actors = new Map<string, AuditActor>();
+  entries.forEach(entry => actors.set(entry.actor.id, entry.actor));
+  return [...actors.values()].sort((a, b) => compareText(a.name, b.name));
+};
+
+const studentLabel = (entry: AuditEntry) => (entry.after ?? entry.before)?.name ?? entry.studentId;
+
+export type AuditExportFormat = 'csv' | 'json';
+
+/**
+ * CSV export - one row per entry, with the field diff flattened into a single column
+ */
+export const exportAuditToCsv = (entries: AuditEntry[], courses: Course[]): Blob => {
+  const header = ['Timestamp', 'Actor ID', 'Actor', 'Action', 'Change', 'Summary', 'Student ID', 'Student', 'Changes'];
+  const rows = entries.map(entry => [
+    entry.at.toISOString(),
+    entry.actor.id,
+    entry.actor.name,
+    entry.action,
+    entry.type,
+    entry.summary,
+    entry.studentId,
+    studentLabel(entry),
+    diffStudents(entry.before, entry.after, courses)
+      .map(diff => `${diff.label}: ${diff.before} -> ${diff.after}`)
+      .join('; '),
+  ]);
+  // The BOM makes Excel open the file as UTF-8
+  return new Blob(['\uFEFF' + toCsv([header, ...rows])], { type: 'text/csv;charset=utf-8' });
+};
+
+/**
+ * JSON export - the full entries, including both snapshots, plus the readable diff
+ */
+export const exportAuditToJson = (entries: AuditEntry[], courses: Course[]): Blob => {
+  const records = entries.map(entry => ({
+    ...entry,
+    changes: diffStudents(entry.before, entry.after, courses),
+  }));
+  return new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+};
+
+export const exportAuditLog = (format: AuditExportFormat, entries: AuditEntry[], courses: Course[]): Blob =>
+  format === 'csv' ? exportAuditToCsv(entries, courses) : exportAuditToJson(entries, courses);
@@ -0,0 +1,28 @@
+// Generated avatars - initials on a colour picked deterministically from the name
+
+// Background colours with enough contrast for white initials
+const AVATAR_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#dc2626', '#c2410c', '#15803d', '#0f766e', '#4338ca'];
+
+/**
+ * Up to two initials: first and last word ("Ada King Lovelace" → "AL")
+ */
+export const getInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return '?';
+  }
+  const first = Array.from(words[0])[0];
+  const last = words.length > 1 ? Array.from(words[words.length - 1])[0] : '';
+  return `${first}${last}`.toUpperCase();
+};
+
+/**
+ * The same name always gets the same colour - a simple string hash (djb2) into the palette
+ */
+export const getAvatarColor = (name: string): string => {
+  let hash = 5381;
+  for (const char of name.trim().toLowerCase()) {
+    hash = ((hash << 5) + hash + char.codePointAt(0)!) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
@@ -0,0 +1,53 @@
+// Branding - the institution's colour, title and logo, checked before they are saved
+import { Branding } from '../types';
+import { translate } from './i18n';
+import { checkBrandContrast, isHexColor } from './theme';
+
+export const DEFAULT_BRANDING: Branding = {
+  primaryColor: '#2563eb',
+  title: '',
+};
+
+export const MAX_TITLE_LENGTH = 60;
+
+// Logos are shown 32-40px tall; twice that keeps them sharp on high-density screens
+const LOGO_HEIGHT = 80;
+const MAX_LOGO_WIDTH = 320;
+
+// Small icons are fine as logos, unlike profile photos
+export const MIN_LOGO_SIZE = 16;
+
+/**
+ * The first problem with a branding draft, or null if it can be saved
+ * A colour that leaves button labels or links below WCAG AA contrast in either theme is refused
+ */
+export const validateBranding = (branding: Branding): string | null => {
+  if (!isHexColor(branding.primaryColor)) {
+    return translate('branding.colorInvalid');
+  }
+  if (branding.title.trim().length > MAX_TITLE_LENGTH) {
+    return translate('branding.titleTooLong', { max: MAX_TITLE_LENGTH });
+  }
+  if (checkBrandContrast(branding.primaryColor).some(check => !check.passes)) {
+    return translate('branding.lowContrast');
+  }
+  return null;
+};
+
+/**
+ * Scales a logo down to header size and encodes it as a PNG data URL
+ * PNG keeps transparency, so the logo sits on both the light and the dark header
+ */
+export const renderLogo = (image: HTMLImageElement): string => {
+  const scale = Math.min(1, LOGO_HEIGHT / image.naturalHeight, MAX_LOGO_WIDTH / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(translate('photo.unsupported'));
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
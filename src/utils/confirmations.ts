@@ -0,0 +1,14 @@
+// Confirmation prompts shared by every place that can delete students
+import { translate } from './i18n';
+
+/**
+ * Asks before deleting one student - demonstrates the blocking window.confirm dialog
+ */
+export const confirmStudentDeletion = (name: string): boolean =>
+  window.confirm(translate('confirm.deleteStudent', { name }));
+
+/**
+ * Asks before deleting several students at once
+ */
+export const confirmStudentsDeletion = (count: number): boolean =>
+  window.confirm(translate('confirm.deleteStudents', { count }));
@@ -0,0 +1,139 @@
+// CSV utilities - demonstrates a small state-machine parser
+
+export interface CsvParseOptions {
+  // Field separator; detected from the first line when omitted
+  delimiter?: string;
+}
+
+// A parsed row and the 1-based line of the file it starts on
+export interface CsvRecord {
+  fields: string[];
+  line: number;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Guesses the delimiter by counting candidates on the first line (outside quotes)
+ */
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) {
+      best = delimiter;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parses CSV text into records (RFC 4180 style), each with the line it starts on
+ * Handles a UTF-8 byte order mark, quoted fields, escaped quotes ("")
+ * and line breaks inside quotes. Fully empty lines are skipped, but still counted.
+ */
+export const parseCsvRecords = (input: string, options: CsvParseOptions = {}): CsvRecord[] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const delimiter = options.delimiter || detectDelimiter(text);
+
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // The line being read, and the one the current row started on
+  let line = 1;
+  let rowLine = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') {
+      records.push({ fields: row, line: rowLine });
+    }
+    row = [];
+    line++;
+    rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        // A line break inside quotes is part of the field, but the file moves on a line
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length - 1;
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return records;
+};
+
+/**
+ * Parses CSV text into rows of fields - parseCsvRecords without the line numbers
+ */
+export const parseCsv = (input: string, options: CsvParseOptions = {}): string[][] =>
+  parseCsvRecords(input, options).map(record => record.fields);
+
+/**
+ * Quotes a field only when it contains the delimiter, a quote or a line break
+ */
+const escapeCsvField = (value: string, delimiter: string): string => {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * Serializes rows into CSV text - the inverse of parseCsv
+ */
+export const toCsv = (rows: string[][], delimiter: string = ','): string => {
+  return rows
+    .map(row => row.map(field => escapeCsvField(field, delimiter)).join(delimiter))
+    .join('\r\n');
+};
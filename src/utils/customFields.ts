@@ -0,0 +1,225 @@
+// Custom fields - admin-defined student fields: definitions, form values, validation and display
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Student } from '../types';
+import { fromDateInputValue } from './attendance';
+import { translate } from './i18n';
+
+// Labels live in the catalogs under customFieldType.<type>
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'boolean'];
+
+// Field keys the built-in search and sort already use
+const RESERVED_KEYS = ['name', 'email', 'course', 'tag', 'created', 'updated', 'id', 'courses'];
+
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A text field's pattern, anchored to the whole value; null when it isn't a valid regex
+ * Definitions arrive from settings, so a bad one must not throw mid-render
+ */
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Turns a label into a search-friendly key: "Student Number" → "student_number"
+ */
+export const toFieldKey = (label: string): string =>
+  label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '');
+
+/**
+ * Problems with a set of definitions, or null when they can be saved
+ */
+export const validateFieldDefinitions = (fields: CustomFieldDefinition[]): string | null => {
+  const seen = new Set<string>();
+  for (const field of fields) {
+    const name = field.label || translate('customFields.someField');
+    if (!field.label.trim()) {
+      return translate('customFields.labelRequired');
+    }
+    if (!field.key) {
+      return translate('customFields.labelLetter', { name });
+    }
+    if (RESERVED_KEYS.includes(field.key)) {
+      return translate('customFields.reservedKey', { name, key: field.key });
+    }
+    if (seen.has(field.key)) {
+      return translate('customFields.duplicateKey', { key: field.key });
+    }
+    seen.add(field.key);
+    if (field.type === 'select' && (field.options ?? []).length === 0) {
+      return translate('customFields.optionsRequired', { name });
+    }
+    if (field.pattern && !compilePattern(field.pattern)) {
+      return translate('customFields.invalidPattern', { name });
+    }
+    if (field.type === 'date' && [field.min, field.max].some(bound => bound !== undefined && !DATE_VALUE.test(String(bound)))) {
+      return translate('customFields.dateLimits', { name });
+    }
+    const outOfOrder = field.type === 'date'
+      ? String(field.min) > String(field.max)
+      : Number(field.min) > Number(field.max);
+    if (field.min !== undefined && field.max !== undefined && outOfOrder) {
+      return translate('customFields.minAboveMax', { name });
+    }
+  }
+  return null;
+};
+
+/**
+ * Stored values → form inputs; checkboxes get booleans, everything else text
+ */
+export const customFieldsToForm = (
+  fields: CustomFieldDefinition[],
+  values: Student['customFields'] = {}
+): Record<string, string | boolean> =>
+  Object.fromEntries(fields.map(field => {
+    const value = values[field.key];
+    return [field.key, field.type === 'boolean' ? value === true : value === undefined ? '' : String(value)];
+  }));
+
+/**
+ * Checks one form input against its definition; returns the error message, if any
+ */
+export const validateCustomField = (field: CustomFieldDefinition, input: string | boolean | undefined): string | undefined => {
+  if (field.type === 'boolean') {
+    return field.required && input !== true ? translate('validation.fieldUnchecked', { label: field.label }) : undefined;
+  }
+
+  const value = typeof input === 'string' ? input.trim() : '';
+  if (!value) {
+    return field.required ? translate('validation.fieldRequired', { label: field.label }) : undefined;
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        return translate('validation.fieldNotNumber', { label: field.label });
+      }
+      if (field.min !== undefined && number < Number(field.min)) {
+        return translate('validation.fieldNumberMin', { label: field.label, min: Number(field.min) });
+      }
+      if (field.max !== undefined && number > Number(field.max)) {
+        return translate('validation.fieldNumberMax', { label: field.label, max: Number(field.max) });
+      }
+      return undefined;
+    }
+    case 'date':
+      if (!DATE_VALUE.test(value)) {
+        return translate('validation.fieldNotDate', { label: field.label });
+      }
+      if (field.min !== undefined && value < String(field.min)) {
+        return translate('validation.fieldDateMin', { label: field.label, min: fromDateInputValue(String(field.min)) });
+      }
+      if (field.max !== undefined && value > String(field.max)) {
+        return translate('validation.fieldDateMax', { label: field.label, max: fromDateInputValue(String(field.max)) });
+      }
+      return undefined;
+    case 'select':
+      return field.options?.includes(value) ? undefined : translate('validation.fieldOption', { label: field.label });
+    case 'text':
+      if (field.min !== undefined && value.length < Number(field.min)) {
+        return translate('validation.fieldTextMin', { label: field.label, min: Number(field.min) });
+      }
+      if (field.max !== undefined && value.length > Number(field.max)) {
+        return translate('validation.fieldTextMax', { label: field.label, max: Number(field.max) });
+      }
+      // A pattern that doesn't compile can't be enforced; the field editor refuses to save one
+      if (field.pattern && compilePattern(field.pattern)?.test(value) === false) {
+        return translate('validation.fieldPattern', { label: field.label });
+      }
+      return undefined;
+  }
+};
+
+/**
+ * Errors for every invalid custom field, keyed by field key
+ */
+export const validateCustomFields = (
+  fields: CustomFieldDefinition[],
+  inputs: Record<string, string | boolean>
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const error = validateCustomField(field, inputs[field.key]);
+    if (error) {
+      errors[field.key] = error;
+    }
+  });
+  return errors;
+};
+
+/**
+ * Form inputs → stored values; empty inputs are left out rather than stored blank
+ * Values of fields that are no longer defined are kept, so removing a definition loses nothing
+ */
+export const customFieldsFromForm = (
+  fields: CustomFieldDefinition[],
+  inputs: Record<string, string | boolean>,
+  previous: Student['customFields'] = {}
+): Record<string, CustomFieldValue> => {
+  const values: Record<string, CustomFieldValue> = { ...previous };
+  fields.forEach(field => {
+    const input = inputs[field.key];
+    delete values[field.key];
+    if (field.type === 'boolean') {
+      if (input === true) {
+        values[field.key] = true;
+      }
+    } else if (typeof input === 'string' && input.trim()) {
+      values[field.key] = field.type === 'number' ? Number(input.trim()) : input.trim();
+    }
+  });
+  return values;
+};
+
+/**
+ * A stored value as display text - also what search and export see
+ */
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (value === undefined) {
+    return field.type === 'boolean' ? translate('common.no') : '';
+  }
+  if (field.type === 'boolean') {
+    return translate(value === true ? 'common.yes' : 'common.no');
+  }
+  return String(value);
+};
+
+/**
+ * Orders two stored values of one field; unset values sort last, except that an
+ * unset checkbox simply means "No"
+ */
+export const compareCustomFieldValues = (
+  field: CustomFieldDefinition,
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined,
+  compareText: (a: string, b: string) => number
+): number => {
+  if (field.type === 'boolean') {
+    return Number(a === true) - Number(b === true);
+  }
+  if (a === b) {
+    return 0;
+  }
+  if (a === undefined || b === undefined) {
+    return a === undefined ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return compareText(String(a), String(b));
+};
+
+export const customSortField = (key: string) => `custom:${key}` as const;
+
+export const customFieldKeyOf = (field: string): string | null =>
+  field.startsWith('custom:') ? field.slice('custom:'.length) : null;
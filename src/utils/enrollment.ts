@@ -0,0 +1,182 @@
+// Enrollment helpers - shared rules for the student/course many-to-many relationship
+import { Enrollment, EnrollmentDraft, EnrollmentFormData, EnrollmentStatus, Student } from '../types';
+
+// Labels live in the catalogs under enrollmentStatus.<status>
+export const ENROLLMENT_STATUSES: EnrollmentStatus[] = ['active', 'completed', 'dropped'];
+
+export const getActiveEnrollments = (student: Student): Enrollment[] =>
+  student.enrollments.filter(enrollment => enrollment.status === 'active');
+
+export const getActiveCourseIds = (student: Student): number[] =>
+  getActiveEnrollments(student).map(enrollment => enrollment.courseId);
+
+export const isActivelyEnrolled = (student: Student, courseId: number): boolean =>
+  student.enrollments.some(enrollment => enrollment.courseId === courseId && enrollment.status === 'active');
+
+// True when any enrollment, whatever its status, points at the course
+export const referencesCourse = (student: Student, courseId: number): boolean =>
+  student.enrollments.some(enrollment => enrollment.courseId === courseId);
+
+/**
+ * Turns draft enrollments into full records owned by a student
+ */
+export const materializeEnrollments = (
+  studentId: string,
+  drafts: (EnrollmentDraft | Enrollment)[],
+  now: Date
+): Enrollment[] =>
+  drafts.map(draft => ({
+    id: 'id' in draft ? draft.id : crypto.randomUUID(),
+    studentId,
+    courseId: draft.courseId,
+    enrolledAt: draft.enrolledAt ? new Date(draft.enrolledAt) : now,
+    status: draft.status,
+    ...('scores' in draft && draft.scores ? { scores: draft.scores } : {}),
+  }));
+
+/**
+ * Converts form rows into enrollment drafts for a new student
+ */
+export const enrollmentDraftsFromForm = (rows: EnrollmentFormData[]): EnrollmentDraft[] =>
+  rows.map(row => ({ courseId: parseInt(row.courseId), status: row.status }));
+
+/**
+ * Applies form rows to an existing student's enrollments
+ * Rows with an id keep their original enrollment date and scores; new rows start today
+ */
+export const enrollmentsFromForm = (
+  studentId: string,
+  rows: EnrollmentFormData[],
+  existing: Enrollment[],
+  now: Date
+): Enrollment[] =>
+  rows.map(row => {
+    const current = existing.find(enrollment => enrollment.id === row.id);
+    return {
+      ...current,
+      id: current?.id ?? crypto.randomUUID(),
+      studentId,
+      courseId: parseInt(row.courseId),
+      enrolledAt: current?.enrolledAt ?? now,
+      status: row.status,
+    };
+  });
+
+/**
+ * Moves a student into a single active course
+ * Other active enrollments become dropped (kept as history); an existing
+ * enrollment in the target course is reactivated rather than duplicated.
+ * Enrollments in courses the user can't change are left as they are, like the locked rows of the student form
+ */
+export const moveToCourse = (
+  student: Student,
+  courseId: number,
+  now: Date,
+  canChange: (courseId: number) => boolean = () => true
+): Enrollment[] => {
+  const enrollments = student.enrollments.map(enrollment => {
+    if (enrollment.courseId === courseId) {
+      return { ...enrollment, status: 'active' as const };
+    }
+    return enrollment.status === 'active' && canChange(enrollment.courseId)
+      ? { ...enrollment, status: 'dropped' as const }
+      : enrollment;
+  });
+  if (!enrollments.some(enrollment => enrollment.courseId === courseId)) {
+    enrollments.push({
+      id: crypto.randomUUID(),
+      studentId: student.id,
+      courseId,
+      enrolledAt: now,
+      status: 'active',
+    });
+  }
+  return enrollments;
+};
+
+const sameScores = (a: Enrollment['scores'] = {}, b: Enrollment['scores'] = {}) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(id => a[id] === b[id]);
+
+/**
+ * Courses whose enrollment a write adds, removes or changes (course, status or scores),
+ * so the write can be authorized course by course. Drafts have no id and always count as added
+ */
+export const changedCourseIds = (before: Enrollment[], after: (Enrollment | EnrollmentDraft)[]): number[] => {
+  const previous = new Map(before.map(enrollment => [enrollment.id, enrollment]));
+  const changed = new Set<number>();
+  after.forEach(enrollment => {
+    const match = 'id' in enrollment ? previous.get(enrollment.id) : undefined;
+    if (!match || !('id' in enrollment)) {
+      changed.add(enrollment.courseId);
+      return;
+    }
+    previous.delete(match.id);
+    if (match.courseId !== enrollment.courseId) {
+      changed.add(match.courseId);
+      changed.add(enrollment.courseId);
+    } else if (match.status !== enrollment.status || !sameScores(match.scores, enrollment.scores)) {
+      changed.add(enrollment.courseId);
+    }
+  });
+  // Whatever is left was removed
+  previous.forEach(enrollment => changed.add(enrollment.courseId));
+  return [...changed];
+};
+
+/**
+ * Moves every enrollment from one course to another
+ * When the student already has an enrollment in the target course, the moved one is dropped
+ * so a course never appears twice on the same student
+ */
+export const moveEnrollments = (student: Student, fromCourseId: number, toCourseId: number): Enrollment[] => {
+  const alreadyInTarget = student.enrollments.some(enrollment => enrollment.courseId === toCourseId);
+  return student.enrollments.flatMap(enrollment => {
+    if (enrollment.courseId !== fromCourseId) {
+      return [enrollment];
+    }
+    return alreadyInTarget ? [] : [{ ...enrollment, courseId: toCourseId }];
+  });
+};
+
+// Shape of records written before enrollments existed
+type LegacyStudent = Omit<Student, 'enrollments'> & { courseId?: number; enrollments?: Enrollment[] };
+
+export const isLegacyStudent = (student: LegacyStudent): boolean => !Array.isArray(student.enrollments);
+
+/**
+ * Migrates a record from the single-courseId model to enrollments
+ * The legacy course becomes one active enrollment dated at the student's creation;
+ * its id is derived from the student so repeated migrations produce the same record
+ */
+export const migrateLegacyStudent = (student: LegacyStudent): Student => {
+  if (!isLegacyStudent(student)) {
+    return student as Student;
+  }
+  const { courseId, ...rest } = student;
+  return {
+    ...rest,
+    enrollments: typeof courseId === 'number'
+      ? [{
+          id: `${student.id}:${courseId}`,
+          studentId: student.id,
+          courseId,
+          enrolledAt: new Date(student.createdAt),
+          status: 'active',
+        }]
+      : [],
+  };
+};
+
+/**
+ * Replaces one enrollment's recorded scores, leaving the other enrollments untouched
+ */
+export const setEnrollmentScores = (
+  student: Student,
+  courseId: number,
+  scores: Record<string, number>
+): Enrollment[] =>
+  student.enrollments.map(enrollment =>
+    enrollment.courseId === courseId && enrollment.status !== 'dropped'
+      ? { ...enrollment, scores }
+      : enrollment
+  );
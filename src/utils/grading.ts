@@ -0,0 +1,154 @@
+// Grading - weighted course grades, letter bands and GPA
+import { Assessment, AssessmentType, Course, Enrollment, GradeBand, Locale, Student } from '../types';
+import { formatNumber, getActiveLocale, translate } from './i18n';
+
+// Labels live in the catalogs under assessmentType.<type>
+export const ASSESSMENT_TYPES: AssessmentType[] = ['assignment', 'quiz', 'exam'];
+
+// US-style 4.0 scale, used until an administrator configures another one
+export const DEFAULT_GRADING_SCALE: GradeBand[] = [
+  { letter: 'A', minPercent: 90, points: 4 },
+  { letter: 'B', minPercent: 80, points: 3 },
+  { letter: 'C', minPercent: 70, points: 2 },
+  { letter: 'D', minPercent: 60, points: 1 },
+  { letter: 'F', minPercent: 0, points: 0 },
+];
+
+export interface CourseGrade {
+  // Weighted percentage over the assessments graded so far, 0-100
+  percent: number;
+  band: GradeBand;
+}
+
+/**
+ * The band a percentage falls into - the highest band whose minimum it reaches
+ * A scale always has a band at 0%, so every percentage has a letter.
+ */
+export const gradeBandFor = (percent: number, scale: GradeBand[]): GradeBand => {
+  const bands = [...scale].sort((a, b) => b.minPercent - a.minPercent);
+  return bands.find(band => percent >= band.minPercent) ?? bands[bands.length - 1];
+};
+
+/**
+ * Weighted grade for one enrollment, or null while nothing has been graded
+ * Only graded assessments count, and their weights are renormalized - a student
+ * with full marks on the first quiz has 100% so far, not 10%.
+ */
+export const calculateCourseGrade = (
+  enrollment: Enrollment,
+  course: Course | undefined,
+  scale: GradeBand[]
+): CourseGrade | null => {
+  let weightedScore = 0;
+  let gradedWeight = 0;
+  (course?.assessments ?? []).forEach(assessment => {
+    const score = enrollment.scores?.[assessment.id];
+    if (score !== undefined && assessment.maxScore > 0) {
+      weightedScore += assessment.weight * (score / assessment.maxScore);
+      gradedWeight += assessment.weight;
+    }
+  });
+  if (gradedWeight === 0) {
+    return null;
+  }
+  const percent = (weightedScore / gradedWeight) * 100;
+  return { percent, band: gradeBandFor(percent, scale) };
+};
+
+/**
+ * Grade point average over every graded, non-dropped course, each counting equally
+ * null when the student has no grades yet
+ */
+export const calculateGpa = (student: Student, courses: Course[], scale: GradeBand[]): number | null => {
+  const courseMap = new Map(courses.map(course => [course.id, course]));
+  const points = student.enrollments
+    .filter(enrollment => enrollment.status !== 'dropped')
+    .map(enrollment => calculateCourseGrade(enrollment, courseMap.get(enrollment.courseId), scale))
+    .filter((grade): grade is CourseGrade => grade !== null)
+    .map(grade => grade.band.points);
+  return points.length > 0 ? points.reduce((sum, p) => sum + p, 0) / points.length : null;
+};
+
+/**
+ * How many students hold each letter in a course, in scale order (best first)
+ * Dropped enrollments and students without grades are left out.
+ */
+export const gradeDistribution = (
+  students: Student[],
+  course: Course,
+  scale: GradeBand[]
+): { band: GradeBand; count: number }[] => {
+  const counts = new Map<string, number>();
+  students.forEach(student => {
+    student.enrollments
+      .filter(enrollment => enrollment.courseId === course.id && enrollment.status !== 'dropped')
+      .forEach(enrollment => {
+        const grade = calculateCourseGrade(enrollment, course, scale);
+        if (grade) {
+          counts.set(grade.band.letter, (counts.get(grade.band.letter) ?? 0) + 1);
+        }
+      });
+  });
+  return [...scale]
+    .sort((a, b) => b.minPercent - a.minPercent)
+    .map(band => ({ band, count: counts.get(band.letter) ?? 0 }));
+};
+
+export const formatGpa = (gpa: number, locale: Locale = getActiveLocale()): string =>
+  formatNumber(gpa, locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// A course grade's percentage (0-100) with one decimal, e.g. "87.5%"
+export const formatGradePercent = (percent: number, locale: Locale = getActiveLocale()): string =>
+  formatNumber(percent / 100, locale, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Checks a grading scale, returning the first problem found or null
+ */
+export const validateGradingScale = (scale: GradeBand[]): string | null => {
+  if (scale.length === 0) {
+    return translate('grading.scaleEmpty');
+  }
+  const letters = new Set<string>();
+  const minimums = new Set<number>();
+  for (const band of scale) {
+    if (!band.letter.trim()) {
+      return translate('grading.letterRequired');
+    }
+    if (letters.has(band.letter.trim())) {
+      return translate('grading.letterDuplicate', { letter: band.letter });
+    }
+    if (!Number.isFinite(band.minPercent) || band.minPercent < 0 || band.minPercent > 100) {
+      return translate('grading.minRange', { letter: band.letter });
+    }
+    if (minimums.has(band.minPercent)) {
+      return translate('grading.minDuplicate', { min: formatGradePercent(band.minPercent) });
+    }
+    if (!Number.isFinite(band.points) || band.points < 0) {
+      return translate('grading.pointsRange', { letter: band.letter });
+    }
+    letters.add(band.letter.trim());
+    minimums.add(band.minPercent);
+  }
+  if (!minimums.has(0)) {
+    return translate('grading.zeroRequired');
+  }
+  return null;
+};
+
+/**
+ * Checks a course's assessments, returning the first problem found or null
+ */
+export const validateAssessments = (assessments: Assessment[]): string | null => {
+  for (const assessment of assessments) {
+    if (!assessment.title.trim()) {
+      return translate('assessments.titleRequired');
+    }
+    if (!Number.isFinite(assessment.weight) || assessment.weight <= 0) {
+      return translate('assessments.weightPositive', { title: assessment.title });
+    }
+    if (!Number.isFinite(assessment.maxScore) || assessment.maxScore <= 0) {
+      return translate('assessments.maxScorePositive', { title: assessment.title });
+    }
+  }
+  return null;
+};
@@ -0,0 +1,150 @@
+// Undo/redo history - demonstrates a higher-order reducer
+import type { Message } from './i18n';
+
+/**
+ * One undoable step: the tracked slice of state as it was *before* the step,
+ * plus a human-readable label for undo affordances, rendered in whatever language is current
+ */
+export interface HistoryEntry<T> {
+  id: number;
+  label: Message;
+  destructive: boolean;
+  snapshot: T;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  // Monotonic counter so every entry gets a distinct id
+  nextId: number;
+}
+
+/**
+ * History actions understood by the wrapper
+ * UNDO/REDO may carry the snapshot that was actually persisted, which replaces
+ * the stored one (e.g. with server-assigned updatedAt values)
+ */
+export type HistoryAction<T> =
+  | { type: 'UNDO'; payload?: T }
+  | { type: 'REDO'; payload?: T }
+  | { type: 'CLEAR_HISTORY' };
+
+// What the wrapper needs to know about the wrapped reducer's actions
+export interface HistoryDescription {
+  label: Message;
+  destructive?: boolean;
+}
+
+export interface UndoableOptions<S, A, T> {
+  // Maximum number of undo steps kept; the oldest are dropped first
+  limit: number;
+  // Reads and writes the slice of state the history tracks
+  select: (state: S) => T;
+  restore: (state: S, snapshot: T) => S;
+  // Describes actions that form one undoable step (given the state before them), null for untracked actions
+  describe: (action: A, state: S) => HistoryDescription | null;
+  // Actions that replace the tracked slice wholesale (e.g. a reload) and invalidate the history
+  resets?: (action: A) => boolean;
+}
+
+const HISTORY_ACTION_TYPES = new Set(['UNDO', 'REDO', 'CLEAR_HISTORY']);
+
+const isHistoryAction = <T>(action: unknown): action is HistoryAction<T> =>
+  typeof action === 'object' && action !== null &&
+  HISTORY_ACTION_TYPES.has((action as { type?: unknown }).type as string);
+
+export const createHistory = <T>(): History<T> => ({ past: [], future: [], nextId: 1 });
+
+/**
+ * Wraps a reducer with bounded undo/redo
+ * The wrapped state keeps its own shape and gains a `history` field, so existing
+ * consumers of the state are unaffected. One dispatched action is one step - batch
+ * actions are grouped by construction.
+ */
+export const undoable = <S extends { history: History<T> }, A, T>(
+  reducer: (state: S, action: A) => S,
+  { limit, select, restore, describe, resets = () => false }: UndoableOptions<S, A, T>
+) => (state: S, action: A | HistoryAction<T>): S => {
+  const { history } = state;
+
+  // History actions are handled here; the wrapped reducer never sees them
+  if (isHistoryAction<T>(action)) {
+    return applyHistoryAction(state, action, select, restore);
+  }
+
+  const next = reducer(state, action);
+
+  if (resets(action)) {
+    return { ...next, history: { ...history, past: [], future: [] } };
+  }
+
+  const description = describe(action, state);
+  // Untracked actions, and tracked ones that changed nothing, leave history alone
+  if (description === null || select(next) === select(state)) {
+    return next;
+  }
+
+  const entry: HistoryEntry<T> = {
+    id: history.nextId,
+    label: description.label,
+    destructive: description.destructive ?? false,
+    snapshot: select(state),
+  };
+
+  return {
+    ...next,
+    history: {
+      past: [...history.past, entry].slice(-limit),
+      // A new change makes the redo branch unreachable
+      future: [],
+      nextId: history.nextId + 1,
+    },
+  };
+};
+
+/**
+ * Moves one entry between the undo and redo stacks, swapping in the other snapshot
+ */
+const applyHistoryAction = <S extends { history: History<T> }, T>(
+  state: S,
+  action: HistoryAction<T>,
+  select: (state: S) => T,
+  restore: (state: S, snapshot: T) => S
+): S => {
+  const { history } = state;
+
+  switch (action.type) {
+    case 'UNDO': {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) {
+        return state;
+      }
+      return {
+        ...restore(state, action.payload ?? entry.snapshot),
+        history: {
+          ...history,
+          past: history.past.slice(0, -1),
+          future: [...history.future, { ...entry, snapshot: select(state) }],
+        },
+      };
+    }
+
+    case 'REDO': {
+      const entry = history.future[history.future.length - 1];
+      if (!entry) {
+        return state;
+      }
+      return {
+        ...restore(state, action.payload ?? entry.snapshot),
+        history: {
+          ...history,
+          past: [...history.past, { ...entry, snapshot: select(state) }],
+          future: history.future.slice(0, -1),
+        },
+      };
+    }
+
+    case 'CLEAR_HISTORY':
+      return { ...state, history: { ...history, past: [], future: [] } };
+  }
+};
@@ -0,0 +1,294 @@
+// REST implementation of the repositories - demonstrates fetch with async/await
+import { AttendanceSession, AttendanceSessionDraft, AuditEntry, Course, CourseDraft, Credentials, Page, PageRequest, Settings, Student, StudentChange, StudentDraft, User, ValidationErrors } from '../types';
+import { ApiError, AttendanceRepository, AuditRepository, AuthService, CourseRepository, Repositories, RequestOptions, SettingsRepository, StudentRepository, ValidateOptions, WriteOptions } from './repositories';
+import { withDefaultSettings } from './settings';
+import { translate } from './i18n';
+import { reviveAttendanceSession, reviveDates, reviveStudent, reviveStudentChange } from './storage';
+
+interface HttpRepositoryOptions {
+  baseUrl: string;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Creates a small JSON client bound to a base URL
+ * Non-2xx responses are turned into ApiError using the body's "message" when present.
+ * Cookies are sent along, so the server knows who is signed in
+ */
+const createJsonClient = ({ baseUrl, fetchImpl = fetch }: HttpRepositoryOptions) => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${root}${path}`, {
+        ...init,
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...init.headers,
+        },
+      });
+    } catch (error) {
+      // A cancelled request isn't a network failure; let the caller see the AbortError
+      if (init.signal?.aborted) {
+        throw error;
+      }
+      throw new ApiError(
+        translate('server.networkError', { reason: error instanceof Error ? error.message : translate('server.unreachable') }),
+        0
+      );
+    }
+
+    const text = await response.text();
+    let body;
+    try {
+      body = text ? JSON.parse(text, reviveDates) : null;
+    } catch {
+      // Not JSON - typically a proxy's HTML error page; report the status, not the parser's complaint
+      throw new ApiError(translate('server.requestFailedStatus', { status: String(response.status) }), response.status);
+    }
+
+    if (!response.ok) {
+      const message = body && typeof body.message === 'string'
+        ? body.message
+        : translate('server.requestFailedStatus', { status: String(response.status) });
+      // Validation failures name their fields as { errors: { email: '...' } }
+      const fieldErrors = body && typeof body.errors === 'object' && body.errors !== null ? body.errors : {};
+      throw new ApiError(message, response.status, fieldErrors);
+    }
+
+    return body as T;
+  };
+};
+
+/**
+ * The record's updatedAt doubles as its ETag, so a conditional write is an If-Match
+ * the server answers with 412 Precondition Failed when the record has moved on
+ */
+const preconditionHeaders = ({ expectedUpdatedAt }: WriteOptions = {}): Record<string, string> =>
+  expectedUpdatedAt ? { 'If-Match': `"${expectedUpdatedAt.toISOString()}"` } : {};
+
+/**
+ * REST student repository
+ * GET/POST /students, GET/PUT/DELETE /students/:id (PUT/DELETE honour If-Match), GET /students?page=&pageSize=,
+ * POST/PUT/DELETE /students/batch for bulk create/update/delete,
+ * POST /students/reassign to move a course's students,
+ * POST /students/restore to bring deleted students back under their ids,
+ * GET /students/:id/history for a student's change log,
+ * POST /students/validate to check fields (e.g. email uniqueness) before saving
+ */
+export const createHttpStudentRepository = (options: HttpRepositoryOptions): StudentRepository => {
+  const request = createJsonClient(options);
+
+  return {
+    list: async ({ signal }: RequestOptions = {}) => {
+      const students = await request<Student[]>('/students', { signal });
+      return students.map(reviveStudent);
+    },
+    get: async (id: string) => {
+      return reviveStudent(await request<Student>(`/students/${encodeURIComponent(id)}`));
+    },
+    create: async (data: StudentDraft) => {
+      return reviveStudent(await request<Student>('/students', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }));
+    },
+    createMany: async (data: StudentDraft[]) => {
+      const students = await request<Student[]>('/students/batch', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+      return students.map(reviveStudent);
+    },
+    update: async (student: Student, options?: WriteOptions) => {
+      return reviveStudent(await request<Student>(`/students/${encodeURIComponent(student.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(student),
+        headers: preconditionHeaders(options),
+      }));
+    },
+    updateMany: async (students: Student[]) => {
+      const updated = await request<Student[]>('/students/batch', {
+        method: 'PUT',
+        body: JSON.stringify(students),
+      });
+      return updated.map(reviveStudent);
+    },
+    delete: async (id: string, options?: WriteOptions) => {
+      await request<void>(`/students/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: preconditionHeaders(options),
+      });
+    },
+    deleteMany: async (ids: string[]) => {
+      await request<void>('/students/batch', {
+        method: 'DELETE',
+        body: JSON.stringify({ ids }),
+      });
+    },
+    restoreMany: async (students: Student[]) => {
+      const restored = await request<Student[]>('/students/restore', {
+        method: 'POST',
+        body: JSON.stringify(students),
+      });
+      return restored.map(reviveStudent);
+    },
+    query: async ({ page, pageSize, search, courseId }: PageRequest) => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+      if (search) {
+        params.set('search', search);
+      }
+      if (courseId != null) {
+        params.set('courseId', String(courseId));
+      }
+      const result = await request<Page<Student>>(`/students?${params.toString()}`);
+      return { ...result, items: result.items.map(reviveStudent) };
+    },
+    reassignCourse: async (fromCourseId: number, toCourseId: number) => {
+      const students = await request<Student[]>('/students/reassign', {
+        method: 'POST',
+        body: JSON.stringify({ fromCourseId, toCourseId }),
+      });
+      return students.map(reviveStudent);
+    },
+    history: async (id: string, { signal }: RequestOptions = {}) => {
+      const changes = await request<StudentChange[]>(`/students/${encodeURIComponent(id)}/history`, { signal });
+      return changes.map(reviveStudentChange);
+    },
+    validate: async (data: Partial<StudentDraft>, { excludeId, signal }: ValidateOptions = {}) => {
+      const { errors } = await request<{ errors: ValidationErrors }>('/students/validate', {
+        method: 'POST',
+        body: JSON.stringify({ ...data, excludeId }),
+        signal,
+      });
+      return errors;
+    },
+  };
+};
+
+/**
+ * REST course repository - GET/POST /courses, GET/PUT/DELETE /courses/:id
+ */
+export const createHttpCourseRepository = (options: HttpRepositoryOptions): CourseRepository => {
+  const request = createJsonClient(options);
+
+  return {
+    list: ({ signal }: RequestOptions = {}) => request<Course[]>('/courses', { signal }),
+    get: (id: number) => request<Course>(`/courses/${id}`),
+    create: (data: CourseDraft) => request<Course>('/courses', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+    update: (course: Course) => request<Course>(`/courses/${course.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(course),
+    }),
+    delete: async (id: number) => {
+      await request<void>(`/courses/${id}`, { method: 'DELETE' });
+    },
+  };
+};
+
+/**
+ * REST attendance repository - GET/POST /attendance/sessions, PUT/DELETE /attendance/sessions/:id
+ */
+export const createHttpAttendanceRepository = (options: HttpRepositoryOptions): AttendanceRepository => {
+  const request = createJsonClient(options);
+
+  return {
+    list: async () => {
+      const sessions = await request<AttendanceSession[]>('/attendance/sessions');
+      return sessions.map(reviveAttendanceSession);
+    },
+    create: async (data: AttendanceSessionDraft) => {
+      return reviveAttendanceSession(await request<AttendanceSession>('/attendance/sessions', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }));
+    },
+    update: async (session: AttendanceSession) => {
+      return reviveAttendanceSession(await request<AttendanceSession>(
+        `/attendance/sessions/${encodeURIComponent(session.id)}`,
+        { method: 'PUT', body: JSON.stringify(session) }
+      ));
+    },
+    delete: async (id: string) => {
+      await request<void>(`/attendance/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+  };
+};
+
+/**
+ * REST audit repository - GET /audit, POST /audit to append entries
+ */
+export const createHttpAuditRepository = (options: HttpRepositoryOptions): AuditRepository => {
+  const request = createJsonClient(options);
+
+  return {
+    list: async ({ signal }: RequestOptions = {}) => {
+      const entries = await request<AuditEntry[]>('/audit', { signal });
+      return entries.map(reviveStudentChange);
+    },
+    append: async (entries: AuditEntry[]) => {
+      await request<void>('/audit', {
+        method: 'POST',
+        body: JSON.stringify(entries),
+      });
+    },
+  };
+};
+
+/**
+ * REST auth service - GET /auth/session, POST /auth/login, POST /auth/logout
+ * The server sets and clears the session cookie; a 401 from /auth/session means signed out
+ */
+export const createHttpAuthService = (options: HttpRepositoryOptions): AuthService => {
+  const request = createJsonClient(options);
+
+  return {
+    currentUser: async () => {
+      try {
+        return await request<User | null>('/auth/session');
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    signIn: (credentials: Credentials) => request<User>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(credentials),
+    }),
+    signOut: async () => {
+      await request<void>('/auth/logout', { method: 'POST' });
+    },
+  };
+};
+
+/**
+ * REST settings repository - GET/PUT /settings
+ */
+export const createHttpSettingsRepository = (options: HttpRepositoryOptions): SettingsRepository => {
+  const request = createJsonClient(options);
+
+  return {
+    get: async () => withDefaultSettings(await request<Partial<Settings> | null>('/settings')),
+    update: (settings: Settings) => request<Settings>('/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
+  };
+};
+
+export const createHttpRepositories = (options: HttpRepositoryOptions): Repositories => ({
+  students: createHttpStudentRepository(options),
+  courses: createHttpCourseRepository(options),
+  attendance: createHttpAttendanceRepository(options),
+  audit: createHttpAuditRepository(options),
+  settings: createHttpSettingsRepository(options),
+  auth: createHttpAuthService(options),
+});
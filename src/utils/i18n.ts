@@ -0,0 +1,322 @@
+// Internationalization - message catalogs, ICU message formatting and locale-aware text helpers
+import { Locale, LocaleDefinition, TextDirection } from '../types';
+import { en, MessageKey, Messages } from '../locales/en';
+import { es } from '../locales/es';
+import { ar } from '../locales/ar';
+
+export type { MessageKey };
+
+export const LOCALES: LocaleDefinition[] = [
+  { code: 'en', label: 'English', dir: 'ltr' },
+  { code: 'es', label: 'Español', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', dir: 'rtl' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, es, ar };
+
+// The choice is per device, so it is known before anyone signs in
+const LOCALE_STORAGE_KEY = 'student-dashboard:locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some(({ code }) => code === value);
+
+export const textDirection = (locale: Locale): TextDirection =>
+  LOCALES.find(({ code }) => code === locale)?.dir ?? 'ltr';
+
+/**
+ * The saved choice, else the first browser language we have a catalog for
+ */
+export const readPreferredLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) {
+      return stored;
+    }
+  } catch {
+    // Storage can be unavailable (e.g. blocked cookies); fall back to the browser
+  }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return languages.map(tag => tag.split('-')[0].toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+export const storePreferredLocale = (locale: Locale): void => {
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Not remembered across reloads, but still applied to this one
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Active locale - for code outside React (validation, fetch errors, sorting)
+// ---------------------------------------------------------------------------
+
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export const getActiveLocale = (): Locale => activeLocale;
+
+// Called by LocaleProvider; components should read the locale from useLocale instead
+export const setActiveLocale = (locale: Locale): void => {
+  activeLocale = locale;
+};
+
+// ---------------------------------------------------------------------------
+// ICU message format
+// ---------------------------------------------------------------------------
+
+export type MessageValues = Record<string, string | number | boolean | Date>;
+
+// A catalog message not rendered yet, for state that outlives a language switch (e.g. undo labels)
+export interface Message {
+  key: MessageKey;
+  values?: MessageValues;
+}
+
+/**
+ * A parsed message: literal text and the arguments between it
+ * `pound` is the # inside a plural branch, standing for the (offset) count
+ */
+type MessagePart =
+  | string
+  | { type: 'argument'; name: string; style?: 'number' | 'date' }
+  | { type: 'plural'; name: string; offset: number; branches: Record<string, MessagePart[]> }
+  | { type: 'select'; name: string; branches: Record<string, MessagePart[]> }
+  | { type: 'pound' };
+
+/**
+ * Parses the subset of ICU MessageFormat the catalogs use:
+ * {name}, {name, number}, {name, date}, {name, plural, offset:n =0 {…} one {…} other {…}},
+ * {name, select, a {…} other {…}} and apostrophe quoting ('' for ', '{' for a literal brace)
+ */
+const parseMessage = (pattern: string): MessagePart[] => {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid message "${pattern}" at ${pos}: ${reason}`);
+  };
+
+  const skipSpace = () => {
+    while (pos < pattern.length && /\s/.test(pattern[pos])) {
+      pos++;
+    }
+  };
+
+  const readUntil = (stops: string): string => {
+    const start = pos;
+    while (pos < pattern.length && !stops.includes(pattern[pos])) {
+      pos++;
+    }
+    return pattern.slice(start, pos).trim();
+  };
+
+  const expect = (char: string) => {
+    if (pattern[pos] !== char) {
+      fail(`expected "${char}"`);
+    }
+    pos++;
+  };
+
+  const parseBranches = (inPlural: boolean): Record<string, MessagePart[]> => {
+    const branches: Record<string, MessagePart[]> = {};
+    for (skipSpace(); pattern[pos] !== '}'; skipSpace()) {
+      const selector = readUntil('{} \t\n');
+      if (!selector) {
+        fail('expected a selector');
+      }
+      skipSpace();
+      expect('{');
+      branches[selector] = parseParts(inPlural);
+      expect('}');
+    }
+    if (!branches.other) {
+      fail('missing the "other" branch');
+    }
+    return branches;
+  };
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    expect('{');
+    const name = readUntil(',}');
+    if (pattern[pos] === '}') {
+      pos++;
+      return { type: 'argument', name };
+    }
+    expect(',');
+    const type = readUntil(',}');
+    if (type === 'number' || type === 'date') {
+      expect('}');
+      return { type: 'argument', name, style: type };
+    }
+    expect(',');
+    let part: MessagePart;
+    if (type === 'plural') {
+      skipSpace();
+      let offset = 0;
+      if (pattern.startsWith('offset:', pos)) {
+        pos += 'offset:'.length;
+        offset = Number(readUntil(' \t\n{'));
+      }
+      part = { type: 'plural', name, offset, branches: parseBranches(true) };
+    } else if (type === 'select') {
+      part = { type: 'select', name, branches: parseBranches(inPlural) };
+    } else {
+      return fail(`unknown argument type "${type}"`);
+    }
+    expect('}');
+    return part;
+  };
+
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) {
+        parts.push(text);
+        text = '';
+      }
+    };
+
+    while (pos < pattern.length && pattern[pos] !== '}') {
+      const char = pattern[pos];
+      if (char === '{') {
+        flush();
+        parts.push(parseArgument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flush();
+        parts.push({ type: 'pound' });
+        pos++;
+      } else if (char === "'" && pattern[pos + 1] === "'") {
+        text += "'";
+        pos += 2;
+      } else if (char === "'" && '{}#'.includes(pattern[pos + 1] ?? '')) {
+        // Quoted literal up to the next apostrophe; a lone apostrophe (as in "don't") is plain text
+        const end = pattern.indexOf("'", pos + 1);
+        const stop = end === -1 ? pattern.length : end;
+        text += pattern.slice(pos + 1, stop);
+        pos = stop + 1;
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+    flush();
+    return parts;
+  };
+
+  const parts = parseParts(false);
+  if (pos < pattern.length) {
+    fail('unmatched "}"');
+  }
+  return parts;
+};
+
+// Catalog patterns are few and fixed, so each is parsed once
+const parsedMessages = new Map<string, MessagePart[]>();
+
+const parse = (pattern: string): MessagePart[] => {
+  let parts = parsedMessages.get(pattern);
+  if (!parts) {
+    parts = parseMessage(pattern);
+    parsedMessages.set(pattern, parts);
+  }
+  return parts;
+};
+
+// Intl objects are costly to build and safe to share
+const intlCache = new Map<string, unknown>();
+
+const cachedIntl = <T>(key: string, create: () => T): T => {
+  if (!intlCache.has(key)) {
+    intlCache.set(key, create());
+  }
+  return intlCache.get(key) as T;
+};
+
+const pluralRules = (locale: Locale) =>
+  cachedIntl(`plural:${locale}`, () => new Intl.PluralRules(locale));
+
+const renderParts = (parts: MessagePart[], values: MessageValues, locale: Locale, count?: number): string =>
+  parts.map(part => {
+    if (typeof part === 'string') {
+      return part;
+    }
+    switch (part.type) {
+      case 'pound':
+        return count === undefined ? '#' : formatNumber(count, locale);
+      case 'argument': {
+        const value = values[part.name];
+        if (value === undefined) {
+          return `{${part.name}}`;
+        }
+        if (value instanceof Date) {
+          return formatDate(value, locale);
+        }
+        return typeof value === 'number' ? formatNumber(value, locale) : String(value);
+      }
+      case 'plural': {
+        const value = Number(values[part.name]);
+        const relative = value - part.offset;
+        // An exact match (=0) wins over the language's plural category
+        const branch = part.branches[`=${value}`]
+          ?? part.branches[pluralRules(locale).select(relative)]
+          ?? part.branches.other;
+        return renderParts(branch, values, locale, relative);
+      }
+      case 'select': {
+        const branch = part.branches[String(values[part.name])] ?? part.branches.other;
+        return renderParts(branch, values, locale, count);
+      }
+    }
+  }).join('');
+
+/**
+ * Fills an ICU message pattern in with values, using the locale's plural rules
+ * and number and date formats
+ */
+export const formatMessage = (pattern: string, values: MessageValues = {}, locale: Locale = activeLocale): string =>
+  renderParts(parse(pattern), values, locale);
+
+/**
+ * The catalog message for a key, falling back to English for anything untranslated
+ */
+export const translate = (key: MessageKey, values?: MessageValues, locale: Locale = activeLocale): string =>
+  formatMessage(CATALOGS[locale][key] ?? en[key] ?? key, values, locale);
+
+// ---------------------------------------------------------------------------
+// Numbers and dates
+// ---------------------------------------------------------------------------
+
+export const formatNumber = (value: number, locale: Locale = activeLocale, options: Intl.NumberFormatOptions = {}): string =>
+  cachedIntl(`number:${locale}:${JSON.stringify(options)}`, () => new Intl.NumberFormat(locale, options)).format(value);
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { dateStyle: 'medium' };
+const DATE_TIME_OPTIONS: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+export const formatDate = (date: Date, locale: Locale = activeLocale, options: Intl.DateTimeFormatOptions = DATE_OPTIONS): string =>
+  cachedIntl(`date:${locale}:${JSON.stringify(options)}`, () => new Intl.DateTimeFormat(locale, options)).format(date);
+
+export const formatDateTime = (date: Date, locale: Locale = activeLocale): string =>
+  formatDate(date, locale, DATE_TIME_OPTIONS);
+
+// ---------------------------------------------------------------------------
+// Collation and search folding
+// ---------------------------------------------------------------------------
+
+/**
+ * Compares text the way the locale sorts it: accents and case are secondary,
+ * digits compare by value ("Room 9" before "Room 10")
+ */
+export const compareText = (a: string, b: string, locale: Locale = activeLocale): number =>
+  cachedIntl(`collator:${locale}`, () => new Intl.Collator(locale, { sensitivity: 'base', numeric: true })).compare(a, b);
+
+// Combining marks (accents, Arabic harakat) and the Arabic tatweel, which only stretches a word
+const IGNORED_IN_SEARCH = /[\p{M}ـ]/gu;
+
+/**
+ * Folds text for matching: drops accents and vowel marks and lowercases with the
+ * locale's rules, so "jose" finds "José" and "محمد" finds "مُحَمَّد"
+ */
+export const foldForSearch = (text: string, locale: Locale = activeLocale): string =>
+  text.normalize('NFD').replace(IGNORED_IN_SEARCH, '').toLocaleLowerCase(locale);
@@ -1,94 +1,89 @@
 // Mock API utilities demonstrating async/await and event loop concepts
-import { Course, Student } from '../types';
+import { Course, User } from '../types';
+import { ApiError } from './repositories';
+import { translate } from './i18n';
 
 /**
  * Simulated network delay to demonstrate async behavior and loading states
- * This function shows how setTimeout works with Promises and the event loop
+ * This function shows how setTimeout works with Promises and the event loop.
+ * Aborting the signal clears the timer and rejects, like a cancelled fetch.
+ * While the browser is offline it fails like fetch does, so the mock backend can
+ * be taken offline from the dev tools too
  */
-const simulateNetworkDelay = (ms: number = 800): Promise<void> => {
-  return new Promise((resolve) => {
+export const simulateNetworkDelay = (ms: number = 800, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      reject(new ApiError(translate('server.offline'), 0));
+      return;
+    }
     // This setTimeout demonstrates the event loop:
     // 1. The callback is placed in the Timer Queue
     // 2. After the specified time, it moves to the Task Queue
     // 3. The Event Loop processes it when the Call Stack is empty
-    setTimeout(() => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
       resolve();
     }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 };
 
 /**
  * Mock courses data - in a real app, this would come from a database
  */
-const mockCourses: Course[] = [
-  { id: 1, name: 'HTML Basics' },
-  { id: 2, name: 'CSS Mastery' },
-  { id: 3, name: 'JavaScript Pro' },
-  { id: 4, name: 'React In Depth' },
-  { id: 5, name: 'Node.js Fundamentals' },
-  { id: 6, name: 'Database Design' },
+export const mockCourses: Course[] = [
+  { id: 1, name: 'HTML Basics', code: 'WEB-101', description: 'Semantic markup, forms and accessibility fundamentals', instructor: 'Ada Lovelace', status: 'active' },
+  { id: 2, name: 'CSS Mastery', code: 'WEB-102', description: 'Layout with flexbox and grid, responsive design', instructor: 'Grace Hopper', status: 'active' },
+  { id: 3, name: 'JavaScript Pro', code: 'JS-201', description: 'Closures, async/await and the event loop', instructor: 'Alan Turing', status: 'active' },
+  { id: 4, name: 'React In Depth', code: 'JS-301', description: 'Hooks, context and performance patterns', instructor: 'Margaret Hamilton', status: 'active' },
+  { id: 5, name: 'Node.js Fundamentals', code: 'NODE-201', description: 'Building HTTP services with Node.js', instructor: 'Linus Torvalds', status: 'active' },
+  { id: 6, name: 'Database Design', code: 'DB-201', description: 'Relational modelling and SQL', instructor: 'Edgar Codd', status: 'active' },
+];
+
+/**
+ * Mock user accounts - every password is "password"
+ * The instructors teach the seeded courses of the same name
+ */
+export const mockUsers: (User & { password: string })[] = [
+  { id: 'user-admin', name: 'Avery Admin', email: 'admin@example.com', password: 'password', role: 'admin', courseIds: [] },
+  { id: 'user-ada', name: 'Ada Lovelace', email: 'ada@example.com', password: 'password', role: 'instructor', courseIds: [1] },
+  { id: 'user-grace', name: 'Grace Hopper', email: 'grace@example.com', password: 'password', role: 'instructor', courseIds: [2] },
+  { id: 'user-viewer', name: 'Val Viewer', email: 'viewer@example.com', password: 'password', role: 'viewer', courseIds: [] },
 ];
 
 /**
  * Fetches available courses with simulated network delay
  * Demonstrates async/await pattern and error handling
+ * The mock server passes its own course table; the seed data is the default
  */
-export const fetchCourses = async (): Promise<Course[]> => {
+export const fetchCourses = async (courses: Course[] = mockCourses, signal?: AbortSignal): Promise<Course[]> => {
   try {
     // Simulate network request - demonstrates async/await
-    await simulateNetworkDelay(600);
+    await simulateNetworkDelay(600, signal);
     
     // Simulate occasional network failures (10% chance)
     if (Math.random() < 0.1) {
-      throw new Error('Network error: Unable to fetch courses');
+      throw new Error(translate('courses.networkError'));
     }
     
     // Return deep copy to prevent mutation
-    return JSON.parse(JSON.stringify(mockCourses));
+    return JSON.parse(JSON.stringify(courses));
   } catch (error) {
-    // Re-throw with context for better error handling
-    throw new Error(`Failed to fetch courses: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-};
-
-/**
- * Validates student data on the "server side"
- * Demonstrates async validation and error responses with event loop timing
- */
-export const validateStudentOnServer = async (studentData: Omit<Student, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> => {
-  // This demonstrates the event loop with multiple async operations:
-  console.log('1. Validation started (synchronous)');
-  
-  // Immediate promise (microtask queue)
-  await Promise.resolve().then(() => {
-    console.log('2. Microtask executed before setTimeout');
-  });
-  
-  // Timer-based delay (task queue)
-  await simulateNetworkDelay(300);
-  console.log('3. Network delay completed (after timer)');
-  
-  // Simulate email uniqueness check
-  const existingEmails = ['test@example.com', 'admin@test.com'];
-  if (existingEmails.includes(studentData.email.toLowerCase())) {
-    throw new Error('A student with this email already exists');
+    // A cancelled request is reported as such, not as a failure
+    if (signal?.aborted) {
+      throw error;
+    }
+    // Re-throw with context for better error handling, in the user's language
+    throw new Error(translate('courses.fetchFailed', {
+      reason: error instanceof Error ? error.message : translate('common.unknownError'),
+    }));
   }
-  
-  console.log('4. Validation completed successfully');
 };
-
-/**
- * Generates random student profile images from Pexels
- * Demonstrates array methods and randomization
- */
-export const getRandomProfileImage = (): string => {
-  const profileImages = [
-    'https://images.pexels.com/photos/1462630/pexels-photo-1462630.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop&crop=face',
-    'https://images.pexels.com/photos/1036623/pexels-photo-1036623.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop&crop=face',
-    'https://images.pexels.com/photos/1065084/pexels-photo-1065084.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop&crop=face',
-    'https://images.pexels.com/photos/1043471/pexels-photo-1043471.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop&crop=face',
-    'https://images.pexels.com/photos/1181690/pexels-photo-1181690.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop&crop=face'
-  ];
-  
-  return profileImages[Math.floor(Math.random() * profileImages.length)];
-};
\ No newline at end of file
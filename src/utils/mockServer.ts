@@ -0,0 +1,549 @@
+// In-process mock server - demonstrates a fake backend behind the repository interfaces
+import { AttendanceSession, AttendanceSessionDraft, AuditActor, AuditEntry, Course, Credentials, CourseDraft, Settings, Student, StudentChange, StudentChangeType, StudentDraft, PageRequest, User, ValidationErrors } from '../types';
+import { ApiError, AttendanceRepository, AuditRepository, AuthService, CourseRepository, Repositories, RequestOptions, SettingsRepository, StudentRepository, ValidateOptions, WriteOptions, paginateStudents } from './repositories';
+import { StorageAdapter, STORAGE_KEYS, reviveAttendanceSession, reviveStudent, reviveStudentChange } from './storage';
+import { isLegacyStudent, materializeEnrollments, moveEnrollments, referencesCourse } from './enrollment';
+import { fetchCourses, mockCourses, mockUsers, simulateNetworkDelay } from './mockApi';
+import { withDefaultSettings } from './settings';
+import { TabChannel, createTabChannel } from './tabSync';
+import { hasValidationErrors, isDuplicateEmail } from './validation';
+import { translate } from './i18n';
+
+/**
+ * A "database table" kept in a storage adapter
+ * Loaded once, then served from memory; every write is persisted.
+ * Rows matching needsMigration are revived and written back on first read.
+ */
+interface MockTable<T> {
+  read: () => Promise<T[]>;
+  write: (rows: T[]) => Promise<void>;
+  // Drops the rows held in memory, so the next read goes back to storage
+  forget: () => void;
+  // Runs a read-modify-write once the ones queued before it have finished, like a row lock;
+  // without it two writers read the same rows and the later write drops the earlier one's change
+  transact: <R>(task: () => Promise<R>) => Promise<R>;
+}
+
+const createMockTable = <T>(
+  storage: StorageAdapter,
+  key: string,
+  seed: T[],
+  revive: (row: T) => T = row => row,
+  needsMigration: (row: T) => boolean = () => false
+): MockTable<T> => {
+  let rowsPromise: Promise<T[]> | null = null;
+  let pendingTask: Promise<unknown> = Promise.resolve();
+
+  return {
+    read: () => {
+      if (!rowsPromise) {
+        rowsPromise = storage.getItem<T[]>(key).then(async stored => {
+          const rows = (stored ?? seed).map(revive);
+          if (stored?.some(needsMigration)) {
+            await storage.setItem(key, rows);
+          }
+          return rows;
+        });
+      }
+      return rowsPromise;
+    },
+    write: async (rows: T[]) => {
+      await storage.setItem(key, rows);
+      rowsPromise = Promise.resolve(rows);
+    },
+    forget: () => {
+      rowsPromise = null;
+    },
+    transact: <R>(task: () => Promise<R>) => {
+      const run = pendingTask.then(task);
+      // A failed task must not block the ones queued after it
+      pendingTask = run.catch(() => undefined);
+      return run;
+    },
+  };
+};
+
+/**
+ * Every open tab runs its own mock server over the same storage. A write in one tab
+ * tells the others to drop their copy of the table, so they don't write stale rows back
+ */
+const shareAcrossTabs = <T>(table: MockTable<T>, key: string, channel: TabChannel<string>): MockTable<T> => {
+  channel.subscribe(changedKey => {
+    if (changedKey === key) {
+      table.forget();
+    }
+  });
+  return {
+    ...table,
+    write: async (rows: T[]) => {
+      await table.write(rows);
+      channel.post(key);
+    },
+  };
+};
+
+/**
+ * Student repository backed by a mock table
+ * Every mutation also appends to the history table, like a server-side change log,
+ * attributed to the signed-in user the way a server would read it off the session
+ */
+const createMockStudentRepository = (
+  studentTable: MockTable<Student>,
+  courseTable: MockTable<Course>,
+  historyTable: MockTable<StudentChange>,
+  currentActor: () => Promise<AuditActor | null>
+): StudentRepository => {
+  const change = (
+    type: StudentChangeType,
+    before: Student | null,
+    after: Student | null,
+    at: Date
+  ): StudentChange => ({
+    id: crypto.randomUUID(),
+    studentId: (after ?? before)!.id,
+    type,
+    at,
+    before,
+    after,
+  });
+
+  const recordChanges = async (changes: StudentChange[]) => {
+    if (changes.length > 0) {
+      const actor = await currentActor();
+      const attributed = actor ? changes.map(c => ({ ...c, actor })) : changes;
+      await historyTable.transact(async () => {
+        await historyTable.write([...await historyTable.read(), ...attributed]);
+      });
+    }
+  };
+
+  const createRecord = (data: StudentDraft, now: Date): Student => {
+    const id = crypto.randomUUID();
+    return {
+      ...data,
+      id,
+      enrollments: materializeEnrollments(id, data.enrollments, now),
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  const updateRecord = (existing: Student, changes: Student, now: Date): Student => ({
+    ...changes,
+    enrollments: materializeEnrollments(changes.id, changes.enrollments, now),
+    createdAt: existing.createdAt,
+    updatedAt: now,
+  });
+
+  const findStudent = (students: Student[], id: string): Student => {
+    const student = students.find(s => s.id === id);
+    if (!student) {
+      throw new ApiError(translate('server.studentNotFound', { id }), 404);
+    }
+    return student;
+  };
+
+  /**
+   * Server-side rules for the fields present - the checks a client can't do
+   * reliably on its own because they depend on the whole roster
+   */
+  const checkStudent = async (
+    data: Partial<StudentDraft>,
+    students: Student[],
+    excludeId?: string
+  ): Promise<ValidationErrors> => {
+    const errors: ValidationErrors = {};
+    if (data.email !== undefined && isDuplicateEmail(data.email, students, excludeId)) {
+      errors.email = translate('validation.emailTaken');
+    }
+    if (data.enrollments) {
+      const courseIds = new Set((await courseTable.read()).map(course => course.id));
+      const missing = data.enrollments.find(enrollment => !courseIds.has(enrollment.courseId));
+      if (missing) {
+        errors.enrollments = translate('server.courseGone', { id: String(missing.courseId) });
+      }
+    }
+    return errors;
+  };
+
+  // Rejects a write the way a REST backend would: 409 with the failing fields
+  const assertValid = (errors: ValidationErrors) => {
+    if (hasValidationErrors(errors)) {
+      throw new ApiError(Object.values(errors).join('; '), 409, errors);
+    }
+  };
+
+  // The If-Match check of a REST backend: refuse writes based on an outdated copy
+  const assertUnchanged = (existing: Student, { expectedUpdatedAt }: WriteOptions = {}) => {
+    if (expectedUpdatedAt && existing.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+      throw new ApiError(translate('server.changedElsewhere', { name: existing.name }), 412);
+    }
+  };
+
+  return {
+    list: async ({ signal }: RequestOptions = {}) => {
+      await simulateNetworkDelay(300, signal);
+      return [...await studentTable.read()];
+    },
+    get: async (id: string) => {
+      await simulateNetworkDelay(200);
+      return findStudent(await studentTable.read(), id);
+    },
+    create: async (data: StudentDraft) => {
+      await simulateNetworkDelay(300);
+      return studentTable.transact(async () => {
+        assertValid(await checkStudent(data, await studentTable.read()));
+        const now = new Date();
+        const created = createRecord(data, now);
+        await studentTable.write([...await studentTable.read(), created]);
+        await recordChanges([change('created', null, created, now)]);
+        return created;
+      });
+    },
+    createMany: async (data: StudentDraft[]) => {
+      await simulateNetworkDelay(500);
+      return studentTable.transact(async () => {
+        const students = await studentTable.read();
+        const now = new Date();
+        const created: Student[] = [];
+        // Each row is checked against the roster and the rows before it, so a batch can't duplicate itself
+        for (const draft of data) {
+          assertValid(await checkStudent(draft, [...students, ...created]));
+          created.push(createRecord(draft, now));
+        }
+        // One write for the whole batch
+        await studentTable.write([...students, ...created]);
+        await recordChanges(created.map(student => change('created', null, student, now)));
+        return created;
+      });
+    },
+    update: async (student: Student, options?: WriteOptions) => {
+      await simulateNetworkDelay(300);
+      return studentTable.transact(async () => {
+        const students = await studentTable.read();
+        const now = new Date();
+        const existing = findStudent(students, student.id);
+        assertUnchanged(existing, options);
+        assertValid(await checkStudent(student, students, student.id));
+        const updated = updateRecord(existing, student, now);
+        await studentTable.write(students.map(s => (s.id === updated.id ? updated : s)));
+        await recordChanges([change('updated', existing, updated, now)]);
+        return updated;
+      });
+    },
+    updateMany: async (changes: Student[]) => {
+      await simulateNetworkDelay(500);
+      return studentTable.transact(async () => {
+        const students = await studentTable.read();
+        const now = new Date();
+        const existing = changes.map(({ id }) => findStudent(students, id));
+        // Checked like createMany: against the rest of the roster and the records before it
+        const changedIds = new Set(changes.map(({ id }) => id));
+        const others = students.filter(s => !changedIds.has(s.id));
+        for (const [i, record] of changes.entries()) {
+          assertValid(await checkStudent(record, [...others, ...changes.slice(0, i)]));
+        }
+        const updated = changes.map((record, i) => updateRecord(existing[i], record, now));
+        const byId = new Map(updated.map(student => [student.id, student]));
+        // One write for the whole batch
+        await studentTable.write(students.map(s => byId.get(s.id) ?? s));
+        await recordChanges(updated.map((student, i) => change('updated', existing[i], student, now)));
+        return updated;
+      });
+    },
+    delete: async (id: string, options?: WriteOptions) => {
+      await simulateNetworkDelay(300);
+      return studentTable.transact(async () => {
+        const students = await studentTable.read();
+        const existing = findStudent(students, id);
+        assertUnchanged(existing, options);
+        await studentTable.write(students.filter(s => s.id !== id));
+        await recordChanges([change('deleted', existing, null, new Date())]);
+      });
+    },
+    deleteMany: async (ids: string[]) => {
+      await simulateNetworkDelay(500);
+      return studentTable.transact(async () => {
+        const students = await studentTable.read();
+        const existing = ids.map(id => findStudent(students, id));
+        const removed = new Set(ids);
+        await studentTable.write(students.filter(s => !removed.has(s.id)));
+        const now = new Date();
+        await recordChanges(existing.map(student => change('deleted', student, null, now)));
+      });
+    },
+    restoreMany: async (records: Student[]) => {
+      await simulateNetworkDelay(500);
+      return studentTable.transact(async () => {
+        const students = await studentTable.read();
+        const existing = new Set(students.map(student => student.id));
+        const clash = records.find(record => existing.has(record.id));
+        if (clash) {
+          throw new ApiError(translate('server.studentExists', { id: clash.id }), 409);
+        }
+        // The email or a course may have gone elsewhere since the records were removed
+        for (const [i, record] of records.entries()) {
+          assertValid(await checkStudent(record, [...students, ...records.slice(0, i)]));
+        }
+        const now = new Date();
+        const restored = records.map(record => ({ ...record, updatedAt: now }));
+        await studentTable.write([...students, ...restored]);
+        await recordChanges(restored.map(student => change('restored', null, student, now)));
+        return restored;
+      });
+    },
+    query: async (request: PageRequest) => {
+      await simulateNetworkDelay(300);
+      return paginateStudents(await studentTable.read(), request);
+    },
+    reassignCourse: async (fromCourseId: number, toCourseId: number) => {
+      await simulateNetworkDelay(300);
+      return studentTable.transact(async () => {
+        if (!(await courseTable.read()).some(course => course.id === toCourseId)) {
+          throw new ApiError(translate('server.courseNotFound', { id: String(toCourseId) }), 404);
+        }
+        const now = new Date();
+        const moved: Student[] = [];
+        const changes: StudentChange[] = [];
+        const students = (await studentTable.read()).map(student => {
+          if (!referencesCourse(student, fromCourseId)) {
+            return student;
+          }
+          const updated = {
+            ...student,
+            enrollments: moveEnrollments(student, fromCourseId, toCourseId),
+            updatedAt: now,
+          };
+          moved.push(updated);
+          changes.push(change('updated', student, updated, now));
+          return updated;
+        });
+        await studentTable.write(students);
+        await recordChanges(changes);
+        return moved;
+      });
+    },
+    history: async (id: string, { signal }: RequestOptions = {}) => {
+      await simulateNetworkDelay(200, signal);
+      const changes = (await historyTable.read()).filter(entry => entry.studentId === id);
+      // Deleted students keep their history; only ids never seen at all are unknown
+      if (changes.length === 0) {
+        findStudent(await studentTable.read(), id);
+      }
+      return changes;
+    },
+    validate: async (data: Partial<StudentDraft>, { excludeId, signal }: ValidateOptions = {}) => {
+      await simulateNetworkDelay(250, signal);
+      return checkStudent(data, await studentTable.read(), excludeId);
+    },
+  };
+};
+
+/**
+ * Course repository backed by a mock table seeded from mockCourses
+ * Listing still goes through fetchCourses so the flaky-network simulation stays
+ */
+const createMockCourseRepository = (
+  courseTable: MockTable<Course>,
+  studentTable: MockTable<Student>
+): CourseRepository => {
+  const findCourse = (courses: Course[], id: number): Course => {
+    const course = courses.find(c => c.id === id);
+    if (!course) {
+      throw new ApiError(translate('server.courseNotFound', { id: String(id) }), 404);
+    }
+    return course;
+  };
+
+  const assertUniqueCode = (courses: Course[], code: string, excludeId?: number) => {
+    if (courses.some(c => c.id !== excludeId && c.code.toLowerCase() === code.toLowerCase())) {
+      throw new ApiError(translate('server.courseCodeTaken', { code }), 409);
+    }
+  };
+
+  return {
+    list: async ({ signal }: RequestOptions = {}) => fetchCourses(await courseTable.read(), signal),
+    get: async (id: number) => {
+      await simulateNetworkDelay(200);
+      return findCourse(await courseTable.read(), id);
+    },
+    create: async (data: CourseDraft) => {
+      await simulateNetworkDelay(300);
+      return courseTable.transact(async () => {
+        const courses = await courseTable.read();
+        assertUniqueCode(courses, data.code);
+        const created: Course = {
+          ...data,
+          id: courses.reduce((max, course) => Math.max(max, course.id), 0) + 1,
+        };
+        await courseTable.write([...courses, created]);
+        return created;
+      });
+    },
+    update: async (course: Course) => {
+      await simulateNetworkDelay(300);
+      return courseTable.transact(async () => {
+        const courses = await courseTable.read();
+        findCourse(courses, course.id);
+        assertUniqueCode(courses, course.code, course.id);
+        await courseTable.write(courses.map(c => (c.id === course.id ? course : c)));
+        return course;
+      });
+    },
+    delete: async (id: number) => {
+      await simulateNetworkDelay(300);
+      return courseTable.transact(async () => {
+        const courses = await courseTable.read();
+        findCourse(courses, id);
+        // Completed and dropped enrollments still reference the course, so they block deletion too
+        const enrolled = (await studentTable.read()).filter(student => referencesCourse(student, id)).length;
+        if (enrolled > 0) {
+          throw new ApiError(translate('server.courseHasStudents', { count: enrolled }), 409);
+        }
+        await courseTable.write(courses.filter(c => c.id !== id));
+      });
+    },
+  };
+};
+
+/**
+ * Attendance repository backed by a mock table
+ */
+const createMockAttendanceRepository = (
+  sessionTable: MockTable<AttendanceSession>,
+  courseTable: MockTable<Course>
+): AttendanceRepository => {
+  const findSession = (sessions: AttendanceSession[], id: string): AttendanceSession => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) {
+      throw new ApiError(translate('server.sessionNotFound', { id }), 404);
+    }
+    return session;
+  };
+
+  return {
+    list: async () => {
+      await simulateNetworkDelay(300);
+      return [...await sessionTable.read()];
+    },
+    create: async (data: AttendanceSessionDraft) => {
+      await simulateNetworkDelay(300);
+      return sessionTable.transact(async () => {
+        if (!(await courseTable.read()).some(course => course.id === data.courseId)) {
+          throw new ApiError(translate('server.courseNotFound', { id: String(data.courseId) }), 404);
+        }
+        const created: AttendanceSession = { ...data, id: crypto.randomUUID() };
+        await sessionTable.write([...await sessionTable.read(), created]);
+        return created;
+      });
+    },
+    update: async (session: AttendanceSession) => {
+      await simulateNetworkDelay(300);
+      return sessionTable.transact(async () => {
+        const sessions = await sessionTable.read();
+        findSession(sessions, session.id);
+        await sessionTable.write(sessions.map(s => (s.id === session.id ? session : s)));
+        return session;
+      });
+    },
+    delete: async (id: string) => {
+      await simulateNetworkDelay(300);
+      return sessionTable.transact(async () => {
+        const sessions = await sessionTable.read();
+        findSession(sessions, id);
+        await sessionTable.write(sessions.filter(s => s.id !== id));
+      });
+    },
+  };
+};
+
+/**
+ * Audit repository backed by a mock table
+ */
+const createMockAuditRepository = (auditTable: MockTable<AuditEntry>): AuditRepository => ({
+  list: async ({ signal }: RequestOptions = {}) => {
+    await simulateNetworkDelay(300, signal);
+    return [...await auditTable.read()];
+  },
+  append: (entries: AuditEntry[]) =>
+    auditTable.transact(async () => {
+      await auditTable.write([...await auditTable.read(), ...entries]);
+    }),
+});
+
+/**
+ * Settings repository - a single document in the storage adapter
+ */
+const createMockSettingsRepository = (storage: StorageAdapter): SettingsRepository => ({
+  get: async () => {
+    await simulateNetworkDelay(200);
+    return withDefaultSettings(await storage.getItem<Partial<Settings>>(STORAGE_KEYS.settings));
+  },
+  update: async (settings: Settings) => {
+    await simulateNetworkDelay(300);
+    await storage.setItem(STORAGE_KEYS.settings, settings);
+    return settings;
+  },
+});
+
+/**
+ * Auth service over the mock user accounts
+ * The session is the signed-in user's id in the storage adapter, so it survives reloads
+ */
+const createMockAuthService = (storage: StorageAdapter): AuthService => {
+  // Never hand out the password field
+  const toUser = ({ id, name, email, role, courseIds }: User): User => ({ id, name, email, role, courseIds });
+
+  const currentUser = async () => {
+    const userId = await storage.getItem<string>(STORAGE_KEYS.session);
+    const account = mockUsers.find(user => user.id === userId);
+    return account ? toUser(account) : null;
+  };
+
+  return {
+    currentUser,
+    signIn: async ({ email, password }: Credentials) => {
+      await simulateNetworkDelay(400);
+      const account = mockUsers.find(user => user.email.toLowerCase() === email.trim().toLowerCase());
+      // The same message either way, so the form doesn't reveal which emails exist
+      if (!account || account.password !== password) {
+        throw new ApiError(translate('server.invalidCredentials'), 401);
+      }
+      await storage.setItem(STORAGE_KEYS.session, account.id);
+      return toUser(account);
+    },
+    signOut: async () => {
+      await storage.removeItem(STORAGE_KEYS.session);
+    },
+    demoAccounts: mockUsers.map(({ email, password, name, role }) => ({ email, password, name, role })),
+  };
+};
+
+export const createMockServer = (
+  storage: StorageAdapter,
+  tableChannel: TabChannel<string> = createTabChannel('mock-server-tables')
+): Repositories => {
+  const table = <T>(key: string, seed: T[], revive?: (row: T) => T, needsMigration?: (row: T) => boolean) =>
+    shareAcrossTabs(createMockTable<T>(storage, key, seed, revive, needsMigration), key, tableChannel);
+
+  const studentTable = table<Student>(STORAGE_KEYS.students, [], reviveStudent, isLegacyStudent);
+  const courseTable = table<Course>(STORAGE_KEYS.courses, mockCourses);
+  const historyTable = table<StudentChange>(STORAGE_KEYS.studentHistory, [], reviveStudentChange);
+  const sessionTable = table<AttendanceSession>(STORAGE_KEYS.attendance, [], reviveAttendanceSession);
+  const auditTable = table<AuditEntry>(STORAGE_KEYS.auditLog, [], reviveStudentChange);
+
+  const auth = createMockAuthService(storage);
+  const currentActor = async (): Promise<AuditActor | null> => {
+    const user = await auth.currentUser();
+    return user && { id: user.id, name: user.name };
+  };
+
+  return {
+    students: createMockStudentRepository(studentTable, courseTable, historyTable, currentActor),
+    courses: createMockCourseRepository(courseTable, studentTable),
+    attendance: createMockAttendanceRepository(sessionTable, courseTable),
+    audit: createMockAuditRepository(auditTable),
+    settings: createMockSettingsRepository(storage),
+    auth,
+  };
+};
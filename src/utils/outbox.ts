@@ -0,0 +1,153 @@
+// Outbox - student writes queued locally until the server accepts them
+import { OutboxEntry, Student, StudentDraft } from '../types';
+import { StorageAdapter, STORAGE_KEYS, reviveOutboxEntry } from './storage';
+import { materializeEnrollments } from './enrollment';
+import { diffStudents } from './studentHistory';
+
+// A write as the roster made it, before it is queued
+export type OutboxWrite = Pick<OutboxEntry, 'operation' | 'studentId' | 'student' | 'previous'>;
+
+/**
+ * Durable home of one user's outbox, so queued writes survive a reload
+ */
+export interface OutboxStore {
+  load: () => Promise<OutboxEntry[]>;
+  save: (entries: OutboxEntry[]) => Promise<void>;
+}
+
+/**
+ * Each user gets their own outbox - writes are only ever replayed under the session that made them
+ */
+export const createOutboxStore = (storage: StorageAdapter, userId: string): OutboxStore => {
+  const key = `${STORAGE_KEYS.outbox}:${userId}`;
+  return {
+    load: async () => ((await storage.getItem<OutboxEntry[]>(key)) ?? []).map(reviveOutboxEntry),
+    save: entries => (entries.length > 0 ? storage.setItem(key, entries) : storage.removeItem(key)),
+  };
+};
+
+/**
+ * The record a create shows until the server answers - shaped like the server's, under a temporary id
+ */
+export const createLocalStudent = (draft: StudentDraft, now: Date): Student => {
+  const id = crypto.randomUUID();
+  return {
+    ...draft,
+    id,
+    enrollments: materializeEnrollments(id, draft.enrollments, now),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * A local record as the payload of a create; the server assigns the id and timestamps
+ */
+export const toStudentDraft = (student: Student): StudentDraft => ({
+  name: student.name,
+  email: student.email,
+  tags: student.tags,
+  profileImage: student.profileImage,
+  customFields: student.customFields,
+  enrollments: student.enrollments.map(({ courseId, status, enrolledAt }) => ({ courseId, status, enrolledAt })),
+});
+
+/**
+ * Adds a write to the outbox, folding it into the student's queued entry when there is one
+ * A write already on its way can't be changed, so one made meanwhile queues behind it.
+ * Returns the new outbox, the entry now carrying the write (null when a create and a
+ * delete cancel out) and the entry that was cancelled, if any
+ */
+export const enqueueWrite = (
+  outbox: OutboxEntry[],
+  write: OutboxWrite,
+  now: Date
+): { outbox: OutboxEntry[]; entry: OutboxEntry | null; cancelled: OutboxEntry | null } => {
+  const index = outbox.findIndex(entry => entry.studentId === write.studentId && entry.status !== 'syncing');
+
+  if (index === -1) {
+    const entry: OutboxEntry = {
+      ...write,
+      id: crypto.randomUUID(),
+      expectedUpdatedAt: write.previous?.updatedAt,
+      queuedAt: now,
+      status: 'pending',
+    };
+    return { outbox: [...outbox, entry], entry, cancelled: null };
+  }
+
+  const existing = outbox[index];
+  // A student created and deleted before the server heard of it never needs to reach it
+  if (existing.operation === 'create' && write.operation === 'delete') {
+    return { outbox: outbox.filter(entry => entry !== existing), entry: null, cancelled: existing };
+  }
+  // The earlier entry keeps its base copy, so a conflict or rollback spans every folded change
+  const entry: OutboxEntry = {
+    ...existing,
+    operation: existing.operation === 'create' ? 'create' : write.operation,
+    student: write.student,
+  };
+  return { outbox: outbox.map(e => (e === existing ? entry : e)), entry, cancelled: null };
+};
+
+/**
+ * A queued change re-pointed at the server's copy of its student: the id a create was
+ * given, the enrollment ids it assigned and the updatedAt the next write must expect
+ */
+const rebase = (entry: OutboxEntry, server: Student): OutboxEntry => {
+  const serverEnrollments = new Map(server.enrollments.map(enrollment => [enrollment.courseId, enrollment]));
+  return {
+    ...entry,
+    studentId: server.id,
+    student: entry.student && {
+      ...entry.student,
+      id: server.id,
+      enrollments: entry.student.enrollments.map(enrollment => ({
+        ...enrollment,
+        id: serverEnrollments.get(enrollment.courseId)?.id ?? enrollment.id,
+        studentId: server.id,
+      })),
+      createdAt: server.createdAt,
+      updatedAt: server.updatedAt,
+    },
+    previous: server,
+    expectedUpdatedAt: server.updatedAt,
+  };
+};
+
+/**
+ * Removes a written entry; changes queued behind it for the same student are rebased onto
+ * the server's copy, or dropped with it when the student is gone
+ */
+export const completeEntry = (outbox: OutboxEntry[], written: OutboxEntry, server: Student | null): OutboxEntry[] =>
+  outbox
+    .filter(entry => entry.id !== written.id && !(server === null && entry.studentId === written.studentId))
+    .map(entry => (server && entry.studentId === written.studentId ? rebase(entry, server) : entry));
+
+/**
+ * Removes a refused entry together with anything queued behind it for the same student,
+ * which was built on the change that has just been refused
+ */
+export const dropEntry = (outbox: OutboxEntry[], refused: OutboxEntry): OutboxEntry[] =>
+  outbox.filter(entry => entry.studentId !== refused.studentId);
+
+/**
+ * The roster as this client should show it: the server's copy with every queued write on top
+ */
+export const applyOutbox = (students: Student[], outbox: OutboxEntry[]): Student[] =>
+  outbox.reduce((roster, entry) => {
+    const others = roster.filter(student => student.id !== entry.studentId);
+    if (entry.operation === 'delete' || !entry.student) {
+      return others;
+    }
+    return others.length === roster.length
+      ? [...roster, entry.student]
+      : roster.map(student => (student.id === entry.studentId ? entry.student! : student));
+  }, students);
+
+/**
+ * Whether two copies of a student hold the same data - a write that reached the server
+ * before its answer got lost comes back as a "conflict" with itself
+ */
+export const isSameStudent = (a: Student | null, b: Student | null): boolean =>
+  a !== null && b !== null && diffStudents(a, b, []).length === 0;
@@ -0,0 +1,67 @@
+// Permissions - what each role may do, and which courses and students an instructor sees
+import { Course, Permission, Role, Student, User } from '../types';
+import { translate } from './i18n';
+
+export const ROLES: { role: Role; label: string }[] = [
+  { role: 'admin', label: 'Admin' },
+  { role: 'instructor', label: 'Instructor' },
+  { role: 'viewer', label: 'Viewer' },
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'student:create',
+    'student:update',
+    'student:delete',
+    'course:manage',
+    'grade:record',
+    'attendance:record',
+    'settings:manage',
+    'audit:view',
+  ],
+  // Instructors run their own courses but can't remove students or change the catalogue
+  instructor: ['student:create', 'student:update', 'grade:record', 'attendance:record'],
+  viewer: [],
+};
+
+/**
+ * Error thrown when the signed-in user tries something their role doesn't allow
+ */
+export class PermissionError extends Error {
+  readonly permission: Permission;
+
+  constructor(permission: Permission) {
+    super(translate('access.noPermission', { permission }));
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+export const hasPermission = (user: User | null, permission: Permission): boolean =>
+  user !== null && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// In the active locale; ROLES keeps the English names
+export const roleLabel = (role: Role): string => translate(`role.${role}`);
+
+/**
+ * Instructors are scoped to the courses they teach; everyone else sees every course
+ */
+export const isInCourseScope = (user: User | null, courseId: number): boolean =>
+  user !== null && (user.role !== 'instructor' || user.courseIds.includes(courseId));
+
+export const scopeCourses = (user: User | null, courses: Course[]): Course[] =>
+  user?.role === 'instructor' ? courses.filter(course => user.courseIds.includes(course.id)) : courses;
+
+// An instructor sees a student who has ever been enrolled in one of their courses
+export const isStudentInScope = (user: User | null, student: Student): boolean =>
+  user?.role !== 'instructor' ||
+  student.enrollments.some(enrollment => user.courseIds.includes(enrollment.courseId));
+
+export const scopeStudents = (user: User | null, students: Student[]): Student[] =>
+  user?.role === 'instructor' ? students.filter(student => isStudentInScope(user, student)) : students;
+
+/**
+ * Whether the user may take a permission-gated action on one course, e.g. recording its grades
+ */
+export const canInCourse = (user: User | null, permission: Permission, courseId: number): boolean =>
+  hasPermission(user, permission) && isInCourseScope(user, courseId);
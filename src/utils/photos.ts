@@ -0,0 +1,104 @@
+// Profile photos - file checks, cropping and resizing in the browser before anything is stored
+import { translate } from './i18n';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Smaller sources would have to be upscaled into a blurry thumbnail
+export const MIN_IMAGE_SIZE = 64;
+
+// Side of the stored square thumbnail; a JPEG this size is typically 10-30 KB as a data URL
+export const THUMBNAIL_SIZE = 256;
+
+// A square region of the source image, in source pixels
+export interface CropArea {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/**
+ * A profile image as text for the history and audit log - uploaded photos are data URLs far too long to show
+ */
+export const describeProfileImage = (profileImage: string | undefined): string => {
+  if (!profileImage) {
+    return '';
+  }
+  return profileImage.startsWith('data:') ? translate('photo.uploaded') : profileImage;
+};
+
+/**
+ * Problems with a picked or dropped file, checked before it is decoded
+ */
+export const validateImageFile = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return translate('photo.invalidType');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return translate('photo.tooLarge', { max: MAX_UPLOAD_BYTES / (1024 * 1024) });
+  }
+  return null;
+};
+
+/**
+ * Decodes a file into an image element; rejects for files the browser can't read
+ * The image's object URL stays valid for previewing; release it with URL.revokeObjectURL(image.src)
+ */
+export const loadImage = (file: File, minSize = MIN_IMAGE_SIZE): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      if (image.naturalWidth < minSize || image.naturalHeight < minSize) {
+        URL.revokeObjectURL(url);
+        reject(new Error(translate('photo.tooSmall', { size: minSize })));
+      } else {
+        resolve(image);
+      }
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(translate('photo.unreadable')));
+    };
+    image.src = url;
+  });
+
+/**
+ * The largest centred square - where the crop starts
+ */
+export const centeredCrop = (width: number, height: number): CropArea => {
+  const size = Math.min(width, height);
+  return { x: (width - size) / 2, y: (height - size) / 2, size };
+};
+
+/**
+ * Keeps a crop inside the image; the size is limited by the shorter side
+ */
+export const clampCrop = (crop: CropArea, width: number, height: number): CropArea => {
+  const size = Math.min(Math.max(crop.size, 1), width, height);
+  return {
+    size,
+    x: Math.min(Math.max(crop.x, 0), width - size),
+    y: Math.min(Math.max(crop.y, 0), height - size),
+  };
+};
+
+/**
+ * Draws the cropped square at thumbnail size and encodes it as a JPEG data URL
+ * JPEG has no transparency, so transparent PNGs are flattened onto white first
+ */
+export const renderThumbnail = (image: HTMLImageElement, crop: CropArea, size = THUMBNAIL_SIZE): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(translate('photo.unsupported'));
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
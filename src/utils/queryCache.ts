@@ -0,0 +1,281 @@
+// Query cache - keyed server state shared across components, with retries and cancellation
+import { QueryState } from '../types';
+import { ApiError } from './repositories';
+import { translate } from './i18n';
+
+// Loads the data of one query; the signal is aborted when nobody needs the result any more
+export type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Exponential backoff - retry n waits about baseDelay * 2^n, capped at maxDelay
+ */
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+  // Which failures are worth another attempt (default: isTransientError)
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export interface FetchOptions {
+  retry?: RetryOptions;
+  // Aborting it stops this caller waiting; the request itself is cancelled once no one else is
+  signal?: AbortSignal;
+}
+
+/**
+ * Shared store of query results, one entry per key
+ * Entries hold the last data even after an error, so stale data can stay on screen
+ */
+export interface QueryCache {
+  getState: <T>(key: string) => QueryState<T>;
+  subscribe: (key: string, listener: () => void) => () => void;
+  // Starts a request for the key, or joins the one already running
+  fetch: <T>(key: string, fetcher: Fetcher<T>, options?: FetchOptions) => Promise<T>;
+  // Writes a mutation's confirmed result into the cache without a request
+  setData: <T>(key: string, update: (data: T | null) => T) => void;
+  // Marks every query under a key prefix stale; the ones on screen refetch straight away
+  invalidate: (prefix: string) => void;
+}
+
+/**
+ * Well-known query keys - "/" separates the levels an invalidation can target,
+ * so invalidating 'students' also covers every student's history
+ */
+export const queryKeys = {
+  courses: 'courses',
+  students: 'students',
+  studentHistory: (id: string) => `students/${id}/history`,
+  audit: 'audit',
+} as const;
+
+// How long fetched data counts as fresh; older data is shown while it is refreshed
+export const DEFAULT_STALE_TIME = 30000;
+
+// Failures that may go away by themselves: lost connections, server errors and anything that isn't an HTTP answer
+export const isTransientError = (error: unknown): boolean =>
+  !(error instanceof ApiError) || error.status === 0 || error.status >= 500;
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 3, baseDelay: 500, maxDelay: 8000 };
+
+// For writes, which are only safe to repeat when they are idempotent
+export const NO_RETRY: RetryOptions = { retries: 0, baseDelay: 0, maxDelay: 0 };
+
+/**
+ * Delay before retry number `attempt` (counting from 0)
+ * The random half keeps clients that failed together from retrying in lockstep
+ */
+export const backoffDelay = (attempt: number, { baseDelay, maxDelay }: RetryOptions): number => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a task until it succeeds, fails for good or runs out of retries
+ * Aborting the signal ends both a running attempt and the wait before the next one
+ */
+export const withRetry = async <T>(
+  task: Fetcher<T>,
+  signal: AbortSignal = new AbortController().signal,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<T> => {
+  const { retries, shouldRetry = isTransientError } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(signal);
+    } catch (error) {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+    }
+    await sleep(backoffDelay(attempt, options), signal);
+  }
+};
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  // Callers still waiting for the result
+  consumers: number;
+  // Started before the data last changed, so its answer may be out of date
+  outdated: boolean;
+}
+
+interface CacheEntry<T> {
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  request?: InFlight<T>;
+  // How the entry was last fetched, so an invalidation can do it again
+  fetcher?: Fetcher<T>;
+  retry?: RetryOptions;
+}
+
+// Nothing fetched yet - shown as loading, since a mounted query is about to fetch it
+const INITIAL_STATE: QueryState<never> = { data: null, loading: true, error: null, isFetching: false, updatedAt: null };
+
+const matchesPrefix = (key: string, prefix: string) => key === prefix || key.startsWith(`${prefix}/`);
+
+/**
+ * In-memory query cache
+ * Requests for the same key are de-duplicated; a request is aborted once every caller
+ * has given up on it and no component shows its key any more
+ */
+export const createQueryCache = (): QueryCache => {
+  const entries = new Map<string, CacheEntry<unknown>>();
+
+  const entryFor = <T>(key: string): CacheEntry<T> => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { state: INITIAL_STATE, listeners: new Set() };
+      entries.set(key, entry);
+    }
+    return entry as CacheEntry<T>;
+  };
+
+  const update = <T>(entry: CacheEntry<T>, patch: Partial<QueryState<T>>) => {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  };
+
+  const cancelIfUnused = <T>(entry: CacheEntry<T>, request: InFlight<T>) => {
+    if (entry.request === request && request.consumers === 0 && entry.listeners.size === 0) {
+      request.controller.abort();
+    }
+  };
+
+  const start = <T>(entry: CacheEntry<T>): InFlight<T> => {
+    const controller = new AbortController();
+    const request = { controller, consumers: 0, outdated: false } as InFlight<T>;
+
+    request.promise = withRetry(entry.fetcher!, controller.signal, entry.retry).then(
+      data => {
+        if (entry.request === request) {
+          entry.request = undefined;
+          if (!request.outdated) {
+            update(entry, { data, loading: false, error: null, isFetching: false, updatedAt: Date.now() });
+          } else if (entry.listeners.size > 0) {
+            // Ask again rather than show data from before the change
+            start(entry);
+          } else {
+            update(entry, { loading: entry.state.data === null, isFetching: false, updatedAt: null });
+          }
+        }
+        return data;
+      },
+      error => {
+        if (entry.request === request) {
+          entry.request = undefined;
+          // A cancelled request isn't a failure; either way the last good data stays
+          update(entry, controller.signal.aborted
+            ? { loading: entry.state.data === null, isFetching: false }
+            : { loading: false, isFetching: false, error: error instanceof Error ? error.message : translate('server.requestFailed') });
+        }
+        throw error;
+      }
+    );
+    // Invalidations start requests nobody awaits
+    request.promise.catch(() => undefined);
+
+    entry.request = request;
+    update(entry, { loading: entry.state.data === null, isFetching: true, error: null });
+    return request;
+  };
+
+  return {
+    getState: <T>(key: string) => (entries.get(key)?.state ?? INITIAL_STATE) as QueryState<T>,
+
+    subscribe: (key, listener) => {
+      const entry = entryFor(key);
+      entry.listeners.add(listener);
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.request) {
+          cancelIfUnused(entry, entry.request);
+        }
+      };
+    },
+
+    fetch: <T>(key: string, fetcher: Fetcher<T>, { retry = DEFAULT_RETRY, signal }: FetchOptions = {}) => {
+      const entry = entryFor<T>(key);
+      entry.fetcher = fetcher;
+      entry.retry = retry;
+      const request = entry.request ?? start(entry);
+      request.consumers += 1;
+
+      return new Promise<T>((resolve, reject) => {
+        let isWaiting = true;
+        const release = () => {
+          isWaiting = false;
+          request.consumers -= 1;
+          signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+          release();
+          cancelIfUnused(entry, request);
+          reject(signal?.reason);
+        };
+
+        if (signal?.aborted) {
+          onAbort();
+          return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        request.promise.then(
+          data => {
+            if (isWaiting) {
+              release();
+              resolve(data);
+            }
+          },
+          error => {
+            if (isWaiting) {
+              release();
+              reject(error);
+            }
+          }
+        );
+      });
+    },
+
+    setData: <T>(key: string, updateData: (data: T | null) => T) => {
+      const entry = entryFor<T>(key);
+      if (entry.request) {
+        entry.request.outdated = true;
+      }
+      update(entry, { data: updateData(entry.state.data), loading: false, error: null, updatedAt: Date.now() });
+    },
+
+    invalidate: prefix => {
+      entries.forEach((entry, key) => {
+        if (!matchesPrefix(key, prefix)) {
+          return;
+        }
+        if (entry.request) {
+          entry.request.outdated = true;
+          return;
+        }
+        update(entry, { updatedAt: null });
+        if (entry.listeners.size > 0 && entry.fetcher) {
+          start(entry);
+        }
+      });
+    },
+  };
+};
@@ -0,0 +1,160 @@
+// Repository contracts - demonstrates programming against interfaces
+import { AttendanceSession, AttendanceSessionDraft, AuditEntry, Course, CourseDraft, Credentials, Page, PageRequest, Settings, Student, StudentChange, StudentDraft, User, ValidationErrors } from '../types';
+import { isActivelyEnrolled } from './enrollment';
+
+/**
+ * Data access contract for students
+ * Components and context only depend on this interface, so the backend
+ * (REST API, in-process mock server, ...) can be swapped freely
+ */
+export interface StudentRepository {
+  list: (options?: RequestOptions) => Promise<Student[]>;
+  get: (id: string) => Promise<Student>;
+  create: (data: StudentDraft) => Promise<Student>;
+  createMany: (data: StudentDraft[]) => Promise<Student[]>;
+  update: (student: Student, options?: WriteOptions) => Promise<Student>;
+  updateMany: (students: Student[]) => Promise<Student[]>;
+  delete: (id: string, options?: WriteOptions) => Promise<void>;
+  deleteMany: (ids: string[]) => Promise<void>;
+  // Re-inserts previously deleted students under their original ids (used by undo)
+  restoreMany: (students: Student[]) => Promise<Student[]>;
+  query: (request: PageRequest) => Promise<Page<Student>>;
+  // Moves every enrollment of one course to another; returns the updated students
+  reassignCourse: (fromCourseId: number, toCourseId: number) => Promise<Student[]>;
+  // Every recorded change to one student, oldest first (also available after deletion)
+  history: (id: string, options?: RequestOptions) => Promise<StudentChange[]>;
+  // Server-side checks (e.g. email uniqueness) of the fields given; an empty object means valid.
+  // excludeId is the student being edited, so it doesn't clash with itself
+  validate: (data: Partial<StudentDraft>, options?: ValidateOptions) => Promise<ValidationErrors>;
+}
+
+/**
+ * Options every read accepts - aborting the signal cancels the request
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ValidateOptions extends RequestOptions {
+  excludeId?: string;
+}
+
+/**
+ * Optimistic concurrency for single-record writes: with expectedUpdatedAt set, the
+ * write is refused with status 412 if the stored record has changed since
+ */
+export interface WriteOptions {
+  expectedUpdatedAt?: Date;
+}
+
+/**
+ * Data access contract for courses
+ */
+export interface CourseRepository {
+  list: (options?: RequestOptions) => Promise<Course[]>;
+  get: (id: number) => Promise<Course>;
+  create: (data: CourseDraft) => Promise<Course>;
+  update: (course: Course) => Promise<Course>;
+  // Rejects with status 409 while students are still enrolled
+  delete: (id: number) => Promise<void>;
+}
+
+/**
+ * Data access contract for attendance sessions and their roll calls
+ */
+export interface AttendanceRepository {
+  list: () => Promise<AttendanceSession[]>;
+  create: (data: AttendanceSessionDraft) => Promise<AttendanceSession>;
+  update: (session: AttendanceSession) => Promise<AttendanceSession>;
+  delete: (id: string) => Promise<void>;
+}
+
+/**
+ * Append-only audit log - there is deliberately no way to edit or remove entries
+ */
+export interface AuditRepository {
+  // Every entry, oldest first
+  list: (options?: RequestOptions) => Promise<AuditEntry[]>;
+  append: (entries: AuditEntry[]) => Promise<void>;
+}
+
+/**
+ * Pluggable authentication - the mock server signs in demo accounts, a real
+ * backend keeps the session in a cookie
+ */
+export interface AuthService {
+  // The user of the current session, or null when signed out
+  currentUser: () => Promise<User | null>;
+  signIn: (credentials: Credentials) => Promise<User>;
+  signOut: () => Promise<void>;
+  // Sign-in shortcuts offered on the login screen during development
+  demoAccounts?: (Credentials & Pick<User, 'name' | 'role'>)[];
+}
+
+/**
+ * Dashboard-wide settings, read and saved as one document
+ */
+export interface SettingsRepository {
+  get: () => Promise<Settings>;
+  update: (settings: Settings) => Promise<Settings>;
+}
+
+export interface Repositories {
+  students: StudentRepository;
+  courses: CourseRepository;
+  attendance: AttendanceRepository;
+  audit: AuditRepository;
+  settings: SettingsRepository;
+  auth: AuthService;
+}
+
+/**
+ * Error raised by repositories - carries the HTTP-like status code
+ * so callers can tell "not found" apart from "server unavailable".
+ * Rejected writes may also name the offending fields, so forms can show them inline
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly fieldErrors: ValidationErrors;
+
+  constructor(message: string, status: number, fieldErrors: ValidationErrors = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// The request never reached the server (offline, DNS, dropped connection) - worth retrying later
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 0;
+
+// The record changed on the server since the copy the write was based on
+export const isConflictError = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 412;
+
+/**
+ * Shared filtering/pagination logic for backends that hold the data in memory
+ * Demonstrates array methods and slicing
+ */
+export const paginateStudents = (students: Student[], request: PageRequest): Page<Student> => {
+  const search = request.search?.trim().toLowerCase() ?? '';
+  const matching = students.filter(student => {
+    const matchesSearch = !search ||
+                         student.name.toLowerCase().includes(search) ||
+                         student.email.toLowerCase().includes(search);
+    const matchesCourse = request.courseId == null || isActivelyEnrolled(student, request.courseId);
+    return matchesSearch && matchesCourse;
+  });
+
+  const pageSize = Math.max(1, request.pageSize);
+  const page = Math.max(1, request.page);
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+  };
+};
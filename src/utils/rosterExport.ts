@@ -0,0 +1,199 @@
+// Roster export - turns students into CSV, JSON or XLSX downloads entirely client-side
+import { Course, CustomFieldDefinition, Student } from '../types';
+import { toCsv } from './csv';
+import { createWorkbook, WorksheetData } from './xlsx';
+import { getActiveCourseIds } from './enrollment';
+import { customFieldKeyOf, customSortField, formatCustomFieldValue } from './customFields';
+import { describeProfileImage } from './photos';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type BuiltInExportColumn = 'id' | 'name' | 'email' | 'courses' | 'profileImage' | 'createdAt' | 'updatedAt';
+
+// Custom fields export as `custom:<key>`
+export type ExportColumn = BuiltInExportColumn | `custom:${string}`;
+
+// File headers stay in English so exports read the same in every language; the menu shows exportColumn.<column>
+export const EXPORT_COLUMNS: { column: BuiltInExportColumn; label: string }[] = [
+  { column: 'id', label: 'ID' },
+  { column: 'name', label: 'Name' },
+  { column: 'email', label: 'Email' },
+  { column: 'courses', label: 'Courses' },
+  { column: 'profileImage', label: 'Profile Image' },
+  { column: 'createdAt', label: 'Created At' },
+  { column: 'updatedAt', label: 'Updated At' },
+];
+
+/**
+ * The built-in columns followed by one per custom field
+ */
+export const getExportColumns = (customFields: CustomFieldDefinition[]): { column: ExportColumn; label: string }[] => [
+  ...EXPORT_COLUMNS,
+  ...customFields.map(field => ({ column: customSortField(field.key), label: field.label })),
+];
+
+const UNASSIGNED_COURSE = 'Unassigned';
+
+interface ExportContext {
+  courseMap: Map<number, Course>;
+  customFields: CustomFieldDefinition[];
+}
+
+/**
+ * Reads one column of a student as a string, resolving active enrollments to
+ * course names, formatting timestamps as ISO 8601 and custom fields as displayed
+ * Uploaded photos are described rather than exported - a data URL overflows an Excel cell
+ */
+const readColumn = (student: Student, column: ExportColumn, { courseMap, customFields }: ExportContext): string => {
+  const customKey = customFieldKeyOf(column);
+  if (customKey !== null) {
+    const field = customFields.find(custom => custom.key === customKey);
+    return field ? formatCustomFieldValue(field, student.customFields?.[customKey]) : '';
+  }
+  switch (column) {
+    case 'courses':
+      return getActiveCourseIds(student)
+        .map(courseId => courseMap.get(courseId)?.name ?? UNASSIGNED_COURSE)
+        .join('; ');
+    case 'createdAt':
+    case 'updatedAt':
+      return student[column].toISOString();
+    case 'profileImage':
+      return describeProfileImage(student.profileImage);
+    case 'id':
+    case 'name':
+    case 'email':
+      return student[column];
+    default:
+      return '';
+  }
+};
+
+const toContext = (courses: Course[], customFields: CustomFieldDefinition[]): ExportContext => ({
+  courseMap: new Map(courses.map(course => [course.id, course])),
+  customFields,
+});
+
+const headerRow = (columns: ExportColumn[], customFields: CustomFieldDefinition[]) => {
+  const labels = getExportColumns(customFields);
+  return columns.map(column => labels.find(c => c.column === column)?.label ?? column);
+};
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a would-be formula with a leading apostrophe so it opens as plain text
+ */
+const neutralizeFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+export const exportToCsv = (
+  students: Student[],
+  courses: Course[],
+  columns: ExportColumn[],
+  customFields: CustomFieldDefinition[] = []
+): Blob => {
+  const context = toContext(courses, customFields);
+  const rows = [
+    headerRow(columns, customFields),
+    ...students.map(student => columns.map(column => readColumn(student, column, context))),
+  ].map(row => row.map(neutralizeFormula));
+  // The BOM makes Excel open the file as UTF-8
+  return new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+};
+
+/**
+ * JSON records are keyed by column; custom fields by their plain key
+ */
+export const exportToJson = (
+  students: Student[],
+  courses: Course[],
+  columns: ExportColumn[],
+  customFields: CustomFieldDefinition[] = []
+): Blob => {
+  const context = toContext(courses, customFields);
+  const records = students.map(student =>
+    Object.fromEntries(columns.map(column => [customFieldKeyOf(column) ?? column, readColumn(student, column, context)]))
+  );
+  return new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * XLSX export - one worksheet per course, in course order
+ * A student appears on the sheet of every course they are actively enrolled in. Sheets are
+ * grouped by course id, so courses sharing a name still get a sheet each (createWorkbook
+ * makes the names unique)
+ */
+export const exportToXlsx = (
+  students: Student[],
+  courses: Course[],
+  columns: ExportColumn[],
+  customFields: CustomFieldDefinition[] = []
+): Blob => {
+  const context = toContext(courses, customFields);
+  const { courseMap } = context;
+  // Keyed by course id; null collects students with no active course (or one that no longer exists)
+  const groups = new Map<number | null, Student[]>();
+
+  const addToGroup = (courseId: number | null, student: Student) => {
+    groups.set(courseId, [...(groups.get(courseId) ?? []), student]);
+  };
+
+  students.forEach(student => {
+    const courseIds = getActiveCourseIds(student).map(courseId => (courseMap.has(courseId) ? courseId : null));
+    // A set, so a student in several missing courses is listed once under Unassigned
+    new Set(courseIds.length > 0 ? courseIds : [null]).forEach(courseId => addToGroup(courseId, student));
+  });
+
+  const orderedIds = [
+    ...courses.map(course => course.id).filter(id => groups.has(id)),
+    ...(groups.has(null) ? [null] : []),
+  ];
+
+  const sheets: WorksheetData[] = orderedIds.map(courseId => ({
+    name: courseId === null ? UNASSIGNED_COURSE : courseMap.get(courseId)!.name,
+    rows: [
+      headerRow(columns, customFields),
+      ...groups.get(courseId)!.map(student => columns.map(column => readColumn(student, column, context))),
+    ],
+  }));
+
+  // A workbook needs at least one sheet even when nothing is exported
+  return createWorkbook(sheets.length > 0 ? sheets : [{ name: 'Students', rows: [headerRow(columns, customFields)] }]);
+};
+
+type Exporter = (
+  students: Student[],
+  courses: Course[],
+  columns: ExportColumn[],
+  customFields: CustomFieldDefinition[]
+) => Blob;
+
+const EXPORTERS: Record<ExportFormat, Exporter> = {
+  csv: exportToCsv,
+  json: exportToJson,
+  xlsx: exportToXlsx,
+};
+
+export const exportStudents = (
+  format: ExportFormat,
+  students: Student[],
+  courses: Course[],
+  columns: ExportColumn[],
+  customFields: CustomFieldDefinition[] = []
+): Blob => EXPORTERS[format](students, courses, columns, customFields);
+
+/**
+ * Triggers a browser download for a generated file
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next task so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
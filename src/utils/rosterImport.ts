@@ -0,0 +1,156 @@
+// Roster import - maps parsed CSV rows onto student form data and validates them
+import { Course, CustomFieldDefinition, Student, StudentDraft, StudentFormData, ValidationErrors } from '../types';
+import { validateStudent, hasValidationErrors, isDuplicateEmail } from './validation';
+import { customFieldsFromForm, customSortField } from './customFields';
+import { CsvRecord } from './csv';
+import { foldForSearch, translate } from './i18n';
+
+export type ImportField = 'name' | 'email' | 'courses' | 'profileImage';
+
+// Custom fields are mapped as `custom:<key>`, like export columns
+export type ImportColumn = ImportField | `custom:${string}`;
+
+// Column index for each field, or null (or absent, for custom fields) when the file doesn't have it
+export type ColumnMapping = Partial<Record<ImportColumn, number | null>>;
+
+export interface ImportRow {
+  // 1-based line of the source file the row starts on, counting blank lines and quoted line breaks
+  rowNumber: number;
+  formData: StudentFormData;
+  errors: ValidationErrors;
+  draft: StudentDraft | null;
+}
+
+// Labels live in the catalogs under importField.<field>
+export const IMPORT_FIELDS: { field: ImportField; required: boolean }[] = [
+  { field: 'name', required: true },
+  { field: 'email', required: true },
+  { field: 'courses', required: true },
+  { field: 'profileImage', required: false },
+];
+
+// Header spellings we recognise for each field (compared after normalization)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'fullname', 'studentname', 'student'],
+  email: ['email', 'emailaddress', 'mail'],
+  courses: ['course', 'courses', 'coursename', 'courseid', 'class', 'program'],
+  profileImage: ['profileimage', 'image', 'photo', 'avatar', 'picture', 'profileimageurl'],
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which column feeds which field from the header row
+ * Custom fields are recognised by their label or key, so a roster exported from here maps itself
+ */
+export const guessColumnMapping = (headers: string[], customFields: CustomFieldDefinition[] = []): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const findColumn = (aliases: string[]): number | null => {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    name: findColumn(HEADER_ALIASES.name),
+    email: findColumn(HEADER_ALIASES.email),
+    courses: findColumn(HEADER_ALIASES.courses),
+    profileImage: findColumn(HEADER_ALIASES.profileImage),
+    ...Object.fromEntries(customFields.map(field => [
+      customSortField(field.key),
+      findColumn([normalizeHeader(field.label), normalizeHeader(field.key)]),
+    ])),
+  };
+};
+
+// Checkbox cells that count as ticked; the active language's "yes" covers files exported from here
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+
+const isTicked = (value: string) =>
+  [...TRUE_VALUES, foldForSearch(translate('common.yes'))].includes(foldForSearch(value));
+
+// Several courses can share one cell, e.g. "HTML Basics; CSS Mastery"
+const COURSE_SEPARATOR = /[;|]/;
+
+/**
+ * Resolves a course name (case-insensitive) or numeric id to a course
+ */
+const resolveCourse = (value: string, courses: Course[]): Course | undefined => {
+  const trimmed = value.trim().toLowerCase();
+  return courses.find(course => course.name.toLowerCase() === trimmed) ??
+         courses.find(course => course.id.toString() === trimmed);
+};
+
+/**
+ * Turns data rows into validated import rows
+ * Every row goes through validateStudent (custom fields included) plus a duplicate-email
+ * check against both the existing roster and the rows above it in the same file
+ */
+export const buildImportRows = (
+  dataRows: CsvRecord[],
+  mapping: ColumnMapping,
+  courses: Course[],
+  existingStudents: Student[],
+  customFields: CustomFieldDefinition[] = []
+): ImportRow[] => {
+  const seenEmails = new Set<string>();
+
+  return dataRows.map(({ fields: cells, line }) => {
+    const cell = (field: ImportColumn) => {
+      const column = mapping[field];
+      return column === null || column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    const courseNames = cell('courses').split(COURSE_SEPARATOR).map(name => name.trim()).filter(Boolean);
+    const resolved = courseNames.map(name => resolveCourse(name, courses));
+    const unknownCourses = courseNames.filter((_, i) => !resolved[i]);
+
+    const formData: StudentFormData = {
+      name: cell('name'),
+      email: cell('email'),
+      enrollments: resolved.flatMap(course =>
+        course ? [{ courseId: course.id.toString(), status: 'active' as const }] : []
+      ),
+      profileImage: cell('profileImage'),
+      customFields: Object.fromEntries(customFields.map(field => {
+        const value = cell(customSortField(field.key));
+        return [field.key, field.type === 'boolean' ? isTicked(value) : value];
+      })),
+    };
+
+    const errors = validateStudent(formData, customFields);
+    if (unknownCourses.length > 0) {
+      errors.enrollments = translate('import.unknownCourses', {
+        count: unknownCourses.length,
+        names: unknownCourses.map(name => `"${name}"`).join(', '),
+      });
+    }
+
+    const emailKey = formData.email.toLowerCase();
+    if (!errors.email) {
+      if (isDuplicateEmail(formData.email, existingStudents)) {
+        errors.email = translate('validation.emailTaken');
+      } else if (seenEmails.has(emailKey)) {
+        errors.email = translate('import.duplicateInFile');
+      }
+    }
+    seenEmails.add(emailKey);
+
+    const draft: StudentDraft | null = hasValidationErrors(errors) ? null : {
+      name: formData.name,
+      email: formData.email,
+      enrollments: formData.enrollments.map(enrollment => ({
+        courseId: parseInt(enrollment.courseId),
+        status: enrollment.status,
+      })),
+      profileImage: formData.profileImage || undefined,
+      customFields: customFieldsFromForm(customFields, formData.customFields),
+    };
+
+    return {
+      rowNumber: line,
+      formData,
+      errors,
+      draft,
+    };
+  });
+};
@@ -0,0 +1,158 @@
+// Route table - maps URL paths to views and builds links back to them
+
+export type Route =
+  | { name: 'students' }
+  | { name: 'student'; id: string }
+  | { name: 'editStudent'; id: string }
+  | { name: 'courses' }
+  | { name: 'attendance'; courseId: number }
+  | { name: 'absenceReport' }
+  | { name: 'analytics' }
+  | { name: 'audit' }
+  | { name: 'branding' }
+  | { name: 'guide' }
+  | { name: 'notFound' };
+
+// Course ids are positive integers; anything else in the URL is a page that doesn't exist
+const toCourseRoute = (id: string, toRoute: (courseId: number) => Route): Route => {
+  const courseId = Number(id);
+  return Number.isInteger(courseId) && courseId > 0 ? toRoute(courseId) : { name: 'notFound' };
+};
+
+// Patterns are matched in order; ":param" segments capture one path segment
+const ROUTE_PATTERNS: { pattern: string; toRoute: (params: Record<string, string>) => Route }[] = [
+  // "/" shows the roster while the router swaps in the canonical /students URL
+  { pattern: '/', toRoute: () => ({ name: 'students' }) },
+  { pattern: '/students', toRoute: () => ({ name: 'students' }) },
+  { pattern: '/students/:id', toRoute: ({ id }) => ({ name: 'student', id }) },
+  { pattern: '/students/:id/edit', toRoute: ({ id }) => ({ name: 'editStudent', id }) },
+  { pattern: '/courses', toRoute: () => ({ name: 'courses' }) },
+  { pattern: '/courses/:id/attendance', toRoute: ({ id }) => toCourseRoute(id, courseId => ({ name: 'attendance', courseId })) },
+  { pattern: '/attendance/report', toRoute: () => ({ name: 'absenceReport' }) },
+  { pattern: '/analytics', toRoute: () => ({ name: 'analytics' }) },
+  { pattern: '/audit', toRoute: () => ({ name: 'audit' }) },
+  { pattern: '/settings/branding', toRoute: () => ({ name: 'branding' }) },
+  { pattern: '/guide', toRoute: () => ({ name: 'guide' }) },
+];
+
+/**
+ * Matches a pathname against a pattern, returning the captured params or null
+ * Trailing slashes are ignored
+ */
+export const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        // Malformed escapes (e.g. "%E0%A4%A") can't name anything real
+        return null;
+      }
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+export const resolveRoute = (pathname: string): Route => {
+  for (const { pattern, toRoute } of ROUTE_PATTERNS) {
+    const params = matchPath(pattern, pathname);
+    if (params) {
+      return toRoute(params);
+    }
+  }
+  return { name: 'notFound' };
+};
+
+// Path builders, so components never concatenate URLs by hand
+export const paths = {
+  students: () => '/students',
+  student: (id: string) => `/students/${encodeURIComponent(id)}`,
+  editStudent: (id: string) => `/students/${encodeURIComponent(id)}/edit`,
+  courses: () => '/courses',
+  attendance: (courseId: number) => `/courses/${courseId}/attendance`,
+  absenceReport: () => '/attendance/report',
+  analytics: () => '/analytics',
+  audit: () => '/audit',
+  branding: () => '/settings/branding',
+  guide: () => '/guide',
+};
+
+/**
+ * Roster filters as they appear in the query string: ?q=<search>&course=<id>
+ */
+export interface RosterQuery {
+  searchTerm: string;
+  courseId: number | null;
+}
+
+export const readRosterQuery = (search: string): RosterQuery => {
+  const params = new URLSearchParams(search);
+  const course = Number(params.get('course'));
+  return {
+    searchTerm: params.get('q') ?? '',
+    courseId: Number.isInteger(course) && course > 0 ? course : null,
+  };
+};
+
+export const writeRosterQuery = ({ searchTerm, courseId }: RosterQuery): string => {
+  const params = new URLSearchParams();
+  if (searchTerm) {
+    params.set('q', searchTerm);
+  }
+  if (courseId !== null) {
+    params.set('course', String(courseId));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Report filters (absence report, analytics) as they appear in the query string:
+ * ?from=<yyyy-mm-dd>&to=<yyyy-mm-dd>&course=<id>
+ * Kept in the URL so a report can be bookmarked or shared before printing
+ */
+export interface ReportQuery {
+  from: string;
+  to: string;
+  courseId: number | null;
+}
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+export const readReportQuery = (search: string): ReportQuery => {
+  const params = new URLSearchParams(search);
+  const course = Number(params.get('course'));
+  const date = (name: string) => {
+    const value = params.get(name) ?? '';
+    return DATE_PARAM.test(value) ? value : '';
+  };
+  return {
+    from: date('from'),
+    to: date('to'),
+    courseId: Number.isInteger(course) && course > 0 ? course : null,
+  };
+};
+
+export const writeReportQuery = ({ from, to, courseId }: ReportQuery): string => {
+  const params = new URLSearchParams();
+  if (from) {
+    params.set('from', from);
+  }
+  if (to) {
+    params.set('to', to);
+  }
+  if (courseId !== null) {
+    params.set('course', String(courseId));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
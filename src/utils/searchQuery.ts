@@ -0,0 +1,459 @@
+// Search query language - demonstrates a tokenizer, a recursive-descent parser and an AST
+//
+//   ada lovelace                 both terms, fuzzy, across name and email
+//   "ada lovelace"               exact phrase
+//   course:"React In Depth"      field match (name, email, course, tag, or a custom field key)
+//   email:*@school.edu           * is a wildcard and anchors the match
+//   created:>2026-01-01          date comparison (created, updated) with > >= < <= or a bare day
+//   -name:test                   negation
+//   ada OR grace, (a | b) c      OR groups; adjacent terms are ANDed
+import { Course, CustomFieldDefinition, Student } from '../types';
+import { getActiveCourseIds } from './enrollment';
+import { formatCustomFieldValue } from './customFields';
+import { Message, foldForSearch, translate } from './i18n';
+
+export type TextField = 'name' | 'email' | 'course' | 'tag';
+export type DateField = 'created' | 'updated';
+export type DateOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  // A bare word or quoted phrase, matched against name and email
+  | { type: 'term'; value: string; phrase: boolean }
+  | { type: 'field'; field: TextField; value: string; phrase: boolean }
+  // An admin-defined custom field, matched against its display text
+  | { type: 'custom'; key: string; value: string; phrase: boolean }
+  | { type: 'date'; field: DateField; operator: DateOperator; date: Date };
+
+/**
+ * Raised for malformed queries - position is the 0-based offset the problem was found at
+ * The parsed query outlives a language switch, so the problem is also kept as a catalog message
+ */
+export class QuerySyntaxError extends Error {
+  readonly position: number;
+  readonly detail: Message;
+
+  constructor(detail: Message, position: number) {
+    super(translate(detail.key, detail.values));
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+    this.detail = detail;
+  }
+}
+
+const TEXT_FIELDS: TextField[] = ['name', 'email', 'course', 'tag'];
+const DATE_FIELDS: DateField[] = ['created', 'updated'];
+
+// "name, email, ..., created, updated", plus any custom field keys
+const describeFields = (customFieldKeys: string[]) =>
+  [...TEXT_FIELDS, ...DATE_FIELDS, ...customFieldKeys].join(', ');
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; position: number }
+  | { kind: 'word'; value: string; phrase: boolean; position: number }
+  | { kind: 'field'; field: string; value: string; phrase: boolean; position: number };
+
+const isBoundary = (char: string) => /\s|[()"|]/.test(char);
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = input.indexOf('"', start + 1);
+    if (end === -1) {
+      throw new QuerySyntaxError({ key: 'search.unclosedQuote', values: { position: start + 1 } }, start);
+    }
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: start });
+      i++;
+    } else if (char === '|') {
+      tokens.push({ kind: 'or', position: start });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ kind: 'word', value: readQuoted(start), phrase: true, position: start });
+    } else if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', position: start });
+      i++;
+    } else {
+      while (i < input.length && !isBoundary(input[i])) {
+        i++;
+      }
+      const word = input.slice(start, i);
+      const field = /^([a-z][a-z0-9_]*):(.*)$/i.exec(word);
+
+      if (word === 'OR') {
+        tokens.push({ kind: 'or', position: start });
+      } else if (field) {
+        const [, name, rest] = field;
+        // field:"quoted value"
+        if (rest === '' && input[i] === '"') {
+          tokens.push({ kind: 'field', field: name, value: readQuoted(i), phrase: true, position: start });
+        } else {
+          tokens.push({ kind: 'field', field: name, value: rest, phrase: false, position: start });
+        }
+      } else {
+        tokens.push({ kind: 'word', value: word, phrase: false, position: start });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const DATE_PATTERN = /^(>=|<=|>|<|=)?(\d{4})-(\d{2})-(\d{2})$/;
+
+const parseDateValue = (field: DateField, value: string, position: number): QueryNode => {
+  const match = DATE_PATTERN.exec(value);
+  const date = match ? new Date(Number(match[2]), Number(match[3]) - 1, Number(match[4])) : null;
+  // Reject impossible dates such as 2026-02-31 that Date would silently roll over
+  if (!match || !date || date.getDate() !== Number(match[4]) || date.getMonth() !== Number(match[3]) - 1) {
+    throw new QuerySyntaxError(
+      { key: 'search.expectedDate', values: { field, value } },
+      position
+    );
+  }
+  return { type: 'date', field, operator: (match[1] as DateOperator | undefined) ?? '=', date };
+};
+
+/**
+ * Recursive-descent parser over the token list
+ *   or   := and (OR and)*
+ *   and  := unary+
+ *   unary:= '-' unary | '(' or ')' | term
+ */
+const parseTokens = (tokens: Token[], inputLength: number, customFieldKeys: string[]): QueryNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const positionOf = (token: Token | undefined) => token?.position ?? inputLength;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const orToken = tokens[index++];
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        throw new QuerySyntaxError({ key: 'search.termAfterOr' }, positionOf(orToken));
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const token = peek();
+      throw new QuerySyntaxError(
+        { key: token?.kind === 'or' ? 'search.orNeedsTerms' : 'search.expectedTerm' },
+        positionOf(token)
+      );
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[index++];
+
+    switch (token.kind) {
+      case 'not': {
+        const next = peek();
+        if (!next || next.kind === 'or' || next.kind === 'rparen') {
+          throw new QuerySyntaxError({ key: 'search.termAfterNot' }, token.position);
+        }
+        return { type: 'not', child: parseUnary() };
+      }
+
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') {
+          throw new QuerySyntaxError({ key: 'search.emptyParentheses' }, token.position);
+        }
+        const inner = parseOr();
+        if (peek()?.kind !== 'rparen') {
+          throw new QuerySyntaxError({ key: 'search.missingParenthesis', values: { position: token.position + 1 } }, token.position);
+        }
+        index++;
+        return inner;
+      }
+
+      case 'word':
+        return { type: 'term', value: token.value, phrase: token.phrase };
+
+      case 'field': {
+        const field = token.field.toLowerCase();
+        if (token.value === '') {
+          throw new QuerySyntaxError({ key: 'search.missingValue', values: { field: token.field } }, token.position);
+        }
+        if ((DATE_FIELDS as string[]).includes(field)) {
+          return parseDateValue(field as DateField, token.value, token.position);
+        }
+        if ((TEXT_FIELDS as string[]).includes(field)) {
+          return { type: 'field', field: field as TextField, value: token.value, phrase: token.phrase };
+        }
+        if (customFieldKeys.includes(field)) {
+          return { type: 'custom', key: field, value: token.value, phrase: token.phrase };
+        }
+        throw new QuerySyntaxError(
+          { key: 'search.unknownField', values: { field: token.field, fields: describeFields(customFieldKeys) } },
+          token.position
+        );
+      }
+
+      default:
+        throw new QuerySyntaxError({ key: 'search.unexpectedParenthesis' }, token.position);
+    }
+  };
+
+  const root = parseOr();
+  if (index < tokens.length) {
+    // The only token parseOr stops at without consuming is a stray ")"
+    throw new QuerySyntaxError({ key: 'search.unexpectedParenthesis' }, positionOf(tokens[index]));
+  }
+  return root;
+};
+
+/**
+ * Parses a search box query; returns null for an empty query
+ * customFieldKeys are accepted as field names alongside the built-in ones.
+ * Throws QuerySyntaxError for malformed input
+ */
+export const parseSearchQuery = (input: string, customFieldKeys: string[] = []): QueryNode | null => {
+  const tokens = tokenize(input);
+  return tokens.length === 0 ? null : parseTokens(tokens, input.length, customFieldKeys);
+};
+
+// ---------------------------------------------------------------------------
+// Text normalization and fuzzy matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Folds the text for the active locale (see foldForSearch), returning a map from each
+ * normalized character back to its index in the original text (used for highlighting)
+ */
+const normalizeWithMap = (text: string): { normalized: string; map: number[] } => {
+  let normalized = '';
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const folded = foldForSearch(text[i]);
+    for (const char of folded) {
+      normalized += char;
+      map.push(i);
+    }
+  }
+  return { normalized, map };
+};
+
+export const normalizeText = (text: string): string => normalizeWithMap(text).normalized;
+
+/**
+ * Optimal string alignment distance - Levenshtein plus adjacent transpositions ("jnoh" → "john")
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// Short terms must match exactly; longer ones tolerate more typos
+const allowedTypos = (term: string) => (term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2);
+
+type Range = [start: number, end: number];
+
+/**
+ * Finds where a plain term matches normalized text: a substring anywhere, or a
+ * word (or word prefix) within the typo allowance. Returns the matched range.
+ */
+const fuzzyFind = (normalized: string, term: string): Range | null => {
+  const direct = normalized.indexOf(term);
+  if (direct !== -1) {
+    return [direct, direct + term.length];
+  }
+  const typos = allowedTypos(term);
+  if (typos === 0) {
+    return null;
+  }
+  // Letters and digits in any script; the text is already folded with the locale's case rules
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(normalized)) !== null) {
+    const word = match[0];
+    const prefix = word.slice(0, term.length);
+    if (editDistance(term, word) <= typos || editDistance(term, prefix) <= typos) {
+      return [match.index, match.index + word.length];
+    }
+  }
+  return null;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Field values are substring matches, or whole-value glob matches when they contain *
+ */
+const findValue = (normalized: string, value: string): Range | null => {
+  const needle = normalizeText(value);
+  if (needle.includes('*')) {
+    const pattern = new RegExp(`^${needle.split('*').map(escapeRegExp).join('.*')}$`);
+    return pattern.test(normalized) ? [0, normalized.length] : null;
+  }
+  const index = normalized.indexOf(needle);
+  return index === -1 ? null : [index, index + needle.length];
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const compareDate = (value: Date, operator: DateOperator, day: Date): boolean => {
+  const valueDay = startOfDay(value);
+  const target = day.getTime();
+  switch (operator) {
+    case '>': return valueDay > target;
+    case '>=': return valueDay >= target;
+    case '<': return valueDay < target;
+    case '<=': return valueDay <= target;
+    case '=': return valueDay === target;
+  }
+};
+
+/**
+ * Builds a matcher for a parsed query
+ * Course lookups resolve active enrollments by course name or code;
+ * custom fields match their display text (booleans read yes or no in the active language).
+ */
+export const createQueryMatcher = (query: QueryNode, courses: Course[], customFields: CustomFieldDefinition[] = []) => {
+  const courseById = new Map(courses.map(course => [course.id, course]));
+  const customFieldByKey = new Map(customFields.map(field => [field.key, field]));
+
+  const fieldValues = (student: Student, field: TextField): string[] => {
+    switch (field) {
+      case 'name': return [student.name];
+      case 'email': return [student.email];
+      case 'tag': return student.tags ?? [];
+      case 'course':
+        return getActiveCourseIds(student).flatMap(id => {
+          const course = courseById.get(id);
+          return course ? [course.name, course.code] : [];
+        });
+    }
+  };
+
+  const evaluate = (node: QueryNode, student: Student): boolean => {
+    switch (node.type) {
+      case 'and': return node.children.every(child => evaluate(child, student));
+      case 'or': return node.children.some(child => evaluate(child, student));
+      case 'not': return !evaluate(node.child, student);
+      case 'term': {
+        const term = normalizeText(node.value);
+        return [student.name, student.email].some(text =>
+          node.phrase ? normalizeText(text).includes(term) : fuzzyFind(normalizeText(text), term) !== null
+        );
+      }
+      case 'field':
+        return fieldValues(student, node.field).some(text => findValue(normalizeText(text), node.value) !== null);
+      case 'custom': {
+        const field = customFieldByKey.get(node.key);
+        const text = field ? formatCustomFieldValue(field, student.customFields?.[node.key]) : '';
+        return text !== '' && findValue(normalizeText(text), node.value) !== null;
+      }
+      case 'date':
+        return compareDate(node.field === 'created' ? student.createdAt : student.updatedAt, node.operator, node.date);
+    }
+  };
+
+  return (student: Student) => evaluate(query, student);
+};
+
+// ---------------------------------------------------------------------------
+// Highlighting
+// ---------------------------------------------------------------------------
+
+/**
+ * Ranges of `text` (in original indexes) matched by the positive terms of a query
+ * Negated terms are skipped - they describe what is *not* there.
+ */
+export const getHighlightRanges = (text: string, query: QueryNode | null, field: 'name' | 'email'): Range[] => {
+  if (!query) {
+    return [];
+  }
+  const { normalized, map } = normalizeWithMap(text);
+  const ranges: Range[] = [];
+
+  const collect = (node: QueryNode) => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        node.children.forEach(collect);
+        break;
+      case 'term': {
+        const term = normalizeText(node.value);
+        const index = node.phrase ? normalized.indexOf(term) : -1;
+        const range = node.phrase
+          ? (index === -1 ? null : [index, index + term.length] as Range)
+          : fuzzyFind(normalized, term);
+        if (range) {
+          ranges.push(range);
+        }
+        break;
+      }
+      case 'field': {
+        const range = node.field === field ? findValue(normalized, node.value) : null;
+        if (range) {
+          ranges.push(range);
+        }
+        break;
+      }
+    }
+  };
+  collect(query);
+
+  // Map back to original indexes, then merge overlaps so marks never nest
+  return ranges
+    .filter(([start, end]) => end > start)
+    .map(([start, end]): Range => [map[start], map[end - 1] + 1])
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Range[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
@@ -0,0 +1,20 @@
+// Dashboard settings - defaults and normalization of stored settings
+import { Settings } from '../types';
+import { DEFAULT_GRADING_SCALE } from './grading';
+import { DEFAULT_BRANDING } from './branding';
+
+export const DEFAULT_SETTINGS: Settings = {
+  gradingScale: DEFAULT_GRADING_SCALE,
+  customFields: [],
+  branding: DEFAULT_BRANDING,
+};
+
+/**
+ * Fills in anything missing from stored settings with the defaults
+ * Settings saved by older versions lack newer keys, so reads always go through here
+ */
+export const withDefaultSettings = (stored: Partial<Settings> | null): Settings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  branding: { ...DEFAULT_BRANDING, ...stored?.branding },
+});
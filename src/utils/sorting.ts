@@ -0,0 +1,103 @@
+// Roster sorting - demonstrates comparator composition for multi-key sorts
+import { BuiltInSortField, Course, CustomFieldDefinition, Locale, SortField, SortKey, Student } from '../types';
+import { getActiveCourseIds } from './enrollment';
+import { compareCustomFieldValues, customFieldKeyOf, customSortField } from './customFields';
+import { compareText, getActiveLocale, translate } from './i18n';
+
+export const SORT_FIELDS: BuiltInSortField[] = ['name', 'email', 'course', 'createdAt', 'updatedAt'];
+
+/**
+ * The built-in sort fields followed by one per custom field, labelled in the active locale
+ */
+export const getSortFields = (customFields: CustomFieldDefinition[]): { field: SortField; label: string }[] => [
+  ...SORT_FIELDS.map(field => ({ field, label: translate(`sortField.${field}`) })),
+  ...customFields.map(field => ({ field: customSortField(field.key), label: field.label })),
+];
+
+type TextComparator = (a: string, b: string) => number;
+
+/**
+ * A student's course sort value: the alphabetically first active course,
+ * or null when not actively enrolled anywhere
+ */
+const courseSortValue = (student: Student, courseNames: Map<number, string>, compare: TextComparator): string | null => {
+  const names = getActiveCourseIds(student)
+    .map(id => courseNames.get(id))
+    .filter((name): name is string => !!name)
+    .sort(compare);
+  return names[0] ?? null;
+};
+
+type Comparator = (a: Student, b: Student) => number;
+
+const fieldComparator = (
+  field: SortField,
+  courseNames: Map<number, string>,
+  customFields: CustomFieldDefinition[],
+  collate: TextComparator
+): Comparator => {
+  const customKey = customFieldKeyOf(field);
+  if (customKey !== null) {
+    const definition = customFields.find(custom => custom.key === customKey);
+    // A key for a field that has since been removed leaves the order alone
+    return definition
+      ? (a, b) => compareCustomFieldValues(definition, a.customFields?.[customKey], b.customFields?.[customKey], collate)
+      : () => 0;
+  }
+  switch (field) {
+    case 'name':
+      return (a, b) => collate(a.name, b.name);
+    case 'email':
+      return (a, b) => collate(a.email, b.email);
+    case 'createdAt':
+      return (a, b) => a.createdAt.getTime() - b.createdAt.getTime();
+    case 'updatedAt':
+      return (a, b) => a.updatedAt.getTime() - b.updatedAt.getTime();
+    case 'course':
+      return (a, b) => {
+        const first = courseSortValue(a, courseNames, collate);
+        const second = courseSortValue(b, courseNames, collate);
+        if (first === second) {
+          return 0;
+        }
+        return first === null ? 1 : second === null ? -1 : collate(first, second);
+      };
+    default:
+      return () => 0;
+  }
+};
+
+/**
+ * Sorts by each key in turn; later keys only break ties of earlier ones
+ * Remaining ties keep their incoming order, so the sort is stable for any key list.
+ * Text is collated by the locale's rules, e.g. "Ángel" sorts with the A's
+ */
+export const sortStudents = (
+  students: Student[],
+  keys: SortKey[],
+  courses: Course[],
+  customFields: CustomFieldDefinition[] = [],
+  locale: Locale = getActiveLocale()
+): Student[] => {
+  if (keys.length === 0) {
+    return students;
+  }
+  const courseNames = new Map(courses.map(course => [course.id, course.name]));
+  const comparators = keys.map(({ field, direction }) => {
+    const compare = fieldComparator(field, courseNames, customFields, (a, b) => compareText(a, b, locale));
+    return direction === 'asc' ? compare : (a: Student, b: Student) => compare(b, a);
+  });
+
+  return students
+    .map((student, index) => ({ student, index }))
+    .sort((a, b) => {
+      for (const compare of comparators) {
+        const result = compare(a.student, b.student);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return a.index - b.index;
+    })
+    .map(({ student }) => student);
+};
@@ -0,0 +1,212 @@
+// Storage adapters - demonstrates the adapter pattern for pluggable persistence
+import { AttendanceSession, OutboxEntry, Student, StudentChange } from '../types';
+import { migrateLegacyStudent } from './enrollment';
+
+/**
+ * Minimal async key/value contract every storage backend must satisfy
+ * Keeping it async lets synchronous (localStorage) and asynchronous (IndexedDB)
+ * backends be swapped without touching the code that consumes them
+ */
+export interface StorageAdapter {
+  getItem: <T>(key: string) => Promise<T | null>;
+  setItem: <T>(key: string, value: T) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+/**
+ * Well-known keys used by the dashboard
+ */
+export const STORAGE_KEYS = {
+  students: 'students',
+  courses: 'courses',
+  studentHistory: 'student-history',
+  attendance: 'attendance-sessions',
+  auditLog: 'audit-log',
+  settings: 'settings',
+  session: 'auth-session',
+  // Per user: `student-outbox:<user id>`
+  outbox: 'student-outbox',
+} as const;
+
+// Matches the exact format produced by Date.prototype.toJSON()
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON reviver that turns serialized dates back into Date objects
+ * Demonstrates the second argument of JSON.parse
+ */
+export const reviveDates = (_key: string, value: unknown): unknown => {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+/**
+ * Normalizes a persisted student so the timestamps are always Date instances
+ * Guards against records written by older versions or other backends,
+ * including the pre-enrollment single-courseId shape
+ */
+export const reviveStudent = (student: Student): Student => {
+  const migrated = migrateLegacyStudent(student);
+  return {
+    ...migrated,
+    enrollments: migrated.enrollments.map(enrollment => ({
+      ...enrollment,
+      enrolledAt: new Date(enrollment.enrolledAt),
+    })),
+    createdAt: new Date(migrated.createdAt),
+    updatedAt: new Date(migrated.updatedAt),
+  };
+};
+
+/**
+ * Normalizes a persisted change record (or audit entry), including both student snapshots
+ */
+export const reviveStudentChange = <T extends StudentChange>(change: T): T => ({
+  ...change,
+  at: new Date(change.at),
+  before: change.before && reviveStudent(change.before),
+  after: change.after && reviveStudent(change.after),
+});
+
+export const reviveAttendanceSession = (session: AttendanceSession): AttendanceSession => ({
+  ...session,
+  date: new Date(session.date),
+});
+
+/**
+ * Normalizes a persisted outbox entry, including its student snapshots
+ */
+export const reviveOutboxEntry = (entry: OutboxEntry): OutboxEntry => ({
+  ...entry,
+  student: entry.student && reviveStudent(entry.student),
+  previous: entry.previous && reviveStudent(entry.previous),
+  server: entry.server && reviveStudent(entry.server),
+  expectedUpdatedAt: entry.expectedUpdatedAt && new Date(entry.expectedUpdatedAt),
+  queuedAt: new Date(entry.queuedAt),
+});
+
+/**
+ * localStorage adapter - values are stored as JSON under a namespaced key
+ */
+export const createLocalStorageAdapter = (namespace: string = 'student-dashboard'): StorageAdapter => {
+  const namespacedKey = (key: string) => `${namespace}:${key}`;
+
+  return {
+    getItem: async <T>(key: string): Promise<T | null> => {
+      const raw = window.localStorage.getItem(namespacedKey(key));
+      if (raw === null) {
+        return null;
+      }
+      try {
+        return JSON.parse(raw, reviveDates) as T;
+      } catch {
+        // Corrupted entries are treated as missing rather than crashing the app
+        return null;
+      }
+    },
+    setItem: async <T>(key: string, value: T): Promise<void> => {
+      window.localStorage.setItem(namespacedKey(key), JSON.stringify(value));
+    },
+    removeItem: async (key: string): Promise<void> => {
+      window.localStorage.removeItem(namespacedKey(key));
+    },
+  };
+};
+
+/**
+ * Wraps an IDBRequest in a Promise - demonstrates promisifying callback APIs
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * IndexedDB adapter - values are stored with the structured clone algorithm,
+ * so Date objects survive the round trip without any revival step
+ */
+export const createIndexedDBAdapter = (
+  databaseName: string = 'student-dashboard',
+  storeName: string = 'keyval'
+): StorageAdapter => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  // Lazily open the database once and share the connection
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(storeName, mode);
+    return requestToPromise(operation(transaction.objectStore(storeName)));
+  };
+
+  return {
+    getItem: async <T>(key: string): Promise<T | null> => {
+      const value = await withStore('readonly', store => store.get(key));
+      return value === undefined ? null : (value as T);
+    },
+    setItem: async <T>(key: string, value: T): Promise<void> => {
+      await withStore('readwrite', store => store.put(value, key));
+    },
+    removeItem: async (key: string): Promise<void> => {
+      await withStore('readwrite', store => store.delete(key));
+    },
+  };
+};
+
+/**
+ * In-memory adapter - used when no browser storage is available
+ */
+export const createMemoryStorageAdapter = (): StorageAdapter => {
+  const entries = new Map<string, unknown>();
+
+  return {
+    getItem: async <T>(key: string): Promise<T | null> => {
+      return entries.has(key) ? (entries.get(key) as T) : null;
+    },
+    setItem: async <T>(key: string, value: T): Promise<void> => {
+      entries.set(key, value);
+    },
+    removeItem: async (key: string): Promise<void> => {
+      entries.delete(key);
+    },
+  };
+};
+
+/**
+ * Picks the best available backend: IndexedDB, then localStorage, then memory
+ */
+export const createDefaultStorageAdapter = (): StorageAdapter => {
+  if (typeof window === 'undefined') {
+    return createMemoryStorageAdapter();
+  }
+  if ('indexedDB' in window && window.indexedDB) {
+    return createIndexedDBAdapter();
+  }
+  try {
+    window.localStorage.getItem('');
+    return createLocalStorageAdapter();
+  } catch {
+    return createMemoryStorageAdapter();
+  }
+};
@@ -0,0 +1,114 @@
+// Student change history - turns before/after snapshots into readable field diffs
+import { Course, CustomFieldDefinition, Enrollment, Student } from '../types';
+import { formatCustomFieldValue } from './customFields';
+import { describeProfileImage } from './photos';
+import { translate } from './i18n';
+
+export interface FieldDiff {
+  label: string;
+  // Empty string when the value didn't exist on that side
+  before: string;
+  after: string;
+}
+
+const courseName = (courseMap: Map<number, Course>, courseId: number) =>
+  courseMap.get(courseId)?.name ?? translate('history.unknownCourse', { id: String(courseId) });
+
+const describeEnrollment = (courseMap: Map<number, Course>, enrollment: Enrollment) =>
+  translate('history.enrollmentStatus', {
+    course: courseName(courseMap, enrollment.courseId),
+    status: translate(`enrollmentStatus.${enrollment.status}`),
+  });
+
+/**
+ * One diff per assessment whose score was added, changed or removed
+ */
+const diffScores = (courseMap: Map<number, Course>, previous: Enrollment, next: Enrollment): FieldDiff[] => {
+  const course = courseMap.get(next.courseId);
+  const before = previous.scores ?? {};
+  const after = next.scores ?? {};
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(assessmentId => before[assessmentId] !== after[assessmentId])
+    .map(assessmentId => {
+      const assessment = course?.assessments?.find(a => a.id === assessmentId);
+      const format = (score: number | undefined) =>
+        score === undefined ? '' : `${score}${assessment ? ` / ${assessment.maxScore}` : ''}`;
+      return {
+        label: `${courseName(courseMap, next.courseId)} – ${assessment?.title ?? translate('history.assessment')}`,
+        before: format(before[assessmentId]),
+        after: format(after[assessmentId]),
+      };
+    });
+};
+
+/**
+ * Field-by-field differences between two versions of a student
+ * Either side may be null (creation, deletion), in which case every field is listed.
+ * Enrollments are matched by id so status changes and moves read naturally;
+ * score changes are listed per assessment. Custom fields are labelled from their
+ * definitions, falling back to the key for fields that have since been removed.
+ */
+export const diffStudents = (
+  before: Student | null,
+  after: Student | null,
+  courses: Course[],
+  customFields: CustomFieldDefinition[] = []
+): FieldDiff[] => {
+  const courseMap = new Map(courses.map(course => [course.id, course]));
+  const diffs: FieldDiff[] = [];
+
+  const compare = (label: string, read: (student: Student) => string) => {
+    const previous = before ? read(before) : '';
+    const next = after ? read(after) : '';
+    if (previous !== next) {
+      diffs.push({ label, before: previous, after: next });
+    }
+  };
+
+  compare(translate('history.name'), student => student.name);
+  compare(translate('history.email'), student => student.email);
+  // Compared in full, shown shortened; a replaced upload reads as an uploaded photo on both sides
+  if ((before?.profileImage ?? '') !== (after?.profileImage ?? '')) {
+    diffs.push({
+      label: translate('history.profileImage'),
+      before: describeProfileImage(before?.profileImage),
+      after: describeProfileImage(after?.profileImage),
+    });
+  }
+  compare(translate('history.tags'), student => (student.tags ?? []).join(', '));
+
+  const customKeys = new Set([...Object.keys(before?.customFields ?? {}), ...Object.keys(after?.customFields ?? {})]);
+  customKeys.forEach(key => {
+    const field = customFields.find(custom => custom.key === key);
+    compare(field?.label ?? key, student => {
+      const value = student.customFields?.[key];
+      return field ? formatCustomFieldValue(field, value) : value === undefined ? '' : String(value);
+    });
+  });
+
+  const previousEnrollments = new Map((before?.enrollments ?? []).map(e => [e.id, e]));
+  const nextEnrollments = new Map((after?.enrollments ?? []).map(e => [e.id, e]));
+
+  previousEnrollments.forEach((previous, id) => {
+    const next = nextEnrollments.get(id);
+    if (!next) {
+      diffs.push({ label: translate('history.enrollment'), before: describeEnrollment(courseMap, previous), after: '' });
+    } else if (next.courseId !== previous.courseId || next.status !== previous.status) {
+      diffs.push({
+        label: translate('history.enrollment'),
+        before: describeEnrollment(courseMap, previous),
+        after: describeEnrollment(courseMap, next),
+      });
+    }
+    if (next && next.courseId === previous.courseId) {
+      diffs.push(...diffScores(courseMap, previous, next));
+    }
+  });
+  nextEnrollments.forEach((next, id) => {
+    if (!previousEnrollments.has(id)) {
+      diffs.push({ label: translate('history.enrollment'), before: '', after: describeEnrollment(courseMap, next) });
+    }
+  });
+
+  return diffs;
+};
@@ -0,0 +1,168 @@
+// Tab sync - messaging and leader election between tabs of the same origin, without a server
+import { reviveDates } from './storage';
+
+/**
+ * A named channel every tab of the dashboard can post to
+ * Messages reach the other tabs only, never the one that posted them
+ */
+export interface TabChannel<M> {
+  post: (message: M) => void;
+  subscribe: (listener: (message: M) => void) => () => void;
+  close: () => void;
+}
+
+// localStorage keys of the fallbacks, next to the storage adapter's own keys
+const CHANNEL_PREFIX = 'student-dashboard:channel:';
+const LEASE_PREFIX = 'student-dashboard:leader:';
+
+// The lease fallback: the leader renews well before the lease runs out
+const LEASE_DURATION = 5000;
+const RENEW_INTERVAL = 2000;
+
+/**
+ * Opens a channel - BroadcastChannel where the browser has it, otherwise messages are
+ * written to localStorage, whose `storage` event fires in every other tab.
+ * BroadcastChannel clones messages structurally, so Dates arrive as Dates; the fallback
+ * goes through JSON and revives them
+ */
+export const createTabChannel = <M>(name: string): TabChannel<M> => {
+  const listeners = new Set<(message: M) => void>();
+  const deliver = (message: M) => listeners.forEach(listener => listener(message));
+  const subscribe = (listener: (message: M) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = event => deliver(event.data as M);
+    return {
+      post: message => channel.postMessage(message),
+      subscribe,
+      close: () => {
+        channel.close();
+        listeners.clear();
+      },
+    };
+  }
+
+  const key = `${CHANNEL_PREFIX}${name}`;
+  const onStorage = (event: StorageEvent) => {
+    // Removing the key right after posting fires a second event, without a value
+    if (event.key !== key || event.newValue === null) {
+      return;
+    }
+    try {
+      deliver((JSON.parse(event.newValue, reviveDates) as { message: M }).message);
+    } catch {
+      // Someone else's data under our key - not a message
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post: message => {
+      try {
+        // The id makes every post a change, so repeating a message still fires the event
+        window.localStorage.setItem(key, JSON.stringify({ id: crypto.randomUUID(), message }));
+        window.localStorage.removeItem(key);
+      } catch {
+        // No usable storage means no other tab to tell either
+      }
+    },
+    subscribe,
+    close: () => {
+      window.removeEventListener('storage', onStorage);
+      listeners.clear();
+    },
+  };
+};
+
+interface Lease {
+  holder: string;
+  expiresAt: number;
+}
+
+/**
+ * Lease-based election for browsers without Web Locks
+ * The leader renews a lease in localStorage; another tab takes over once it expires.
+ * Two tabs can claim an expired lease at the same moment - reading it back after the
+ * write settles who got it, except in the rare case both reads come before both writes
+ */
+const joinLeaseElection = (name: string, onChange: (isLeader: boolean) => void): (() => void) => {
+  const key = `${LEASE_PREFIX}${name}`;
+  const holder = crypto.randomUUID();
+  let isLeader = false;
+
+  const readLease = (): Lease | null => {
+    try {
+      return JSON.parse(window.localStorage.getItem(key) ?? 'null') as Lease | null;
+    } catch {
+      return null;
+    }
+  };
+
+  const check = () => {
+    let leads: boolean;
+    try {
+      const lease = readLease();
+      if (!lease || lease.holder === holder || lease.expiresAt < Date.now()) {
+        window.localStorage.setItem(key, JSON.stringify({ holder, expiresAt: Date.now() + LEASE_DURATION }));
+      }
+      leads = readLease()?.holder === holder;
+    } catch {
+      // Without storage there is no way to see other tabs; act as the only one
+      leads = true;
+    }
+    if (leads !== isLeader) {
+      isLeader = leads;
+      onChange(leads);
+    }
+  };
+
+  // Hand the lease over straight away rather than after it expires
+  const release = () => {
+    if (isLeader && readLease()?.holder === holder) {
+      window.localStorage.removeItem(key);
+    }
+  };
+
+  check();
+  const timer = window.setInterval(check, RENEW_INTERVAL);
+  window.addEventListener('pagehide', release);
+  return () => {
+    window.clearInterval(timer);
+    window.removeEventListener('pagehide', release);
+    release();
+  };
+};
+
+/**
+ * Elects one leader among the tabs that join under the same name, for work only one
+ * of them should do. With the Web Locks API the leader holds an exclusive lock until
+ * it leaves, and the browser passes it to the next tab in line even if the leader
+ * crashes; elsewhere a lease in localStorage does the same job more slowly.
+ * onChange reports this tab winning (and, with the lease, losing) the election.
+ * Returns a function that leaves the election
+ */
+export const joinLeaderElection = (name: string, onChange: (isLeader: boolean) => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return joinLeaseElection(name, onChange);
+  }
+
+  const controller = new AbortController();
+  navigator.locks
+    .request(`${LEASE_PREFIX}${name}`, { signal: controller.signal }, () => {
+      onChange(true);
+      // Held until the tab leaves the election
+      return new Promise<void>(resolve => {
+        controller.signal.addEventListener('abort', () => resolve(), { once: true });
+      });
+    })
+    .catch(() => {
+      // Aborted while still waiting in line
+    });
+  return () => controller.abort();
+};
@@ -0,0 +1,18 @@
+// Tag helpers - free-form labels attached to students
+
+/**
+ * Trims and collapses whitespace so "  Year 1 " and "Year  1" become the same tag
+ */
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ');
+
+/**
+ * Adds a tag unless an equal one (case-insensitive) is already present
+ */
+export const addTag = (tags: string[] | undefined, tag: string): string[] => {
+  const normalized = normalizeTag(tag);
+  const current = tags ?? [];
+  if (!normalized || current.some(existing => existing.toLowerCase() === normalized.toLowerCase())) {
+    return current;
+  }
+  return [...current, normalized];
+};
@@ -0,0 +1,158 @@
+// Theming - colour scheme preferences, design token values and contrast checks
+import { Theme, ThemePreference } from '../types';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['light', 'dark', 'system'];
+
+const THEME_STORAGE_KEY = 'student-dashboard:theme';
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_PREFERENCES.some(preference => preference === value);
+
+// Each user on a shared computer keeps their own choice; signed out uses its own slot
+const themeStorageKey = (userId: string | null) => `${THEME_STORAGE_KEY}:${userId ?? 'signed-out'}`;
+
+export const readThemePreference = (userId: string | null): ThemePreference => {
+  try {
+    const stored = window.localStorage.getItem(themeStorageKey(userId));
+    if (isThemePreference(stored)) {
+      return stored;
+    }
+  } catch {
+    // Storage can be unavailable (e.g. blocked cookies); follow the system
+  }
+  return 'system';
+};
+
+export const storeThemePreference = (userId: string | null, preference: ThemePreference): void => {
+  try {
+    window.localStorage.setItem(themeStorageKey(userId), preference);
+  } catch {
+    // Not remembered across reloads, but still applied to this one
+  }
+};
+
+export const resolveTheme = (preference: ThemePreference, systemPrefersDark: boolean): Theme =>
+  preference === 'system' ? (systemPrefersDark ? 'dark' : 'light') : preference;
+
+// ---------------------------------------------------------------------------
+// Colours
+// ---------------------------------------------------------------------------
+
+type Rgb = [number, number, number];
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+
+// Must match --color-surface in index.css
+const SURFACE: Record<Theme, Rgb> = { light: [255, 255, 255], dark: [23, 32, 48] };
+// The light theme's gray-900
+const DARK_TEXT: Rgb = [17, 24, 39];
+
+// WCAG 2.1 AA minimum for normal-size text
+export const MIN_TEXT_CONTRAST = 4.5;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: string): boolean => HEX_COLOR.test(value.trim());
+
+const parseHexColor = (hex: string): Rgb => {
+  let digits = hex.trim().slice(1);
+  if (digits.length === 3) {
+    digits = digits.split('').map(digit => digit + digit).join('');
+  }
+  return [0, 2, 4].map(start => parseInt(digits.slice(start, start + 2), 16)) as Rgb;
+};
+
+/**
+ * #rgb or #rrggbb (any case) as lower-case #rrggbb, the form colour inputs and settings use
+ */
+export const normalizeHexColor = (hex: string): string =>
+  `#${parseHexColor(hex).map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+
+// `weight` of the way from a to b
+const mix = (a: Rgb, b: Rgb, weight: number): Rgb =>
+  a.map((channel, i) => Math.round(channel + (b[i] - channel) * weight)) as Rgb;
+
+const relativeLuminance = (rgb: Rgb): number => {
+  const [r, g, b] = rgb.map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// 1 (identical) to 21 (black on white)
+const contrastRatio = (a: Rgb, b: Rgb): number => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// White or near-black, whichever reads better on the background
+const textOn = (background: Rgb): Rgb =>
+  contrastRatio(WHITE, background) >= contrastRatio(DARK_TEXT, background) ? WHITE : DARK_TEXT;
+
+export const PALETTE_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+/**
+ * The primary scale for one theme, from the brand colour as shade 600
+ * Lighter shades are tints towards white and darker ones shades towards black; the dark
+ * theme reverses the scale (pale badges become deep ones) and lightens its 600 - the shade
+ * used for buttons and links - until it stands out from the dark surface
+ */
+const primaryPalette = (color: string, theme: Theme): Rgb[] => {
+  const base = parseHexColor(color);
+  const light: Rgb[] = [
+    ...[0.95, 0.9, 0.75, 0.6, 0.4, 0.2].map(weight => mix(base, WHITE, weight)),
+    base,
+    ...[0.15, 0.3, 0.45].map(weight => mix(base, BLACK, weight)),
+  ];
+  if (theme === 'light') {
+    return light;
+  }
+
+  const dark = [...light].reverse();
+  let weight = 0.4;
+  while (weight < 1 && contrastRatio(mix(base, WHITE, weight), SURFACE.dark) < MIN_TEXT_CONTRAST) {
+    weight += 0.05;
+  }
+  dark[PALETTE_SHADES.indexOf(600)] = mix(base, WHITE, Math.min(weight, 1));
+  return dark;
+};
+
+/**
+ * CSS custom properties recolouring the primary tokens for a brand colour
+ * Values are bare channels ("37 99 235") so Tailwind can add opacity to them
+ */
+export const primaryColorVariables = (color: string, theme: Theme): Record<string, string> => {
+  const palette = primaryPalette(color, theme);
+  const variables: Record<string, string> = {};
+  PALETTE_SHADES.forEach((shade, i) => {
+    variables[`--color-primary-${shade}`] = palette[i].join(' ');
+  });
+  variables['--color-on-primary'] = textOn(palette[PALETTE_SHADES.indexOf(600)]).join(' ');
+  return variables;
+};
+
+export interface ContrastCheck {
+  theme: Theme;
+  // 'button': label text on a primary button; 'link': primary text on the page surface
+  usage: 'button' | 'link';
+  ratio: number;
+  passes: boolean;
+}
+
+/**
+ * Contrast of the text a brand colour produces, in both themes
+ */
+export const checkBrandContrast = (color: string): ContrastCheck[] =>
+  (['light', 'dark'] as Theme[]).flatMap(theme => {
+    const primary = primaryPalette(color, theme)[PALETTE_SHADES.indexOf(600)];
+    const pairs: [ContrastCheck['usage'], Rgb, Rgb][] = [
+      ['button', textOn(primary), primary],
+      ['link', primary, SURFACE[theme]],
+    ];
+    return pairs.map(([usage, foreground, background]) => {
+      const ratio = contrastRatio(foreground, background);
+      return { theme, usage, ratio, passes: ratio >= MIN_TEXT_CONTRAST };
+    });
+  });
@@ -1,5 +1,7 @@
 // Comprehensive validation utilities for form inputs
-import { StudentFormData, ValidationErrors } from '../types';
+import { Course, CourseFormData, CourseValidationErrors, CustomFieldDefinition, Student, StudentFormData, ValidationErrors } from '../types';
+import { validateCustomFields } from './customFields';
+import { translate } from './i18n';
 
 /**
  * Email validation using RFC 5322 compliant regex
@@ -13,29 +15,79 @@ export const isValidEmail = (email: string): boolean => {
 /**
  * Validates student form data and returns errors object
  * Demonstrates object destructuring, conditional logic, and error accumulation
+ * Custom fields are checked against the rules of their definitions; messages are in the active locale
  */
-export const validateStudent = (formData: StudentFormData): ValidationErrors => {
+export const validateStudent = (
+  formData: StudentFormData,
+  customFields: CustomFieldDefinition[] = []
+): ValidationErrors => {
   const errors: ValidationErrors = {};
   
   // Name validation - demonstrates string methods and logical operators
   if (!formData.name.trim()) {
-    errors.name = 'Name is required';
+    errors.name = translate('validation.nameRequired');
   } else if (formData.name.trim().length < 2) {
-    errors.name = 'Name must be at least 2 characters';
+    errors.name = translate('validation.nameTooShort', { min: 2 });
   } else if (formData.name.trim().length > 50) {
-    errors.name = 'Name must be less than 50 characters';
+    errors.name = translate('validation.nameTooLong', { max: 50 });
   }
   
   // Email validation - demonstrates function composition
   if (!formData.email.trim()) {
-    errors.email = 'Email is required';
+    errors.email = translate('validation.emailRequired');
   } else if (!isValidEmail(formData.email)) {
-    errors.email = 'Please enter a valid email address';
+    errors.email = translate('validation.emailInvalid');
   }
   
-  // Course validation - demonstrates type coercion and number validation
-  if (!formData.courseId || formData.courseId === '0') {
-    errors.courseId = 'Please select a course';
+  // Enrollment validation - demonstrates array methods and Set-based duplicate detection
+  const selectedCourseIds = formData.enrollments.map(enrollment => enrollment.courseId);
+  if (formData.enrollments.length === 0) {
+    errors.enrollments = translate('validation.enrollmentsRequired');
+  } else if (selectedCourseIds.some(courseId => !courseId || courseId === '0')) {
+    errors.enrollments = translate('validation.enrollmentCourseRequired');
+  } else if (new Set(selectedCourseIds).size !== selectedCourseIds.length) {
+    errors.enrollments = translate('validation.enrollmentDuplicate');
+  }
+  
+  const customFieldErrors = validateCustomFields(customFields, formData.customFields);
+  if (Object.keys(customFieldErrors).length > 0) {
+    errors.customFields = customFieldErrors;
+  }
+  
+  return errors;
+};
+
+/**
+ * Validates course form data, including uniqueness of the course code
+ * The optional excludeId lets a course keep its own code while being edited
+ */
+export const validateCourse = (
+  formData: CourseFormData,
+  existingCourses: Course[],
+  excludeId?: number
+): CourseValidationErrors => {
+  const errors: CourseValidationErrors = {};
+  
+  const name = formData.name.trim();
+  if (!name) {
+    errors.name = translate('validation.courseNameRequired');
+  } else if (name.length < 2) {
+    errors.name = translate('validation.courseNameTooShort', { min: 2 });
+  } else if (name.length > 60) {
+    errors.name = translate('validation.courseNameTooLong', { max: 60 });
+  }
+  
+  const code = formData.code.trim();
+  if (!code) {
+    errors.code = translate('validation.courseCodeRequired');
+  } else if (!/^[A-Za-z0-9-]{2,12}$/.test(code)) {
+    errors.code = translate('validation.courseCodeFormat');
+  } else if (existingCourses.some(c => c.id !== excludeId && c.code.toLowerCase() === code.toLowerCase())) {
+    errors.code = translate('validation.courseCodeTaken');
+  }
+  
+  if (formData.instructor.trim().length > 60) {
+    errors.instructor = translate('validation.instructorTooLong', { max: 60 });
   }
   
   return errors;
@@ -45,6 +97,17 @@ export const validateStudent = (formData: StudentFormData): ValidationErrors =>
  * Checks if validation errors object is empty
  * Demonstrates Object.keys() and array methods
  */
-export const hasValidationErrors = (errors: ValidationErrors): boolean => {
+export const hasValidationErrors = (errors: ValidationErrors | CourseValidationErrors): boolean => {
   return Object.keys(errors).length > 0;
-};
\ No newline at end of file
+};
+
+/**
+ * Checks whether an email is already used by another student (case-insensitive)
+ * The optional excludeId lets an edited student keep its own address
+ */
+export const isDuplicateEmail = (email: string, students: Student[], excludeId?: string): boolean => {
+  const normalized = email.trim().toLowerCase();
+  return students.some(student =>
+    student.id !== excludeId && student.email.trim().toLowerCase() === normalized
+  );
+};
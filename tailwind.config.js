@@ -1,8 +1,24 @@
+// Colours that change with the theme or the institution's branding are CSS variables (see index.css)
+const token = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+const scale = (name) =>
+  Object.fromEntries([50, 100, 200, 300, 400, 500, 600, 700, 800, 900].map((shade) => [shade, token(`${name}-${shade}`)]));
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  // ThemeProvider sets data-theme on <html>; dark: is only for the few fixed colours that need it
+  darkMode: ['selector', '[data-theme="dark"]'],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        gray: scale('gray'),
+        primary: scale('primary'),
+        // Cards, panels and dialogs
+        surface: token('surface'),
+        // Text and icons on primary-600 backgrounds
+        'on-primary': token('on-primary'),
+      },
+    },
   },
   plugins: [],
 };